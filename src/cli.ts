@@ -0,0 +1,107 @@
+/**
+ * Command-line subcommands
+ *
+ * Usage:
+ *   skills-mcp-local pack <skill-name|skill-dir> [--output <file>] [--format tgz|zip]
+ *   skills-mcp-local index <marketplace-dir> [--output <file>]
+ *
+ * Any other invocation starts the MCP server.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { SkillDiscoveryManager } from './managers/skill-discovery.js';
+import { ConfigManager } from './managers/config.js';
+import { getDefaultBundleFilename } from './tools/pack.js';
+import { getFlag } from './server/options.js';
+import { packSkill } from './utils/bundle.js';
+import { buildMarketplaceIndex, MARKETPLACE_INDEX_FILENAME } from './utils/marketplace-index.js';
+
+/**
+ * Resolve a pack target: a directory containing SKILL.md, or the name of an installed skill
+ */
+async function resolveSkillDir(target: string): Promise<string | null> {
+  try {
+    await fs.access(path.join(target, 'SKILL.md'));
+    return path.resolve(target);
+  } catch {
+    // Not a skill directory, try as a skill name
+  }
+
+  const skills = await new SkillDiscoveryManager(new ConfigManager()).discoverAllSkills();
+  return skills.find(s => s.metadata.name === target)?.location ?? null;
+}
+
+/**
+ * skills-mcp-local pack
+ */
+async function runPack(args: string[]): Promise<number> {
+  const target = args[0];
+  if (!target || target.startsWith('--')) {
+    process.stderr.write('Usage: skills-mcp-local pack <skill-name|skill-dir> [--output <file>] [--format tgz|zip]\n');
+    return 1;
+  }
+
+  const format = getFlag(args, 'format') ?? 'tgz';
+  if (format !== 'tgz' && format !== 'zip') {
+    process.stderr.write(`Invalid format "${format}". Expected "tgz" or "zip"\n`);
+    return 1;
+  }
+
+  const skillDir = await resolveSkillDir(target);
+  if (!skillDir) {
+    process.stderr.write(`Skill "${target}" not found\n`);
+    return 1;
+  }
+
+  const output = getFlag(args, 'output')
+    ?? path.join(process.cwd(), getDefaultBundleFilename(path.basename(skillDir), format));
+
+  const manifest = await packSkill(skillDir, output, format);
+  process.stdout.write(`Packed "${manifest.name}" (${manifest.files.length} files) to ${path.resolve(output)}\n`);
+  return 0;
+}
+
+/**
+ * skills-mcp-local index
+ */
+async function runIndex(args: string[]): Promise<number> {
+  const marketplaceDir = args[0];
+  if (!marketplaceDir || marketplaceDir.startsWith('--')) {
+    process.stderr.write('Usage: skills-mcp-local index <marketplace-dir> [--output <file>]\n');
+    return 1;
+  }
+
+  const index = await buildMarketplaceIndex(marketplaceDir);
+  const output = path.resolve(getFlag(args, 'output') ?? path.join(marketplaceDir, MARKETPLACE_INDEX_FILENAME));
+
+  await fs.writeFile(output, JSON.stringify(index, null, 2) + '\n', 'utf-8');
+  process.stdout.write(`Indexed ${index.skills.length} skills to ${output}\n`);
+  return 0;
+}
+
+/** Subcommands by name */
+const COMMANDS = new Map<string, (args: string[]) => Promise<number>>([
+  ['pack', runPack],
+  ['index', runIndex],
+]);
+
+/**
+ * Run a CLI subcommand if argv names one
+ *
+ * @param argv - CLI arguments (without node and script path)
+ * @returns Exit code, or null if argv does not name a subcommand
+ */
+export async function runCli(argv: string[]): Promise<number | null> {
+  const command = COMMANDS.get(argv[0]);
+  if (!command) {
+    return null;
+  }
+
+  try {
+    return await command(argv.slice(1));
+  } catch (err) {
+    process.stderr.write(`Error: ${err instanceof Error ? err.message : String(err)}\n`);
+    return 1;
+  }
+}
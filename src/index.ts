@@ -7,12 +7,21 @@
  * new skills from marketplaces, and managing skill installations.
  */
 
+import { runCli } from './cli.js';
 import { startServer } from './server/index.js';
+import { parseServerOptions } from './server/options.js';
 import logger from './utils/logger.js';
 
 async function main(): Promise<void> {
+  const argv = process.argv.slice(2);
+
+  const exitCode = await runCli(argv);
+  if (exitCode !== null) {
+    process.exit(exitCode);
+  }
+
   try {
-    await startServer();
+    await startServer(parseServerOptions(argv));
   } catch (err) {
     logger.error('Failed to start server', {
       error: err instanceof Error ? err.message : String(err),
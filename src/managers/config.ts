@@ -1,18 +1,47 @@
 import fs from 'fs/promises';
 import path from 'path';
-import { MarketplaceConfig } from '../types/index.js';
-import { getConfigPath } from '../utils/paths.js';
+import {
+  GitHubAuthConfig,
+  MarketplaceConfig,
+  MarketplaceProviderType,
+  RiskLevel,
+  SearchPath,
+  SearchPathConfig,
+} from '../types/index.js';
+import {
+  expandPath,
+  getConfigPath,
+  getDefaultInstallPath,
+  getDefaultSearchPathConfig,
+  isReadOnlySearchPath,
+} from '../utils/paths.js';
+import { RISK_LEVELS } from '../utils/security-scan.js';
+import { DEFAULT_SCRIPT_ENV } from '../utils/script-runner.js';
 import logger from '../utils/logger.js';
 
 /** Default marketplace URL */
 export const DEFAULT_MARKETPLACE = 'https://github.com/anthropics/skills/tree/main/skills';
 
+/** Default marketplace cache TTL in minutes */
+export const DEFAULT_CACHE_TTL_MINUTES = 60;
+
+/** Default number of previous versions kept per skill */
+export const DEFAULT_KEEP_VERSIONS = 3;
+
 /** Current config version */
 const CONFIG_VERSION = '1.0';
 
+/**
+ * Check that a config entry is a usable search path
+ */
+function isSearchPathConfig(entry: unknown): entry is SearchPathConfig {
+  return typeof entry === 'object' && entry !== null
+    && typeof (entry as SearchPathConfig).path === 'string' && (entry as SearchPathConfig).path.length > 0;
+}
+
 /**
  * Manager for configuration persistence
- * Handles marketplace URL configuration
+ * Handles marketplace URL, search path and install location configuration
  */
 export class ConfigManager {
   private configPath: string;
@@ -77,22 +106,153 @@ export class ConfigManager {
   }
 
   /**
-   * Add a marketplace URL
-   * Duplicates are ignored
+   * Get the explicitly configured provider for a marketplace URL
+   * Returns undefined when the provider should be auto-detected
+   */
+  async getMarketplaceProvider(url: string): Promise<MarketplaceProviderType | undefined> {
+    const config = await this.loadConfig();
+    return config.providers?.[url];
+  }
+
+  /**
+   * Get GitHub authentication settings
+   * Tokens are only ever read from the config file; no tool writes them.
+   */
+  async getGitHubAuth(): Promise<GitHubAuthConfig> {
+    const config = await this.loadConfig();
+    return config.github ?? {};
+  }
+
+  /**
+   * Get how long cached marketplace listings stay fresh
+   *
+   * @returns TTL in milliseconds
+   */
+  async getCacheTtlMs(): Promise<number> {
+    const config = await this.loadConfig();
+    const minutes = config.cacheTtlMinutes;
+    if (typeof minutes !== 'number' || !Number.isFinite(minutes) || minutes < 0) {
+      return DEFAULT_CACHE_TTL_MINUTES * 60 * 1000;
+    }
+    return minutes * 60 * 1000;
+  }
+
+  /**
+   * Get how many previous versions to keep per skill
+   *
+   * @returns Non-negative integer (0 disables rollback)
+   */
+  async getKeepVersions(): Promise<number> {
+    const config = await this.loadConfig();
+    const keep = config.keepVersions;
+    if (typeof keep !== 'number' || !Number.isInteger(keep) || keep < 0) {
+      return DEFAULT_KEEP_VERSIONS;
+    }
+    return keep;
+  }
+
+  /**
+   * Get the highest risk level the pre-install security review lets through
+   *
+   * @returns Configured level, or high (nothing blocked) when unset or invalid
+   */
+  async getMaxInstallRisk(): Promise<RiskLevel> {
+    const config = await this.loadConfig();
+    const level = config.maxInstallRisk;
+    return level && RISK_LEVELS.includes(level) ? level : 'high';
+  }
+
+  /**
+   * Get the environment variables skills_run_script passes to scripts
+   *
+   * @returns Default names plus any configured in scriptEnv
+   */
+  async getScriptEnvAllowlist(): Promise<string[]> {
+    const config = await this.loadConfig();
+    const extra = Array.isArray(config.scriptEnv)
+      ? config.scriptEnv.filter((name): name is string => typeof name === 'string' && name.length > 0)
+      : [];
+    return [...new Set([...DEFAULT_SCRIPT_ENV, ...extra])];
+  }
+
+  /**
+   * Get the configured offline mode
+   *
+   * @returns true to force offline, false to disable auto-detection, undefined to auto-detect
+   */
+  async getOfflineMode(): Promise<boolean | undefined> {
+    const config = await this.loadConfig();
+    return typeof config.offline === 'boolean' ? config.offline : undefined;
+  }
+
+  /**
+   * Get the allowed_signers file that must have signed a marketplace's index
+   *
+   * @param url - Marketplace URL
+   * @returns Path of the allowed_signers file, or undefined if signatures aren't required
+   */
+  async getAllowedSigners(url: string): Promise<string | undefined> {
+    const config = await this.loadConfig();
+    const signers = config.signers?.[url];
+    return signers ? expandPath(signers) : undefined;
+  }
+
+  /**
+   * Get the skill search paths in priority order
+   * System-wide paths such as /usr/local/share/skills are always read-only.
+   *
+   * @returns Configured paths (or the built-in list), expanded and without duplicates
+   */
+  async getSearchPaths(): Promise<SearchPath[]> {
+    const entries = this.getSearchPathEntries(await this.loadConfig());
+    const searchPaths: SearchPath[] = [];
+
+    for (const entry of entries) {
+      const resolved = expandPath(entry.path);
+      if (!searchPaths.some(p => p.path === resolved)) {
+        searchPaths.push({ path: resolved, readOnly: entry.readOnly === true || isReadOnlySearchPath(resolved) });
+      }
+    }
+    return searchPaths;
+  }
+
+  /**
+   * Get the directory skills_install installs into
+   *
+   * @returns Configured install path, or ~/skills when unset
+   */
+  async getInstallPath(): Promise<string> {
+    const config = await this.loadConfig();
+    return typeof config.installPath === 'string' && config.installPath.length > 0
+      ? expandPath(config.installPath)
+      : getDefaultInstallPath();
+  }
+
+  /**
+   * Add a marketplace URL, optionally pinning the provider used to read it
+   * Adding an existing URL only updates its provider
    */
-  async addMarketplace(url: string): Promise<void> {
+  async addMarketplace(url: string, provider?: MarketplaceProviderType): Promise<void> {
     const config = await this.loadConfig();
+    const exists = config.marketplaces.includes(url);
 
     // Check for duplicates
-    if (config.marketplaces.includes(url)) {
+    if (exists && (!provider || config.providers?.[url] === provider)) {
       logger.debug('Marketplace already exists', { url });
       return;
     }
 
-    config.marketplaces.push(url);
+    if (!exists) {
+      config.marketplaces.push(url);
+    }
+
+    if (provider) {
+      config.providers = { ...config.providers, [url]: provider };
+    }
+
     await this.saveConfig(config);
 
-    logger.info('Marketplace added', { url });
+    logger.info('Marketplace added', { url, provider });
   }
 
   /**
@@ -115,6 +275,12 @@ export class ConfigManager {
     }
 
     config.marketplaces.splice(index, 1);
+    if (config.providers) {
+      delete config.providers[url];
+    }
+    if (config.signers) {
+      delete config.signers[url];
+    }
     await this.saveConfig(config);
 
     logger.info('Marketplace removed', { url });
@@ -125,11 +291,140 @@ export class ConfigManager {
    */
   async resetMarketplaces(): Promise<void> {
     const config: MarketplaceConfig = {
+      ...(await this.loadConfig()),
       version: CONFIG_VERSION,
       marketplaces: [DEFAULT_MARKETPLACE],
     };
+    delete config.providers;
+    delete config.signers;
 
     await this.saveConfig(config);
     logger.info('Marketplaces reset to default');
   }
+
+  /**
+   * Add a search path, or change the position or read-only flag of an existing one
+   *
+   * @param searchPath - Directory to search for skills
+   * @param options - Zero-based position (default: last for new paths) and read-only flag
+   * @throws Error if the install path would become read-only
+   */
+  async addSearchPath(searchPath: string, options: { index?: number; readOnly?: boolean } = {}): Promise<void> {
+    const config = await this.loadConfig();
+    const entries = this.getSearchPathEntries(config);
+    const resolved = expandPath(searchPath);
+    const existing = entries.findIndex(e => expandPath(e.path) === resolved);
+
+    if (options.readOnly && resolved === await this.getInstallPath()) {
+      throw new Error(`${resolved} is the install path and can't be read-only. Set a different install path first.`);
+    }
+
+    const entry: SearchPathConfig = existing === -1 ? { path: searchPath } : entries.splice(existing, 1)[0];
+    if (options.readOnly !== undefined) {
+      if (options.readOnly) {
+        entry.readOnly = true;
+      } else {
+        delete entry.readOnly;
+      }
+    }
+
+    const index = options.index ?? (existing === -1 ? entries.length : existing);
+    entries.splice(Math.max(0, Math.min(index, entries.length)), 0, entry);
+
+    config.searchPaths = entries;
+    await this.saveConfig(config);
+
+    logger.info(existing === -1 ? 'Search path added' : 'Search path updated', { path: searchPath, index, readOnly: entry.readOnly });
+  }
+
+  /**
+   * Move a configured search path to a new position
+   *
+   * @param searchPath - Directory already in the search paths
+   * @param index - Zero-based position (0 is searched first)
+   * @throws Error if the path is not a search path
+   */
+  async moveSearchPath(searchPath: string, index: number): Promise<void> {
+    const config = await this.loadConfig();
+    const resolved = expandPath(searchPath);
+    if (!this.getSearchPathEntries(config).some(e => expandPath(e.path) === resolved)) {
+      throw new Error(`${searchPath} is not a search path`);
+    }
+    await this.addSearchPath(searchPath, { index });
+  }
+
+  /**
+   * Remove a search path (skills in it stay on disk but are no longer found)
+   *
+   * @throws Error if the path is not a search path or is the install path
+   */
+  async removeSearchPath(searchPath: string): Promise<void> {
+    const config = await this.loadConfig();
+    const entries = this.getSearchPathEntries(config);
+    const resolved = expandPath(searchPath);
+    const index = entries.findIndex(e => expandPath(e.path) === resolved);
+
+    if (index === -1) {
+      throw new Error(`${searchPath} is not a search path`);
+    }
+    if (resolved === await this.getInstallPath()) {
+      throw new Error(`${resolved} is the install path. Set a different install path before removing it.`);
+    }
+
+    entries.splice(index, 1);
+    config.searchPaths = entries;
+    await this.saveConfig(config);
+
+    logger.info('Search path removed', { path: searchPath });
+  }
+
+  /**
+   * Set the directory skills_install installs into
+   * The directory is added to the search paths (first) if it isn't one yet.
+   *
+   * @param installPath - New install directory, or undefined for the default (~/skills)
+   * @throws Error if the directory is a read-only search path
+   */
+  async setInstallPath(installPath?: string): Promise<void> {
+    const resolved = installPath ? expandPath(installPath) : getDefaultInstallPath();
+    const current = (await this.getSearchPaths()).find(p => p.path === resolved);
+
+    if (current?.readOnly) {
+      throw new Error(`${resolved} is a read-only search path and can't be the install path`);
+    }
+    if (!current) {
+      await this.addSearchPath(installPath ?? resolved, { index: 0 });
+    }
+
+    const config = await this.loadConfig();
+    if (installPath) {
+      config.installPath = installPath;
+    } else {
+      delete config.installPath;
+    }
+    await this.saveConfig(config);
+
+    logger.info('Install path set', { path: resolved });
+  }
+
+  /**
+   * Reset search paths and the install path to the built-in defaults
+   */
+  async resetSearchPaths(): Promise<void> {
+    const config: MarketplaceConfig = { ...(await this.loadConfig()) };
+    delete config.searchPaths;
+    delete config.installPath;
+
+    await this.saveConfig(config);
+    logger.info('Search paths reset to default');
+  }
+
+  /**
+   * Configured search path entries (or a copy of the built-in list)
+   */
+  private getSearchPathEntries(config: MarketplaceConfig): SearchPathConfig[] {
+    return Array.isArray(config.searchPaths)
+      ? config.searchPaths.filter(isSearchPathConfig).map(e => ({ ...e }))
+      : getDefaultSearchPathConfig();
+  }
 }
@@ -0,0 +1,144 @@
+/**
+ * Dependency Resolver
+ *
+ * Works out which skills must be installed alongside a skill so that every
+ * dependency declared in frontmatter is met, and reports cycles, version or
+ * marketplace conflicts, and dependencies no marketplace provides.
+ */
+
+import {
+  DependencyIssue,
+  DependencyPlan,
+  InstalledSkill,
+  MarketplaceSkill,
+  SkillDependency,
+  SkillMetadata,
+} from '../types/index.js';
+import { compareSemver, parseSemver } from '../utils/semver.js';
+import { MarketplaceManager } from './marketplace.js';
+
+/**
+ * Whether a skill has the version a dependency asks for
+ * Semantic versions are compared by precedence, so v1.0.0 matches 1.0.0.
+ */
+function hasVersion(metadata: SkillMetadata, required: string): boolean {
+  if (!metadata.version) {
+    return false;
+  }
+
+  const actual = parseSemver(metadata.version);
+  const wanted = parseSemver(required);
+  return actual && wanted ? compareSemver(actual, wanted) === 0 : metadata.version === required;
+}
+
+/**
+ * Format a dependency for messages (name@version)
+ */
+function formatDependency(dep: SkillDependency): string {
+  return dep.version ? `${dep.name}@${dep.version}` : dep.name;
+}
+
+/**
+ * Resolves skill dependency graphs against installed and marketplace skills
+ */
+export class DependencyResolver {
+  constructor(private marketplaceManager: MarketplaceManager) {}
+
+  /**
+   * Find the skills to install for a skill's dependencies
+   * Installed dependencies are trusted to have their own dependencies met.
+   *
+   * @param root - Skill being installed
+   * @param available - Skills in the configured marketplaces
+   * @param installed - Skills already installed
+   * @returns Install order, dependencies already met, and any problems
+   */
+  async resolve(
+    root: MarketplaceSkill,
+    available: MarketplaceSkill[],
+    installed: InstalledSkill[]
+  ): Promise<DependencyPlan> {
+    const plan: DependencyPlan = { install: [], satisfied: [], issues: [] };
+    // First requirement seen for each dependency, to compare later ones with
+    const required = new Map<string, { dep: SkillDependency; by: string }>();
+
+    const addIssue = (type: DependencyIssue['type'], skill: string, message: string): void => {
+      plan.issues.push({ type, skill, message });
+    };
+
+    const visit = async (skill: MarketplaceSkill, stack: string[]): Promise<void> => {
+      const dependent = skill.metadata.name;
+
+      for (const dep of skill.metadata.dependencies ?? []) {
+        if (stack.includes(dep.name)) {
+          addIssue('cycle', dep.name, `Dependency cycle: ${[...stack, dep.name].join(' → ')}`);
+          continue;
+        }
+
+        const previous = required.get(dep.name);
+        if (previous) {
+          if (previous.dep.version && dep.version && previous.dep.version !== dep.version) {
+            addIssue('conflict', dep.name,
+              `${previous.by} needs ${formatDependency(previous.dep)} but ${dependent} needs ${formatDependency(dep)}`);
+          }
+          if (previous.dep.marketplace && dep.marketplace && previous.dep.marketplace !== dep.marketplace) {
+            addIssue('conflict', dep.name,
+              `${previous.by} needs ${dep.name} from ${previous.dep.marketplace} but ${dependent} needs it from ${dep.marketplace}`);
+          }
+          continue;
+        }
+        required.set(dep.name, { dep, by: dependent });
+
+        const installedSkill = installed.find(s => s.metadata.name === dep.name);
+        if (installedSkill) {
+          if (dep.version && !hasVersion(installedSkill.metadata, dep.version)) {
+            addIssue('conflict', dep.name,
+              `${dependent} needs ${formatDependency(dep)} but version ${installedSkill.metadata.version ?? '(none)'} is installed`);
+          } else {
+            plan.satisfied.push(dep.name);
+          }
+          continue;
+        }
+
+        const candidate = await this.findCandidate(dep, available);
+        if (!candidate) {
+          const where = dep.marketplace ?? 'the configured marketplaces';
+          addIssue('missing', dep.name, `${dependent} needs ${dep.name}, which was not found in ${where}`);
+          continue;
+        }
+
+        if (dep.version && !hasVersion(candidate.metadata, dep.version)) {
+          addIssue('conflict', dep.name,
+            `${dependent} needs ${formatDependency(dep)} but ${candidate.marketplaceUrl} has version ${candidate.metadata.version ?? '(none)'}`);
+          continue;
+        }
+
+        await visit(candidate, [...stack, dep.name]);
+        plan.install.push(candidate);
+      }
+    };
+
+    await visit(root, [root.metadata.name]);
+    return plan;
+  }
+
+  /**
+   * Find a dependency in its declared marketplace, or in the configured ones
+   */
+  private async findCandidate(
+    dep: SkillDependency,
+    available: MarketplaceSkill[]
+  ): Promise<MarketplaceSkill | undefined> {
+    if (!dep.marketplace) {
+      return available.find(s => s.metadata.name === dep.name);
+    }
+
+    const listed = available.find(s => s.metadata.name === dep.name && s.marketplaceUrl === dep.marketplace);
+    if (listed) {
+      return listed;
+    }
+
+    const { skills } = await this.marketplaceManager.fetchMarketplace(dep.marketplace);
+    return skills.find(s => s.metadata.name === dep.name);
+  }
+}
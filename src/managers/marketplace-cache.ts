@@ -0,0 +1,100 @@
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { CacheValidator, MarketplaceSkill } from '../types/index.js';
+import { getCacheDir } from '../utils/paths.js';
+import logger from '../utils/logger.js';
+
+/** Cache file format version (bump to invalidate old entries) */
+const CACHE_VERSION = 3;
+
+/**
+ * Cached listing of one marketplace
+ */
+export interface MarketplaceCacheEntry {
+  /** Marketplace URL */
+  url: string;
+  /** Skills found in the marketplace */
+  skills: MarketplaceSkill[];
+  /** When the listing was last fetched or revalidated (ms since epoch) */
+  fetchedAt: number;
+  /** Validator for conditional revalidation (absent if the provider has none) */
+  validator?: CacheValidator;
+}
+
+/**
+ * Disk-backed cache of marketplace listings
+ * One JSON file per marketplace, so restarts don't re-crawl every marketplace.
+ */
+export class MarketplaceCache {
+  private cacheDir: string;
+
+  constructor(cacheDir?: string) {
+    this.cacheDir = cacheDir ?? getCacheDir();
+  }
+
+  /**
+   * Path of the cache file for a marketplace URL
+   */
+  private getEntryPath(url: string): string {
+    const key = createHash('sha256').update(url).digest('hex').slice(0, 32);
+    return path.join(this.cacheDir, `marketplace-${key}.json`);
+  }
+
+  /**
+   * Read the cached listing for a marketplace
+   *
+   * @param url - Marketplace URL
+   * @returns Cached entry, or null if missing, unreadable or from another cache version
+   */
+  async get(url: string): Promise<MarketplaceCacheEntry | null> {
+    try {
+      const content = await fs.readFile(this.getEntryPath(url), 'utf-8');
+      const data = JSON.parse(content) as MarketplaceCacheEntry & { version?: number };
+
+      if (data.version !== CACHE_VERSION || data.url !== url || !Array.isArray(data.skills)) {
+        return null;
+      }
+
+      return {
+        url: data.url,
+        skills: data.skills,
+        fetchedAt: data.fetchedAt,
+        ...(data.validator ? { validator: data.validator } : {}),
+      };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Store the listing for a marketplace
+   * Written to a temp file and renamed so readers never see partial JSON.
+   *
+   * @param entry - Entry to store
+   */
+  async set(entry: MarketplaceCacheEntry): Promise<void> {
+    const entryPath = this.getEntryPath(entry.url);
+    const tempPath = `${entryPath}.${process.pid}.tmp`;
+
+    try {
+      await fs.mkdir(this.cacheDir, { recursive: true });
+      await fs.writeFile(tempPath, JSON.stringify({ version: CACHE_VERSION, ...entry }), 'utf-8');
+      await fs.rename(tempPath, entryPath);
+    } catch (err) {
+      // The cache is an optimization; failing to write it must not fail discovery
+      logger.warn('Failed to write marketplace cache', {
+        url: entry.url,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      await fs.rm(tempPath, { force: true });
+    }
+  }
+
+  /**
+   * Remove every cached listing
+   */
+  async clear(): Promise<void> {
+    await fs.rm(this.cacheDir, { recursive: true, force: true });
+  }
+}
@@ -1,207 +1,334 @@
-import { MarketplaceSkill, SkillSource, SkillUpdateStatus } from '../types/index.js';
+import {
+  CacheValidator,
+  IntegrityCheck,
+  ConnectivityStatus,
+  MarketplaceFetchError,
+  MarketplaceFetchResult,
+  MarketplaceProvider,
+  MarketplaceSkill,
+  SkillCommit,
+  SkillDownloadResult,
+  SkillSource,
+  SkillUpdateStatus,
+} from '../types/index.js';
 import { parseSkillFrontmatter } from '../utils/yaml-parser.js';
+import {
+  MARKETPLACE_INDEX_FILENAME,
+  MARKETPLACE_INDEX_SIGNATURE_FILENAME,
+  parseMarketplaceIndex,
+} from '../utils/marketplace-index.js';
+import { INDEX_SIGNATURE_NAMESPACE, verifySshSignature } from '../utils/signature.js';
+import { createProviders, detectProvider, getProviderByType } from '../providers/index.js';
+import { ConfigManager, DEFAULT_CACHE_TTL_MINUTES } from './config.js';
+import { MarketplaceCache } from './marketplace-cache.js';
+import { canResolveHost, getMarketplaceHost, isNetworkError } from '../utils/network.js';
+import { getVersionChange, isChangeAllowed, parseSemver } from '../utils/semver.js';
 import logger from '../utils/logger.js';
 
-/**
- * Parsed GitHub URL components
- */
-export interface GitHubUrlParts {
-  owner: string;
-  repo: string;
-  branch: string;
-  path: string;
-}
+export { parseGitHubUrl } from '../providers/index.js';
+export type { GitHubUrlParts } from '../providers/index.js';
 
-/** GitHub API base URL */
-const GITHUB_API_BASE = 'https://api.github.com';
+/** How long an auto-detected offline state is trusted before the network is tried again (ms) */
+const OFFLINE_RECHECK_MS = 60 * 1000;
 
-/** Raw GitHub content base URL */
-const GITHUB_RAW_BASE = 'https://raw.githubusercontent.com';
-
-/** Cache duration in milliseconds (1 hour) */
-const CACHE_DURATION_MS = 60 * 60 * 1000;
+/** Error reported for remote marketplaces while offline */
+export const OFFLINE_ERROR = 'Offline: marketplace not contacted';
 
 /**
- * Simple in-memory cache for marketplace data
+ * Format marketplace errors as a text block appended to tool output
+ *
+ * @param errors - Marketplaces that could not be read
+ * @returns Text starting with a blank line, or '' if no marketplace failed
  */
-interface CacheEntry {
-  skills: MarketplaceSkill[];
-  timestamp: number;
-}
+export function formatMarketplaceErrors(errors: MarketplaceFetchError[]): string {
+  if (errors.length === 0) {
+    return '';
+  }
 
-const marketplaceCache = new Map<string, CacheEntry>();
+  const lines = errors.map(e => `- ${e.url}: ${e.error}${e.stale ? ' (showing cached results)' : ''}`);
+  return `\n\nSome marketplaces could not be read:\n${lines.join('\n')}`;
+}
 
 /**
- * Parse a GitHub tree URL into its components
+ * Format a notice that marketplace results came from the cache while offline
  *
- * @param url - GitHub URL like https://github.com/owner/repo/tree/branch/path
- * @returns Parsed components or null if invalid
+ * @param status - Connectivity status returned by fetchAllMarketplaces
+ * @returns Text starting with a blank line, or '' when online
  */
-export function parseGitHubUrl(url: string): GitHubUrlParts | null {
-  try {
-    const urlObj = new URL(url);
+export function formatOfflineNotice(status: ConnectivityStatus): string {
+  return status === 'offline'
+    ? '\n\nOffline: showing cached marketplace listings, which may be out of date.'
+    : '';
+}
 
-    // Must be github.com
-    if (urlObj.hostname !== 'github.com') {
-      return null;
+/**
+ * Manager for fetching skills from marketplace(s)
+ */
+export class MarketplaceManager {
+  private providers: MarketplaceProvider[];
+  /** Last error per marketplace URL and skill path from getLatestCommit */
+  private revisionErrors = new Map<string, string>();
+  /** Auto-detected offline state lasts until this time (ms since epoch) */
+  private offlineUntil = 0;
+
+  constructor(
+    private configManager?: ConfigManager,
+    private cache: MarketplaceCache = new MarketplaceCache()
+  ) {
+    this.providers = createProviders(configManager);
+  }
+
+  /**
+   * Resolve the provider for a marketplace URL
+   * An explicit provider in the config wins over auto-detection.
+   *
+   * @param marketplaceUrl - Marketplace URL
+   * @returns Provider or null if no provider handles the URL
+   */
+  async getProvider(marketplaceUrl: string): Promise<MarketplaceProvider | null> {
+    const configured = await this.configManager?.getMarketplaceProvider(marketplaceUrl);
+    if (configured) {
+      return getProviderByType(configured, this.providers);
     }
 
-    // Parse path: /owner/repo/tree/branch/path
-    const pathParts = urlObj.pathname.split('/').filter(Boolean);
+    return detectProvider(marketplaceUrl, this.providers);
+  }
 
-    // Need at least owner/repo/tree/branch
-    if (pathParts.length < 4 || pathParts[2] !== 'tree') {
-      return null;
+  /**
+   * Whether remote marketplaces should be answered from the cache
+   * The config's offline setting wins; otherwise offline mode is entered
+   * automatically after a network failure and retried after a minute.
+   *
+   * @param marketplaceUrl - Only check this marketplace (local directories are never offline)
+   */
+  async isOffline(marketplaceUrl?: string): Promise<boolean> {
+    if (marketplaceUrl && (await this.getProvider(marketplaceUrl))?.type === 'local') {
+      return false;
     }
 
-    const [owner, repo, , branch, ...restPath] = pathParts;
+    const configured = await this.configManager?.getOfflineMode();
+    if (configured !== undefined) {
+      return configured;
+    }
 
-    return {
-      owner,
-      repo,
-      branch,
-      path: restPath.join('/'),
-    };
-  } catch {
-    return null;
+    return Date.now() < this.offlineUntil;
   }
-}
-
-/**
- * Fetch directory contents from GitHub API
- */
-async function fetchGitHubDirectory(
-  owner: string,
-  repo: string,
-  path: string
-): Promise<Array<{ name: string; type: string }>> {
-  const apiUrl = path
-    ? `${GITHUB_API_BASE}/repos/${owner}/${repo}/contents/${path}`
-    : `${GITHUB_API_BASE}/repos/${owner}/${repo}/contents`;
-
-  try {
-    const response = await fetch(apiUrl, {
-      headers: {
-        Accept: 'application/vnd.github.v3+json',
-        'User-Agent': 'skills-mcp-local',
-      },
-    });
 
-    if (!response.ok) {
-      logger.warn('GitHub API request failed', {
-        url: apiUrl,
-        status: response.status,
-      });
-      return [];
+  /**
+   * Probe whether the hosts of remote marketplaces resolve
+   * Used at startup so update checks are skipped without waiting on timeouts.
+   *
+   * @param marketplaceUrls - Marketplaces whose hosts to look up
+   * @returns True if offline (configured, or no host resolved)
+   */
+  async detectOffline(marketplaceUrls: string[]): Promise<boolean> {
+    const configured = await this.configManager?.getOfflineMode();
+    if (configured !== undefined) {
+      return configured;
     }
 
-    const data = await response.json();
+    const hosts = [...new Set(marketplaceUrls.map(getMarketplaceHost).filter((h): h is string => h !== null))];
+    if (hosts.length === 0) {
+      return false;
+    }
 
-    if (!Array.isArray(data)) {
-      return [];
+    const resolved = await Promise.all(hosts.map(canResolveHost));
+    if (resolved.some(Boolean)) {
+      this.offlineUntil = 0;
+      return false;
     }
 
-    return data.map((item: { name: string; type: string }) => ({
-      name: item.name,
-      type: item.type,
-    }));
-  } catch (err) {
-    logger.error('Error fetching GitHub directory', {
-      url: apiUrl,
-      error: err instanceof Error ? err.message : String(err),
-    });
-    return [];
+    this.markOffline(`Could not resolve ${hosts.join(', ')}`);
+    return true;
   }
-}
 
-/**
- * Fetch raw file content from GitHub
- */
-async function fetchGitHubRawFile(
-  owner: string,
-  repo: string,
-  branch: string,
-  path: string
-): Promise<string | null> {
-  const rawUrl = `${GITHUB_RAW_BASE}/${owner}/${repo}/${branch}/${path}`;
-
-  try {
-    const response = await fetch(rawUrl);
-
-    if (!response.ok) {
-      return null;
+  /**
+   * Enter auto-detected offline mode after a network failure
+   */
+  private markOffline(reason: string): void {
+    if (Date.now() >= this.offlineUntil) {
+      logger.warn('Network unavailable, answering from the marketplace cache', { reason });
     }
-
-    return await response.text();
-  } catch {
-    return null;
+    this.offlineUntil = Date.now() + OFFLINE_RECHECK_MS;
   }
-}
 
-/**
- * Manager for fetching skills from marketplace(s)
- */
-export class MarketplaceManager {
   /**
    * Fetch skills from a single marketplace URL
+   * Uses the marketplace's skills-index.json when present, otherwise reads each SKILL.md.
    *
-   * @param marketplaceUrl - GitHub tree URL pointing to skills directory
-   * @returns Array of marketplace skills
+   * @param marketplaceUrl - Marketplace URL pointing to a skills directory
+   * @returns Array of marketplace skills (empty if the marketplace could not be read)
    */
   async fetchSkillsFromMarketplace(marketplaceUrl: string): Promise<MarketplaceSkill[]> {
-    // Check cache first
-    const cached = marketplaceCache.get(marketplaceUrl);
-    if (cached && Date.now() - cached.timestamp < CACHE_DURATION_MS) {
-      logger.debug('Using cached marketplace data', { url: marketplaceUrl });
-      return cached.skills;
-    }
+    const { skills } = await this.fetchMarketplace(marketplaceUrl);
+    return skills;
+  }
 
-    // Parse GitHub URL
-    const parsed = parseGitHubUrl(marketplaceUrl);
-    if (!parsed) {
+  /**
+   * Fetch skills from a single marketplace, reporting why it could not be read
+   *
+   * Listings are cached on disk. Within the TTL the cache is used as-is; after it,
+   * the provider revalidates (ETag or remote commit) and the marketplace is only
+   * re-read when it changed. If the marketplace cannot be reached, the stale
+   * listing is served with an error marked stale. In offline mode remote
+   * marketplaces are not contacted at all.
+   *
+   * @param marketplaceUrl - Marketplace URL pointing to a skills directory
+   * @returns Skills, plus an error message if the marketplace failed
+   */
+  async fetchMarketplace(marketplaceUrl: string): Promise<MarketplaceFetchResult> {
+    const provider = await this.getProvider(marketplaceUrl);
+    if (!provider) {
       logger.warn('Invalid marketplace URL', { url: marketplaceUrl });
-      return [];
+      return { skills: [], error: 'Unsupported marketplace URL' };
     }
 
-    const { owner, repo, branch, path } = parsed;
+    if (provider.type !== 'local' && await this.isOffline()) {
+      const cached = await this.cache.get(marketplaceUrl);
+      return cached
+        ? { skills: cached.skills, offline: true }
+        : { skills: [], error: `${OFFLINE_ERROR} and no cached listing is available`, offline: true };
+    }
 
-    // Fetch directory listing
-    const entries = await fetchGitHubDirectory(owner, repo, path);
-    const directories = entries.filter(e => e.type === 'dir');
+    // Local directories are cheap to re-read, so they are never cached
+    const cached = provider.type === 'local' ? null : await this.cache.get(marketplaceUrl);
+    if (cached && Date.now() - cached.fetchedAt < await this.getCacheTtlMs()) {
+      logger.debug('Using cached marketplace data', { url: marketplaceUrl });
+      return { skills: cached.skills };
+    }
 
-    const skills: MarketplaceSkill[] = [];
+    try {
+      let validator: CacheValidator | undefined;
+      if (provider.revalidate) {
+        const result = await provider.revalidate(marketplaceUrl, cached?.validator);
+        if (cached && !result.changed) {
+          logger.debug('Marketplace unchanged since last fetch', { url: marketplaceUrl });
+          await this.cache.set({ ...cached, fetchedAt: Date.now() });
+          return { skills: cached.skills };
+        }
+        validator = result.validator;
+      }
 
-    // Fetch SKILL.md for each skill directory
-    for (const dir of directories) {
-      const skillPath = path ? `${path}/${dir.name}/SKILL.md` : `${dir.name}/SKILL.md`;
-      const content = await fetchGitHubRawFile(owner, repo, branch, skillPath);
+      const skills = await this.fetchSkillsFromIndex(provider, marketplaceUrl)
+        ?? await this.crawlSkills(provider, marketplaceUrl);
 
-      if (!content) {
-        continue;
+      if (provider.type !== 'local') {
+        await this.cache.set({
+          url: marketplaceUrl,
+          skills,
+          fetchedAt: Date.now(),
+          ...(validator ? { validator } : {}),
+        });
       }
 
-      const parseResult = parseSkillFrontmatter(content);
+      logger.info('Fetched skills from marketplace', {
+        url: marketplaceUrl,
+        count: skills.length,
+      });
+
+      return { skills };
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      const offline = isNetworkError(err);
+      if (offline) {
+        this.markOffline(error);
+      }
+
+      if (cached) {
+        logger.warn('Serving stale marketplace data', {
+          url: marketplaceUrl,
+          cachedAt: new Date(cached.fetchedAt).toISOString(),
+          error,
+        });
+        return { skills: cached.skills, error, stale: true, ...(offline ? { offline } : {}) };
+      }
+
+      logger.error('Error fetching marketplace', { url: marketplaceUrl, error });
+      return { skills: [], error, ...(offline ? { offline } : {}) };
+    }
+  }
+
+  /**
+   * Get the cache TTL from config (default when no config is attached)
+   */
+  private async getCacheTtlMs(): Promise<number> {
+    return this.configManager
+      ? this.configManager.getCacheTtlMs()
+      : DEFAULT_CACHE_TTL_MINUTES * 60 * 1000;
+  }
+
+  /**
+   * Read skills from the marketplace's skills-index.json
+   * Marketplaces with configured signers must publish a validly signed index.
+   *
+   * @returns Skills listed in the index, or null if the marketplace has no valid index
+   * @throws Error if a signed index is required but missing, invalid or badly signed
+   */
+  private async fetchSkillsFromIndex(
+    provider: MarketplaceProvider,
+    marketplaceUrl: string
+  ): Promise<MarketplaceSkill[] | null> {
+    const allowedSigners = await this.configManager?.getAllowedSigners(marketplaceUrl);
+    const content = await provider.fetchFile(marketplaceUrl, MARKETPLACE_INDEX_FILENAME);
+    const index = content ? parseMarketplaceIndex(content) : null;
+
+    if (!allowedSigners) {
+      if (!index) {
+        return null;
+      }
+    } else {
+      if (!content || !index) {
+        throw new Error(`Marketplace requires a signed ${MARKETPLACE_INDEX_FILENAME}, but it has no valid index`);
+      }
+
+      const signature = await provider.fetchFile(marketplaceUrl, MARKETPLACE_INDEX_SIGNATURE_FILENAME);
+      if (!signature) {
+        throw new Error(`Marketplace requires a signed index, but ${MARKETPLACE_INDEX_SIGNATURE_FILENAME} is missing`);
+      }
+
+      const verification = await verifySshSignature(content, signature, allowedSigners, INDEX_SIGNATURE_NAMESPACE);
+      if (!verification.valid) {
+        throw new Error(`Invalid signature on ${MARKETPLACE_INDEX_FILENAME}: ${verification.error}`);
+      }
+      logger.debug('Verified marketplace index signature', { url: marketplaceUrl, principal: verification.principal });
+    }
+
+    logger.debug('Using marketplace index', { url: marketplaceUrl, count: index.skills.length });
+
+    return index.skills.map(entry => ({
+      metadata: entry.metadata,
+      marketplaceUrl,
+      skillPath: entry.path,
+      ...(entry.revision ? { revision: entry.revision } : {}),
+      checksum: entry.checksum,
+      ...(allowedSigners ? { signed: true } : {}),
+      installCommand: `skills_install ${entry.metadata.name}`,
+    }));
+  }
+
+  /**
+   * List skills by reading every SKILL.md in the marketplace
+   */
+  private async crawlSkills(
+    provider: MarketplaceProvider,
+    marketplaceUrl: string
+  ): Promise<MarketplaceSkill[]> {
+    const entries = await provider.listSkills(marketplaceUrl);
+    const skills: MarketplaceSkill[] = [];
+
+    for (const entry of entries) {
+      const parseResult = parseSkillFrontmatter(entry.content);
 
       if (parseResult.success && parseResult.data) {
         skills.push({
           metadata: parseResult.data,
           marketplaceUrl,
+          skillPath: entry.skillPath,
           installCommand: `skills_install ${parseResult.data.name}`,
         });
       }
     }
 
-    // Cache results
-    marketplaceCache.set(marketplaceUrl, {
-      skills,
-      timestamp: Date.now(),
-    });
-
-    logger.info('Fetched skills from marketplace', {
-      url: marketplaceUrl,
-      count: skills.length,
-    });
-
     return skills;
   }
 
@@ -212,14 +339,32 @@ export class MarketplaceManager {
    * @returns Combined array of skills (deduplicated by name)
    */
   async fetchAllSkills(marketplaceUrls: string[]): Promise<MarketplaceSkill[]> {
-    if (marketplaceUrls.length === 0) {
-      return [];
-    }
+    const { skills } = await this.fetchAllMarketplaces(marketplaceUrls);
+    return skills;
+  }
 
+  /**
+   * Fetch skills from multiple marketplaces, collecting per-marketplace errors
+   *
+   * @param marketplaceUrls - Array of marketplace URLs
+   * @returns Combined skills (deduplicated by name), the marketplaces that failed,
+   *          and 'offline' if any marketplace was answered from the cache for lack of network
+   */
+  async fetchAllMarketplaces(
+    marketplaceUrls: string[]
+  ): Promise<{ skills: MarketplaceSkill[]; errors: MarketplaceFetchError[]; status: ConnectivityStatus }> {
     const skillMap = new Map<string, MarketplaceSkill>();
+    const errors: MarketplaceFetchError[] = [];
+    let status: ConnectivityStatus = 'online';
 
     for (const url of marketplaceUrls) {
-      const skills = await this.fetchSkillsFromMarketplace(url);
+      const { skills, error, stale, offline } = await this.fetchMarketplace(url);
+      if (offline) {
+        status = 'offline';
+      }
+      if (error) {
+        errors.push({ url, error, ...(stale ? { stale } : {}) });
+      }
 
       for (const skill of skills) {
         // First occurrence wins (earlier marketplaces take priority)
@@ -229,7 +374,7 @@ export class MarketplaceManager {
       }
     }
 
-    return Array.from(skillMap.values());
+    return { skills: Array.from(skillMap.values()), errors, status };
   }
 
   /**
@@ -256,7 +401,7 @@ export class MarketplaceManager {
   /**
    * Get the latest commit hash for a skill in a marketplace
    *
-   * @param marketplaceUrl - GitHub tree URL of the marketplace
+   * @param marketplaceUrl - URL of the marketplace
    * @param skillName - Name of the skill directory
    * @returns Latest commit hash or null if not found
    */
@@ -264,46 +409,159 @@ export class MarketplaceManager {
     marketplaceUrl: string,
     skillName: string
   ): Promise<string | null> {
-    const parsed = parseGitHubUrl(marketplaceUrl);
-    if (!parsed) {
+    const errorKey = `${marketplaceUrl}#${skillName}`;
+    this.revisionErrors.delete(errorKey);
+
+    const provider = await this.getProvider(marketplaceUrl);
+    if (!provider) {
       logger.warn('Invalid marketplace URL for commit check', { url: marketplaceUrl });
       return null;
     }
 
-    const { owner, repo, branch, path } = parsed;
-    const skillPath = path ? `${path}/${skillName}` : skillName;
-
-    // Use GitHub API to get commits for the skill path
-    const apiUrl = `${GITHUB_API_BASE}/repos/${owner}/${repo}/commits?path=${encodeURIComponent(skillPath)}&sha=${branch}&per_page=1`;
+    if (await this.isOffline(marketplaceUrl)) {
+      this.revisionErrors.set(errorKey, OFFLINE_ERROR);
+      return null;
+    }
 
     try {
-      const response = await fetch(apiUrl, {
-        headers: {
-          Accept: 'application/vnd.github.v3+json',
-          'User-Agent': 'skills-mcp-local',
-        },
-      });
-
-      if (!response.ok) {
-        logger.warn('GitHub commits API request failed', {
-          url: apiUrl,
-          status: response.status,
-        });
-        return null;
+      return await provider.getLatestRevision(marketplaceUrl, skillName);
+    } catch (err) {
+      const error = err instanceof Error ? err.message : String(err);
+      if (isNetworkError(err)) {
+        this.markOffline(error);
       }
+      logger.error('Error fetching latest commit', { skillPath: skillName, error });
+      this.revisionErrors.set(errorKey, error);
+      return null;
+    }
+  }
 
-      const commits = await response.json();
+  /**
+   * Download a skill directory from its marketplace
+   *
+   * @param marketplaceUrl - URL of the marketplace
+   * @param skillPath - Skill directory within the marketplace
+   * @param destDir - Destination directory (must not exist)
+   * @param ref - Commit SHA, tag or branch to download instead of the marketplace branch (optional)
+   * @returns Revision and branch that were downloaded
+   * @throws Error if the marketplace is unsupported or the download fails
+   */
+  async downloadSkill(
+    marketplaceUrl: string,
+    skillPath: string,
+    destDir: string,
+    ref?: string
+  ): Promise<SkillDownloadResult> {
+    const provider = await this.getProvider(marketplaceUrl);
+    if (!provider) {
+      throw new Error(`Unsupported marketplace URL: ${marketplaceUrl}`);
+    }
 
-      if (!Array.isArray(commits) || commits.length === 0) {
-        return null;
+    try {
+      return await provider.downloadSkill(marketplaceUrl, skillPath, destDir, ref);
+    } catch (err) {
+      if (isNetworkError(err)) {
+        this.markOffline(err instanceof Error ? err.message : String(err));
       }
+      throw err;
+    }
+  }
 
-      const latestCommit = commits[0].sha as string;
-      logger.debug('Got latest commit for skill', { skillName, commit: latestCommit });
-      return latestCommit;
+  /**
+   * List commits touching a skill since its installed revision
+   *
+   * @param source - Skill source tracking information
+   * @param ref - Read up to this commit SHA, tag or branch instead of the marketplace branch (optional)
+   * @returns Commits newest first, or null if the marketplace has no commit history
+   * @throws Error if the marketplace cannot be read
+   */
+  async getCommitsSince(source: SkillSource, ref?: string): Promise<SkillCommit[] | null> {
+    const provider = await this.getProvider(source.marketplaceUrl);
+    if (!provider?.listCommits || source.revisionType === 'content') {
+      return null;
+    }
+
+    return provider.listCommits(source.marketplaceUrl, source.skillPath, source.commitHash, ref);
+  }
+
+  /**
+   * Compare a skill's content digest with the checksum its marketplace publishes
+   * Index checksums only describe the revision the index was built from.
+   *
+   * @param source - Source of the downloaded or installed skill
+   * @param digest - Content digest of the skill (see SkillSourceManager.createDigest)
+   */
+  async verifyIntegrity(
+    source: Pick<SkillSource, 'marketplaceUrl' | 'skillPath' | 'commitHash' | 'revisionType'>,
+    digest: string
+  ): Promise<IntegrityCheck> {
+    const { skills } = await this.fetchMarketplace(source.marketplaceUrl);
+    const listed = skills.find(s => (s.skillPath ?? s.metadata.name) === source.skillPath);
+    const signed = listed?.signed === true;
+
+    if (!listed?.checksum) {
+      return { status: 'unverified', signed, reason: 'The marketplace publishes no checksum for this skill' };
+    }
+
+    // Content revisions are checksums themselves, so only git revisions are compared
+    if (listed.revision && source.revisionType !== 'content' && listed.revision !== source.commitHash) {
+      return {
+        status: 'unverified',
+        signed,
+        reason: `The published checksum is for revision ${listed.revision.substring(0, 7)}, not ${source.commitHash.substring(0, 7)}`,
+      };
+    }
+
+    return listed.checksum === digest
+      ? { status: 'verified', signed }
+      : { status: 'mismatch', signed, reason: 'Content does not match the published checksum' };
+  }
+
+  /**
+   * Check a fresh download before it is installed
+   * Marketplaces with configured signers only accept content matching their signed index.
+   *
+   * @param source - Source of the downloaded skill
+   * @param digest - Content digest of the download
+   * @returns The integrity check, if the download is acceptable
+   * @throws Error on a checksum mismatch, or if a signed checksum is required but unavailable
+   */
+  async verifyDownload(
+    source: Pick<SkillSource, 'marketplaceUrl' | 'skillPath' | 'commitHash' | 'revisionType'>,
+    digest: string
+  ): Promise<IntegrityCheck> {
+    const check = await this.verifyIntegrity(source, digest);
+
+    if (check.status === 'mismatch') {
+      throw new Error(`Integrity check failed for ${source.skillPath}: ${check.reason}`);
+    }
+
+    if ((check.status !== 'verified' || !check.signed) && await this.configManager?.getAllowedSigners(source.marketplaceUrl)) {
+      const reason = check.reason ?? 'the checksum does not come from a signed index';
+      throw new Error(`${source.marketplaceUrl} requires signed content, but ${source.skillPath} could not be verified: ${reason}`);
+    }
+
+    return check;
+  }
+
+  /**
+   * Read the version the marketplace currently publishes for a skill
+   *
+   * @returns Semantic version from the remote SKILL.md, or null if it has none or can't be read
+   */
+  private async getRemoteVersion(source: SkillSource): Promise<string | null> {
+    const provider = await this.getProvider(source.marketplaceUrl);
+    if (!provider) {
+      return null;
+    }
+
+    try {
+      const content = await provider.fetchFile(source.marketplaceUrl, `${source.skillPath}/SKILL.md`);
+      const parseResult = content ? parseSkillFrontmatter(content) : null;
+      return parseResult?.data?.version ?? null;
     } catch (err) {
-      logger.error('Error fetching latest commit', {
-        skillName,
+      logger.debug('Failed to read remote skill version', {
+        skillPath: source.skillPath,
         error: err instanceof Error ? err.message : String(err),
       });
       return null;
@@ -312,11 +570,15 @@ export class MarketplaceManager {
 
   /**
    * Check if a skill has updates available
+   * Under a patch, minor or major update policy a new commit only counts as an
+   * update if it publishes a newer version the policy accepts. Without versions
+   * on both sides, any new commit counts.
    *
    * @param source - Skill source tracking information
+   * @param installedVersion - Version of the installed skill (from its frontmatter)
    * @returns Update status with hasUpdate flag
    */
-  async checkForUpdates(source: SkillSource): Promise<SkillUpdateStatus> {
+  async checkForUpdates(source: SkillSource, installedVersion?: string): Promise<SkillUpdateStatus> {
     const remoteCommit = await this.getLatestCommit(
       source.marketplaceUrl,
       source.skillPath
@@ -326,16 +588,49 @@ export class MarketplaceManager {
       return {
         hasUpdate: false,
         localCommit: source.commitHash,
-        error: 'Could not fetch latest commit from marketplace',
+        error: this.revisionErrors.get(`${source.marketplaceUrl}#${source.skillPath}`)
+          ?? 'Could not fetch latest commit from marketplace',
       };
     }
 
     const hasUpdate = remoteCommit !== source.commitHash;
-
-    return {
+    const status: SkillUpdateStatus = {
       hasUpdate,
       localCommit: source.commitHash,
       remoteCommit,
     };
+
+    const policy = source.updatePolicy ?? 'any';
+    if (!hasUpdate || policy === 'any') {
+      return status;
+    }
+
+    const remoteVersion = await this.getRemoteVersion(source);
+    if (!installedVersion || !remoteVersion) {
+      return status;
+    }
+
+    const local = parseSemver(installedVersion);
+    const remote = parseSemver(remoteVersion);
+    if (!local || !remote) {
+      return status;
+    }
+
+    const change = getVersionChange(local, remote);
+    const withVersions = { ...status, localVersion: installedVersion, remoteVersion };
+    if (!change) {
+      // New commits without a newer version are not releases
+      return { ...withVersions, hasUpdate: false };
+    }
+
+    if (!isChangeAllowed(policy, change)) {
+      return {
+        ...withVersions,
+        hasUpdate: false,
+        heldBack: `${remoteVersion} is a ${change} update, but the update policy only allows ${policy} updates`,
+      };
+    }
+
+    return withVersions;
   }
 }
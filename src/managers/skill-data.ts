@@ -0,0 +1,217 @@
+/**
+ * Skill Data Manager
+ *
+ * Owns each skill's data directory (~/Documents/{skill-name}/), where skills
+ * keep their state.json and outputs (see docs/system_prompt.md). The data
+ * directory outlives the skill's code: uninstalling keeps it, and it is only
+ * removed by an explicit purge.
+ */
+
+import { execFile } from 'child_process';
+import fs from 'fs/promises';
+import path from 'path';
+import { promisify } from 'util';
+import { SkillDataInfo } from '../types/index.js';
+import { getSkillDataPath, resolveInside } from '../utils/paths.js';
+import { listFiles } from '../utils/hash.js';
+import { ENVIRONMENT_STATE_FILENAME, SkillEnvironmentManager } from './skill-environment.js';
+import logger from '../utils/logger.js';
+
+const execFileAsync = promisify(execFile);
+
+/** File in the data directory where skills keep their workflow state */
+export const SKILL_STATE_FILENAME = 'state.json';
+
+/**
+ * Result of exporting or purging a data directory
+ */
+export interface SkillDataSummary {
+  path: string;
+  sizeBytes: number;
+  fileCount: number;
+}
+
+/**
+ * Manages per-skill data directories
+ */
+export class SkillDataManager {
+  /**
+   * @param getDataPath - Resolves a skill's data directory (defaults to ~/Documents/{skill-name})
+   */
+  constructor(private getDataPath: (skillName: string) => string = getSkillDataPath) {}
+
+  /**
+   * Get the data directory of a skill (it may not exist yet)
+   */
+  getPath(skillName: string): string {
+    return this.getDataPath(skillName);
+  }
+
+  /**
+   * Find a skill directory that a skill's data directory would take with it
+   * Data directories share ~/Documents with the built-in ~/Documents/skills search path,
+   * so a skill named "skills" would otherwise resolve to a whole directory of skills.
+   *
+   * @param skillPaths - Search paths and the install path
+   * @returns First path that equals or lies inside the data directory, or null if none does
+   */
+  findSkillPathOverlap(skillName: string, skillPaths: string[]): string | null {
+    const dataPath = path.resolve(this.getDataPath(skillName));
+    return skillPaths.find(p => {
+      const resolved = path.resolve(p);
+      return resolved === dataPath || resolveInside(dataPath, path.relative(dataPath, resolved)) !== null;
+    }) ?? null;
+  }
+
+  /**
+   * Check if a data directory holds state.json or a skills_setup environment,
+   * which marks it as a skill's data rather than an unrelated folder in ~/Documents
+   */
+  async hasSkillMarker(skillName: string): Promise<boolean> {
+    const dataPath = this.getDataPath(skillName);
+    for (const file of [SKILL_STATE_FILENAME, ENVIRONMENT_STATE_FILENAME]) {
+      if (await fs.access(path.join(dataPath, file)).then(() => true, () => false)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Create the data directory of a skill if needed
+   *
+   * @returns Absolute path of the data directory
+   */
+  async ensure(skillName: string): Promise<string> {
+    const dataPath = this.getDataPath(skillName);
+    await fs.mkdir(dataPath, { recursive: true });
+    return dataPath;
+  }
+
+  /**
+   * Report the size and state.json of a skill's data directory
+   */
+  async getInfo(skillName: string): Promise<SkillDataInfo> {
+    const dataPath = this.getDataPath(skillName);
+    const usage = await this.measure(dataPath);
+    if (!usage) {
+      return { path: dataPath, exists: false, sizeBytes: 0, fileCount: 0 };
+    }
+
+    const info: SkillDataInfo = { path: dataPath, exists: true, ...usage };
+    try {
+      info.state = JSON.parse(await fs.readFile(path.join(dataPath, SKILL_STATE_FILENAME), 'utf-8'));
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+        info.stateError = err instanceof Error ? err.message : String(err);
+      }
+    }
+    return info;
+  }
+
+  /**
+   * Archive a skill's data directory as .tgz
+   * Environments created by skills_setup are left out; run skills_setup again to rebuild them.
+   *
+   * @param skillName - Skill whose data to export
+   * @param outputPath - Archive to create (must be outside the data directory)
+   * @returns Archive path, its size, and the number of files in the data directory
+   * @throws Error if there is no data directory or tar fails
+   */
+  async export(skillName: string, outputPath: string): Promise<SkillDataSummary> {
+    const dataPath = this.getDataPath(skillName);
+    const usage = await this.measure(dataPath);
+    if (!usage) {
+      throw new Error(`"${skillName}" has no data directory at ${dataPath}`);
+    }
+
+    const archivePath = path.resolve(outputPath);
+    if (archivePath === dataPath || resolveInside(dataPath, path.relative(dataPath, archivePath))) {
+      throw new Error(`The archive can't be written inside the data directory it exports (${dataPath})`);
+    }
+
+    const name = path.basename(dataPath);
+    const excludes = (await this.getEnvironmentEntries(skillName)).map(entry => `--exclude=${name}/${entry}`);
+
+    await fs.mkdir(path.dirname(archivePath), { recursive: true });
+    await fs.rm(archivePath, { force: true });
+    await execFileAsync('tar', ['-czf', archivePath, ...excludes, '-C', path.dirname(dataPath), name]);
+
+    const stats = await fs.stat(archivePath);
+    logger.info('Exported skill data', { skill: skillName, archive: archivePath });
+    return { path: archivePath, sizeBytes: stats.size, fileCount: usage.fileCount };
+  }
+
+  /**
+   * Permanently delete a skill's data directory, including any skills_setup environment
+   *
+   * @returns What was deleted, or null if there was no data directory
+   */
+  async purge(skillName: string): Promise<SkillDataSummary | null> {
+    const dataPath = this.getDataPath(skillName);
+    const usage = await this.measure(dataPath);
+    if (!usage) {
+      return null;
+    }
+
+    await fs.rm(dataPath, { recursive: true, force: true });
+    logger.info('Purged skill data', { skill: skillName, path: dataPath });
+    return { path: dataPath, ...usage };
+  }
+
+  /**
+   * Total size and file count of a directory (symlinks are counted, not followed)
+   *
+   * @returns Usage, or null if the directory doesn't exist
+   */
+  private async measure(dataPath: string): Promise<{ sizeBytes: number; fileCount: number } | null> {
+    try {
+      if (!(await fs.stat(dataPath)).isDirectory()) {
+        return null;
+      }
+    } catch {
+      return null;
+    }
+
+    const files = await listFiles(dataPath, []);
+    let sizeBytes = 0;
+    for (const file of files) {
+      try {
+        sizeBytes += (await fs.lstat(path.join(dataPath, file))).size;
+      } catch {
+        // Removed while measuring
+      }
+    }
+    return { sizeBytes, fileCount: files.length };
+  }
+
+  /**
+   * Entries of the data directory that skills_setup created and can recreate
+   */
+  private async getEnvironmentEntries(skillName: string): Promise<string[]> {
+    const state = await new SkillEnvironmentManager(this.getDataPath).getState(skillName);
+    if (!state) {
+      return [];
+    }
+
+    const dataPath = this.getDataPath(skillName);
+    return [
+      ENVIRONMENT_STATE_FILENAME,
+      ...(state.python ? [path.relative(dataPath, state.python.venv)] : []),
+      ...(state.node ? [path.relative(dataPath, path.dirname(state.node.nodeModules))] : []),
+    ];
+  }
+}
+
+/**
+ * Format a byte count for display
+ */
+export function formatSize(bytes: number): string {
+  if (bytes < 1024) {
+    return `${bytes} B`;
+  }
+  if (bytes < 1024 * 1024) {
+    return `${(bytes / 1024).toFixed(1)} KB`;
+  }
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
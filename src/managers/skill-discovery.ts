@@ -2,14 +2,20 @@ import fs from 'fs/promises';
 import path from 'path';
 import { InstalledSkill, SkillMetadata } from '../types/index.js';
 import { parseSkillFrontmatter } from '../utils/yaml-parser.js';
-import { getSkillSearchPaths } from '../utils/paths.js';
+import { getDefaultInstallPath, getSkillSearchPaths, isReadOnlySearchPath } from '../utils/paths.js';
 import { SkillSourceManager } from './skill-source.js';
+import { ConfigManager } from './config.js';
 import logger from '../utils/logger.js';
 
 /**
  * Manager for discovering locally installed skills
  */
 export class SkillDiscoveryManager {
+  /**
+   * @param configManager - Source of configured search paths (the built-in list is used without one)
+   */
+  constructor(private configManager?: ConfigManager) {}
+
   /**
    * Check if a directory exists
    */
@@ -105,6 +111,40 @@ export class SkillDiscoveryManager {
     }
   }
 
+  /**
+   * Get the search paths used for discovery, in priority order
+   *
+   * @returns Array of absolute search paths
+   */
+  async getSearchPaths(): Promise<string[]> {
+    if (!this.configManager) {
+      return getSkillSearchPaths();
+    }
+    return (await this.configManager.getSearchPaths()).map(p => p.path);
+  }
+
+  /**
+   * Get the directory skills_install puts new skills in
+   */
+  async getInstallPath(): Promise<string> {
+    return this.configManager ? this.configManager.getInstallPath() : getDefaultInstallPath();
+  }
+
+  /**
+   * Check whether the server must leave skills in a search path alone
+   *
+   * @param searchPath - Absolute search path
+   * @returns True for system-wide paths and paths configured as read-only
+   */
+  async isReadOnlyPath(searchPath: string): Promise<boolean> {
+    const resolved = path.resolve(searchPath);
+    if (isReadOnlySearchPath(resolved)) {
+      return true;
+    }
+    const configured = await this.configManager?.getSearchPaths();
+    return configured?.some(p => p.path === resolved && p.readOnly) ?? false;
+  }
+
   /**
    * Discover all skills in a specific directory
    *
@@ -158,7 +198,7 @@ export class SkillDiscoveryManager {
    * @returns Array of discovered skills (deduplicated)
    */
   async discoverAllSkills(searchPaths?: string[]): Promise<InstalledSkill[]> {
-    const paths = searchPaths ?? getSkillSearchPaths();
+    const paths = searchPaths ?? await this.getSearchPaths();
     const skillMap = new Map<string, InstalledSkill>();
 
     for (const searchPath of paths) {
@@ -204,6 +244,10 @@ Call this tool to refresh the skill list.`;
       lines.push(`- ${skill.metadata.name}: ${skill.metadata.description}`);
       lines.push(`  Location: ${skill.location}/`);
 
+      if (skill.source?.pin) {
+        lines.push(`  📌 Pinned to ${skill.source.pin}`);
+      }
+
       // Check if skill has an update available
       if (skill.updateStatus?.hasUpdate) {
         lines.push(`  ⚠️ Update available`);
@@ -0,0 +1,267 @@
+/**
+ * Skill Environment Manager
+ *
+ * Provisions the runtime a skill's scripts need in its data directory
+ * (~/Documents/{skill-name}/): a Python venv for requirements.txt or
+ * pyproject.toml, and node_modules for package.json. What was set up is
+ * recorded in .skills-env.json, so skills_run_script can use it and
+ * skills_update can redo it when the skill's manifests change.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { createHash } from 'crypto';
+import { SkillEnvironmentState } from '../types/index.js';
+import { getSkillDataPath } from '../utils/paths.js';
+import { buildScriptEnv, runScript } from '../utils/script-runner.js';
+import logger from '../utils/logger.js';
+
+/** File in the data directory recording the provisioned environment */
+export const ENVIRONMENT_STATE_FILENAME = '.skills-env.json';
+
+/** Python manifests, in order of preference */
+const PYTHON_MANIFESTS = ['requirements.txt', 'pyproject.toml'];
+
+/** npm lockfiles copied next to package.json */
+const NODE_LOCKFILES = ['package-lock.json', 'npm-shrinkwrap.json'];
+
+/** Time limit for one provisioning command (ms) */
+const SETUP_TIMEOUT_MS = 10 * 60 * 1000;
+
+/** Output kept from each provisioning command (bytes) */
+const MAX_LOG_BYTES = 64 * 1024;
+
+/** Lines of output included in error messages */
+const ERROR_TAIL_LINES = 20;
+
+/**
+ * Options for provisioning a skill's environment
+ */
+export interface SetupOptions {
+  /** Recreate the environment from scratch */
+  force?: boolean;
+  /** Let npm run package install scripts (skipped by default) */
+  allowInstallScripts?: boolean;
+}
+
+/**
+ * One provisioning command that was run
+ */
+export interface SetupStep {
+  runtime: 'python' | 'node';
+  command: string[];
+  durationMs: number;
+}
+
+/**
+ * Hash a file's content
+ */
+async function hashFile(filePath: string): Promise<string> {
+  return createHash('sha256').update(await fs.readFile(filePath)).digest('hex');
+}
+
+/**
+ * Check whether a path exists
+ */
+async function exists(filePath: string): Promise<boolean> {
+  return fs.access(filePath).then(() => true, () => false);
+}
+
+/**
+ * Manages per-skill runtime environments
+ */
+export class SkillEnvironmentManager {
+  /**
+   * @param getDataPath - Resolves a skill's data directory (defaults to ~/Documents/{skill-name})
+   */
+  constructor(private getDataPath: (skillName: string) => string = getSkillDataPath) {}
+
+  /**
+   * Find the manifests in a skill directory that skills_setup acts on
+   *
+   * @returns SHA-256 of each manifest (and npm lockfile), keyed by filename
+   */
+  async detectManifests(skillDir: string): Promise<Record<string, string>> {
+    const manifests: Record<string, string> = {};
+    for (const file of [...PYTHON_MANIFESTS, 'package.json', ...NODE_LOCKFILES]) {
+      const filePath = path.join(skillDir, file);
+      if (await exists(filePath)) {
+        manifests[file] = await hashFile(filePath);
+      }
+    }
+    return manifests;
+  }
+
+  /**
+   * Read the recorded environment of a skill
+   *
+   * @returns Recorded state, or null if the skill was never set up
+   */
+  async getState(skillName: string): Promise<SkillEnvironmentState | null> {
+    try {
+      const content = await fs.readFile(path.join(this.getDataPath(skillName), ENVIRONMENT_STATE_FILENAME), 'utf-8');
+      return JSON.parse(content) as SkillEnvironmentState;
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Whether a set-up skill's manifests changed since its environment was provisioned
+   *
+   * @returns False for skills that were never set up
+   */
+  async isOutdated(skillName: string, skillDir: string): Promise<boolean> {
+    const state = await this.getState(skillName);
+    if (!state) {
+      return false;
+    }
+    return JSON.stringify(await this.detectManifests(skillDir)) !== JSON.stringify(state.manifests);
+  }
+
+  /**
+   * Provision the environment for a skill's manifests and record it
+   *
+   * @param skillName - Skill name (selects the data directory)
+   * @param skillDir - Installed skill directory
+   * @param options - Recreate from scratch, allow npm install scripts
+   * @returns Recorded state and the commands that were run
+   * @throws Error with the tail of the output if a command fails
+   */
+  async setup(
+    skillName: string,
+    skillDir: string,
+    options: SetupOptions = {}
+  ): Promise<{ state: SkillEnvironmentState; steps: SetupStep[] }> {
+    const dataDir = this.getDataPath(skillName);
+    const manifests = await this.detectManifests(skillDir);
+    const state: SkillEnvironmentState = { setupAt: '', manifests };
+    const steps: SetupStep[] = [];
+
+    await fs.mkdir(dataDir, { recursive: true });
+
+    const pythonManifest = PYTHON_MANIFESTS.find(file => file in manifests);
+    if (pythonManifest) {
+      state.python = await this.setupPython(skillDir, dataDir, pythonManifest, options, steps);
+    }
+
+    if ('package.json' in manifests) {
+      state.node = await this.setupNode(skillDir, dataDir, options, steps);
+    }
+
+    state.setupAt = new Date().toISOString();
+    await fs.writeFile(path.join(dataDir, ENVIRONMENT_STATE_FILENAME), JSON.stringify(state, null, 2));
+    logger.info('Provisioned skill environment', { skill: skillName, python: !!state.python, node: !!state.node });
+
+    return { state, steps };
+  }
+
+  /**
+   * Create or reuse a venv in the data directory and install the Python manifest into it
+   */
+  private async setupPython(
+    skillDir: string,
+    dataDir: string,
+    manifest: string,
+    options: SetupOptions,
+    steps: SetupStep[]
+  ): Promise<NonNullable<SkillEnvironmentState['python']>> {
+    const venv = path.join(dataDir, 'venv');
+    const interpreter = process.platform === 'win32'
+      ? path.join(venv, 'Scripts', 'python.exe')
+      : path.join(venv, 'bin', 'python');
+
+    if (options.force) {
+      await fs.rm(venv, { recursive: true, force: true });
+    }
+    if (!await exists(interpreter)) {
+      await this.run('python', ['python3', '-m', 'venv', venv], dataDir, steps);
+    }
+
+    const target = manifest === 'requirements.txt' ? ['-r', path.join(skillDir, manifest)] : [skillDir];
+    await this.run('python', [interpreter, '-m', 'pip', 'install', '--disable-pip-version-check', ...target], dataDir, steps);
+
+    return { venv, interpreter };
+  }
+
+  /**
+   * Install package.json dependencies into <data dir>/node/node_modules
+   */
+  private async setupNode(
+    skillDir: string,
+    dataDir: string,
+    options: SetupOptions,
+    steps: SetupStep[]
+  ): Promise<NonNullable<SkillEnvironmentState['node']>> {
+    const nodeDir = path.join(dataDir, 'node');
+    if (options.force) {
+      await fs.rm(nodeDir, { recursive: true, force: true });
+    }
+    await fs.mkdir(nodeDir, { recursive: true });
+
+    await fs.copyFile(path.join(skillDir, 'package.json'), path.join(nodeDir, 'package.json'));
+    let hasLockfile = false;
+    for (const lockfile of NODE_LOCKFILES) {
+      const source = path.join(skillDir, lockfile);
+      if (await exists(source)) {
+        await fs.copyFile(source, path.join(nodeDir, lockfile));
+        hasLockfile = true;
+      }
+    }
+
+    await this.run('node', [
+      'npm',
+      hasLockfile ? 'ci' : 'install',
+      '--omit=dev',
+      '--no-audit',
+      '--no-fund',
+      ...(options.allowInstallScripts ? [] : ['--ignore-scripts']),
+    ], nodeDir, steps);
+
+    return { nodeModules: path.join(nodeDir, 'node_modules') };
+  }
+
+  /**
+   * Run one provisioning command
+   *
+   * @throws Error with the tail of its output if it fails
+   */
+  private async run(runtime: SetupStep['runtime'], command: string[], cwd: string, steps: SetupStep[]): Promise<void> {
+    logger.debug('Running setup command', { command: command.join(' ') });
+
+    const result = await runScript(command, {
+      cwd,
+      env: buildScriptEnv(Object.keys(process.env)),
+      timeoutMs: SETUP_TIMEOUT_MS,
+      maxOutputBytes: MAX_LOG_BYTES,
+    });
+    steps.push({ runtime, command, durationMs: result.durationMs });
+
+    if (result.timedOut || result.exitCode !== 0) {
+      const output = `${result.stdout}\n${result.stderr}`.trim().split('\n').slice(-ERROR_TAIL_LINES).join('\n');
+      const status = result.timedOut ? 'timed out' : `failed with exit code ${result.exitCode}`;
+      throw new Error(`${command.slice(0, 3).join(' ')} ${status}${output ? `:\n${output}` : ''}`);
+    }
+  }
+}
+
+/**
+ * Environment variables that activate a provisioned environment for a script
+ *
+ * @param state - Recorded environment
+ * @param basePath - PATH the script would otherwise get
+ */
+export function getEnvironmentVariables(state: SkillEnvironmentState, basePath = ''): Record<string, string> {
+  const env: Record<string, string> = {};
+
+  if (state.python) {
+    env.VIRTUAL_ENV = state.python.venv;
+    env.PATH = [path.dirname(state.python.interpreter), basePath].filter(Boolean).join(path.delimiter);
+  }
+
+  if (state.node) {
+    env.NODE_PATH = state.node.nodeModules;
+  }
+
+  return env;
+}
@@ -0,0 +1,227 @@
+/**
+ * Skill Lockfile Manager
+ *
+ * Reads and writes a project's skills.lock.json, which records the
+ * marketplace, path and revision of every skill installed into
+ * <project>/.claude/skills. The lockfile is meant to be committed;
+ * skills_sync installs exactly what it lists on a fresh checkout.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { SkillLockEntry, SkillLockfile, SkillSource } from '../types/index.js';
+import { getProjectForSkill, getProjectSkillsPath, isRelativeSkillPath } from '../utils/paths.js';
+import { SkillSourceManager } from './skill-source.js';
+import logger from '../utils/logger.js';
+
+/** Lockfile name at the project root */
+export const LOCKFILE_FILENAME = 'skills.lock.json';
+
+/** Current lockfile format */
+const LOCKFILE_VERSION = 1;
+
+/**
+ * Build the lockfile entry for an installed skill's source
+ */
+export function createLockEntry(source: SkillSource): SkillLockEntry {
+  return {
+    marketplace: source.marketplaceUrl,
+    path: source.skillPath,
+    commit: source.commitHash,
+    ...(source.revisionType && source.revisionType !== 'commit' ? { revisionType: source.revisionType } : {}),
+    ...(source.branch ? { branch: source.branch } : {}),
+    ...(source.pin ? { pin: source.pin } : {}),
+    ...(source.updatePolicy ? { updatePolicy: source.updatePolicy } : {}),
+    ...(source.digest ? { digest: source.digest } : {}),
+  };
+}
+
+/**
+ * Check a lockfile entry before installing from it
+ * Lockfiles are committed and shared, so entries are untrusted input: the skill path
+ * follows the same rules as marketplace indexes and must stay inside the marketplace.
+ *
+ * @returns Error message, or null if the entry can be installed from
+ */
+export function validateLockEntry(entry: unknown): string | null {
+  if (typeof entry !== 'object' || entry === null) {
+    return 'entry must be an object';
+  }
+
+  const { marketplace, path: skillPath, commit } = entry as Record<string, unknown>;
+  if (typeof marketplace !== 'string' || marketplace.length === 0) {
+    return 'marketplace must be a non-empty string';
+  }
+  if (typeof skillPath !== 'string' || !isRelativeSkillPath(skillPath)) {
+    return 'path must be relative to the marketplace';
+  }
+  if (typeof commit !== 'string' || commit.length === 0) {
+    return 'commit must be a non-empty string';
+  }
+  return null;
+}
+
+/**
+ * Bring a project-scoped skill's lockfile entry in line with its installed source
+ * Called after skills_update and skills_rollback change a skill in place.
+ * Lockfile problems are logged, never thrown, so they can't undo the change.
+ *
+ * @returns Path of the lockfile that was updated, or null if none was
+ */
+export async function relockSkill(skillLocation: string, skillName: string): Promise<string | null> {
+  const manager = SkillLockfileManager.forSkill(skillLocation);
+  if (!manager) {
+    return null;
+  }
+
+  try {
+    const source = await new SkillSourceManager().getSource(skillLocation);
+    return source && await manager.relock(skillName, source) ? manager.lockfilePath : null;
+  } catch (err) {
+    logger.warn('Failed to update skill lockfile', {
+      skill: skillName,
+      lockfile: manager.lockfilePath,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    return null;
+  }
+}
+
+/**
+ * Remove an uninstalled project-scoped skill from its project's lockfile
+ * Lockfile problems are logged, never thrown.
+ *
+ * @returns Path of the lockfile the skill was removed from, or null if none
+ */
+export async function unlockSkill(skillLocation: string, skillName: string): Promise<string | null> {
+  const manager = SkillLockfileManager.forSkill(skillLocation);
+  if (!manager) {
+    return null;
+  }
+
+  try {
+    return await manager.unlock(skillName) ? manager.lockfilePath : null;
+  } catch (err) {
+    logger.warn('Failed to update skill lockfile', {
+      skill: skillName,
+      lockfile: manager.lockfilePath,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    return null;
+  }
+}
+
+/**
+ * Manages the lockfile of one project
+ */
+export class SkillLockfileManager {
+  readonly projectDir: string;
+
+  /**
+   * @param projectDir - Project root holding skills.lock.json
+   */
+  constructor(projectDir: string) {
+    this.projectDir = path.resolve(projectDir);
+  }
+
+  /**
+   * Manager for the project a skill was installed into
+   *
+   * @returns Manager, or null if the skill isn't project-scoped
+   */
+  static forSkill(skillLocation: string): SkillLockfileManager | null {
+    const projectDir = getProjectForSkill(skillLocation);
+    return projectDir ? new SkillLockfileManager(projectDir) : null;
+  }
+
+  /** Absolute path of skills.lock.json */
+  get lockfilePath(): string {
+    return path.join(this.projectDir, LOCKFILE_FILENAME);
+  }
+
+  /** Directory project-scoped skills are installed into */
+  get skillsPath(): string {
+    return getProjectSkillsPath(this.projectDir);
+  }
+
+  /**
+   * Read the lockfile
+   *
+   * @returns Parsed lockfile, or null if the project has none
+   * @throws Error if the lockfile is not valid
+   */
+  async read(): Promise<SkillLockfile | null> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.lockfilePath, 'utf-8');
+    } catch (err) {
+      if ((err as NodeJS.ErrnoException).code === 'ENOENT') {
+        return null;
+      }
+      throw err;
+    }
+
+    const lockfile = JSON.parse(content) as SkillLockfile;
+    if (typeof lockfile !== 'object' || lockfile === null || typeof lockfile.skills !== 'object' || lockfile.skills === null) {
+      throw new Error(`${this.lockfilePath} has no "skills" object`);
+    }
+    if (lockfile.lockfileVersion > LOCKFILE_VERSION) {
+      throw new Error(`${this.lockfilePath} uses lockfile version ${lockfile.lockfileVersion}; this server reads up to ${LOCKFILE_VERSION}`);
+    }
+    return lockfile;
+  }
+
+  /**
+   * Record a skill's installed source (adds or replaces its entry)
+   */
+  async lock(skillName: string, source: SkillSource): Promise<void> {
+    const lockfile = await this.read() ?? { lockfileVersion: LOCKFILE_VERSION, skills: {} };
+    lockfile.skills[skillName] = createLockEntry(source);
+    await this.write(lockfile);
+    logger.info('Skill locked', { skill: skillName, lockfile: this.lockfilePath, commit: source.commitHash });
+  }
+
+  /**
+   * Update a skill's entry if the lockfile already lists it
+   * Used after updates and rollbacks so the lockfile follows the installed revision.
+   *
+   * @returns True if the entry was updated
+   */
+  async relock(skillName: string, source: SkillSource): Promise<boolean> {
+    const lockfile = await this.read();
+    if (!lockfile || !Object.hasOwn(lockfile.skills, skillName)) {
+      return false;
+    }
+    await this.lock(skillName, source);
+    return true;
+  }
+
+  /**
+   * Remove a skill from the lockfile
+   *
+   * @returns True if the skill was listed
+   */
+  async unlock(skillName: string): Promise<boolean> {
+    const lockfile = await this.read();
+    if (!lockfile || !Object.hasOwn(lockfile.skills, skillName)) {
+      return false;
+    }
+    delete lockfile.skills[skillName];
+    await this.write(lockfile);
+    logger.info('Skill unlocked', { skill: skillName, lockfile: this.lockfilePath });
+    return true;
+  }
+
+  /**
+   * Write the lockfile with skills sorted by name, so diffs stay small
+   */
+  private async write(lockfile: SkillLockfile): Promise<void> {
+    const skills = Object.fromEntries(Object.entries(lockfile.skills).sort(([a], [b]) => a.localeCompare(b)));
+    await fs.mkdir(this.projectDir, { recursive: true });
+    await fs.writeFile(
+      this.lockfilePath,
+      JSON.stringify({ lockfileVersion: LOCKFILE_VERSION, skills }, null, 2) + '\n',
+      'utf-8'
+    );
+  }
+}
@@ -7,11 +7,15 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { SkillSource } from '../types/index.js';
+import { LocalChanges, RevisionType, SkillSource } from '../types/index.js';
+import { hashDirectory, hashFiles } from '../utils/hash.js';
 import logger from '../utils/logger.js';
 
 const SOURCE_FILENAME = '.skill-source.json';
 
+/** Entries left out of file manifests */
+const MANIFEST_IGNORED = ['.git', SOURCE_FILENAME];
+
 /**
  * Manages skill source tracking for update detection
  */
@@ -77,14 +81,73 @@ export class SkillSourceManager {
     }
   }
 
+  /**
+   * Hash every file of a skill directory
+   * Stored as SkillSource.files at install so later edits can be detected.
+   *
+   * @param skillPath - Skill directory (the source tracking file is left out)
+   * @returns SHA-256 of each file keyed by POSIX-style relative path
+   */
+  async createManifest(skillPath: string): Promise<Record<string, string>> {
+    return Object.fromEntries(await hashFiles(skillPath, MANIFEST_IGNORED));
+  }
+
+  /**
+   * Hash a skill directory as a whole
+   * Uses the same algorithm as marketplace index checksums, so the two can be compared.
+   *
+   * @param skillPath - Skill directory (the source tracking file is left out)
+   * @returns Hex SHA-256 content digest
+   */
+  async createDigest(skillPath: string): Promise<string> {
+    return hashDirectory(skillPath, MANIFEST_IGNORED);
+  }
+
+  /**
+   * Find files changed since a skill was installed
+   *
+   * @param skillPath - Installed skill directory
+   * @param source - Source tracking of the skill
+   * @returns Changed files, or null if the skill was installed without a manifest
+   */
+  async getLocalChanges(skillPath: string, source: SkillSource): Promise<LocalChanges | null> {
+    if (!source.files) {
+      return null;
+    }
+
+    const current = await hashFiles(skillPath, MANIFEST_IGNORED);
+    const manifest = new Map(Object.entries(source.files));
+    const changes: LocalChanges = { modified: [], added: [], removed: [] };
+
+    for (const [file, hash] of current) {
+      const installedHash = manifest.get(file);
+      if (installedHash === undefined) {
+        changes.added.push(file);
+      } else if (installedHash !== hash) {
+        changes.modified.push(file);
+      }
+    }
+
+    for (const file of manifest.keys()) {
+      if (!current.has(file)) {
+        changes.removed.push(file);
+      }
+    }
+
+    return changes;
+  }
+
   /**
    * Create a new SkillSource object with current timestamp
+   * Pass pin to record the commit SHA, tag or branch the user asked for.
    */
   createSource(
     marketplaceUrl: string,
     skillPath: string,
     commitHash: string,
-    branch?: string
+    branch?: string,
+    revisionType?: RevisionType,
+    pin?: string
   ): SkillSource {
     const source: SkillSource = {
       marketplaceUrl,
@@ -97,6 +160,14 @@ export class SkillSourceManager {
       source.branch = branch;
     }
 
+    if (revisionType) {
+      source.revisionType = revisionType;
+    }
+
+    if (pin) {
+      source.pin = pin;
+    }
+
     return source;
   }
 }
@@ -0,0 +1,142 @@
+/**
+ * Skill Version Manager
+ *
+ * Keeps previous versions of updated skills so a bad upstream change can be
+ * rolled back. Each version is the complete skill directory, including its
+ * .skill-source.json, moved to <search path>/.versions/<skill>/<id>/.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { SkillVersion } from '../types/index.js';
+import { getVersionsPath } from '../utils/paths.js';
+import { SkillSourceManager } from './skill-source.js';
+import logger from '../utils/logger.js';
+
+/** Version IDs are <save time in ms>-<short revision> */
+const VERSION_ID_PATTERN = /^(\d+)-([0-9a-zA-Z]+)$/;
+
+/**
+ * Manages saved versions of installed skills
+ */
+export class SkillVersionManager {
+  private sourceManager = new SkillSourceManager();
+
+  /**
+   * List saved versions of a skill, newest first
+   *
+   * @param skillLocation - Absolute path of the installed skill
+   */
+  async listVersions(skillLocation: string): Promise<SkillVersion[]> {
+    const versionsDir = getVersionsPath(skillLocation);
+
+    let entries: string[];
+    try {
+      entries = await fs.readdir(versionsDir);
+    } catch {
+      return [];
+    }
+
+    const versions: SkillVersion[] = [];
+    for (const id of entries) {
+      const match = VERSION_ID_PATTERN.exec(id);
+      if (!match) {
+        continue;
+      }
+
+      const versionPath = path.join(versionsDir, id);
+      versions.push({
+        id,
+        path: versionPath,
+        savedAt: new Date(Number(match[1])).toISOString(),
+        source: await this.sourceManager.getSource(versionPath),
+      });
+    }
+
+    return versions.sort((a, b) => b.id.localeCompare(a.id, undefined, { numeric: true }));
+  }
+
+  /**
+   * Move the current skill directory into the version store
+   * The skill location no longer exists afterwards; the caller puts the replacement in place.
+   *
+   * @param skillLocation - Absolute path of the installed skill
+   * @returns The saved version
+   */
+  async saveCurrent(skillLocation: string): Promise<SkillVersion> {
+    const source = await this.sourceManager.getSource(skillLocation);
+    const revision = (source?.commitHash ?? 'untracked').replace(/[^0-9a-zA-Z]/g, '').substring(0, 7) || 'untracked';
+    const savedAt = Date.now();
+    const id = `${savedAt}-${revision}`;
+    const versionsDir = getVersionsPath(skillLocation);
+    const versionPath = path.join(versionsDir, id);
+
+    await fs.mkdir(versionsDir, { recursive: true });
+    await fs.rename(skillLocation, versionPath);
+
+    return { id, path: versionPath, savedAt: new Date(savedAt).toISOString(), source };
+  }
+
+  /**
+   * Restore a saved version in place of the current skill
+   * The current directory is saved as a new version first, so a rollback can itself be undone.
+   * If moving the saved version into place fails, the current directory is put back.
+   *
+   * @param skillLocation - Absolute path of the installed skill
+   * @param versionId - ID of the version to restore
+   * @returns The restored version and the version the current directory was saved as
+   * @throws Error if the version doesn't exist or the directories can't be moved
+   */
+  async restoreVersion(
+    skillLocation: string,
+    versionId: string
+  ): Promise<{ restored: SkillVersion; replaced: SkillVersion }> {
+    const versions = await this.listVersions(skillLocation);
+    const restored = versions.find(v => v.id === versionId);
+    if (!restored) {
+      throw new Error(`Version "${versionId}" not found`);
+    }
+
+    const replaced = await this.saveCurrent(skillLocation);
+    try {
+      await fs.rename(restored.path, skillLocation);
+    } catch (err) {
+      await fs.rename(replaced.path, skillLocation);
+      throw err;
+    }
+
+    logger.info('Skill version restored', { location: skillLocation, version: versionId, replaced: replaced.id });
+
+    return { restored: { ...restored, path: skillLocation }, replaced };
+  }
+
+  /**
+   * Delete the oldest saved versions beyond the limit
+   *
+   * @param skillLocation - Absolute path of the installed skill
+   * @param keep - Number of versions to keep
+   * @returns IDs of the deleted versions
+   */
+  async prune(skillLocation: string, keep: number): Promise<string[]> {
+    const versions = await this.listVersions(skillLocation);
+    const removed: string[] = [];
+
+    for (const version of versions.slice(keep)) {
+      try {
+        await fs.rm(version.path, { recursive: true, force: true });
+        removed.push(version.id);
+      } catch (err) {
+        logger.warn('Failed to remove old skill version', {
+          path: version.path,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+
+    if (removed.length === versions.length) {
+      await fs.rm(getVersionsPath(skillLocation), { recursive: true, force: true });
+    }
+
+    return removed;
+  }
+}
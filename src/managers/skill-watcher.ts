@@ -0,0 +1,212 @@
+/**
+ * Skill Watcher
+ *
+ * Watches skill search paths for changes (skills added, removed or edited)
+ * and invokes a debounced callback so the server can refresh its state.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import logger from '../utils/logger.js';
+
+/** Default debounce delay in milliseconds */
+const DEFAULT_DEBOUNCE_MS = 500;
+
+/**
+ * A directory being watched, with an optional filename filter
+ */
+interface WatchTarget {
+  dir: string;
+  /** Only react to events for this entry name (used for missing search paths) */
+  only?: string;
+}
+
+/**
+ * Watches skill search paths and their immediate skill directories
+ *
+ * Each existing search path is watched for skills being added or removed,
+ * and each skill directory is watched for SKILL.md edits. Search paths that
+ * do not exist yet are detected through their parent directory.
+ * Hidden entries (.trash, .temp-*, .backup-*) are ignored.
+ */
+export class SkillWatcher {
+  private watchers = new Map<string, fs.FSWatcher>();
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+  private refreshing = false;
+  private pending = false;
+
+  constructor(
+    private getSearchPaths: () => Promise<string[]>,
+    private onChange: () => Promise<void>,
+    private debounceMs: number = DEFAULT_DEBOUNCE_MS
+  ) {}
+
+  /**
+   * Start watching the search paths
+   */
+  async start(): Promise<void> {
+    this.running = true;
+    await this.syncWatchers();
+    logger.debug('Skill watcher started', { watched: this.watchers.size });
+  }
+
+  /**
+   * Stop watching and cancel any pending refresh
+   */
+  stop(): void {
+    this.running = false;
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+
+    logger.debug('Skill watcher stopped');
+  }
+
+  /**
+   * Refresh now, e.g. after the search paths were reconfigured, and watch the new paths
+   */
+  async refresh(): Promise<void> {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    await this.flush();
+  }
+
+  /**
+   * Schedule a debounced refresh
+   */
+  private schedule(): void {
+    if (!this.running) {
+      return;
+    }
+
+    if (this.timer) {
+      clearTimeout(this.timer);
+    }
+
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      void this.flush();
+    }, this.debounceMs);
+    this.timer.unref();
+  }
+
+  /**
+   * Run the change callback, coalescing events that arrive while it runs
+   */
+  private async flush(): Promise<void> {
+    if (this.refreshing) {
+      this.pending = true;
+      return;
+    }
+
+    this.refreshing = true;
+    try {
+      await this.onChange();
+      await this.syncWatchers();
+    } catch (err) {
+      logger.error('Skill refresh failed', {
+        error: err instanceof Error ? err.message : String(err),
+      });
+    } finally {
+      this.refreshing = false;
+    }
+
+    if (this.pending) {
+      this.pending = false;
+      this.schedule();
+    }
+  }
+
+  /**
+   * Compute the directories that should currently be watched
+   */
+  private async getTargets(): Promise<WatchTarget[]> {
+    const targets: WatchTarget[] = [];
+
+    for (const searchPath of await this.getSearchPaths()) {
+      let entries: fs.Dirent[];
+      try {
+        entries = await fs.promises.readdir(searchPath, { withFileTypes: true });
+      } catch {
+        // Search path missing: watch its parent for it to appear
+        const parent = path.dirname(searchPath);
+        if (parent !== searchPath && fs.existsSync(parent)) {
+          targets.push({ dir: parent, only: path.basename(searchPath) });
+        }
+        continue;
+      }
+
+      targets.push({ dir: searchPath });
+
+      for (const entry of entries) {
+        if (entry.isDirectory() && !entry.name.startsWith('.')) {
+          targets.push({ dir: path.join(searchPath, entry.name) });
+        }
+      }
+    }
+
+    return targets;
+  }
+
+  /**
+   * Add watchers for new targets and close watchers for stale ones
+   */
+  private async syncWatchers(): Promise<void> {
+    if (!this.running) {
+      return;
+    }
+
+    const targets = await this.getTargets();
+    const wanted = new Map(targets.map(t => [`${t.dir}\0${t.only ?? ''}`, t]));
+
+    for (const [key, watcher] of this.watchers) {
+      if (!wanted.has(key)) {
+        watcher.close();
+        this.watchers.delete(key);
+      }
+    }
+
+    for (const [key, target] of wanted) {
+      if (this.watchers.has(key)) {
+        continue;
+      }
+
+      try {
+        const watcher = fs.watch(target.dir, (_event, filename) => {
+          const name = filename ? filename.toString() : null;
+          if (name && name.startsWith('.')) {
+            return;
+          }
+          if (target.only && name !== target.only) {
+            return;
+          }
+          this.schedule();
+        });
+
+        // Never keep the process alive just for watching
+        watcher.unref();
+        watcher.on('error', () => {
+          watcher.close();
+          this.watchers.delete(key);
+        });
+
+        this.watchers.set(key, watcher);
+      } catch (err) {
+        logger.debug('Could not watch directory', {
+          dir: target.dir,
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+    }
+  }
+}
@@ -0,0 +1,208 @@
+import { z } from 'zod';
+import fs from 'fs/promises';
+import path from 'path';
+import { McpServer, RegisteredPrompt } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import type { GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { InstalledSkill, SkillMetadata, SkillPromptArgument } from '../types/index.js';
+import { parseSkillFrontmatter } from '../utils/yaml-parser.js';
+import logger from '../utils/logger.js';
+
+/** Regex pattern for valid prompt argument names */
+const ARGUMENT_NAME_PATTERN = /^[a-zA-Z_][a-zA-Z0-9_-]*$/;
+
+/**
+ * Read declared prompt arguments from skill metadata
+ * Accepts metadata.arguments as a list of names or { name, description, required } objects.
+ * Malformed entries are skipped.
+ *
+ * @param metadata - Parsed skill metadata
+ * @returns Declared arguments in declaration order
+ */
+export function getSkillPromptArguments(metadata: SkillMetadata): SkillPromptArgument[] {
+  const declared = metadata.metadata?.arguments;
+  if (!Array.isArray(declared)) {
+    return [];
+  }
+
+  const args: SkillPromptArgument[] = [];
+  const seen = new Set<string>();
+
+  for (const entry of declared) {
+    let arg: SkillPromptArgument | null = null;
+
+    if (typeof entry === 'string') {
+      arg = { name: entry, required: false };
+    } else if (typeof entry === 'object' && entry !== null && typeof entry.name === 'string') {
+      arg = {
+        name: entry.name,
+        required: entry.required === true,
+        ...(typeof entry.description === 'string' ? { description: entry.description } : {}),
+      };
+    }
+
+    if (!arg || !ARGUMENT_NAME_PATTERN.test(arg.name) || seen.has(arg.name)) {
+      logger.debug('Skipping invalid prompt argument', { skill: metadata.name, entry });
+      continue;
+    }
+
+    seen.add(arg.name);
+    args.push(arg);
+  }
+
+  return args;
+}
+
+/**
+ * Build the prompt messages for a skill from its SKILL.md body
+ * SKILL.md is re-read so edits are picked up without a restart.
+ *
+ * @param skill - Installed skill to invoke
+ * @param values - Argument values supplied by the client
+ * @returns Prompt result with a single user message
+ */
+export async function handleGetSkillPrompt(
+  skill: InstalledSkill,
+  values: Record<string, string | undefined>
+): Promise<GetPromptResult> {
+  let content: string;
+  try {
+    content = await fs.readFile(path.join(skill.location, 'SKILL.md'), 'utf-8');
+  } catch {
+    throw new McpError(ErrorCode.InternalError, `Could not read SKILL.md for skill "${skill.metadata.name}"`);
+  }
+
+  const parseResult = parseSkillFrontmatter(content);
+  if (!parseResult.success || !parseResult.data) {
+    throw new McpError(ErrorCode.InternalError, `Skill "${skill.metadata.name}" is invalid: ${parseResult.error}`);
+  }
+
+  const lines = [
+    `Use the "${parseResult.data.name}" skill (located at ${skill.location}/). Follow its instructions below.`,
+    '',
+    (parseResult.body ?? '').trim(),
+  ];
+
+  // Use the arguments the prompt was registered with so they match its schema
+  const provided = getSkillPromptArguments(skill.metadata)
+    .filter(arg => values[arg.name] !== undefined && values[arg.name] !== '');
+
+  if (provided.length > 0) {
+    lines.push('', '## Arguments');
+    for (const arg of provided) {
+      lines.push(`- ${arg.name}: ${values[arg.name]}`);
+    }
+  }
+
+  return {
+    description: parseResult.data.description,
+    messages: [
+      {
+        role: 'user',
+        content: { type: 'text', text: lines.join('\n') },
+      },
+    ],
+  };
+}
+
+/**
+ * Register one MCP prompt for a valid installed skill
+ *
+ * @param server - MCP server to register the prompt on
+ * @param skill - Valid installed skill
+ * @returns The registered prompt handle
+ */
+export function registerSkillPrompt(server: McpServer, skill: InstalledSkill): RegisteredPrompt {
+  const args = getSkillPromptArguments(skill.metadata);
+  const config = {
+    title: skill.metadata.name,
+    description: skill.metadata.description,
+  };
+
+  if (args.length === 0) {
+    return server.registerPrompt(skill.metadata.name, config, async () => {
+      logger.debug('Getting skill prompt', { name: skill.metadata.name });
+      return handleGetSkillPrompt(skill, {});
+    });
+  }
+
+  const argsSchema: Record<string, z.ZodString | z.ZodOptional<z.ZodString>> = {};
+  for (const arg of args) {
+    const field = arg.description ? z.string().describe(arg.description) : z.string();
+    argsSchema[arg.name] = arg.required ? field : field.optional();
+  }
+
+  return server.registerPrompt(skill.metadata.name, { ...config, argsSchema }, async (values) => {
+    logger.debug('Getting skill prompt', { name: skill.metadata.name });
+    return handleGetSkillPrompt(skill, values as Record<string, string | undefined>);
+  });
+}
+
+/**
+ * Register one MCP prompt per valid installed skill
+ *
+ * @param server - MCP server to register prompts on
+ * @param skills - Installed skills (invalid skills are skipped)
+ * @returns Map of skill name to registered prompt
+ */
+export function registerSkillPrompts(
+  server: McpServer,
+  skills: InstalledSkill[]
+): Map<string, RegisteredPrompt> {
+  const prompts = new Map<string, RegisteredPrompt>();
+
+  for (const skill of skills.filter(s => s.isValid)) {
+    prompts.set(skill.metadata.name, registerSkillPrompt(server, skill));
+  }
+
+  return prompts;
+}
+
+/**
+ * Identity of a skill's prompt: re-registered when location or metadata changes
+ */
+function promptFingerprint(skill: InstalledSkill): string {
+  return JSON.stringify([skill.location, skill.metadata]);
+}
+
+/**
+ * Bring registered skill prompts in line with a freshly discovered skill list
+ * Prompts for removed skills are removed, new skills are registered and
+ * changed skills are re-registered. Unchanged prompts are left alone.
+ *
+ * @param server - MCP server the prompts are registered on
+ * @param prompts - Map of currently registered prompts (mutated in place)
+ * @param previousSkills - Skills the current prompts were registered from
+ * @param skills - Newly discovered skills
+ * @returns True if any prompt was added, removed or replaced
+ */
+export function syncSkillPrompts(
+  server: McpServer,
+  prompts: Map<string, RegisteredPrompt>,
+  previousSkills: InstalledSkill[],
+  skills: InstalledSkill[]
+): boolean {
+  const previous = new Map(
+    previousSkills.filter(s => s.isValid).map(s => [s.metadata.name, promptFingerprint(s)])
+  );
+  const current = new Map(skills.filter(s => s.isValid).map(s => [s.metadata.name, s]));
+  let changed = false;
+
+  for (const [name, prompt] of prompts) {
+    const skill = current.get(name);
+    if (!skill || previous.get(name) !== promptFingerprint(skill)) {
+      prompt.remove();
+      prompts.delete(name);
+      changed = true;
+    }
+  }
+
+  for (const [name, skill] of current) {
+    if (!prompts.has(name)) {
+      prompts.set(name, registerSkillPrompt(server, skill));
+      changed = true;
+    }
+  }
+
+  return changed;
+}
@@ -0,0 +1,425 @@
+import { createHash } from 'crypto';
+import { rmSync } from 'fs';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import {
+  CacheValidator,
+  MarketplaceProvider,
+  RemoteSkillEntry,
+  RevalidationResult,
+  SkillCommit,
+  SkillDownloadResult,
+} from '../types/index.js';
+import { assertValidRef, runGit } from '../utils/git.js';
+import logger from '../utils/logger.js';
+
+/**
+ * Parsed generic git marketplace URL
+ */
+export interface GitRemoteParts {
+  /** URL passed to git clone */
+  repoUrl: string;
+  /** Branch or tag (remote default branch when absent) */
+  ref?: string;
+  /** Skills directory inside the repository ('' for the root) */
+  path: string;
+}
+
+/**
+ * Web URL layouts of common git hosts: /<repo>/<marker>/<ref>/<path>
+ * GitLab uses /-/tree/, Gitea and Forgejo use /src/branch/, Bitbucket uses /src/
+ */
+const WEB_TREE_MARKERS = [['-', 'tree'], ['src', 'branch'], ['src']];
+
+/**
+ * Parse a generic git marketplace URL
+ *
+ * Accepted forms:
+ * - <clone-url>#<ref>:<path>, e.g. https://git.example.com/team/skills.git#main:skills
+ * - git+https://... and git+ssh://... (the git+ prefix is stripped)
+ * - GitLab, Gitea/Forgejo and Bitbucket web tree URLs
+ *
+ * @param url - Marketplace URL
+ * @returns Parsed components or null if the URL is not a git remote
+ */
+export function parseGitRemoteUrl(url: string): GitRemoteParts | null {
+  let urlObj: URL;
+  try {
+    urlObj = new URL(url);
+  } catch {
+    return null;
+  }
+
+  const hasGitPrefix = urlObj.protocol.startsWith('git+');
+  const protocol = hasGitPrefix ? urlObj.protocol.slice(4) : urlObj.protocol;
+  if (!['https:', 'http:', 'ssh:', 'git:', 'file:'].includes(protocol)) {
+    return null;
+  }
+
+  const fragment = decodeURIComponent(urlObj.hash.replace(/^#/, ''));
+  const base = url.replace(/^git\+/, '').split('#')[0];
+  const segments = urlObj.pathname.split('/').filter(Boolean);
+
+  // Explicit clone URL, optionally with #ref:path
+  if (hasGitPrefix || fragment || urlObj.pathname.endsWith('.git') || protocol === 'ssh:' || protocol === 'git:') {
+    const [ref, ...rest] = fragment.split(':');
+    return {
+      repoUrl: base,
+      ...(ref ? { ref } : {}),
+      path: rest.join(':').replace(/^\/+|\/+$/g, ''),
+    };
+  }
+
+  // Web tree URLs of common hosts
+  if (protocol !== 'https:' && protocol !== 'http:') {
+    return null;
+  }
+
+  for (const marker of WEB_TREE_MARKERS) {
+    for (let i = 2; i + marker.length < segments.length; i++) {
+      if (marker.every((m, j) => segments[i + j] === m)) {
+        const repoSegments = segments.slice(0, i);
+        const ref = segments[i + marker.length];
+        return {
+          repoUrl: `${urlObj.protocol}//${urlObj.host}/${repoSegments.join('/')}.git`,
+          ref,
+          path: segments.slice(i + marker.length + 1).join('/'),
+        };
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Join a marketplace base path and a relative path
+ */
+function joinRepoPath(basePath: string, relativePath: string): string {
+  return basePath ? `${basePath}/${relativePath}` : relativePath;
+}
+
+/**
+ * Clone a repository without checking out files
+ * Blobs are fetched lazily, so listing and reading single files stays cheap.
+ */
+async function cloneWithoutCheckout(
+  parts: GitRemoteParts,
+  dir: string,
+  shallow: boolean,
+  singleBranch = true
+): Promise<void> {
+  const args = ['clone', '--filter=blob:none', '--no-checkout'];
+  if (singleBranch) {
+    args.push('--single-branch');
+  }
+  if (shallow) {
+    args.push('--depth', '1');
+  }
+  if (parts.ref) {
+    args.push('--branch', parts.ref);
+  }
+  args.push(parts.repoUrl, dir);
+
+  await runGit(args);
+}
+
+/**
+ * Run a callback against a temporary clone, removing it afterwards
+ */
+async function withTemporaryClone<T>(
+  parts: GitRemoteParts,
+  shallow: boolean,
+  fn: (dir: string) => Promise<T>,
+  singleBranch = true
+): Promise<T> {
+  const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'skills-mcp-git-'));
+  try {
+    await cloneWithoutCheckout(parts, dir, shallow, singleBranch);
+    return await fn(dir);
+  } finally {
+    await fs.rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Commit a remote ref points to, read with ls-remote so no clone is needed
+ *
+ * @throws Error if the ref doesn't exist or the remote can't be reached
+ */
+async function getRemoteCommit(parts: GitRemoteParts): Promise<string> {
+  const ref = parts.ref ?? 'HEAD';
+  const output = await runGit(['ls-remote', parts.repoUrl, ref]);
+  const commit = output.split(/\s+/)[0];
+  if (!commit) {
+    throw new Error(`Ref "${ref}" not found in ${parts.repoUrl}`);
+  }
+  return commit;
+}
+
+/** Directories holding cached clones, removed when the process exits */
+const cloneCacheDirs = new Set<string>();
+
+/**
+ * Remember a clone cache directory for removal at exit
+ */
+function registerCloneCacheDir(dir: string): void {
+  if (cloneCacheDirs.size === 0) {
+    process.once('exit', () => {
+      for (const cacheDir of cloneCacheDirs) {
+        rmSync(cacheDir, { recursive: true, force: true });
+      }
+    });
+  }
+  cloneCacheDirs.add(dir);
+}
+
+/**
+ * A blobless clone of one repository and ref, shared by all reads from it
+ */
+interface CachedClone {
+  /** Resolves to the clone directory once the clone exists */
+  ready: Promise<string>;
+  /** Last queued read; reads are chained so fetches never overlap */
+  queue: Promise<unknown>;
+}
+
+/**
+ * Marketplace provider for any git remote (GitLab, Gitea, Bitbucket, self-hosted)
+ * Uses only the git CLI, so it works with any host git can clone from.
+ */
+export class GitRemoteProvider implements MarketplaceProvider {
+  readonly type = 'git' as const;
+
+  private clones = new Map<string, CachedClone>();
+  private cacheDirReady: Promise<string> | null = null;
+
+  /**
+   * @param cacheDir - Directory for cached clones (defaults to a temporary directory removed at exit)
+   */
+  constructor(private cacheDir?: string) {}
+
+  /**
+   * Create the clone cache directory on first use
+   */
+  private getCacheDir(): Promise<string> {
+    const cacheDir = this.cacheDir;
+    this.cacheDirReady ??= cacheDir
+      ? fs.mkdir(cacheDir, { recursive: true }).then(() => cacheDir)
+      : fs.mkdtemp(path.join(os.tmpdir(), 'skills-mcp-git-')).then((dir) => {
+        registerCloneCacheDir(dir);
+        return dir;
+      });
+    return this.cacheDirReady;
+  }
+
+  /**
+   * Clone a marketplace's repository and ref into the cache
+   * A failed clone is forgotten, so the next read tries again.
+   */
+  private async createClone(parts: GitRemoteParts, key: string): Promise<string> {
+    const dir = path.join(await this.getCacheDir(), createHash('sha256').update(key).digest('hex').substring(0, 16));
+    try {
+      await fs.rm(dir, { recursive: true, force: true });
+      await cloneWithoutCheckout(parts, dir, false);
+      return dir;
+    } catch (err) {
+      this.clones.delete(key);
+      await fs.rm(dir, { recursive: true, force: true });
+      throw err;
+    }
+  }
+
+  /**
+   * Run a callback against the cached clone of a marketplace's repository and ref
+   * ls-remote tells whether the remote moved; the clone is only fetched when it did.
+   *
+   * @param fn - Receives the clone directory and the commit the remote ref points to
+   */
+  private async withCachedClone<T>(parts: GitRemoteParts, fn: (dir: string, commit: string) => Promise<T>): Promise<T> {
+    const commit = await getRemoteCommit(parts);
+    const key = `${parts.repoUrl}#${parts.ref ?? ''}`;
+
+    let clone = this.clones.get(key);
+    if (!clone) {
+      const ready = this.createClone(parts, key);
+      clone = { ready, queue: ready.catch(() => undefined) };
+      this.clones.set(key, clone);
+    }
+
+    const result = Promise.all([clone.ready, clone.queue]).then(async ([dir]) => {
+      const hasCommit = await runGit(['cat-file', '-e', `${commit}^{commit}`], { cwd: dir }).then(() => true, () => false);
+      if (!hasCommit) {
+        await runGit(['fetch', '--quiet', 'origin', parts.ref ?? 'HEAD'], { cwd: dir });
+      }
+      return fn(dir, commit);
+    });
+    clone.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  matches(marketplaceUrl: string): boolean {
+    return parseGitRemoteUrl(marketplaceUrl) !== null;
+  }
+
+  async listSkills(marketplaceUrl: string): Promise<RemoteSkillEntry[]> {
+    const parts = parseGitRemoteUrl(marketplaceUrl);
+    if (!parts) {
+      return [];
+    }
+
+    // Clone and ls-tree errors propagate, so the marketplace is reported as failed instead of empty
+    return this.withCachedClone(parts, async (dir, commit) => {
+      const tree = parts.path ? `${commit}:${parts.path}` : commit;
+      const listing = await runGit(['ls-tree', '-d', '--name-only', tree], { cwd: dir });
+      const directories = listing.split('\n').filter(Boolean);
+
+      const skills: RemoteSkillEntry[] = [];
+      for (const name of directories) {
+        try {
+          const content = await runGit(
+            ['show', `${commit}:${joinRepoPath(parts.path, `${name}/SKILL.md`)}`],
+            { cwd: dir }
+          );
+          skills.push({ skillPath: name, content });
+        } catch {
+          // Directory without SKILL.md
+        }
+      }
+
+      return skills;
+    });
+  }
+
+  async fetchFile(marketplaceUrl: string, filePath: string): Promise<string | null> {
+    const parts = parseGitRemoteUrl(marketplaceUrl);
+    if (!parts) {
+      return null;
+    }
+
+    try {
+      return await this.withCachedClone(parts, (dir, commit) =>
+        runGit(['show', `${commit}:${joinRepoPath(parts.path, filePath)}`], { cwd: dir })
+      );
+    } catch {
+      return null;
+    }
+  }
+
+  async getLatestRevision(marketplaceUrl: string, skillPath: string): Promise<string | null> {
+    const parts = parseGitRemoteUrl(marketplaceUrl);
+    if (!parts) {
+      logger.warn('Invalid marketplace URL for commit check', { url: marketplaceUrl });
+      return null;
+    }
+
+    try {
+      const revision = await this.withCachedClone(parts, (dir, commit) =>
+        runGit(['log', '-1', '--format=%H', commit, '--', joinRepoPath(parts.path, skillPath)], { cwd: dir })
+      );
+      return revision || null;
+    } catch (err) {
+      logger.error('Error fetching latest commit', {
+        skillPath,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Revalidate by comparing the remote ref's commit, which needs no clone
+   */
+  async revalidate(marketplaceUrl: string, validator?: CacheValidator): Promise<RevalidationResult> {
+    const parts = parseGitRemoteUrl(marketplaceUrl);
+    if (!parts) {
+      return { changed: true };
+    }
+
+    const commit = await getRemoteCommit(parts);
+    return {
+      changed: validator?.etag !== commit,
+      validator: { etag: commit },
+    };
+  }
+
+  async listCommits(
+    marketplaceUrl: string,
+    skillPath: string,
+    sinceRevision: string,
+    ref?: string
+  ): Promise<SkillCommit[]> {
+    const parts = parseGitRemoteUrl(marketplaceUrl);
+    if (!parts) {
+      return [];
+    }
+    if (ref) {
+      assertValidRef(ref);
+    }
+
+    const repoPath = joinRepoPath(parts.path, skillPath);
+    const cloneParts = ref ? { repoUrl: parts.repoUrl, path: parts.path } : parts;
+
+    return withTemporaryClone(cloneParts, false, async (dir) => {
+      // Branches only exist as origin/<name> in a fresh clone
+      const target = ref
+        ? await runGit(['rev-parse', '--verify', '--quiet', `${ref}^{commit}`], { cwd: dir })
+          .catch(() => runGit(['rev-parse', '--verify', '--quiet', `origin/${ref}^{commit}`], { cwd: dir }))
+        : 'HEAD';
+
+      // A revision missing from history (rewritten branch) can't bound the range
+      const hasSince = /^[0-9a-f]{7,64}$/i.test(sinceRevision)
+        && await runGit(['cat-file', '-e', `${sinceRevision}^{commit}`], { cwd: dir }).then(() => true, () => false);
+      const range = hasSince ? [`${sinceRevision}..${target}`] : [target];
+
+      const output = await runGit(
+        ['log', '--format=%H%x1f%an%x1f%aI%x1f%s', ...range, '--', repoPath],
+        { cwd: dir }
+      );
+
+      return output.split('\n').filter(Boolean).map((line) => {
+        const [hash, author, date, subject] = line.split('\x1f');
+        return { hash, subject, author, date };
+      });
+    }, !ref);
+  }
+
+  async downloadSkill(
+    marketplaceUrl: string,
+    skillPath: string,
+    destDir: string,
+    ref?: string
+  ): Promise<SkillDownloadResult> {
+    const parts = parseGitRemoteUrl(marketplaceUrl);
+    if (!parts) {
+      throw new Error(`Cannot parse marketplace URL: ${marketplaceUrl}`);
+    }
+    if (ref) {
+      assertValidRef(ref);
+    }
+
+    const repoPath = joinRepoPath(parts.path, skillPath);
+    const tempDir = path.join(path.dirname(destDir), `.temp-${Date.now()}`);
+
+    try {
+      // A pinned ref may live on any branch, so clone them all instead of the marketplace ref
+      await cloneWithoutCheckout(ref ? { repoUrl: parts.repoUrl, path: parts.path } : parts, tempDir, false, !ref);
+      await runGit(['sparse-checkout', 'set', '--cone', repoPath], { cwd: tempDir });
+      await runGit(ref ? ['checkout', ref] : ['checkout'], { cwd: tempDir });
+
+      const revision = await runGit(['log', '-1', '--format=%H', '--', repoPath], { cwd: tempDir });
+      if (!revision) {
+        throw new Error(`Skill path "${repoPath}" not found in ${parts.repoUrl}`);
+      }
+
+      const branch = ref ?? parts.ref ?? await runGit(['rev-parse', '--abbrev-ref', 'HEAD'], { cwd: tempDir });
+
+      await fs.rename(path.join(tempDir, repoPath), destDir);
+
+      return { revision, branch };
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  }
+}
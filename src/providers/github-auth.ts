@@ -0,0 +1,93 @@
+import { exec, execFile } from 'child_process';
+import { promisify } from 'util';
+import { ConfigManager } from '../managers/config.js';
+import logger from '../utils/logger.js';
+
+const execAsync = promisify(exec);
+const execFileAsync = promisify(execFile);
+
+/** Time limit for token commands such as `gh auth token` (ms) */
+const TOKEN_COMMAND_TIMEOUT_MS = 10_000;
+
+/**
+ * Resolves the GitHub token used for API calls and clones
+ *
+ * Sources, in order:
+ * 1. GITHUB_TOKEN or GH_TOKEN environment variables
+ * 2. github.token in the config file
+ * 3. github.tokenCommand in the config file (run through the shell)
+ * 4. `gh auth token` from the GitHub CLI, if installed and logged in
+ *
+ * Command results are cached for the life of the resolver so each request
+ * doesn't spawn a process.
+ */
+export class GitHubTokenResolver {
+  private commandToken: Promise<string | null> | null = null;
+
+  constructor(
+    private configManager?: ConfigManager,
+    private env: NodeJS.ProcessEnv = process.env
+  ) {}
+
+  /**
+   * Get the GitHub token, or null to make anonymous requests
+   */
+  async getToken(): Promise<string | null> {
+    const envToken = this.env.GITHUB_TOKEN || this.env.GH_TOKEN;
+    if (envToken) {
+      return envToken;
+    }
+
+    const auth = (await this.configManager?.getGitHubAuth()) ?? {};
+    if (auth.token) {
+      return auth.token;
+    }
+
+    this.commandToken ??= this.runTokenCommand(auth.tokenCommand);
+    return this.commandToken;
+  }
+
+  /**
+   * Run the configured token command, or `gh auth token` when none is configured
+   */
+  private async runTokenCommand(command?: string): Promise<string | null> {
+    try {
+      const { stdout } = command
+        ? await execAsync(command, { timeout: TOKEN_COMMAND_TIMEOUT_MS })
+        : await execFileAsync('gh', ['auth', 'token'], { timeout: TOKEN_COMMAND_TIMEOUT_MS });
+      const token = stdout.trim();
+      return token || null;
+    } catch (err) {
+      if (command) {
+        logger.warn('GitHub token command failed', {
+          error: err instanceof Error ? err.message : String(err),
+        });
+      }
+      return null;
+    }
+  }
+}
+
+/**
+ * Build environment variables that pass a token to git over HTTPS
+ * Uses GIT_CONFIG_COUNT so the token never appears in process arguments or remote URLs.
+ * Entries the user already set through GIT_CONFIG_* are kept; the header is added after them.
+ *
+ * @param token - GitHub token (null for anonymous access)
+ * @param env - Environment git will inherit (defaults to process.env)
+ * @returns Environment variables for runGit
+ */
+export function getGitAuthEnv(token: string | null, env: NodeJS.ProcessEnv = process.env): Record<string, string> {
+  if (!token) {
+    return {};
+  }
+
+  const existing = Number(env.GIT_CONFIG_COUNT ?? 0);
+  const index = Number.isInteger(existing) && existing > 0 ? existing : 0;
+  const credentials = Buffer.from(`x-access-token:${token}`).toString('base64');
+  return {
+    GIT_CONFIG_COUNT: String(index + 1),
+    [`GIT_CONFIG_KEY_${index}`]: 'http.https://github.com/.extraheader',
+    [`GIT_CONFIG_VALUE_${index}`]: `Authorization: Basic ${credentials}`,
+  };
+}
@@ -0,0 +1,448 @@
+import fs from 'fs/promises';
+import path from 'path';
+import {
+  CacheValidator,
+  MarketplaceProvider,
+  RemoteSkillEntry,
+  RevalidationResult,
+  SkillCommit,
+  SkillDownloadResult,
+} from '../types/index.js';
+import { assertValidRef, runGit } from '../utils/git.js';
+import logger from '../utils/logger.js';
+import { getGitAuthEnv, GitHubTokenResolver } from './github-auth.js';
+
+/**
+ * Parsed GitHub URL components
+ */
+export interface GitHubUrlParts {
+  owner: string;
+  repo: string;
+  branch: string;
+  path: string;
+}
+
+/** GitHub API base URL */
+const GITHUB_API_BASE = 'https://api.github.com';
+
+/** Raw GitHub content base URL */
+const GITHUB_RAW_BASE = 'https://raw.githubusercontent.com';
+
+/** Most commits fetched for a changelog (one API page) */
+const MAX_CHANGELOG_COMMITS = 100;
+
+/**
+ * Parse a GitHub tree URL into its components
+ *
+ * @param url - GitHub URL like https://github.com/owner/repo/tree/branch/path
+ * @returns Parsed components or null if invalid
+ */
+export function parseGitHubUrl(url: string): GitHubUrlParts | null {
+  try {
+    const urlObj = new URL(url);
+
+    // Must be github.com
+    if (urlObj.hostname !== 'github.com') {
+      return null;
+    }
+
+    // Parse path: /owner/repo/tree/branch/path
+    const pathParts = urlObj.pathname.split('/').filter(Boolean);
+
+    // Need at least owner/repo/tree/branch
+    if (pathParts.length < 4 || pathParts[2] !== 'tree') {
+      return null;
+    }
+
+    const [owner, repo, , branch, ...restPath] = pathParts;
+
+    return {
+      owner,
+      repo,
+      branch,
+      path: restPath.join('/'),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Join a marketplace base path and a relative path
+ */
+function joinRepoPath(basePath: string, relativePath: string): string {
+  return basePath ? `${basePath}/${relativePath}` : relativePath;
+}
+
+/**
+ * Reasons a GitHub request can fail
+ */
+export type GitHubErrorKind = 'unauthorized' | 'forbidden' | 'not_found' | 'rate_limited' | 'http_error';
+
+/**
+ * Error raised when GitHub rejects a request
+ */
+export class GitHubApiError extends Error {
+  constructor(
+    message: string,
+    public readonly kind: GitHubErrorKind,
+    public readonly status: number
+  ) {
+    super(message);
+    this.name = 'GitHubApiError';
+  }
+}
+
+/**
+ * Build request headers, adding the token when one is available
+ */
+function buildHeaders(token: string | null, accept?: string): Record<string, string> {
+  return {
+    ...(accept ? { Accept: accept } : {}),
+    'User-Agent': 'skills-mcp-local',
+    ...(token ? { Authorization: `Bearer ${token}` } : {}),
+  };
+}
+
+/**
+ * Turn a failed GitHub response into an error that explains what to do
+ *
+ * @param response - Non-OK response
+ * @param target - What was requested (owner/repo/path), used in messages
+ * @param hasToken - Whether the request was authenticated
+ */
+export function toGitHubApiError(response: Response, target: string, hasToken: boolean): GitHubApiError {
+  const { status } = response;
+  const remaining = response.headers.get('x-ratelimit-remaining');
+
+  if (status === 429 || (status === 403 && remaining === '0')) {
+    const reset = Number(response.headers.get('x-ratelimit-reset'));
+    const resetAt = reset ? ` until ${new Date(reset * 1000).toISOString()}` : '';
+    const hint = hasToken ? '' : ' Set GITHUB_TOKEN or log in with `gh auth login` to raise the limit.';
+    return new GitHubApiError(`GitHub API rate limit exceeded${resetAt}.${hint}`, 'rate_limited', status);
+  }
+
+  if (status === 401) {
+    const message = hasToken
+      ? 'GitHub rejected the token (401 Unauthorized). Check that it is valid and not expired.'
+      : 'GitHub requires authentication (401 Unauthorized). Set GITHUB_TOKEN or log in with `gh auth login`.';
+    return new GitHubApiError(message, 'unauthorized', status);
+  }
+
+  if (status === 403) {
+    const message = hasToken
+      ? `GitHub denied access to ${target} (403 Forbidden). The token may lack the repo scope or SSO authorization.`
+      : `GitHub denied access to ${target} (403 Forbidden). Set GITHUB_TOKEN or log in with \`gh auth login\`.`;
+    return new GitHubApiError(message, 'forbidden', status);
+  }
+
+  if (status === 404) {
+    const message = hasToken
+      ? `${target} was not found on GitHub (404). Check the URL and that the token can access the repository.`
+      : `${target} was not found on GitHub (404). Private repositories need a token: set GITHUB_TOKEN or log in with \`gh auth login\`.`;
+    return new GitHubApiError(message, 'not_found', status);
+  }
+
+  return new GitHubApiError(`GitHub request for ${target} failed with HTTP ${status}`, 'http_error', status);
+}
+
+/**
+ * Build the contents API URL for a directory
+ */
+function getContentsApiUrl(owner: string, repo: string, path: string): string {
+  return path
+    ? `${GITHUB_API_BASE}/repos/${owner}/${repo}/contents/${path}`
+    : `${GITHUB_API_BASE}/repos/${owner}/${repo}/contents`;
+}
+
+/**
+ * Fetch directory contents from GitHub API
+ *
+ * @throws GitHubApiError if GitHub rejects the request
+ */
+async function fetchGitHubDirectory(
+  owner: string,
+  repo: string,
+  path: string,
+  token: string | null
+): Promise<Array<{ name: string; type: string }>> {
+  const apiUrl = getContentsApiUrl(owner, repo, path);
+
+  const response = await fetch(apiUrl, {
+    headers: buildHeaders(token, 'application/vnd.github.v3+json'),
+  });
+
+  if (!response.ok) {
+    logger.warn('GitHub API request failed', {
+      url: apiUrl,
+      status: response.status,
+    });
+    throw toGitHubApiError(response, joinRepoPath(`${owner}/${repo}`, path), token !== null);
+  }
+
+  const data = await response.json();
+
+  if (!Array.isArray(data)) {
+    return [];
+  }
+
+  return data.map((item: { name: string; type: string }) => ({
+    name: item.name,
+    type: item.type,
+  }));
+}
+
+/**
+ * Fetch raw file content from GitHub
+ */
+async function fetchGitHubRawFile(
+  owner: string,
+  repo: string,
+  branch: string,
+  path: string,
+  token: string | null
+): Promise<string | null> {
+  const rawUrl = `${GITHUB_RAW_BASE}/${owner}/${repo}/${branch}/${path}`;
+
+  try {
+    const response = await fetch(rawUrl, { headers: buildHeaders(token) });
+
+    if (!response.ok) {
+      return null;
+    }
+
+    return await response.text();
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Marketplace provider for GitHub tree URLs
+ * Uses the GitHub REST API for listing and sparse git clones for downloads.
+ * Requests are authenticated when a token is available, which enables private repositories.
+ */
+export class GitHubProvider implements MarketplaceProvider {
+  readonly type = 'github' as const;
+
+  constructor(private tokenResolver: GitHubTokenResolver = new GitHubTokenResolver()) {}
+
+  matches(marketplaceUrl: string): boolean {
+    return parseGitHubUrl(marketplaceUrl) !== null;
+  }
+
+  async listSkills(marketplaceUrl: string): Promise<RemoteSkillEntry[]> {
+    const parsed = parseGitHubUrl(marketplaceUrl);
+    if (!parsed) {
+      return [];
+    }
+
+    const { owner, repo, branch, path: basePath } = parsed;
+    const token = await this.tokenResolver.getToken();
+
+    // Fetch directory listing
+    const entries = await fetchGitHubDirectory(owner, repo, basePath, token);
+    const directories = entries.filter(e => e.type === 'dir');
+
+    const skills: RemoteSkillEntry[] = [];
+
+    // Fetch SKILL.md for each skill directory
+    for (const dir of directories) {
+      const skillMdPath = joinRepoPath(basePath, `${dir.name}/SKILL.md`);
+      const content = await fetchGitHubRawFile(owner, repo, branch, skillMdPath, token);
+
+      if (content) {
+        skills.push({ skillPath: dir.name, content });
+      }
+    }
+
+    return skills;
+  }
+
+  async fetchFile(marketplaceUrl: string, filePath: string): Promise<string | null> {
+    const parsed = parseGitHubUrl(marketplaceUrl);
+    if (!parsed) {
+      return null;
+    }
+
+    const { owner, repo, branch, path: basePath } = parsed;
+    const token = await this.tokenResolver.getToken();
+    return fetchGitHubRawFile(owner, repo, branch, joinRepoPath(basePath, filePath), token);
+  }
+
+  async getLatestRevision(marketplaceUrl: string, skillPath: string): Promise<string | null> {
+    const parsed = parseGitHubUrl(marketplaceUrl);
+    if (!parsed) {
+      logger.warn('Invalid marketplace URL for commit check', { url: marketplaceUrl });
+      return null;
+    }
+
+    const { owner, repo, branch, path: basePath } = parsed;
+    const repoPath = joinRepoPath(basePath, skillPath);
+    const token = await this.tokenResolver.getToken();
+
+    // Use GitHub API to get commits for the skill path
+    const apiUrl = `${GITHUB_API_BASE}/repos/${owner}/${repo}/commits?path=${encodeURIComponent(repoPath)}&sha=${branch}&per_page=1`;
+
+    const response = await fetch(apiUrl, {
+      headers: buildHeaders(token, 'application/vnd.github.v3+json'),
+    });
+
+    if (!response.ok) {
+      logger.warn('GitHub commits API request failed', {
+        url: apiUrl,
+        status: response.status,
+      });
+      throw toGitHubApiError(response, `${owner}/${repo}/${repoPath}`, token !== null);
+    }
+
+    const commits = await response.json();
+
+    if (!Array.isArray(commits) || commits.length === 0) {
+      return null;
+    }
+
+    const latestCommit = commits[0].sha as string;
+    logger.debug('Got latest commit for skill', { skillPath, commit: latestCommit });
+    return latestCommit;
+  }
+
+  /**
+   * List commits touching the skill path until sinceRevision is reached
+   * Limited to one page; if sinceRevision isn't on it, the page is returned as-is.
+   */
+  async listCommits(
+    marketplaceUrl: string,
+    skillPath: string,
+    sinceRevision: string,
+    ref?: string
+  ): Promise<SkillCommit[]> {
+    const parsed = parseGitHubUrl(marketplaceUrl);
+    if (!parsed) {
+      return [];
+    }
+
+    const { owner, repo, branch, path: basePath } = parsed;
+    const repoPath = joinRepoPath(basePath, skillPath);
+    const token = await this.tokenResolver.getToken();
+    const sha = encodeURIComponent(ref ?? branch);
+    const apiUrl = `${GITHUB_API_BASE}/repos/${owner}/${repo}/commits?path=${encodeURIComponent(repoPath)}&sha=${sha}&per_page=${MAX_CHANGELOG_COMMITS}`;
+
+    const response = await fetch(apiUrl, {
+      headers: buildHeaders(token, 'application/vnd.github.v3+json'),
+    });
+
+    if (!response.ok) {
+      throw toGitHubApiError(response, `${owner}/${repo}/${repoPath}`, token !== null);
+    }
+
+    const data = await response.json();
+    if (!Array.isArray(data)) {
+      return [];
+    }
+
+    const commits: SkillCommit[] = [];
+    for (const item of data as Array<{ sha: string; commit?: { message?: string; author?: { name?: string; date?: string } } }>) {
+      if (item.sha === sinceRevision) {
+        break;
+      }
+      commits.push({
+        hash: item.sha,
+        subject: (item.commit?.message ?? '').split('\n')[0],
+        ...(item.commit?.author?.name ? { author: item.commit.author.name } : {}),
+        ...(item.commit?.author?.date ? { date: item.commit.author.date } : {}),
+      });
+    }
+
+    return commits;
+  }
+
+  /**
+   * Revalidate with a conditional request on the marketplace directory listing
+   * Any change to a skill changes its tree SHA in the listing, and with it the ETag.
+   * GitHub does not count 304 responses against the rate limit.
+   */
+  async revalidate(marketplaceUrl: string, validator?: CacheValidator): Promise<RevalidationResult> {
+    const parsed = parseGitHubUrl(marketplaceUrl);
+    if (!parsed) {
+      return { changed: true };
+    }
+
+    const { owner, repo, path: basePath } = parsed;
+    const token = await this.tokenResolver.getToken();
+    const headers = buildHeaders(token, 'application/vnd.github.v3+json');
+    if (validator?.etag) {
+      headers['If-None-Match'] = validator.etag;
+    }
+    if (validator?.lastModified) {
+      headers['If-Modified-Since'] = validator.lastModified;
+    }
+
+    const response = await fetch(getContentsApiUrl(owner, repo, basePath), { method: 'GET', headers });
+
+    if (response.status === 304) {
+      return { changed: false };
+    }
+
+    if (!response.ok) {
+      throw toGitHubApiError(response, joinRepoPath(`${owner}/${repo}`, basePath), token !== null);
+    }
+
+    const etag = response.headers.get('etag');
+    const lastModified = response.headers.get('last-modified');
+
+    return {
+      changed: true,
+      validator: {
+        ...(etag ? { etag } : {}),
+        ...(lastModified ? { lastModified } : {}),
+      },
+    };
+  }
+
+  async downloadSkill(
+    marketplaceUrl: string,
+    skillPath: string,
+    destDir: string,
+    ref?: string
+  ): Promise<SkillDownloadResult> {
+    const parsed = parseGitHubUrl(marketplaceUrl);
+    if (!parsed) {
+      throw new Error(`Cannot parse marketplace URL: ${marketplaceUrl}`);
+    }
+    if (ref) {
+      assertValidRef(ref);
+    }
+
+    const { owner, repo, branch, path: basePath } = parsed;
+    const repoPath = joinRepoPath(basePath, skillPath);
+    const repoUrl = `https://github.com/${owner}/${repo}.git`;
+    const tempDir = path.join(path.dirname(destDir), `.temp-${Date.now()}`);
+    const env = getGitAuthEnv(await this.tokenResolver.getToken());
+
+    try {
+      // Clone using sparse checkout (only the skill directory)
+      // A pinned ref may be any commit, so it needs history rather than a shallow clone
+      const depth = ref ? [] : ['--depth', '1'];
+      await runGit(['clone', '--filter=blob:none', '--no-checkout', ...depth, '--sparse', repoUrl, tempDir], { env });
+      await runGit(['sparse-checkout', 'init', '--cone'], { cwd: tempDir });
+      await runGit(['sparse-checkout', 'set', repoPath], { cwd: tempDir });
+      await runGit(['checkout', ref ?? branch], { cwd: tempDir, env });
+
+      const headCommit = await runGit(['rev-parse', 'HEAD'], { cwd: tempDir });
+
+      // Record the commit that last touched the skill, matching getLatestRevision
+      const pathCommit = ref
+        ? await runGit(['log', '-1', '--format=%H', '--', repoPath], { cwd: tempDir })
+        : await this.getLatestRevision(marketplaceUrl, skillPath).catch(() => null);
+      const revision = pathCommit || headCommit;
+
+      // Move skill to final location
+      await fs.rename(path.join(tempDir, repoPath), destDir);
+
+      return { revision, branch: ref ?? branch };
+    } finally {
+      await fs.rm(tempDir, { recursive: true, force: true });
+    }
+  }
+}
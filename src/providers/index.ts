@@ -0,0 +1,62 @@
+import { MarketplaceProvider, MarketplaceProviderType } from '../types/index.js';
+import { GitHubProvider } from './github.js';
+import { GitRemoteProvider } from './git-remote.js';
+import { LocalProvider } from './local.js';
+import { GitHubTokenResolver } from './github-auth.js';
+import { ConfigManager } from '../managers/config.js';
+
+/**
+ * Create the marketplace provider registry
+ * Providers are tried in this order when a marketplace has no explicit provider.
+ *
+ * @param configManager - Config used for GitHub authentication (optional)
+ * @returns Provider instances
+ */
+export function createProviders(configManager?: ConfigManager): MarketplaceProvider[] {
+  return [
+    new GitHubProvider(new GitHubTokenResolver(configManager)),
+    new GitRemoteProvider(),
+    new LocalProvider(),
+  ];
+}
+
+/** Providers used for URL detection when no registry is passed in */
+const PROVIDERS = createProviders();
+
+/** All provider type identifiers */
+export const PROVIDER_TYPES = PROVIDERS.map(p => p.type) as [MarketplaceProviderType, ...MarketplaceProviderType[]];
+
+/**
+ * Get a provider by its type identifier
+ *
+ * @param type - Provider type
+ * @param providers - Registry to search (defaults to the shared registry)
+ * @returns The provider instance
+ */
+export function getProviderByType(
+  type: MarketplaceProviderType,
+  providers: MarketplaceProvider[] = PROVIDERS
+): MarketplaceProvider | null {
+  return providers.find(p => p.type === type) ?? null;
+}
+
+/**
+ * Detect the provider for a marketplace URL
+ *
+ * @param marketplaceUrl - Marketplace URL
+ * @param providers - Registry to search (defaults to the shared registry)
+ * @returns The first provider that recognizes the URL, or null
+ */
+export function detectProvider(
+  marketplaceUrl: string,
+  providers: MarketplaceProvider[] = PROVIDERS
+): MarketplaceProvider | null {
+  return providers.find(p => p.matches(marketplaceUrl)) ?? null;
+}
+
+export { GitHubProvider, GitHubApiError, parseGitHubUrl } from './github.js';
+export type { GitHubErrorKind, GitHubUrlParts } from './github.js';
+export { GitHubTokenResolver, getGitAuthEnv } from './github-auth.js';
+export { GitRemoteProvider, parseGitRemoteUrl } from './git-remote.js';
+export type { GitRemoteParts } from './git-remote.js';
+export { LocalProvider, resolveLocalMarketplacePath } from './local.js';
@@ -0,0 +1,164 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import {
+  MarketplaceProvider,
+  RemoteSkillEntry,
+  SkillDownloadResult,
+} from '../types/index.js';
+import { hashDirectory } from '../utils/hash.js';
+import { resolveInside } from '../utils/paths.js';
+import logger from '../utils/logger.js';
+
+/** Entries never copied from a local marketplace */
+const IGNORED_ENTRIES = ['.git'];
+
+/**
+ * Resolve a local marketplace URL to an absolute directory path
+ *
+ * Accepted forms:
+ * - file:///srv/skills (file URLs ending in .git or carrying #ref:path are git remotes)
+ * - /srv/skills
+ * - ~/skills
+ *
+ * @param url - Marketplace URL or path
+ * @returns Absolute directory path or null if the URL is not local
+ */
+export function resolveLocalMarketplacePath(url: string): string | null {
+  if (url.startsWith('file:')) {
+    try {
+      const urlObj = new URL(url);
+      if (urlObj.hash || urlObj.pathname.endsWith('.git')) {
+        return null;
+      }
+      return path.resolve(fileURLToPath(urlObj));
+    } catch {
+      return null;
+    }
+  }
+
+  if (url === '~' || url.startsWith('~/')) {
+    return path.join(os.homedir(), url.slice(1));
+  }
+
+  if (path.isAbsolute(url)) {
+    return path.resolve(url);
+  }
+
+  return null;
+}
+
+/**
+ * Resolve a skill directory inside a local marketplace
+ */
+function resolveSkillDir(marketplaceUrl: string, skillPath: string): string | null {
+  const root = resolveLocalMarketplacePath(marketplaceUrl);
+  return root ? resolveInside(root, skillPath) : null;
+}
+
+/**
+ * Marketplace provider for directories on the local filesystem
+ * Revisions are content hashes, since a plain folder has no commit history.
+ */
+export class LocalProvider implements MarketplaceProvider {
+  readonly type = 'local' as const;
+
+  matches(marketplaceUrl: string): boolean {
+    return resolveLocalMarketplacePath(marketplaceUrl) !== null;
+  }
+
+  async listSkills(marketplaceUrl: string): Promise<RemoteSkillEntry[]> {
+    const root = resolveLocalMarketplacePath(marketplaceUrl);
+    if (!root) {
+      return [];
+    }
+
+    try {
+      const entries = await fs.readdir(root, { withFileTypes: true });
+      const skills: RemoteSkillEntry[] = [];
+
+      for (const entry of entries) {
+        if (!entry.isDirectory() || entry.name.startsWith('.')) {
+          continue;
+        }
+
+        try {
+          const content = await fs.readFile(path.join(root, entry.name, 'SKILL.md'), 'utf-8');
+          skills.push({ skillPath: entry.name, content });
+        } catch {
+          // Directory without SKILL.md
+        }
+      }
+
+      return skills;
+    } catch (err) {
+      logger.error('Error listing local marketplace', {
+        url: marketplaceUrl,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return [];
+    }
+  }
+
+  async fetchFile(marketplaceUrl: string, filePath: string): Promise<string | null> {
+    const fullPath = resolveSkillDir(marketplaceUrl, filePath);
+    if (!fullPath) {
+      return null;
+    }
+
+    try {
+      return await fs.readFile(fullPath, 'utf-8');
+    } catch {
+      return null;
+    }
+  }
+
+  async getLatestRevision(marketplaceUrl: string, skillPath: string): Promise<string | null> {
+    const skillDir = resolveSkillDir(marketplaceUrl, skillPath);
+    if (!skillDir) {
+      logger.warn('Invalid marketplace URL for commit check', { url: marketplaceUrl });
+      return null;
+    }
+
+    try {
+      return await hashDirectory(skillDir, IGNORED_ENTRIES);
+    } catch (err) {
+      logger.error('Error hashing local skill', {
+        skillPath,
+        error: err instanceof Error ? err.message : String(err),
+      });
+      return null;
+    }
+  }
+
+  async downloadSkill(
+    marketplaceUrl: string,
+    skillPath: string,
+    destDir: string,
+    ref?: string
+  ): Promise<SkillDownloadResult> {
+    if (ref) {
+      throw new Error('Local directory marketplaces have no history, so skills from them cannot be pinned to a ref');
+    }
+
+    const skillDir = resolveSkillDir(marketplaceUrl, skillPath);
+    if (!skillDir) {
+      throw new Error(`Cannot resolve skill "${skillPath}" in ${marketplaceUrl}`);
+    }
+
+    await fs.access(path.join(skillDir, 'SKILL.md'));
+
+    await fs.cp(skillDir, destDir, {
+      recursive: true,
+      errorOnExist: true,
+      force: false,
+      filter: (source) => !IGNORED_ENTRIES.includes(path.basename(source)),
+    });
+
+    return {
+      revision: await hashDirectory(skillDir, IGNORED_ENTRIES),
+      revisionType: 'content',
+    };
+  }
+}
@@ -0,0 +1,166 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import type { ListResourcesResult, ReadResourceResult, Resource } from '@modelcontextprotocol/sdk/types.js';
+import { SkillDiscoveryManager } from '../managers/skill-discovery.js';
+import { resolveInside } from '../utils/paths.js';
+import { getMimeType, isTextMimeType } from '../utils/mime.js';
+import logger from '../utils/logger.js';
+
+/** URI template for files inside installed skills */
+export const SKILL_RESOURCE_TEMPLATE = 'skill://{name}/{+path}';
+
+/** Directories that are never exposed as resources */
+const IGNORED_DIRECTORIES = new Set(['node_modules', '__pycache__', 'venv', '.venv']);
+
+/** Maximum number of files listed per skill */
+const MAX_FILES_PER_SKILL = 500;
+
+/**
+ * Build the resource URI for a file inside a skill
+ *
+ * @param skillName - Name of the installed skill
+ * @param relativePath - POSIX-style path relative to the skill directory
+ * @returns skill:// URI
+ */
+export function buildSkillResourceUri(skillName: string, relativePath: string): string {
+  const encodedPath = relativePath.split('/').map(encodeURIComponent).join('/');
+  return `skill://${skillName}/${encodedPath}`;
+}
+
+/**
+ * Recursively list files inside a skill directory
+ * Hidden files (including .skill-source.json) and dependency folders are skipped
+ */
+async function listSkillFiles(skillDir: string, relativeDir = '', files: string[] = []): Promise<string[]> {
+  let entries;
+  try {
+    entries = await fs.readdir(path.join(skillDir, relativeDir), { withFileTypes: true });
+  } catch {
+    return files;
+  }
+
+  entries.sort((a, b) => a.name.localeCompare(b.name));
+
+  for (const entry of entries) {
+    if (files.length >= MAX_FILES_PER_SKILL) {
+      break;
+    }
+
+    if (entry.name.startsWith('.') || IGNORED_DIRECTORIES.has(entry.name)) {
+      continue;
+    }
+
+    const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+
+    if (entry.isDirectory()) {
+      await listSkillFiles(skillDir, relativePath, files);
+    } else if (entry.isFile()) {
+      files.push(relativePath);
+    }
+  }
+
+  return files;
+}
+
+/**
+ * List every file of every installed skill as an MCP resource
+ */
+export async function handleListSkillResources(
+  discoveryManager: SkillDiscoveryManager
+): Promise<ListResourcesResult> {
+  const skills = await discoveryManager.discoverAllSkills();
+  const resources: Resource[] = [];
+
+  for (const skill of skills.filter(s => s.isValid)) {
+    const files = await listSkillFiles(skill.location);
+
+    for (const file of files) {
+      resources.push({
+        uri: buildSkillResourceUri(skill.metadata.name, file),
+        name: `${skill.metadata.name}/${file}`,
+        mimeType: getMimeType(file),
+        ...(file === 'SKILL.md' ? { description: skill.metadata.description } : {}),
+      });
+    }
+  }
+
+  return { resources };
+}
+
+/**
+ * Read a single file from an installed skill
+ * Rejects paths that resolve (directly or via symlinks) outside the skill directory
+ */
+export async function handleReadSkillResource(
+  discoveryManager: SkillDiscoveryManager,
+  uri: URL,
+  skillName: string,
+  rawPath: string
+): Promise<ReadResourceResult> {
+  const skills = await discoveryManager.discoverAllSkills();
+  const skill = skills.find(s => s.metadata.name === skillName);
+
+  if (!skill) {
+    throw new McpError(ErrorCode.InvalidParams, `Skill "${skillName}" is not installed`);
+  }
+
+  let relativePath: string;
+  try {
+    relativePath = rawPath.split('/').map(decodeURIComponent).join('/');
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid resource path: ${rawPath}`);
+  }
+
+  const filePath = resolveInside(skill.location, relativePath);
+  if (!filePath) {
+    logger.warn('Rejected resource path outside skill directory', { skill: skillName, path: rawPath });
+    throw new McpError(ErrorCode.InvalidParams, `Path "${relativePath}" is outside skill "${skillName}"`);
+  }
+
+  // Resolve symlinks so a link inside the skill cannot point elsewhere
+  let realFile: string;
+  let realRoot: string;
+  try {
+    realFile = await fs.realpath(filePath);
+    realRoot = await fs.realpath(skill.location);
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, `File "${relativePath}" not found in skill "${skillName}"`);
+  }
+
+  if (!realFile.startsWith(realRoot + path.sep)) {
+    logger.warn('Rejected resource symlink outside skill directory', { skill: skillName, path: rawPath });
+    throw new McpError(ErrorCode.InvalidParams, `Path "${relativePath}" is outside skill "${skillName}"`);
+  }
+
+  const stat = await fs.stat(realFile);
+  if (!stat.isFile()) {
+    throw new McpError(ErrorCode.InvalidParams, `"${relativePath}" is not a file`);
+  }
+
+  const mimeType = getMimeType(relativePath);
+  const data = await fs.readFile(realFile);
+
+  if (isTextMimeType(mimeType)) {
+    return {
+      contents: [{ uri: uri.href, mimeType, text: data.toString('utf-8') }],
+    };
+  }
+
+  return {
+    contents: [{ uri: uri.href, mimeType, blob: data.toString('base64') }],
+  };
+}
+
+/**
+ * Complete the {name} variable of the skill resource template
+ */
+export async function completeSkillNames(
+  discoveryManager: SkillDiscoveryManager,
+  value: string
+): Promise<string[]> {
+  const skills = await discoveryManager.discoverAllSkills();
+  return skills
+    .filter(s => s.isValid && s.metadata.name.startsWith(value))
+    .map(s => s.metadata.name);
+}
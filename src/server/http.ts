@@ -0,0 +1,280 @@
+import http from 'http';
+import { randomUUID, timingSafeEqual } from 'crypto';
+import { AddressInfo } from 'net';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { ServerOptions } from './options.js';
+import logger from '../utils/logger.js';
+
+/** Path serving the MCP Streamable HTTP endpoint */
+const MCP_PATH = '/mcp';
+
+/** Path serving the unauthenticated health check */
+const HEALTH_PATH = '/health';
+
+/** Maximum accepted request body size in bytes */
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+/** Sessions without a request for this long are closed, since abandoned clients never send DELETE */
+export const DEFAULT_SESSION_IDLE_TIMEOUT_MS = 30 * 60 * 1000;
+
+/**
+ * An MCP session bound to its own server instance
+ */
+interface Session {
+  transport: StreamableHTTPServerTransport;
+  server: McpServer;
+  /** Time of the last request, for idle expiry */
+  lastActivity: number;
+}
+
+/**
+ * Handle returned by startHttpServer
+ */
+export interface HttpServerHandle {
+  /** Underlying Node HTTP server */
+  httpServer: http.Server;
+  /** Base URL the server is listening on */
+  url: string;
+  /** Close all sessions and stop listening */
+  close(): Promise<void>;
+}
+
+/**
+ * Write a JSON response
+ */
+function sendJson(res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+/**
+ * Write a JSON-RPC error response (used before a request reaches a transport)
+ */
+function sendJsonRpcError(res: http.ServerResponse, status: number, message: string): void {
+  sendJson(res, status, {
+    jsonrpc: '2.0',
+    error: { code: -32000, message },
+    id: null,
+  });
+}
+
+/**
+ * Read and parse a JSON request body
+ */
+async function readJsonBody(req: http.IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new Error('Request body too large');
+    }
+    chunks.push(chunk as Buffer);
+  }
+
+  const raw = Buffer.concat(chunks).toString('utf-8');
+  return raw.length > 0 ? JSON.parse(raw) : undefined;
+}
+
+/**
+ * Check the Authorization header against the configured bearer token
+ */
+function isAuthorized(req: http.IncomingMessage, token: string | undefined): boolean {
+  if (!token) {
+    return true;
+  }
+
+  const header = req.headers.authorization ?? '';
+  const match = /^Bearer\s+(.+)$/i.exec(header);
+  if (!match) {
+    return false;
+  }
+
+  const provided = Buffer.from(match[1]);
+  const expected = Buffer.from(token);
+  return provided.length === expected.length && timingSafeEqual(provided, expected);
+}
+
+/**
+ * Start the MCP server over the Streamable HTTP transport
+ *
+ * Each client session gets its own McpServer from the factory.
+ * Endpoints:
+ * - POST/GET/DELETE /mcp: MCP Streamable HTTP (bearer token required if configured)
+ * - GET /health: liveness check, never authenticated
+ *
+ * Sessions idle for longer than sessionIdleTimeoutMs are closed along with their server.
+ *
+ * @param options - Bind address, port, optional auth token and session idle timeout
+ * @param serverFactory - Creates a configured McpServer for each new session
+ * @returns Handle with the listening URL and a close function
+ */
+export async function startHttpServer(
+  options: Pick<ServerOptions, 'host' | 'port' | 'authToken'> & { sessionIdleTimeoutMs?: number },
+  serverFactory: () => Promise<McpServer>
+): Promise<HttpServerHandle> {
+  const sessions = new Map<string, Session>();
+  const idleTimeoutMs = options.sessionIdleTimeoutMs ?? DEFAULT_SESSION_IDLE_TIMEOUT_MS;
+  let allowedHosts: string[] = [];
+
+  /**
+   * Close a session's server, which closes its transport and stops its skill updates
+   */
+  const closeServer = async (server: McpServer): Promise<void> => {
+    try {
+      await server.close();
+    } catch (err) {
+      logger.warn('Failed to close MCP server', { error: err instanceof Error ? err.message : String(err) });
+    }
+  };
+
+  const expireIdleSessions = async (): Promise<void> => {
+    const cutoff = Date.now() - idleTimeoutMs;
+    for (const [id, session] of sessions) {
+      if (session.lastActivity < cutoff) {
+        sessions.delete(id);
+        logger.info('HTTP session expired', { sessionId: id, sessions: sessions.size });
+        await closeServer(session.server);
+      }
+    }
+  };
+
+  const handleMcpRequest = async (req: http.IncomingMessage, res: http.ServerResponse): Promise<void> => {
+    const sessionHeader = req.headers['mcp-session-id'];
+    const sessionId = Array.isArray(sessionHeader) ? sessionHeader[0] : sessionHeader;
+
+    let body: unknown;
+    if (req.method === 'POST') {
+      try {
+        body = await readJsonBody(req);
+      } catch (err) {
+        sendJsonRpcError(res, 400, `Invalid request body: ${err instanceof Error ? err.message : String(err)}`);
+        return;
+      }
+    }
+
+    if (sessionId) {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        sendJsonRpcError(res, 404, 'Session not found');
+        return;
+      }
+      session.lastActivity = Date.now();
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      sendJsonRpcError(res, 400, 'Bad Request: No valid session ID provided');
+      return;
+    }
+
+    // New session
+    const server = await serverFactory();
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      enableDnsRebindingProtection: allowedHosts.length > 0,
+      allowedHosts,
+      onsessioninitialized: (id) => {
+        sessions.set(id, { transport, server, lastActivity: Date.now() });
+        logger.info('HTTP session started', { sessionId: id, sessions: sessions.size });
+      },
+    });
+
+    transport.onclose = () => {
+      if (transport.sessionId && sessions.delete(transport.sessionId)) {
+        logger.info('HTTP session closed', { sessionId: transport.sessionId, sessions: sessions.size });
+      }
+    };
+
+    try {
+      await server.connect(transport);
+      await transport.handleRequest(req, res, body);
+    } finally {
+      // A failed initialize never registers the session, so nothing else would close its server
+      if (!transport.sessionId || !sessions.has(transport.sessionId)) {
+        await closeServer(server);
+      }
+    }
+  };
+
+  const httpServer = http.createServer((req, res) => {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (url.pathname === HEALTH_PATH && req.method === 'GET') {
+      sendJson(res, 200, { status: 'ok', sessions: sessions.size });
+      return;
+    }
+
+    if (url.pathname !== MCP_PATH) {
+      sendJson(res, 404, { error: 'Not found' });
+      return;
+    }
+
+    if (!isAuthorized(req, options.authToken)) {
+      sendJson(res, 401, { error: 'Unauthorized' }, { 'WWW-Authenticate': 'Bearer' });
+      return;
+    }
+
+    handleMcpRequest(req, res).catch((err) => {
+      logger.error('Error handling MCP request', {
+        error: err instanceof Error ? err.message : String(err),
+      });
+      if (!res.headersSent) {
+        sendJsonRpcError(res, 500, 'Internal server error');
+      }
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once('error', reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off('error', reject);
+      resolve();
+    });
+  });
+
+  const { port } = httpServer.address() as AddressInfo;
+  const displayHost = options.host.includes(':') ? `[${options.host}]` : options.host;
+
+  // Reject requests with foreign Host headers when bound to loopback
+  if (['127.0.0.1', 'localhost', '::1'].includes(options.host)) {
+    allowedHosts = [`127.0.0.1:${port}`, `localhost:${port}`, `[::1]:${port}`];
+  }
+
+  if (allowedHosts.length === 0 && !options.authToken) {
+    logger.warn('HTTP transport is exposed beyond loopback without an auth token', { host: options.host });
+  }
+
+  const expiryTimer = setInterval(() => {
+    expireIdleSessions().catch((err) => {
+      logger.error('Error expiring HTTP sessions', { error: err instanceof Error ? err.message : String(err) });
+    });
+  }, Math.min(idleTimeoutMs, 60 * 1000));
+  expiryTimer.unref();
+
+  const url = `http://${displayHost}:${port}`;
+  logger.info('MCP server listening via Streamable HTTP', {
+    url: `${url}${MCP_PATH}`,
+    auth: options.authToken ? 'bearer' : 'none',
+  });
+
+  return {
+    httpServer,
+    url,
+    close: async () => {
+      clearInterval(expiryTimer);
+      for (const session of sessions.values()) {
+        await session.server.close();
+      }
+      sessions.clear();
+      await new Promise<void>((resolve) => {
+        httpServer.close(() => resolve());
+        httpServer.closeAllConnections();
+      });
+    },
+  };
+}
@@ -1,4 +1,4 @@
-import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { McpServer, RegisteredPrompt, RegisteredTool, ResourceTemplate } from '@modelcontextprotocol/sdk/server/mcp.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { SkillDiscoveryManager } from '../managers/skill-discovery.js';
 import { MarketplaceManager } from '../managers/marketplace.js';
@@ -7,19 +7,40 @@ import { ListInstalledInputSchema, handleListInstalled } from '../tools/list-ins
 import { DiscoverInputSchema, handleDiscover, DiscoverInput } from '../tools/discover.js';
 import { InstallInputSchema, handleInstall, InstallInput } from '../tools/install.js';
 import { ConfigureInputSchema, handleConfigure, ConfigureInput } from '../tools/configure.js';
+import { ConfigurePathsInputSchema, handleConfigurePaths, ConfigurePathsInput } from '../tools/configure-paths.js';
 import { GetInfoInputSchema, handleGetInfo, GetInfoInput } from '../tools/get-info.js';
 import { OnboardingInputSchema, handleOnboarding } from '../tools/onboarding.js';
 import { UpdateInputSchema, handleUpdate, UpdateInput } from '../tools/update.js';
+import { UninstallInputSchema, handleUninstall, UninstallInput } from '../tools/uninstall.js';
+import { RollbackInputSchema, handleRollback, RollbackInput } from '../tools/rollback.js';
+import { VerifyInputSchema, handleVerify, VerifyInput } from '../tools/verify.js';
+import { RunScriptInputSchema, handleRunScript, RunScriptInput } from '../tools/run-script.js';
+import { SetupInputSchema, handleSetup, SetupInput } from '../tools/setup.js';
+import { DataInputSchema, handleData, DataInput } from '../tools/data.js';
+import { PackInputSchema, handlePack, PackInput } from '../tools/pack.js';
+import { SyncInputSchema, handleSync, SyncInput } from '../tools/sync.js';
+import {
+  SKILL_RESOURCE_TEMPLATE,
+  handleListSkillResources,
+  handleReadSkillResource,
+  completeSkillNames,
+} from '../resources/skill-files.js';
+import { registerSkillPrompts, syncSkillPrompts } from '../prompts/skill-prompts.js';
+import { SkillWatcher } from '../managers/skill-watcher.js';
+import { ServerOptions } from './options.js';
+import { startHttpServer } from './http.js';
 import logger from '../utils/logger.js';
+import { InstalledSkill } from '../types/index.js';
 
 /**
  * Check for updates on skills that have source tracking
+ * Pinned skills are skipped since skills_update won't move them anyway.
  */
 async function checkSkillUpdates(
-  skills: import('../types/index.js').InstalledSkill[],
+  skills: InstalledSkill[],
   marketplaceManager: MarketplaceManager
 ): Promise<void> {
-  const trackableSkills = skills.filter(s => s.source);
+  const trackableSkills = skills.filter(s => s.source && !s.source.pin);
 
   if (trackableSkills.length === 0) {
     return;
@@ -32,7 +53,7 @@ async function checkSkillUpdates(
     if (!skill.source) return;
 
     try {
-      const status = await marketplaceManager.checkForUpdates(skill.source);
+      const status = await marketplaceManager.checkForUpdates(skill.source, skill.metadata.version);
       skill.updateStatus = status;
     } catch (err) {
       logger.debug('Update check failed for skill', {
@@ -51,21 +72,115 @@ async function checkSkillUpdates(
 }
 
 /**
- * Create and configure the MCP server with all tools
+ * Options for creating the MCP server
  */
-export async function createServer(): Promise<McpServer> {
+export interface CreateServerOptions {
+  /** Watch skill search paths and notify clients of changes (default: true) */
+  watch?: boolean;
+}
+
+/**
+ * A server created from a context, with the registrations that change with the installed skills
+ */
+export interface ContextServer {
+  server: McpServer;
+  listInstalledTool: RegisteredTool;
+  prompts: Map<string, RegisteredPrompt>;
+}
+
+/**
+ * State shared by every MCP server in the process
+ * Over HTTP each session gets its own McpServer, but managers, skill discovery,
+ * update checks and the file watcher exist once.
+ */
+export interface ServerContext {
+  configManager: ConfigManager;
+  discoveryManager: SkillDiscoveryManager;
+  marketplaceManager: MarketplaceManager;
+  /** Installed skills as last discovered */
+  skills: InstalledSkill[];
+  /** Servers currently open, updated when skills change */
+  servers: Set<ContextServer>;
+  /** Watches the search paths for skill changes (null when watching is disabled) */
+  watcher: SkillWatcher | null;
+}
+
+/**
+ * Re-discover skills and update descriptions, prompts and resources on every open server
+ */
+async function refreshSkills(context: ServerContext): Promise<void> {
+  const skills = await context.discoveryManager.discoverAllSkills();
+
+  // Carry over update status for skills whose source did not change
+  const previous = new Map(context.skills.map(s => [s.metadata.name, s]));
+  for (const skill of skills) {
+    const prev = previous.get(skill.metadata.name);
+    if (prev?.updateStatus && prev.source?.commitHash === skill.source?.commitHash) {
+      skill.updateStatus = prev.updateStatus;
+    }
+  }
+
+  const description = context.discoveryManager.generateToolDescription(skills);
+  for (const { server, listInstalledTool, prompts } of context.servers) {
+    listInstalledTool.update({ description });
+    syncSkillPrompts(server, prompts, context.skills, skills);
+    server.sendResourceListChanged();
+  }
+  context.skills = skills;
+
+  logger.info('Skills refreshed', { installedSkills: skills.length, servers: context.servers.size });
+}
+
+/**
+ * Discover skills, check for updates and start watching the search paths
+ */
+export async function createServerContext(options: CreateServerOptions = {}): Promise<ServerContext> {
   // Initialize managers
-  const discoveryManager = new SkillDiscoveryManager();
-  const marketplaceManager = new MarketplaceManager();
   const configManager = new ConfigManager();
+  const discoveryManager = new SkillDiscoveryManager(configManager);
+  const marketplaceManager = new MarketplaceManager(configManager);
 
   // Discover skills at startup for dynamic description
   const installedSkills = await discoveryManager.discoverAllSkills();
 
-  // Check for updates (populates updateStatus on skills)
-  await checkSkillUpdates(installedSkills, marketplaceManager);
+  // Check for updates (populates updateStatus on skills), unless the network is unavailable
+  const sourceUrls = installedSkills.flatMap(s => (s.source ? [s.source.marketplaceUrl] : []));
+  const offline = await marketplaceManager.detectOffline([
+    ...await configManager.getMarketplaces(),
+    ...sourceUrls,
+  ]);
+  if (offline) {
+    logger.info('Offline mode: skipping update checks');
+  } else {
+    await checkSkillUpdates(installedSkills, marketplaceManager);
+  }
+
+  const context: ServerContext = {
+    configManager,
+    discoveryManager,
+    marketplaceManager,
+    skills: installedSkills,
+    servers: new Set(),
+    watcher: null,
+  };
+
+  // Keep descriptions, prompts and resources in sync with the filesystem
+  if (options.watch ?? true) {
+    context.watcher = new SkillWatcher(() => discoveryManager.getSearchPaths(), () => refreshSkills(context));
+    await context.watcher.start();
+  }
+
+  logger.info('Skills discovered', { installedSkills: installedSkills.length, offline });
+
+  return context;
+}
 
-  const dynamicDescription = discoveryManager.generateToolDescription(installedSkills);
+/**
+ * Create an MCP server with all tools, backed by a shared context
+ * The server stops receiving skill updates once it is closed.
+ */
+export function createServer(context: ServerContext): McpServer {
+  const { configManager, discoveryManager, marketplaceManager } = context;
 
   // Create server
   const server = new McpServer({
@@ -74,11 +189,11 @@ export async function createServer(): Promise<McpServer> {
   });
 
   // Register tools
-  server.registerTool(
+  const listInstalledTool = server.registerTool(
     'skills_list_installed',
     {
       title: 'List Installed Skills',
-      description: dynamicDescription,
+      description: discoveryManager.generateToolDescription(context.skills),
       inputSchema: ListInstalledInputSchema,
       annotations: {
         readOnlyHint: true,
@@ -120,10 +235,16 @@ Use 'marketplace_url' to search a specific marketplace.`,
     'skills_install',
     {
       title: 'Install Skill',
-      description: `Download and install a skill from a marketplace.
+      description: `Download and install a skill from a marketplace or a packed bundle.
 
 Installs to ~/skills/ by default.
-Use skills_discover first to find available skills.`,
+Use skills_discover first to find available skills.
+Pass ref (commit SHA, tag or branch) to pin the skill to that version.
+Skills listed in the skill's dependencies are installed first unless install_dependencies is false.
+To install a bundle built with skills_pack, pass archive with a local path or HTTP(S) URL.
+Pass scope "project" to install into <project_dir>/.claude/skills and record the skill in the project's skills.lock.json.
+Every skill is reviewed before install (executables, shell and network calls, credential access, allowed-tools);
+the report is returned as security, and installs above the configured maxInstallRisk are blocked.`,
       inputSchema: InstallInputSchema,
       annotations: {
         readOnlyHint: false,
@@ -134,7 +255,32 @@ Use skills_discover first to find available skills.`,
     },
     async (args: InstallInput) => {
       logger.debug('Executing skills_install', { args });
-      return handleInstall(marketplaceManager, configManager, args);
+      return handleInstall(discoveryManager, marketplaceManager, configManager, args);
+    }
+  );
+
+  server.registerTool(
+    'skills_sync',
+    {
+      title: 'Sync Project Skills',
+      description: `Install exactly the skills listed in a project's skills.lock.json.
+
+Each skill is installed into <project_dir>/.claude/skills from the recorded marketplace, path and commit,
+and its content is checked against the recorded digest.
+Skills already at the locked commit are left alone; skills with local edits are only replaced with force.
+Skills the lockfile doesn't list are reported, and moved to .trash/ with prune.
+Use dry_run to see what would change.`,
+      inputSchema: SyncInputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (args: SyncInput) => {
+      logger.debug('Executing skills_sync', { args });
+      return handleSync(marketplaceManager, configManager, args);
     }
   );
 
@@ -146,10 +292,16 @@ Use skills_discover first to find available skills.`,
 
 Actions:
 - list: Show configured marketplaces
-- add: Add a new marketplace URL
+- add: Add a new marketplace URL (optionally with provider: github, git or local)
 - remove: Remove a marketplace URL
 - reset: Reset to default marketplace only
 
+Supported marketplaces:
+- GitHub tree URLs: https://github.com/owner/repo/tree/main/skills
+- Any git remote: https://git.example.com/team/skills.git#main:skills
+- GitLab, Gitea and Bitbucket tree URLs
+- Local directories: /srv/skills, ~/skills or file:///srv/skills
+
 Default marketplace: https://github.com/anthropics/skills/tree/main/skills`,
       inputSchema: ConfigureInputSchema,
       annotations: {
@@ -165,6 +317,40 @@ Default marketplace: https://github.com/anthropics/skills/tree/main/skills`,
     }
   );
 
+  server.registerTool(
+    'skills_configure_paths',
+    {
+      title: 'Configure Skill Paths',
+      description: `Manage where skills are searched for and where skills_install puts new skills.
+
+Actions:
+- list: Show search paths in priority order, with the install path and read-only paths marked
+- add: Add a search path (position 1 is searched first; read_only keeps the server from changing skills there)
+- remove: Stop searching a path (its skills are not deleted; the install path can't be removed)
+- move: Change the priority of a search path
+- set_install_path: Choose the directory new skills are installed to (omit path for ~/skills)
+- reset: Restore the built-in search paths and install path
+
+When two paths contain a skill with the same name, the one with higher priority is used.
+/usr/local/share/skills is always read-only.`,
+      inputSchema: ConfigurePathsInputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false,
+      },
+    },
+    async (args: ConfigurePathsInput) => {
+      logger.debug('Executing skills_configure_paths', { args });
+      const result = await handleConfigurePaths(configManager, args);
+      if (!result.isError && args.action !== 'list') {
+        await (context.watcher ? context.watcher.refresh() : refreshSkills(context));
+      }
+      return result;
+    }
+  );
+
   server.registerTool(
     'skills_get_info',
     {
@@ -172,7 +358,7 @@ Default marketplace: https://github.com/anthropics/skills/tree/main/skills`,
       description: `Get detailed information about a specific skill.
 
 Set source to 'local' for installed skills, 'marketplace' for remote skills.
-Returns full SKILL.md content and directory structure for local skills.`,
+Returns full SKILL.md content, directory structure, and the data directory's size and state.json for local skills.`,
       inputSchema: GetInfoInputSchema,
       annotations: {
         readOnlyHint: true,
@@ -220,7 +406,11 @@ Provides educational information about:
 
 Checks for updates and downloads newer versions of skills.
 Provide a skill_name to update a specific skill, or omit to update all.
-Only skills installed via skills_install can be updated.`,
+Only skills installed via skills_install can be updated.
+Pinned skills are skipped; pass skill_name with ref to move the pin, or with unpin to remove it.
+Set dry_run to list the commits and file changes each update would bring without changing anything.
+Skills edited since install are not updated unless local_changes is keep_local, merge or overwrite.
+Pass skill_name with update_policy (patch, minor, major or any) to limit which new versions count as updates.`,
       inputSchema: UpdateInputSchema,
       annotations: {
         readOnlyHint: false,
@@ -231,25 +421,244 @@ Only skills installed via skills_install can be updated.`,
     },
     async (args: UpdateInput) => {
       logger.debug('Executing skills_update', { args });
-      return handleUpdate(discoveryManager, marketplaceManager, args);
+      return handleUpdate(discoveryManager, marketplaceManager, configManager, args);
+    }
+  );
+
+  server.registerTool(
+    'skills_rollback',
+    {
+      title: 'Roll Back Skill',
+      description: `List or restore previous versions of an installed skill.
+
+skills_update keeps the versions it replaces (3 per skill by default).
+Call with skill_name only to list saved versions, or add version to restore one.
+The version being replaced is saved too, so a rollback can be undone.`,
+      inputSchema: RollbackInputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: false,
+        openWorldHint: false,
+      },
+    },
+    async (args: RollbackInput) => {
+      logger.debug('Executing skills_rollback', { args });
+      return handleRollback(discoveryManager, args);
     }
   );
 
+  server.registerTool(
+    'skills_verify',
+    {
+      title: 'Verify Skills',
+      description: `Check installed skills for changes since they were installed.
+
+Re-hashes each skill and compares it with the content digest recorded at install or update.
+Reports modified files for skills that changed, which may mean local edits or tampering.
+Set remote: true to also compare the recorded digest with the checksum the marketplace publishes.`,
+      inputSchema: VerifyInputSchema,
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (args: VerifyInput) => {
+      logger.debug('Executing skills_verify', { args });
+      return handleVerify(discoveryManager, marketplaceManager, args);
+    }
+  );
+
+  server.registerTool(
+    'skills_run_script',
+    {
+      title: 'Run Skill Script',
+      description: `Run a script that ships with an installed skill, such as scripts/convert.py.
+
+Runs without a shell, with a timeout (default 60s) and capped output (default 64 KB per stream).
+The script only sees allowlisted environment variables (PATH, HOME, locale, plus scriptEnv in config) and any passed in env.
+It runs in the skill's data directory (~/Documents/{skill-name}/) unless cwd is "skill".
+When bubblewrap is installed, the script is sandboxed: read-only filesystem, credential files hidden, writable working directory.
+Returns stdout, stderr and the exit code.`,
+      inputSchema: RunScriptInputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: true,
+      },
+    },
+    async (args: RunScriptInput) => {
+      logger.debug('Executing skills_run_script', { args });
+      return handleRunScript(discoveryManager, configManager, args);
+    }
+  );
+
+  server.registerTool(
+    'skills_setup',
+    {
+      title: 'Set Up Skill Dependencies',
+      description: `Install the dependencies of an installed skill into its data directory (~/Documents/{skill-name}/).
+
+requirements.txt or pyproject.toml: creates a venv at ~/Documents/{skill-name}/venv and pip installs into it.
+package.json: runs npm ci/install in ~/Documents/{skill-name}/node (install scripts are skipped unless allow_install_scripts is true).
+skills_run_script uses the environment automatically, and skills_update sets it up again when these files change.
+Does nothing if the environment is already up to date, unless force is true.`,
+      inputSchema: SetupInputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true,
+      },
+    },
+    async (args: SetupInput) => {
+      logger.debug('Executing skills_setup', { args });
+      return handleSetup(discoveryManager, args);
+    }
+  );
+
+  server.registerTool(
+    'skills_uninstall',
+    {
+      title: 'Uninstall Skill',
+      description: `Remove an installed skill from this machine.
+
+The skill directory is moved to a .trash/ folder inside its search path so it can be restored.
+The skill's data directory (~/Documents/{skill-name}/) is never deleted.
+Skills in read-only locations such as /usr/local/share/skills cannot be removed.`,
+      inputSchema: UninstallInputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: false,
+      },
+    },
+    async (args: UninstallInput) => {
+      logger.debug('Executing skills_uninstall', { args });
+      return handleUninstall(discoveryManager, args);
+    }
+  );
+
+  server.registerTool(
+    'skills_data',
+    {
+      title: 'Manage Skill Data',
+      description: `Inspect, export or purge a skill's data directory (~/Documents/{skill-name}/), separately from its code.
+
+info: size, file count and state.json.
+export: archive the directory as .tgz (default ~/{skill-name}-data.tgz), without skills_setup environments.
+purge: delete the directory permanently (requires confirm: true). The skill itself stays installed.
+Works for skills that were already uninstalled; their data is only purged while they are in .trash/ or the directory has state.json or .skills-env.json.`,
+      inputSchema: DataInputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: false,
+        openWorldHint: false,
+      },
+    },
+    async (args: DataInput) => {
+      logger.debug('Executing skills_data', { args });
+      return handleData(discoveryManager, args);
+    }
+  );
+
+  server.registerTool(
+    'skills_pack',
+    {
+      title: 'Pack Skill',
+      description: `Pack an installed skill into a distributable bundle.
+
+Creates a .skill.tgz (default) or .zip containing SKILL.md, scripts/, references/, assets/
+and a MANIFEST.json with a SHA-256 for every file.
+Install the bundle on another machine with skills_install and archive.`,
+      inputSchema: PackInputSchema,
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: false,
+      },
+    },
+    async (args: PackInput) => {
+      logger.debug('Executing skills_pack', { args });
+      return handlePack(discoveryManager, args);
+    }
+  );
+
+  // Register resources
+  server.registerResource(
+    'skill-files',
+    new ResourceTemplate(SKILL_RESOURCE_TEMPLATE, {
+      list: async () => handleListSkillResources(discoveryManager),
+      complete: {
+        name: async (value: string) => completeSkillNames(discoveryManager, value),
+      },
+    }),
+    {
+      title: 'Skill Files',
+      description: 'Files of installed skills: SKILL.md, references/, scripts/ and assets/',
+    },
+    async (uri, variables) => {
+      logger.debug('Reading skill resource', { uri: uri.href });
+      return handleReadSkillResource(
+        discoveryManager,
+        uri,
+        String(variables.name),
+        String(variables.path)
+      );
+    }
+  );
+
+  // Register one prompt per installed skill (slash commands in clients)
+  const prompts = registerSkillPrompts(server, context.skills);
+
+  const entry: ContextServer = { server, listInstalledTool, prompts };
+  context.servers.add(entry);
+  server.server.onclose = () => {
+    context.servers.delete(entry);
+  };
+
   logger.info('MCP server created', {
-    tools: 7,
-    installedSkills: installedSkills.length,
+    prompts: prompts.size,
+    installedSkills: context.skills.length,
   });
 
   return server;
 }
 
 /**
- * Start the MCP server with stdio transport
+ * Start the MCP server with the configured transport
  */
-export async function startServer(): Promise<void> {
-  const server = await createServer();
+export async function startServer(options: ServerOptions): Promise<void> {
+  const context = await createServerContext();
+
+  if (options.transport === 'http') {
+    const handle = await startHttpServer(options, async () => createServer(context));
+
+    const shutdown = () => {
+      logger.info('Shutting down HTTP server');
+      context.watcher?.stop();
+      handle.close().finally(() => process.exit(0));
+    };
+    process.once('SIGINT', shutdown);
+    process.once('SIGTERM', shutdown);
+    return;
+  }
+
+  const server = createServer(context);
   const transport = new StdioServerTransport();
 
+  // The watcher would keep the process alive after the client disconnects
+  const onclose = server.server.onclose;
+  server.server.onclose = () => {
+    onclose?.();
+    context.watcher?.stop();
+  };
   await server.connect(transport);
   logger.info('MCP server running via stdio');
 }
@@ -0,0 +1,83 @@
+/**
+ * Server startup options
+ * Resolved from CLI flags first, then environment variables, then defaults.
+ */
+
+/** Supported transports */
+export type TransportMode = 'stdio' | 'http';
+
+/**
+ * Options controlling how the server is exposed
+ */
+export interface ServerOptions {
+  /** Transport to serve the MCP server over */
+  transport: TransportMode;
+  /** Bind address for the HTTP transport */
+  host: string;
+  /** Port for the HTTP transport (0 picks a free port) */
+  port: number;
+  /** Bearer token required on /mcp requests (HTTP transport only) */
+  authToken?: string;
+}
+
+/** Default HTTP bind address (loopback only) */
+export const DEFAULT_HTTP_HOST = '127.0.0.1';
+
+/** Default HTTP port */
+export const DEFAULT_HTTP_PORT = 3939;
+
+/**
+ * Read the value of a --flag from argv, supporting "--flag value" and "--flag=value"
+ */
+export function getFlag(argv: string[], name: string): string | undefined {
+  const prefix = `--${name}=`;
+
+  for (let i = 0; i < argv.length; i++) {
+    if (argv[i] === `--${name}`) {
+      return argv[i + 1];
+    }
+    if (argv[i].startsWith(prefix)) {
+      return argv[i].slice(prefix.length);
+    }
+  }
+
+  return undefined;
+}
+
+/**
+ * Parse server options from CLI arguments and environment
+ *
+ * Flags: --transport <stdio|http>, --host <address>, --port <number>
+ * Env: SKILLS_MCP_TRANSPORT, SKILLS_MCP_HOST, SKILLS_MCP_PORT, SKILLS_MCP_AUTH_TOKEN
+ * The auth token is only read from the environment so it never shows up in process listings.
+ *
+ * @param argv - CLI arguments (without node and script path)
+ * @param env - Environment variables
+ * @returns Resolved server options
+ * @throws Error if a flag or variable has an invalid value
+ */
+export function parseServerOptions(
+  argv: string[],
+  env: NodeJS.ProcessEnv = process.env
+): ServerOptions {
+  const transport = (getFlag(argv, 'transport') ?? env.SKILLS_MCP_TRANSPORT ?? 'stdio').toLowerCase();
+  if (transport !== 'stdio' && transport !== 'http') {
+    throw new Error(`Invalid transport "${transport}". Expected "stdio" or "http"`);
+  }
+
+  const host = getFlag(argv, 'host') ?? env.SKILLS_MCP_HOST ?? DEFAULT_HTTP_HOST;
+
+  const rawPort = getFlag(argv, 'port') ?? env.SKILLS_MCP_PORT;
+  const port = rawPort === undefined ? DEFAULT_HTTP_PORT : Number(rawPort);
+  if (!Number.isInteger(port) || port < 0 || port > 65535) {
+    throw new Error(`Invalid port "${rawPort}"`);
+  }
+
+  const options: ServerOptions = { transport, host, port };
+
+  if (env.SKILLS_MCP_AUTH_TOKEN) {
+    options.authToken = env.SKILLS_MCP_AUTH_TOKEN;
+  }
+
+  return options;
+}
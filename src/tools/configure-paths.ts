@@ -0,0 +1,117 @@
+import { z } from 'zod';
+import { ConfigManager } from '../managers/config.js';
+import { ToolResult } from '../types/index.js';
+
+/** Input schema for skills_configure_paths */
+export const ConfigurePathsInputSchema = z.object({
+  action: z
+    .enum(['list', 'add', 'remove', 'move', 'set_install_path', 'reset'])
+    .describe('Action to perform: list, add, remove or move search paths, set_install_path, or reset to defaults'),
+  path: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Directory for add/remove/move/set_install_path (~ is expanded; omit for set_install_path to use ~/skills)'),
+  position: z
+    .number()
+    .int()
+    .min(1)
+    .optional()
+    .describe('Priority for add/move: 1 is searched first (add defaults to last)'),
+  read_only: z
+    .boolean()
+    .optional()
+    .describe('For add: mark the path read-only so the server never installs, updates or removes skills there'),
+}).strict();
+
+export type ConfigurePathsInput = z.infer<typeof ConfigurePathsInputSchema>;
+
+/**
+ * Describe the current search paths and install path
+ */
+async function describePaths(configManager: ConfigManager, action: string, message: string): Promise<ToolResult> {
+  const searchPaths = await configManager.getSearchPaths();
+  const installPath = await configManager.getInstallPath();
+
+  const lines = [message, '', 'Skill search paths (in priority order):'];
+  for (let i = 0; i < searchPaths.length; i++) {
+    const flags = [
+      ...(searchPaths[i].path === installPath ? ['install path'] : []),
+      ...(searchPaths[i].readOnly ? ['read-only'] : []),
+    ];
+    lines.push(`${i + 1}. ${searchPaths[i].path}${flags.length ? ` (${flags.join(', ')})` : ''}`);
+  }
+
+  return {
+    content: [{ type: 'text', text: lines.join('\n') }],
+    structuredContent: { action, searchPaths, installPath },
+  };
+}
+
+/**
+ * Handler for skills_configure_paths tool
+ * Manages where skills are searched for and where new skills are installed
+ */
+export async function handleConfigurePaths(
+  configManager: ConfigManager,
+  args: ConfigurePathsInput
+): Promise<ToolResult> {
+  if (['add', 'remove', 'move'].includes(args.action) && !args.path) {
+    return {
+      content: [{ type: 'text', text: `Error: path is required for ${args.action} action` }],
+      isError: true,
+    };
+  }
+
+  if (args.action === 'move' && args.position === undefined) {
+    return {
+      content: [{ type: 'text', text: 'Error: position is required for move action' }],
+      isError: true,
+    };
+  }
+
+  const index = args.position !== undefined ? args.position - 1 : undefined;
+
+  try {
+    switch (args.action) {
+      case 'list':
+        return describePaths(configManager, 'list', 'Configured paths:');
+
+      case 'add':
+        await configManager.addSearchPath(args.path!, { index, readOnly: args.read_only });
+        return describePaths(configManager, 'add', `Added search path: ${args.path}`);
+
+      case 'remove':
+        await configManager.removeSearchPath(args.path!);
+        return describePaths(configManager, 'remove', `Removed search path: ${args.path} (skills in it were not deleted)`);
+
+      case 'move':
+        await configManager.moveSearchPath(args.path!, index!);
+        return describePaths(configManager, 'move', `Moved ${args.path} to position ${args.position}`);
+
+      case 'set_install_path':
+        await configManager.setInstallPath(args.path);
+        return describePaths(
+          configManager,
+          'set_install_path',
+          `New skills will be installed to ${await configManager.getInstallPath()}. Installed skills were not moved.`
+        );
+
+      case 'reset':
+        await configManager.resetSearchPaths();
+        return describePaths(configManager, 'reset', 'Reset search paths and install path to defaults.');
+
+      default:
+        return {
+          content: [{ type: 'text', text: `Unknown action: ${args.action}` }],
+          isError: true,
+        };
+    }
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : String(err);
+    return {
+      content: [{ type: 'text', text: `Error: ${errorMessage}` }],
+      isError: true,
+    };
+  }
+}
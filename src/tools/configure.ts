@@ -1,5 +1,6 @@
 import { z } from 'zod';
 import { ConfigManager, DEFAULT_MARKETPLACE } from '../managers/config.js';
+import { detectProvider, PROVIDER_TYPES } from '../providers/index.js';
 import { ToolResult } from '../types/index.js';
 
 /** Input schema for skills_configure_marketplace */
@@ -9,13 +10,32 @@ export const ConfigureInputSchema = z.object({
     .describe('Action to perform: list, add, remove, or reset marketplaces'),
   url: z
     .string()
-    .url()
+    .min(1)
     .optional()
-    .describe('Marketplace URL for add/remove actions'),
+    .describe('Marketplace URL or local directory for add/remove actions'),
+  provider: z
+    .enum(PROVIDER_TYPES)
+    .optional()
+    .describe('Provider for the add action: github, git or local (auto-detected if not specified)'),
 }).strict();
 
 export type ConfigureInput = z.infer<typeof ConfigureInputSchema>;
 
+/**
+ * Resolve the provider used for each marketplace (configured or detected)
+ */
+async function resolveProviders(
+  configManager: ConfigManager,
+  marketplaces: string[]
+): Promise<Record<string, string>> {
+  const providers: Record<string, string> = {};
+  for (const url of marketplaces) {
+    const configured = await configManager.getMarketplaceProvider(url);
+    providers[url] = configured ?? detectProvider(url)?.type ?? 'unsupported';
+  }
+  return providers;
+}
+
 /**
  * Handler for skills_configure_marketplace tool
  * Manages marketplace URL configuration
@@ -27,16 +47,18 @@ export async function handleConfigure(
   switch (args.action) {
     case 'list': {
       const marketplaces = await configManager.getMarketplaces();
+      const providers = await resolveProviders(configManager, marketplaces);
       const output = {
         action: 'list',
         marketplaces,
+        providers,
         default: DEFAULT_MARKETPLACE,
       };
 
       const lines = ['Configured marketplaces:', ''];
       for (let i = 0; i < marketplaces.length; i++) {
         const isDefault = marketplaces[i] === DEFAULT_MARKETPLACE ? ' (default)' : '';
-        lines.push(`${i + 1}. ${marketplaces[i]}${isDefault}`);
+        lines.push(`${i + 1}. ${marketplaces[i]}${isDefault} [${providers[marketplaces[i]]}]`);
       }
 
       return {
@@ -53,12 +75,23 @@ export async function handleConfigure(
         };
       }
 
-      await configManager.addMarketplace(args.url);
+      const provider = args.provider ?? detectProvider(args.url)?.type;
+      if (!provider) {
+        return {
+          content: [{
+            type: 'text',
+            text: `Error: Could not detect a provider for ${args.url}. Use a GitHub tree URL, a git clone URL (e.g. https://host/org/repo.git#main:skills), an absolute local directory, or set provider explicitly.`,
+          }],
+          isError: true,
+        };
+      }
+
+      await configManager.addMarketplace(args.url, args.provider);
       const marketplaces = await configManager.getMarketplaces();
 
       return {
-        content: [{ type: 'text', text: `Added marketplace: ${args.url}\n\nTotal marketplaces: ${marketplaces.length}` }],
-        structuredContent: { action: 'add', url: args.url, marketplaces },
+        content: [{ type: 'text', text: `Added marketplace: ${args.url} [${provider}]\n\nTotal marketplaces: ${marketplaces.length}` }],
+        structuredContent: { action: 'add', url: args.url, provider, marketplaces },
       };
     }
 
@@ -0,0 +1,191 @@
+import { z } from 'zod';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { SkillDiscoveryManager } from '../managers/skill-discovery.js';
+import { formatSize, SKILL_STATE_FILENAME, SkillDataManager } from '../managers/skill-data.js';
+import { ENVIRONMENT_STATE_FILENAME } from '../managers/skill-environment.js';
+import { getTrashPath } from '../utils/paths.js';
+import { SKILL_NAME_PATTERN } from '../utils/yaml-parser.js';
+import logger from '../utils/logger.js';
+import { ToolResult } from '../types/index.js';
+
+/** Input schema for skills_data */
+export const DataInputSchema = z.object({
+  action: z
+    .enum(['info', 'export', 'purge'])
+    .describe("Action to perform: info, export (archive as .tgz) or purge (delete) the skill's data directory"),
+  skill_name: z
+    .string()
+    .regex(SKILL_NAME_PATTERN, 'Skill names use lowercase letters, digits and hyphens')
+    .describe('Name of the skill (it does not need to be installed)'),
+  output_path: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Archive to create for export (optional, defaults to ~/<skill_name>-data.tgz)'),
+  confirm: z
+    .boolean()
+    .default(false)
+    .describe('Must be true for purge, which deletes the data permanently'),
+}).strict();
+
+export type DataInput = z.infer<typeof DataInputSchema>;
+
+/**
+ * Search paths and the install path, which no data directory may contain
+ */
+async function getSkillPaths(discoveryManager: SkillDiscoveryManager): Promise<string[]> {
+  return [...await discoveryManager.getSearchPaths(), await discoveryManager.getInstallPath()];
+}
+
+/**
+ * Check if an uninstalled skill is still in the .trash/ of a skill path
+ */
+async function isInTrash(skillName: string, skillPaths: string[]): Promise<boolean> {
+  // Trashed skills are named <skill>-<timestamp>; skill names can't contain regex syntax
+  const trashed = new RegExp(`^${skillName}-\\d+$`);
+  for (const skillPath of skillPaths) {
+    const entries = await fs.readdir(getTrashPath(skillPath)).catch(() => [] as string[]);
+    if (entries.some(entry => trashed.test(entry))) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Refuse a data directory that contains a skill search path or the install path
+ *
+ * @param toolName - Tool named in the error message
+ * @returns Error result, or null if the data directory can be used
+ */
+export async function checkDataDirectory(
+  discoveryManager: SkillDiscoveryManager,
+  dataManager: SkillDataManager,
+  skillName: string,
+  toolName: string
+): Promise<ToolResult | null> {
+  const overlap = dataManager.findSkillPathOverlap(skillName, await getSkillPaths(discoveryManager));
+  if (!overlap) {
+    return null;
+  }
+
+  return {
+    content: [{
+      type: 'text',
+      text: `Error: The data directory of "${skillName}" (${dataManager.getPath(skillName)}) contains the skill path ${overlap}, so ${toolName} won't touch it.`,
+    }],
+    isError: true,
+  };
+}
+
+/**
+ * Handler for skills_data tool
+ * Reports, exports or purges a skill's data directory, independent of its installed code
+ */
+export async function handleData(
+  discoveryManager: SkillDiscoveryManager,
+  args: DataInput,
+  dataManager: SkillDataManager = new SkillDataManager()
+): Promise<ToolResult> {
+  const overlapError = await checkDataDirectory(discoveryManager, dataManager, args.skill_name, 'skills_data');
+  if (overlapError) {
+    return overlapError;
+  }
+
+  const skills = await discoveryManager.discoverAllSkills();
+  const installed = skills.some(s => s.metadata.name === args.skill_name);
+  const info = await dataManager.getInfo(args.skill_name);
+
+  if (!info.exists) {
+    return {
+      content: [{
+        type: 'text',
+        text: `"${args.skill_name}" has no data directory (${info.path} does not exist).`,
+      }],
+      structuredContent: { skill: args.skill_name, installed, data: info },
+      ...(args.action === 'info' ? {} : { isError: true }),
+    };
+  }
+
+  if (args.action === 'info') {
+    const lines = [
+      `Data for "${args.skill_name}"${installed ? '' : ' (skill not installed)'}`,
+      '',
+      `**Directory:** ${info.path}`,
+      `**Size:** ${formatSize(info.sizeBytes)} in ${info.fileCount} files`,
+    ];
+    if (info.stateError) {
+      lines.push(`**state.json:** could not be parsed (${info.stateError})`);
+    } else if (info.state !== undefined) {
+      lines.push('**state.json:**', '```json', JSON.stringify(info.state, null, 2), '```');
+    }
+
+    return {
+      content: [{ type: 'text', text: lines.join('\n') }],
+      structuredContent: { skill: args.skill_name, installed, data: info },
+    };
+  }
+
+  // Names don't have to be installed, so any folder in ~/Documents would otherwise match
+  if (args.action === 'purge' && !installed && !await dataManager.hasSkillMarker(args.skill_name)
+    && !await isInTrash(args.skill_name, await getSkillPaths(discoveryManager))) {
+    return {
+      content: [{
+        type: 'text',
+        text: `Error: ${info.path} doesn't look like skill data: "${args.skill_name}" is neither installed nor in .trash/, and the directory has no ${SKILL_STATE_FILENAME} or ${ENVIRONMENT_STATE_FILENAME}. Delete it manually if it is no longer needed.`,
+      }],
+      structuredContent: { skill: args.skill_name, installed, data: info, purged: false },
+      isError: true,
+    };
+  }
+
+  if (args.action === 'purge' && !args.confirm) {
+    return {
+      content: [{
+        type: 'text',
+        text: `Purging deletes ${info.path} (${formatSize(info.sizeBytes)} in ${info.fileCount} files) permanently. Export it first if it may be needed, then call again with confirm: true.`,
+      }],
+      structuredContent: { skill: args.skill_name, installed, data: info, purged: false },
+      isError: true,
+    };
+  }
+
+  try {
+    if (args.action === 'export') {
+      const outputPath = path.resolve(args.output_path ?? path.join(os.homedir(), `${args.skill_name}-data.tgz`));
+      const archive = await dataManager.export(args.skill_name, outputPath);
+
+      return {
+        content: [{
+          type: 'text',
+          text: `Exported data of "${args.skill_name}" (${archive.fileCount} files) to ${archive.path} (${formatSize(archive.sizeBytes)}).\nEnvironments from skills_setup are not included; run skills_setup again after restoring.`,
+        }],
+        structuredContent: { skill: args.skill_name, installed, data: info, archive },
+      };
+    }
+
+    const purged = await dataManager.purge(args.skill_name);
+    const lines = [`Deleted ${info.path} (${formatSize(info.sizeBytes)} in ${info.fileCount} files).`];
+    if (installed) {
+      lines.push('', `"${args.skill_name}" is still installed and will start with a fresh data directory.`);
+    }
+
+    return {
+      content: [{ type: 'text', text: lines.join('\n') }],
+      structuredContent: { skill: args.skill_name, installed, data: info, purged: purged !== null },
+    };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : String(err);
+    logger.error('Failed to manage skill data', { skill: args.skill_name, action: args.action, error: errorMessage });
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Error (${args.action}) for data of "${args.skill_name}": ${errorMessage}`,
+      }],
+      isError: true,
+    };
+  }
+}
@@ -1,5 +1,5 @@
 import { z } from 'zod';
-import { MarketplaceManager } from '../managers/marketplace.js';
+import { MarketplaceManager, formatMarketplaceErrors, formatOfflineNotice } from '../managers/marketplace.js';
 import { ConfigManager } from '../managers/config.js';
 import { ToolResult } from '../types/index.js';
 
@@ -11,9 +11,9 @@ export const DiscoverInputSchema = z.object({
     .describe('Filter skills by name or description (optional)'),
   marketplace_url: z
     .string()
-    .url()
+    .min(1)
     .optional()
-    .describe('Specific marketplace URL to search (optional, uses all configured if not specified)'),
+    .describe('Specific marketplace URL or local directory to search (optional, uses all configured if not specified)'),
 }).strict();
 
 export type DiscoverInput = z.infer<typeof DiscoverInputSchema>;
@@ -36,7 +36,7 @@ export async function handleDiscover(
   }
 
   // Fetch skills
-  const allSkills = await marketplaceManager.fetchAllSkills(marketplaceUrls);
+  const { skills: allSkills, errors, status } = await marketplaceManager.fetchAllMarketplaces(marketplaceUrls);
 
   // Apply filter if provided
   const skills = args.filter
@@ -44,6 +44,7 @@ export async function handleDiscover(
     : allSkills;
 
   const output = {
+    status,
     total: skills.length,
     filter: args.filter || null,
     marketplaces: marketplaceUrls,
@@ -52,8 +53,10 @@ export async function handleDiscover(
       description: s.metadata.description,
       installCommand: s.installCommand,
       marketplace: s.marketplaceUrl,
+      ...(s.metadata.version ? { version: s.metadata.version } : {}),
       ...(s.metadata.license ? { license: s.metadata.license } : {}),
     })),
+    ...(errors.length > 0 ? { errors } : {}),
   };
 
   // Format text output
@@ -65,18 +68,20 @@ export async function handleDiscover(
   lines.push('');
 
   for (const skill of skills) {
-    lines.push(`## ${skill.metadata.name}`);
+    lines.push(`## ${skill.metadata.name}${skill.metadata.version ? ` (${skill.metadata.version})` : ''}`);
     lines.push(`${skill.metadata.description}`);
     lines.push(`- Install: \`${skill.installCommand}\``);
     lines.push('');
   }
 
   if (skills.length === 0) {
-    lines.push('No skills found. Try a different filter or add more marketplaces.');
+    lines.push(status === 'offline'
+      ? 'No cached skills match. Marketplaces can be browsed again once the network is back.'
+      : 'No skills found. Try a different filter or add more marketplaces.');
   }
 
   return {
-    content: [{ type: 'text', text: lines.join('\n') }],
+    content: [{ type: 'text', text: lines.join('\n') + formatOfflineNotice(status) + formatMarketplaceErrors(errors) }],
     structuredContent: output,
   };
 }
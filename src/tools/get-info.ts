@@ -2,9 +2,10 @@ import { z } from 'zod';
 import fs from 'fs/promises';
 import path from 'path';
 import { SkillDiscoveryManager } from '../managers/skill-discovery.js';
-import { MarketplaceManager } from '../managers/marketplace.js';
+import { MarketplaceManager, formatMarketplaceErrors, formatOfflineNotice } from '../managers/marketplace.js';
 import { ConfigManager } from '../managers/config.js';
-import { ToolResult } from '../types/index.js';
+import { formatSize, SkillDataManager } from '../managers/skill-data.js';
+import { SkillDataInfo, SkillMetadata, ToolResult } from '../types/index.js';
 
 /** Input schema for skills_get_info */
 export const GetInfoInputSchema = z.object({
@@ -20,6 +21,35 @@ export const GetInfoInputSchema = z.object({
 
 export type GetInfoInput = z.infer<typeof GetInfoInputSchema>;
 
+/**
+ * Format declared dependencies as a text line (empty if there are none)
+ */
+function formatDependencies(metadata: SkillMetadata): string[] {
+  if (!metadata.dependencies?.length) {
+    return [];
+  }
+
+  const names = metadata.dependencies.map(d => (d.version ? `${d.name}@${d.version}` : d.name));
+  return [`**Dependencies:** ${names.join(', ')}`];
+}
+
+/**
+ * Format a skill's data directory and state.json as text lines
+ */
+function formatData(data: SkillDataInfo): string[] {
+  if (!data.exists) {
+    return ['## Data', `${data.path} (not created yet)`];
+  }
+
+  const lines = ['## Data', `${data.path} (${formatSize(data.sizeBytes)} in ${data.fileCount} files)`];
+  if (data.stateError) {
+    lines.push('', `state.json could not be parsed: ${data.stateError}`);
+  } else if (data.state !== undefined) {
+    lines.push('', '**state.json:**', '```json', JSON.stringify(data.state, null, 2), '```');
+  }
+  return lines;
+}
+
 /**
  * Handler for skills_get_info tool
  * Gets detailed information about a specific skill
@@ -28,7 +58,8 @@ export async function handleGetInfo(
   discoveryManager: SkillDiscoveryManager,
   marketplaceManager: MarketplaceManager,
   configManager: ConfigManager,
-  args: GetInfoInput
+  args: GetInfoInput,
+  dataManager: SkillDataManager = new SkillDataManager()
 ): Promise<ToolResult> {
   if (args.source === 'local') {
     // Search local skills
@@ -69,6 +100,8 @@ export async function handleGetInfo(
       structure.push('(Could not list directory)');
     }
 
+    const data = await dataManager.getInfo(skill.metadata.name);
+
     const output = {
       source: 'local',
       name: skill.metadata.name,
@@ -80,6 +113,7 @@ export async function handleGetInfo(
       hasAssets: skill.hasAssets,
       structure,
       metadata: skill.metadata,
+      data,
     };
 
     const lines = [
@@ -87,10 +121,13 @@ export async function handleGetInfo(
       '',
       `**Description:** ${skill.metadata.description}`,
       `**Location:** ${skill.location}`,
+      ...formatDependencies(skill.metadata),
       '',
       '## Structure',
       ...structure.map(s => `- ${s}`),
       '',
+      ...formatData(data),
+      '',
       '## Full SKILL.md Content',
       '```markdown',
       fullContent,
@@ -104,20 +141,22 @@ export async function handleGetInfo(
   } else {
     // Search marketplace
     const marketplaceUrls = await configManager.getMarketplaces();
-    const allSkills = await marketplaceManager.fetchAllSkills(marketplaceUrls);
+    const { skills: allSkills, errors, status } = await marketplaceManager.fetchAllMarketplaces(marketplaceUrls);
     const skill = allSkills.find(s => s.metadata.name === args.skill_name);
 
     if (!skill) {
       return {
         content: [{
           type: 'text',
-          text: `Skill "${args.skill_name}" not found in marketplace. Run skills_discover to see available skills.`,
+          text: `Skill "${args.skill_name}" not found in marketplace. Run skills_discover to see available skills.${formatOfflineNotice(status)}${formatMarketplaceErrors(errors)}`,
         }],
+        structuredContent: { status },
         isError: true,
       };
     }
 
     const output = {
+      status,
       source: 'marketplace',
       name: skill.metadata.name,
       description: skill.metadata.description,
@@ -137,10 +176,11 @@ export async function handleGetInfo(
       '',
       skill.metadata.license ? `**License:** ${skill.metadata.license}` : '',
       skill.metadata.compatibility ? `**Compatibility:** ${skill.metadata.compatibility}` : '',
+      ...formatDependencies(skill.metadata),
     ].filter(Boolean);
 
     return {
-      content: [{ type: 'text', text: lines.join('\n') }],
+      content: [{ type: 'text', text: lines.join('\n') + formatOfflineNotice(status) }],
       structuredContent: output,
     };
   }
@@ -1,43 +1,335 @@
 import { z } from 'zod';
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import fs from 'fs/promises';
 import path from 'path';
-import { MarketplaceManager, parseGitHubUrl } from '../managers/marketplace.js';
+import { MarketplaceManager, formatMarketplaceErrors, formatOfflineNotice } from '../managers/marketplace.js';
 import { ConfigManager } from '../managers/config.js';
 import { SkillSourceManager } from '../managers/skill-source.js';
-import { getDefaultInstallPath } from '../utils/paths.js';
-import { parseSkillFrontmatter } from '../utils/yaml-parser.js';
+import { SkillDiscoveryManager } from '../managers/skill-discovery.js';
+import { DependencyResolver } from '../managers/dependency-resolver.js';
+import { LOCKFILE_FILENAME, SkillLockfileManager } from '../managers/skill-lockfile.js';
+import { parseSkillFrontmatter, SKILL_NAME_PATTERN } from '../utils/yaml-parser.js';
+import { resolveInside } from '../utils/paths.js';
+import { installSkillBundle } from '../utils/bundle.js';
+import { enforceRiskPolicy, formatSecurityReport, scanSkill, SecurityPolicyError } from '../utils/security-scan.js';
 import logger from '../utils/logger.js';
-import { ToolResult } from '../types/index.js';
-
-const execAsync = promisify(exec);
+import {
+  DependencyPlan,
+  IntegrityCheck,
+  MarketplaceSkill,
+  RevisionType,
+  RiskLevel,
+  SecurityReport,
+  SkillLockEntry,
+  SkillMetadata,
+  SkillSource,
+  ToolResult,
+  UpdatePolicy,
+} from '../types/index.js';
 
 /** Input schema for skills_install */
 export const InstallInputSchema = z.object({
   skill_name: z
     .string()
-    .min(1)
-    .describe('Name of the skill to install'),
+    .regex(SKILL_NAME_PATTERN, 'Skill names use lowercase letters, digits and hyphens')
+    .optional()
+    .describe('Name of the skill to install (required unless archive is given)'),
   marketplace_url: z
     .string()
-    .url()
+    .min(1)
+    .optional()
+    .describe('Source marketplace URL or local directory (optional, uses default if not specified)'),
+  archive: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Local path or HTTP(S) URL of a packed skill bundle (.skill.tgz, .tgz, .tar.gz or .zip) to install instead of a marketplace skill'),
+  ref: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Commit SHA, tag or branch to pin the skill to (optional, skills_update skips pinned skills)'),
+  install_dependencies: z
+    .boolean()
+    .default(true)
+    .describe('Also install skills listed in the skill\'s dependencies (default true)'),
+  update_policy: z
+    .enum(['patch', 'minor', 'major', 'any'])
+    .optional()
+    .describe('Which new versions count as updates: patch, minor, major or any (optional, defaults to any new commit)'),
+  scope: z
+    .enum(['user', 'project'])
+    .default('user')
+    .describe(`user (default) installs to the configured install path; project installs to <project_dir>/.claude/skills and records the skill in ${LOCKFILE_FILENAME}`),
+  project_dir: z
+    .string()
+    .min(1)
     .optional()
-    .describe('Source marketplace URL (optional, uses default if not specified)'),
+    .describe("Project root for scope project (optional, defaults to the server's working directory)"),
 }).strict();
 
 export type InstallInput = z.infer<typeof InstallInputSchema>;
 
+/**
+ * Install a packed skill bundle from a local path or URL
+ *
+ * @param archive - Local archive path or HTTP(S) URL
+ * @param installPath - Directory that receives the skill
+ * @param expectedName - Skill name the bundle must contain (optional)
+ * @param maxRisk - Highest risk level the security review lets through (default high)
+ */
+export async function installFromArchive(
+  archive: string,
+  installPath: string,
+  expectedName?: string,
+  maxRisk: RiskLevel = 'high'
+): Promise<ToolResult> {
+  const review: { report?: SecurityReport } = {};
+
+  try {
+    logger.info('Installing skill bundle', { archive });
+
+    const bundle = await installSkillBundle(archive, installPath, async ({ skillDir, metadata }) => {
+      if (expectedName && metadata.name !== expectedName) {
+        throw new Error(`Bundle contains skill "${metadata.name}", not "${expectedName}"`);
+      }
+      review.report = await scanSkill(skillDir);
+      enforceRiskPolicy(review.report, maxRisk);
+    });
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Successfully installed "${bundle.metadata.name}" to ${bundle.location}\n\nDescription: ${bundle.metadata.description}${review.report ? `\n\n${formatSecurityReport(review.report)}` : ''}\n\nTo use this skill, read its SKILL.md file and follow the instructions.`,
+      }],
+      structuredContent: {
+        success: true,
+        skill: {
+          name: bundle.metadata.name,
+          description: bundle.metadata.description,
+          location: bundle.location,
+        },
+        source: {
+          archive,
+          manifest: bundle.manifest !== null,
+          files: bundle.manifest?.files.length,
+        },
+        security: review.report,
+      },
+    };
+  } catch (err) {
+    if (err instanceof SecurityPolicyError) {
+      return blockedInstallResult(expectedName ?? archive, err);
+    }
+
+    const errorMessage = err instanceof Error ? err.message : String(err);
+    logger.error('Failed to install skill bundle', { archive, error: errorMessage });
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Error installing skill bundle "${archive}": ${errorMessage}`,
+      }],
+      isError: true,
+    };
+  }
+}
+
+/**
+ * Where a marketplace skill is downloaded from
+ */
+export type MarketplaceInstallTarget = Pick<MarketplaceSkill, 'marketplaceUrl' | 'skillPath'> & {
+  metadata: Pick<SkillMetadata, 'name'>;
+};
+
+/**
+ * Options for installing one marketplace skill
+ */
+export interface MarketplaceInstallOptions {
+  /** Commit SHA, tag or branch to pin to */
+  ref?: string;
+  /** Which new versions count as updates */
+  updatePolicy?: UpdatePolicy;
+  /** Highest risk level the security review lets through */
+  maxRisk: RiskLevel;
+  /** Lockfile entry the download must match exactly (its commit is downloaded instead of ref) */
+  locked?: SkillLockEntry;
+}
+
+/**
+ * Download a marketplace skill, review it, then move it into the install path
+ * and record its source
+ *
+ * @param marketplaceManager - Marketplace manager
+ * @param skill - Skill to install
+ * @param installPath - Directory that receives the skill
+ * @param options - Pin, update policy and security policy
+ * @throws SecurityPolicyError if the review exceeds options.maxRisk
+ * @throws Error if the name would leave installPath, the skill already exists, the download fails, fails its integrity check
+ *   or doesn't match options.locked (partial files are removed)
+ */
+export async function installMarketplaceSkill(
+  marketplaceManager: MarketplaceManager,
+  skill: MarketplaceInstallTarget,
+  installPath: string,
+  options: MarketplaceInstallOptions
+): Promise<{
+  revision: string;
+  revisionType?: RevisionType;
+  branch?: string;
+  integrity: IntegrityCheck;
+  security: SecurityReport;
+  source: SkillSource;
+}> {
+  const skillDir = resolveInside(installPath, skill.metadata.name);
+  if (!skillDir) {
+    throw new Error(`"${skill.metadata.name}" is not a valid skill name: it would be installed outside ${installPath}`);
+  }
+  const skillPath = skill.skillPath ?? skill.metadata.name;
+  const { ref, updatePolicy, locked } = options;
+
+  // Local marketplaces have no history: their content revision is checked after download
+  const downloadRef = locked ? (locked.revisionType === 'content' ? undefined : locked.commit) : ref;
+
+  try {
+    await fs.access(skillDir);
+    throw new Error(`${skillDir} already exists`);
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw err;
+    }
+  }
+
+  // Downloaded next to the install path so the skill only appears once it passed review
+  const tempDir = path.join(installPath, `.temp-install-${Date.now()}`);
+
+  try {
+    const { revision, revisionType, branch } = await marketplaceManager.downloadSkill(
+      skill.marketplaceUrl,
+      skillPath,
+      tempDir,
+      downloadRef
+    );
+
+    if (locked && revision !== locked.commit) {
+      throw new Error(`${skill.marketplaceUrl} serves revision ${revision.substring(0, 12)} of "${skill.metadata.name}", not the locked ${locked.commit.substring(0, 12)}`);
+    }
+
+    const sourceManager = new SkillSourceManager();
+    const sourceInfo = sourceManager.createSource(
+      skill.marketplaceUrl,
+      skillPath,
+      revision,
+      branch,
+      revisionType,
+      ref
+    );
+    const digest = await sourceManager.createDigest(tempDir);
+    if (locked?.digest && digest !== locked.digest) {
+      throw new Error(`Downloaded files of "${skill.metadata.name}" don't match the digest in ${LOCKFILE_FILENAME}`);
+    }
+    const integrity = await marketplaceManager.verifyDownload(sourceInfo, digest);
+
+    const security = await scanSkill(tempDir);
+    logger.info('Reviewed skill before install', { name: skill.metadata.name, risk: security.riskLevel });
+    enforceRiskPolicy(security, options.maxRisk);
+
+    await fs.rename(tempDir, skillDir);
+
+    // Save source tracking information
+    const source: SkillSource = {
+      ...sourceInfo,
+      files: await sourceManager.createManifest(skillDir),
+      digest,
+      ...(integrity.status === 'verified' ? { verifiedBy: integrity.signed ? 'signature' : 'checksum' } : {}),
+      ...(updatePolicy ? { updatePolicy } : {}),
+    };
+    await sourceManager.saveSource(skillDir, source);
+
+    return { revision, revisionType, branch, integrity, security, source };
+  } catch (err) {
+    // Clean up on failure
+    try {
+      await fs.rm(tempDir, { recursive: true, force: true });
+      await fs.rm(skillDir, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+    throw err;
+  }
+}
+
+/**
+ * Result for an install the security policy blocked
+ *
+ * @param skillName - Skill whose review exceeded the policy
+ * @param err - Error carrying the review
+ */
+function blockedInstallResult(skillName: string, err: SecurityPolicyError): ToolResult {
+  return {
+    content: [{
+      type: 'text',
+      text: `Error: Installing "${skillName}" was blocked. ${err.message}.\n\n${formatSecurityReport(err.report)}\n\nNothing was installed. Review the skill's files, or raise maxInstallRisk in ~/.config/skills-mcp/config.json to allow it.`,
+    }],
+    structuredContent: { success: false, blocked: true, skill: skillName, maxRisk: err.maxRisk, security: err.report },
+    isError: true,
+  };
+}
+
+/**
+ * Remove skills installed during a failed install
+ */
+async function removeSkills(installPath: string, names: string[]): Promise<void> {
+  for (const name of names) {
+    await fs.rm(path.join(installPath, name), { recursive: true, force: true });
+  }
+}
+
 /**
  * Handler for skills_install tool
- * Downloads and installs a skill from a marketplace
+ * Downloads and installs a skill from a marketplace or a packed bundle,
+ * along with any skills it depends on
  */
 export async function handleInstall(
+  discoveryManager: SkillDiscoveryManager,
   marketplaceManager: MarketplaceManager,
   configManager: ConfigManager,
   args: InstallInput
 ): Promise<ToolResult> {
-  const installPath = getDefaultInstallPath();
+  const lockManager = args.scope === 'project' ? new SkillLockfileManager(args.project_dir ?? process.cwd()) : null;
+  const installPath = lockManager ? lockManager.skillsPath : await configManager.getInstallPath();
+
+  if (args.archive) {
+    if (lockManager) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: Bundles can't be installed into a project, because ${LOCKFILE_FILENAME} can only record marketplace skills. Install it with scope "user", or publish it to a marketplace.`,
+        }],
+        isError: true,
+      };
+    }
+    if (args.ref) {
+      return {
+        content: [{
+          type: 'text',
+          text: 'Error: ref only applies to marketplace installs; a bundle is installed exactly as packed.',
+        }],
+        isError: true,
+      };
+    }
+    return installFromArchive(args.archive, installPath, args.skill_name, await configManager.getMaxInstallRisk());
+  }
+
+  if (!args.skill_name) {
+    return {
+      content: [{
+        type: 'text',
+        text: 'Error: Provide skill_name to install from a marketplace, or archive to install a packed bundle.',
+      }],
+      isError: true,
+    };
+  }
+
   const skillDir = path.join(installPath, args.skill_name);
 
   // Check if skill already exists
@@ -46,7 +338,7 @@ export async function handleInstall(
     return {
       content: [{
         type: 'text',
-        text: `Error: Skill "${args.skill_name}" already exists at ${skillDir}. Remove it first if you want to reinstall.`,
+        text: `Error: Skill "${args.skill_name}" already exists at ${skillDir}. Run skills_uninstall first if you want to reinstall.`,
       }],
       isError: true,
     };
@@ -63,71 +355,112 @@ export async function handleInstall(
   }
 
   // Find skill in marketplaces
-  const allSkills = await marketplaceManager.fetchAllSkills(marketplaceUrls);
+  const { skills: allSkills, errors, status } = await marketplaceManager.fetchAllMarketplaces(marketplaceUrls);
   const skill = allSkills.find(s => s.metadata.name === args.skill_name);
 
   if (!skill) {
     return {
       content: [{
         type: 'text',
-        text: `Error: Skill "${args.skill_name}" not found in configured marketplaces. Run skills_discover to see available skills.`,
+        text: `Error: Skill "${args.skill_name}" not found in configured marketplaces. Run skills_discover to see available skills.${formatOfflineNotice(status)}${formatMarketplaceErrors(errors)}`,
       }],
+      structuredContent: { success: false, status },
       isError: true,
     };
   }
 
-  // Parse the marketplace URL to get GitHub coordinates
-  const parsed = parseGitHubUrl(skill.marketplaceUrl);
-  if (!parsed) {
+  if (await marketplaceManager.isOffline(skill.marketplaceUrl)) {
     return {
       content: [{
         type: 'text',
-        text: `Error: Cannot parse marketplace URL: ${skill.marketplaceUrl}`,
+        text: `Error: Cannot download "${args.skill_name}" from ${skill.marketplaceUrl} while offline. Try again once the network is back, or install from a local marketplace or a packed bundle (archive).`,
       }],
+      structuredContent: { success: false, status: 'offline' },
       isError: true,
     };
   }
 
-  const { owner, repo, branch, path: basePath } = parsed;
-  const skillPath = basePath ? `${basePath}/${args.skill_name}` : args.skill_name;
+  let plan: DependencyPlan | null = null;
+  if (args.install_dependencies && skill.metadata.dependencies?.length) {
+    // A project must carry its own dependencies, so skills installed for the user don't count
+    const installedSkills = lockManager
+      ? await discoveryManager.discoverSkillsInPath(installPath)
+      : await discoveryManager.discoverAllSkills();
+    plan = await new DependencyResolver(marketplaceManager).resolve(skill, allSkills, installedSkills);
+
+    if (plan.issues.length > 0) {
+      return {
+        content: [{
+          type: 'text',
+          text: `Error: Cannot install "${args.skill_name}" because its dependencies can't be met:\n${plan.issues.map(i => `  - ${i.message}`).join('\n')}\n\nPass install_dependencies: false to install it on its own.`,
+        }],
+        structuredContent: { success: false, status, dependencyIssues: plan.issues },
+        isError: true,
+      };
+    }
+  }
 
   // Ensure install directory exists
   await fs.mkdir(installPath, { recursive: true });
+  const maxRisk = await configManager.getMaxInstallRisk();
 
-  // Clone using sparse checkout (only the skill directory)
-  const repoUrl = `https://github.com/${owner}/${repo}.git`;
-  const tempDir = path.join(installPath, `.temp-${Date.now()}`);
-
-  try {
-    logger.info('Installing skill', { name: args.skill_name, from: skill.marketplaceUrl });
+  // Dependencies first, so the skill never sits installed without them
+  const installedDependencies: string[] = [];
+  const dependencySources: SkillSource[] = [];
+  for (const dependency of plan?.install ?? []) {
+    try {
+      logger.info('Installing dependency', { name: dependency.metadata.name, for: args.skill_name });
+      const { source } = await installMarketplaceSkill(marketplaceManager, dependency, installPath, { maxRisk });
+      installedDependencies.push(dependency.metadata.name);
+      dependencySources.push(source);
+    } catch (err) {
+      await removeSkills(installPath, installedDependencies);
 
-    // Initialize sparse checkout
-    await execAsync(`git clone --filter=blob:none --no-checkout --depth 1 --sparse "${repoUrl}" "${tempDir}"`);
-    await execAsync(`git -C "${tempDir}" sparse-checkout init --cone`);
-    await execAsync(`git -C "${tempDir}" sparse-checkout set "${skillPath}"`);
-    await execAsync(`git -C "${tempDir}" checkout ${branch}`);
+      if (err instanceof SecurityPolicyError) {
+        return blockedInstallResult(dependency.metadata.name, err);
+      }
 
-    // Get the commit hash for source tracking
-    const { stdout: commitHash } = await execAsync(`git -C "${tempDir}" rev-parse HEAD`);
-    const cleanCommitHash = commitHash.trim();
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      logger.error('Failed to install dependencies', { name: args.skill_name, error: errorMessage });
 
-    // Move skill to final location
-    const sourceDir = path.join(tempDir, skillPath);
-    await fs.rename(sourceDir, skillDir);
+      return {
+        content: [{
+          type: 'text',
+          text: `Error installing dependencies of "${args.skill_name}": ${errorMessage}\n\nNothing was installed.`,
+        }],
+        isError: true,
+      };
+    }
+  }
 
-    // Clean up temp directory
-    await fs.rm(tempDir, { recursive: true, force: true });
+  const lockedSkills: string[] = [];
+  try {
+    logger.info('Installing skill', { name: args.skill_name, from: skill.marketplaceUrl, ref: args.ref });
 
-    // Save source tracking information
-    const sourceManager = new SkillSourceManager();
-    const sourceInfo = sourceManager.createSource(
-      skill.marketplaceUrl,
-      args.skill_name,
-      cleanCommitHash,
-      branch
+    const { revision, revisionType, branch, integrity, security, source } = await installMarketplaceSkill(
+      marketplaceManager,
+      skill,
+      installPath,
+      { ref: args.ref, updatePolicy: args.update_policy, maxRisk }
     );
-    await sourceManager.saveSource(skillDir, sourceInfo);
-    logger.debug('Saved skill source tracking', { skill: args.skill_name, commit: cleanCommitHash });
+    logger.debug('Saved skill source tracking', { skill: args.skill_name, commit: revision });
+
+    // Project installs are recorded for skills_sync, dependencies included
+    let projectNote = '';
+    if (lockManager) {
+      for (let i = 0; i < installedDependencies.length; i++) {
+        await lockManager.lock(installedDependencies[i], dependencySources[i]);
+        lockedSkills.push(installedDependencies[i]);
+      }
+      await lockManager.lock(args.skill_name, source);
+      lockedSkills.push(args.skill_name);
+
+      const searchPaths = (await discoveryManager.getSearchPaths()).map(p => path.resolve(p));
+      projectNote = `\n\nRecorded in ${lockManager.lockfilePath}. Commit it so others can install the same skills with skills_sync.`;
+      if (!searchPaths.includes(installPath)) {
+        projectNote += `\n\n⚠️ ${installPath} is not a search path of this server, so the skill won't be listed. Add it with skills_configure_paths.`;
+      }
+    }
 
     // Validate installed skill
     const skillMdPath = path.join(skillDir, 'SKILL.md');
@@ -145,6 +478,9 @@ export async function handleInstall(
 
     const output = {
       success: true,
+      status,
+      scope: args.scope,
+      ...(lockManager ? { lockfile: lockManager.lockfilePath } : {}),
       skill: {
         name: parseResult.data!.name,
         description: parseResult.data!.description,
@@ -152,25 +488,43 @@ export async function handleInstall(
       },
       source: {
         marketplaceUrl: skill.marketplaceUrl,
-        commitHash: cleanCommitHash,
+        commitHash: revision,
+        revisionType: revisionType ?? 'commit',
         branch,
+        ...(args.ref ? { pin: args.ref } : {}),
+        ...(args.update_policy ? { updatePolicy: args.update_policy } : {}),
       },
+      integrity,
+      security,
+      ...(plan ? { dependencies: { installed: installedDependencies, satisfied: plan.satisfied } } : {}),
     };
 
+    const pinNote = args.ref
+      ? `\n\nPinned to ${args.ref} (${revision.substring(0, 7)}). skills_update will skip it until the pin is moved.`
+      : '';
+    const integrityNote = integrity.status === 'verified'
+      ? `\n\nVerified against the ${integrity.signed ? 'signed ' : ''}marketplace checksum.`
+      : '';
+    const dependencyNote = installedDependencies.length > 0
+      ? `\n\nAlso installed dependencies: ${installedDependencies.join(', ')}`
+      : '';
+
     return {
       content: [{
         type: 'text',
-        text: `Successfully installed "${args.skill_name}" to ${skillDir}\n\nDescription: ${parseResult.data!.description}\n\nTo use this skill, read its SKILL.md file and follow the instructions.`,
+        text: `Successfully installed "${args.skill_name}" to ${skillDir}\n\nDescription: ${parseResult.data!.description}${pinNote}${integrityNote}${dependencyNote}${projectNote}\n\n${formatSecurityReport(security)}\n\nTo use this skill, read its SKILL.md file and follow the instructions.`,
       }],
       structuredContent: output,
     };
   } catch (err) {
-    // Clean up on failure
-    try {
-      await fs.rm(tempDir, { recursive: true, force: true });
-      await fs.rm(skillDir, { recursive: true, force: true });
-    } catch {
-      // Ignore cleanup errors
+    // The skill didn't exist before this install, so a late failure removes it along with its dependencies
+    await removeSkills(installPath, [...installedDependencies, args.skill_name]);
+    for (const name of lockedSkills) {
+      await lockManager?.unlock(name).catch(() => false);
+    }
+
+    if (err instanceof SecurityPolicyError) {
+      return blockedInstallResult(args.skill_name, err);
     }
 
     const errorMessage = err instanceof Error ? err.message : String(err);
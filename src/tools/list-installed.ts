@@ -27,11 +27,14 @@ export async function handleListInstalled(
       name: s.metadata.name,
       description: s.metadata.description,
       location: s.location,
+      ...(s.metadata.version ? { version: s.metadata.version } : {}),
+      ...(s.source?.updatePolicy ? { updatePolicy: s.source.updatePolicy } : {}),
       hasScripts: s.hasScripts,
       hasReferences: s.hasReferences,
       hasAssets: s.hasAssets,
       ...(s.metadata.license ? { license: s.metadata.license } : {}),
       ...(s.metadata.compatibility ? { compatibility: s.metadata.compatibility } : {}),
+      ...(s.source?.pin ? { pinned: { ref: s.source.pin, commit: s.source.commitHash } } : {}),
     })),
     ...(invalidSkills.length > 0
       ? {
@@ -49,9 +52,11 @@ export async function handleListInstalled(
   lines.push('');
 
   for (const skill of validSkills) {
-    lines.push(`## ${skill.metadata.name}`);
+    lines.push(`## ${skill.metadata.name}${skill.metadata.version ? ` (${skill.metadata.version})` : ''}`);
     lines.push(`${skill.metadata.description}`);
     lines.push(`- Location: ${skill.location}`);
+    if (skill.source?.updatePolicy) lines.push(`- Update policy: ${skill.source.updatePolicy}`);
+    if (skill.source?.pin) lines.push(`- Pinned to ${skill.source.pin} (${skill.source.commitHash.substring(0, 7)})`);
     if (skill.hasScripts) lines.push('- Has scripts/');
     if (skill.hasReferences) lines.push('- Has references/');
     if (skill.hasAssets) lines.push('- Has assets/');
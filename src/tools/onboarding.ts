@@ -87,8 +87,17 @@ Instructions for using this skill...
 - \`skills_list_installed\` - List local skills
 - \`skills_discover\` - Browse marketplace
 - \`skills_install\` - Install a skill
+- \`skills_sync\` - Install the skills in a project's skills.lock.json
 - \`skills_update\` - Update installed skills
+- \`skills_rollback\` - Restore a previous version of a skill
+- \`skills_verify\` - Check installed skills for changes since install
+- \`skills_run_script\` - Run a script from a skill's scripts/ directory
+- \`skills_setup\` - Install a skill's Python/Node.js dependencies
+- \`skills_uninstall\` - Remove an installed skill
+- \`skills_data\` - Inspect, export or purge a skill's data directory
+- \`skills_pack\` - Pack a skill into a shareable bundle
 - \`skills_configure_marketplace\` - Manage marketplaces
+- \`skills_configure_paths\` - Manage skill search paths and install location
 - \`skills_get_info\` - Get skill details
 - \`skills_onboarding\` - This guide
 `;
@@ -0,0 +1,91 @@
+import { z } from 'zod';
+import os from 'os';
+import path from 'path';
+import { SkillDiscoveryManager } from '../managers/skill-discovery.js';
+import { packSkill } from '../utils/bundle.js';
+import logger from '../utils/logger.js';
+import { BundleFormat, ToolResult } from '../types/index.js';
+
+/** Input schema for skills_pack */
+export const PackInputSchema = z.object({
+  skill_name: z
+    .string()
+    .min(1)
+    .describe('Name of the installed skill to pack'),
+  output_path: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Archive to create (optional, defaults to ~/<skill_name>.skill.tgz or .zip)'),
+  format: z
+    .enum(['tgz', 'zip'])
+    .default('tgz')
+    .describe('Archive format: tgz (default) or zip'),
+}).strict();
+
+export type PackInput = z.infer<typeof PackInputSchema>;
+
+/**
+ * Default archive filename for a skill
+ */
+export function getDefaultBundleFilename(skillName: string, format: BundleFormat): string {
+  return format === 'zip' ? `${skillName}.zip` : `${skillName}.skill.tgz`;
+}
+
+/**
+ * Handler for skills_pack tool
+ * Builds a distributable bundle from an installed skill
+ */
+export async function handlePack(
+  discoveryManager: SkillDiscoveryManager,
+  args: PackInput
+): Promise<ToolResult> {
+  const skills = await discoveryManager.discoverAllSkills();
+  const skill = skills.find(s => s.metadata.name === args.skill_name);
+
+  if (!skill) {
+    return {
+      content: [{
+        type: 'text',
+        text: `Error: Skill "${args.skill_name}" not found. Run skills_list_installed to see available skills.`,
+      }],
+      isError: true,
+    };
+  }
+
+  const outputPath = path.resolve(
+    args.output_path ?? path.join(os.homedir(), getDefaultBundleFilename(skill.metadata.name, args.format))
+  );
+
+  try {
+    const manifest = await packSkill(skill.location, outputPath, args.format);
+    logger.info('Packed skill', { name: skill.metadata.name, outputPath, files: manifest.files.length });
+
+    const totalSize = manifest.files.reduce((sum, f) => sum + f.size, 0);
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Packed "${skill.metadata.name}" to ${outputPath}\n\nFiles: ${manifest.files.length} (${totalSize} bytes)\n\nInstall it elsewhere with skills_install and archive: "${outputPath}"`,
+      }],
+      structuredContent: {
+        success: true,
+        skill: { name: skill.metadata.name, location: skill.location },
+        outputPath,
+        format: args.format,
+        manifest,
+      },
+    };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : String(err);
+    logger.error('Failed to pack skill', { name: args.skill_name, error: errorMessage });
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Error packing skill "${args.skill_name}": ${errorMessage}\n\nMake sure tar (or zip for .zip bundles) is installed.`,
+      }],
+      isError: true,
+    };
+  }
+}
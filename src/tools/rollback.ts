@@ -0,0 +1,147 @@
+import { z } from 'zod';
+import path from 'path';
+import { SkillDiscoveryManager } from '../managers/skill-discovery.js';
+import { SkillVersionManager } from '../managers/skill-versions.js';
+import { relockSkill } from '../managers/skill-lockfile.js';
+import logger from '../utils/logger.js';
+import { SkillVersion, ToolResult } from '../types/index.js';
+
+/** Input schema for skills_rollback */
+export const RollbackInputSchema = z.object({
+  skill_name: z
+    .string()
+    .min(1)
+    .describe('Name of the installed skill to roll back'),
+  version: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('ID of the saved version to restore (omit to list saved versions)'),
+}).strict();
+
+export type RollbackInput = z.infer<typeof RollbackInputSchema>;
+
+/**
+ * Summarize a saved version for structured output
+ */
+function describeVersion(version: SkillVersion): Record<string, unknown> {
+  return {
+    id: version.id,
+    savedAt: version.savedAt,
+    commitHash: version.source?.commitHash ?? null,
+    ...(version.source?.pin ? { pin: version.source.pin } : {}),
+  };
+}
+
+/**
+ * Format a saved version as one line of text output
+ */
+function formatVersionLine(version: SkillVersion): string {
+  const revision = version.source ? version.source.commitHash.substring(0, 7) : 'untracked';
+  const pin = version.source?.pin ? `, pinned to ${version.source.pin}` : '';
+  return `- ${version.id} (${revision}${pin}, replaced ${version.savedAt})`;
+}
+
+/**
+ * Handler for skills_rollback tool
+ * Lists saved versions of a skill, or restores one in place of the current version
+ */
+export async function handleRollback(
+  discoveryManager: SkillDiscoveryManager,
+  args: RollbackInput
+): Promise<ToolResult> {
+  const skills = await discoveryManager.discoverAllSkills();
+  const skill = skills.find(s => s.metadata.name === args.skill_name);
+
+  if (!skill) {
+    return {
+      content: [{
+        type: 'text',
+        text: `Error: Skill "${args.skill_name}" not found. Run skills_list_installed to see available skills.`,
+      }],
+      isError: true,
+    };
+  }
+
+  const versionManager = new SkillVersionManager();
+  const versions = await versionManager.listVersions(skill.location);
+  const current = {
+    commitHash: skill.source?.commitHash ?? null,
+    ...(skill.source?.pin ? { pin: skill.source.pin } : {}),
+  };
+
+  if (!args.version) {
+    const lines = versions.length > 0
+      ? [
+          `Saved versions of "${skill.metadata.name}" (newest first):`,
+          '',
+          ...versions.map(formatVersionLine),
+          '',
+          'Restore one with skills_rollback and its version ID.',
+        ]
+      : [`No saved versions of "${skill.metadata.name}". Versions are kept when skills_update replaces a skill.`];
+
+    return {
+      content: [{ type: 'text', text: lines.join('\n') }],
+      structuredContent: {
+        skill: { name: skill.metadata.name, location: skill.location },
+        current,
+        versions: versions.map(describeVersion),
+      },
+    };
+  }
+
+  if (await discoveryManager.isReadOnlyPath(path.dirname(skill.location))) {
+    return {
+      content: [{
+        type: 'text',
+        text: `Error: Skill "${args.skill_name}" is installed in ${path.dirname(skill.location)}, which is read-only for this server.`,
+      }],
+      isError: true,
+    };
+  }
+
+  if (!versions.some(v => v.id === args.version)) {
+    return {
+      content: [{
+        type: 'text',
+        text: `Error: Version "${args.version}" of "${args.skill_name}" not found. Call skills_rollback without version to list saved versions.`,
+      }],
+      isError: true,
+    };
+  }
+
+  try {
+    const { restored, replaced } = await versionManager.restoreVersion(skill.location, args.version);
+    const lockfile = await relockSkill(skill.location, skill.metadata.name);
+
+    const lines = [
+      `Rolled back "${skill.metadata.name}" to version ${restored.id} (${restored.source?.commitHash.substring(0, 7) ?? 'untracked'}).`,
+      '',
+      `The version it replaced was saved as ${replaced.id}. Restore it the same way to undo this rollback.`,
+      ...(lockfile ? ['', `Updated ${lockfile}.`] : []),
+    ];
+
+    return {
+      content: [{ type: 'text', text: lines.join('\n') }],
+      structuredContent: {
+        success: true,
+        skill: { name: skill.metadata.name, location: skill.location },
+        restored: describeVersion(restored),
+        replaced: describeVersion(replaced),
+        ...(lockfile ? { lockfile } : {}),
+      },
+    };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : String(err);
+    logger.error('Failed to roll back skill', { name: args.skill_name, version: args.version, error: errorMessage });
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Error rolling back skill "${args.skill_name}": ${errorMessage}`,
+      }],
+      isError: true,
+    };
+  }
+}
@@ -0,0 +1,237 @@
+import { z } from 'zod';
+import fs from 'fs/promises';
+import path from 'path';
+import { SkillDiscoveryManager } from '../managers/skill-discovery.js';
+import { ConfigManager } from '../managers/config.js';
+import { getEnvironmentVariables, SkillEnvironmentManager } from '../managers/skill-environment.js';
+import { SkillDataManager } from '../managers/skill-data.js';
+import { checkDataDirectory } from './data.js';
+import { resolveInside } from '../utils/paths.js';
+import {
+  buildBubblewrapArgs,
+  buildScriptEnv,
+  findHiddenPaths,
+  getScriptCommand,
+  isBubblewrapAvailable,
+  runScript,
+} from '../utils/script-runner.js';
+import logger from '../utils/logger.js';
+import { ToolResult } from '../types/index.js';
+
+/** Default time limit for a script (seconds) */
+const DEFAULT_TIMEOUT_SECONDS = 60;
+
+/** Default bytes kept from each of stdout and stderr */
+const DEFAULT_MAX_OUTPUT_BYTES = 64 * 1024;
+
+/** Input schema for skills_run_script */
+export const RunScriptInputSchema = z.object({
+  skill_name: z
+    .string()
+    .min(1)
+    .describe('Name of the installed skill'),
+  script: z
+    .string()
+    .min(1)
+    .describe('Script path relative to the skill directory, e.g. scripts/convert.py (a bare filename is looked up in scripts/)'),
+  args: z
+    .array(z.string())
+    .default([])
+    .describe('Arguments passed to the script'),
+  cwd: z
+    .enum(['data', 'skill'])
+    .default('data')
+    .describe("Working directory: the skill's data directory (~/Documents/{skill-name}/) or the skill directory itself"),
+  env: z
+    .record(z.string())
+    .optional()
+    .describe('Extra environment variables for the script (server variables are only passed if allowlisted)'),
+  timeout_seconds: z
+    .number()
+    .int()
+    .min(1)
+    .max(600)
+    .default(DEFAULT_TIMEOUT_SECONDS)
+    .describe('Kill the script after this many seconds (default 60)'),
+  max_output_bytes: z
+    .number()
+    .int()
+    .min(1024)
+    .max(10 * 1024 * 1024)
+    .default(DEFAULT_MAX_OUTPUT_BYTES)
+    .describe('Bytes kept from each of stdout and stderr (default 64 KB)'),
+  sandbox: z
+    .enum(['auto', 'bubblewrap', 'none'])
+    .default('auto')
+    .describe('auto uses bubblewrap when it is installed; bubblewrap fails if it is not'),
+}).strict();
+
+export type RunScriptInput = z.infer<typeof RunScriptInputSchema>;
+
+/**
+ * Resolve a script inside a skill directory
+ * Symlinks are followed, but the target must stay inside the skill.
+ *
+ * @returns Absolute script path and whether it is executable, or null if not found
+ */
+async function resolveScript(skillDir: string, script: string): Promise<{ path: string; isExecutable: boolean } | null> {
+  const candidates = script.includes('/') ? [script] : [path.join('scripts', script), script];
+  const realSkillDir = await fs.realpath(skillDir);
+
+  for (const candidate of candidates) {
+    const resolved = resolveInside(skillDir, candidate);
+    if (!resolved) {
+      continue;
+    }
+
+    try {
+      const realPath = await fs.realpath(resolved);
+      const stats = await fs.stat(realPath);
+      if (stats.isFile() && resolveInside(realSkillDir, path.relative(realSkillDir, realPath))) {
+        return { path: realPath, isExecutable: (stats.mode & 0o111) !== 0 };
+      }
+    } catch {
+      // Try the next candidate
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Format captured output for text results
+ */
+function formatStream(name: string, content: string, truncated: boolean): string {
+  if (!content) {
+    return '';
+  }
+  return `\n\n${name}${truncated ? ' (truncated)' : ''}:\n\`\`\`\n${content.trimEnd()}\n\`\`\``;
+}
+
+/**
+ * Handler for skills_run_script tool
+ * Runs a script that ships with an installed skill, with guardrails,
+ * using the environment skills_setup provisioned for it (if any)
+ */
+export async function handleRunScript(
+  discoveryManager: SkillDiscoveryManager,
+  configManager: ConfigManager,
+  args: RunScriptInput,
+  environmentManager: SkillEnvironmentManager = new SkillEnvironmentManager(),
+  dataManager: SkillDataManager = new SkillDataManager()
+): Promise<ToolResult> {
+  const skills = await discoveryManager.discoverAllSkills();
+  const skill = skills.find(s => s.metadata.name === args.skill_name);
+
+  if (!skill) {
+    return {
+      content: [{
+        type: 'text',
+        text: `Error: Skill "${args.skill_name}" not found. Run skills_list_installed to see available skills.`,
+      }],
+      isError: true,
+    };
+  }
+
+  const script = await resolveScript(skill.location, args.script);
+  if (!script) {
+    return {
+      content: [{
+        type: 'text',
+        text: `Error: Script "${args.script}" not found in ${skill.location}. Use skills_get_info to list the skill's files.`,
+      }],
+      isError: true,
+    };
+  }
+
+  const command = getScriptCommand(script.path, script.isExecutable);
+  if (!command) {
+    return {
+      content: [{
+        type: 'text',
+        text: `Error: Don't know how to run "${args.script}". Scripts need a known extension (.py, .sh, .js, ...) or an execute bit.`,
+      }],
+      isError: true,
+    };
+  }
+
+  // Python scripts run in the skill's venv once skills_setup created one
+  const environment = await environmentManager.getState(skill.metadata.name);
+  if (environment?.python && command[0] === 'python3') {
+    command[0] = environment.python.interpreter;
+  }
+
+  const useSandbox = args.sandbox !== 'none' && await isBubblewrapAvailable();
+  if (args.sandbox === 'bubblewrap' && !useSandbox) {
+    return {
+      content: [{
+        type: 'text',
+        text: 'Error: sandbox "bubblewrap" was requested, but bwrap is not installed or cannot create namespaces here.',
+      }],
+      isError: true,
+    };
+  }
+
+  if (args.cwd === 'data') {
+    const overlapError = await checkDataDirectory(discoveryManager, dataManager, skill.metadata.name, 'skills_run_script');
+    if (overlapError) {
+      return overlapError;
+    }
+  }
+
+  const cwd = args.cwd === 'data' ? await dataManager.ensure(skill.metadata.name) : skill.location;
+
+  const finalCommand = useSandbox
+    ? ['bwrap', ...buildBubblewrapArgs(command, { skillDir: skill.location, cwd, hidden: await findHiddenPaths() })]
+    : command;
+  const sandbox = useSandbox ? 'bubblewrap' : 'none';
+  const relativeScript = path.relative(await fs.realpath(skill.location), script.path);
+
+  try {
+    logger.info('Running skill script', { skill: skill.metadata.name, script: relativeScript, sandbox });
+
+    const baseEnv = buildScriptEnv(await configManager.getScriptEnvAllowlist());
+    const result = await runScript([...finalCommand, ...args.args], {
+      cwd,
+      env: {
+        ...baseEnv,
+        ...(environment ? getEnvironmentVariables(environment, baseEnv.PATH) : {}),
+        ...args.env,
+      },
+      timeoutMs: args.timeout_seconds * 1000,
+      maxOutputBytes: args.max_output_bytes,
+    });
+
+    const failed = result.timedOut || result.exitCode !== 0;
+    const status = result.timedOut
+      ? `timed out after ${args.timeout_seconds}s`
+      : result.signal ? `killed by ${result.signal}` : `exit code ${result.exitCode}`;
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Ran ${relativeScript} from "${skill.metadata.name}" (${status}, ${(result.durationMs / 1000).toFixed(1)}s, sandbox: ${sandbox})${formatStream('stdout', result.stdout, result.truncated.stdout)}${formatStream('stderr', result.stderr, result.truncated.stderr)}`,
+      }],
+      structuredContent: {
+        skill: skill.metadata.name,
+        script: relativeScript,
+        args: args.args,
+        cwd,
+        sandbox,
+        ...result,
+      },
+      ...(failed ? { isError: true } : {}),
+    };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : String(err);
+    logger.error('Failed to run skill script', { skill: skill.metadata.name, script: relativeScript, error: errorMessage });
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Error running ${relativeScript}: ${errorMessage}`,
+      }],
+      isError: true,
+    };
+  }
+}
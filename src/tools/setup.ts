@@ -0,0 +1,110 @@
+import { z } from 'zod';
+import { SkillDiscoveryManager } from '../managers/skill-discovery.js';
+import { SkillEnvironmentManager } from '../managers/skill-environment.js';
+import { SkillDataManager } from '../managers/skill-data.js';
+import { checkDataDirectory } from './data.js';
+import logger from '../utils/logger.js';
+import { ToolResult } from '../types/index.js';
+
+/** Input schema for skills_setup */
+export const SetupInputSchema = z.object({
+  skill_name: z
+    .string()
+    .min(1)
+    .describe('Name of the installed skill to set up'),
+  force: z
+    .boolean()
+    .default(false)
+    .describe('Recreate the environment even if it is up to date'),
+  allow_install_scripts: z
+    .boolean()
+    .default(false)
+    .describe('Let npm run package install scripts (skipped by default)'),
+}).strict();
+
+export type SetupInput = z.infer<typeof SetupInputSchema>;
+
+/**
+ * Handler for skills_setup tool
+ * Provisions a Python venv and/or Node.js dependencies for a skill in its data directory
+ */
+export async function handleSetup(
+  discoveryManager: SkillDiscoveryManager,
+  args: SetupInput,
+  environmentManager: SkillEnvironmentManager = new SkillEnvironmentManager(),
+  dataManager: SkillDataManager = new SkillDataManager()
+): Promise<ToolResult> {
+  const skills = await discoveryManager.discoverAllSkills();
+  const skill = skills.find(s => s.metadata.name === args.skill_name);
+
+  if (!skill) {
+    return {
+      content: [{
+        type: 'text',
+        text: `Error: Skill "${args.skill_name}" not found. Run skills_list_installed to see available skills.`,
+      }],
+      isError: true,
+    };
+  }
+
+  const overlapError = await checkDataDirectory(discoveryManager, dataManager, args.skill_name, 'skills_setup');
+  if (overlapError) {
+    return overlapError;
+  }
+
+  const manifests = Object.keys(await environmentManager.detectManifests(skill.location));
+  if (manifests.length === 0) {
+    return {
+      content: [{
+        type: 'text',
+        text: `"${args.skill_name}" has no requirements.txt, pyproject.toml or package.json. Nothing to set up.`,
+      }],
+      structuredContent: { skill: args.skill_name, status: 'nothing_to_setup', manifests },
+    };
+  }
+
+  const existing = await environmentManager.getState(args.skill_name);
+  if (existing && !args.force && !await environmentManager.isOutdated(args.skill_name, skill.location)) {
+    return {
+      content: [{
+        type: 'text',
+        text: `"${args.skill_name}" is already set up (${existing.setupAt}). Pass force: true to recreate the environment.`,
+      }],
+      structuredContent: { skill: args.skill_name, status: 'up_to_date', manifests, state: existing },
+    };
+  }
+
+  try {
+    const { state, steps } = await environmentManager.setup(args.skill_name, skill.location, {
+      force: args.force,
+      allowInstallScripts: args.allow_install_scripts,
+    });
+
+    const lines = [`Set up "${args.skill_name}" from ${manifests.join(', ')}`, ''];
+    if (state.python) {
+      lines.push(`- Python venv: ${state.python.venv}`);
+      lines.push(`  Run scripts with ${state.python.interpreter}`);
+    }
+    if (state.node) {
+      lines.push(`- Node.js modules: ${state.node.nodeModules}`);
+    }
+    lines.push('', 'skills_run_script uses this environment automatically.');
+
+    return {
+      content: [{ type: 'text', text: lines.join('\n') }],
+      structuredContent: { skill: args.skill_name, status: existing ? 'updated' : 'created', manifests, state, steps },
+    };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : String(err);
+    logger.error('Failed to set up skill environment', { skill: args.skill_name, error: errorMessage });
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Error setting up "${args.skill_name}": ${errorMessage}`,
+      }],
+      structuredContent: { skill: args.skill_name, status: 'failed', manifests, error: errorMessage },
+      isError: true,
+    };
+  }
+}
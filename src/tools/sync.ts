@@ -0,0 +1,276 @@
+import { z } from 'zod';
+import fs from 'fs/promises';
+import path from 'path';
+import { MarketplaceManager } from '../managers/marketplace.js';
+import { ConfigManager } from '../managers/config.js';
+import { SkillSourceManager } from '../managers/skill-source.js';
+import { SkillVersionManager } from '../managers/skill-versions.js';
+import { LOCKFILE_FILENAME, SkillLockfileManager, validateLockEntry } from '../managers/skill-lockfile.js';
+import { installMarketplaceSkill } from './install.js';
+import { SecurityPolicyError } from '../utils/security-scan.js';
+import { getTrashPath } from '../utils/paths.js';
+import { SKILL_NAME_PATTERN } from '../utils/yaml-parser.js';
+import logger from '../utils/logger.js';
+import { RiskLevel, SkillLockEntry, SkillVersion, ToolResult } from '../types/index.js';
+
+/** Input schema for skills_sync */
+export const SyncInputSchema = z.object({
+  project_dir: z
+    .string()
+    .min(1)
+    .optional()
+    .describe(`Project root holding ${LOCKFILE_FILENAME} (optional, defaults to the server's working directory)`),
+  force: z
+    .boolean()
+    .default(false)
+    .describe('Replace installed skills even if they have local edits or were not installed from a marketplace'),
+  prune: z
+    .boolean()
+    .default(false)
+    .describe(`Move skills in <project_dir>/.claude/skills that ${LOCKFILE_FILENAME} does not list to .trash/`),
+  dry_run: z
+    .boolean()
+    .default(false)
+    .describe('Report what would change without changing anything'),
+}).strict();
+
+export type SyncInput = z.infer<typeof SyncInputSchema>;
+
+/**
+ * What skills_sync did (or would do) with one skill
+ */
+interface SyncResult {
+  name: string;
+  action: 'installed' | 'replaced' | 'unchanged' | 'conflict' | 'failed' | 'extra' | 'pruned';
+  commit?: string;
+  /** Why the skill was not synced */
+  reason?: string;
+}
+
+/** Headings of the text report, in display order */
+const SECTIONS: Array<[SyncResult['action'], string]> = [
+  ['installed', '✅ Installed:'],
+  ['replaced', '🔁 Replaced with the locked revision:'],
+  ['unchanged', '⏭️ Already at the locked revision:'],
+  ['conflict', '✋ Not replaced (pass force: true to overwrite):'],
+  ['failed', '❌ Failed:'],
+  ['extra', `➕ Installed but not in ${LOCKFILE_FILENAME} (pass prune: true to remove):`],
+  ['pruned', '🗑️ Moved to .trash/ (not in the lockfile):'],
+];
+
+/**
+ * Check if a path exists
+ */
+async function pathExists(p: string): Promise<boolean> {
+  return fs.access(p).then(() => true, () => false);
+}
+
+/**
+ * Decide whether an installed skill can be replaced without losing work
+ *
+ * @returns Why it must be kept, or null if replacing it is safe
+ */
+async function findConflict(skillDir: string): Promise<string | null> {
+  const sourceManager = new SkillSourceManager();
+  const source = await sourceManager.getSource(skillDir);
+  if (!source) {
+    return 'not installed from a marketplace';
+  }
+
+  const changes = await sourceManager.getLocalChanges(skillDir, source);
+  const edited = changes ? [...changes.modified, ...changes.added, ...changes.removed] : [];
+  return edited.length > 0 ? `local changes to ${edited.join(', ')}` : null;
+}
+
+/**
+ * Install one locked skill, replacing whatever is installed under its name
+ * The replaced directory is kept as a version for skills_rollback, and put back if the install fails.
+ */
+async function syncSkill(
+  marketplaceManager: MarketplaceManager,
+  installPath: string,
+  name: string,
+  entry: SkillLockEntry,
+  options: { maxRisk: RiskLevel; keepVersions: number }
+): Promise<void> {
+  const skillDir = path.join(installPath, name);
+  const versionManager = new SkillVersionManager();
+  let previous: SkillVersion | null = null;
+
+  if (await pathExists(skillDir)) {
+    previous = await versionManager.saveCurrent(skillDir);
+  }
+
+  try {
+    await installMarketplaceSkill(
+      marketplaceManager,
+      { metadata: { name }, marketplaceUrl: entry.marketplace, skillPath: entry.path },
+      installPath,
+      { ref: entry.pin, updatePolicy: entry.updatePolicy, maxRisk: options.maxRisk, locked: entry }
+    );
+  } catch (err) {
+    if (previous) {
+      await fs.rename(previous.path, skillDir);
+    }
+    throw err;
+  }
+
+  if (previous) {
+    await versionManager.prune(skillDir, options.keepVersions);
+  }
+}
+
+/**
+ * Handler for skills_sync tool
+ * Installs exactly the skills and revisions a project's skills.lock.json lists
+ */
+export async function handleSync(
+  marketplaceManager: MarketplaceManager,
+  configManager: ConfigManager,
+  args: SyncInput
+): Promise<ToolResult> {
+  const lockManager = new SkillLockfileManager(args.project_dir ?? process.cwd());
+
+  let lockfile;
+  try {
+    lockfile = await lockManager.read();
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : String(err);
+    return {
+      content: [{ type: 'text', text: `Error reading ${lockManager.lockfilePath}: ${errorMessage}` }],
+      isError: true,
+    };
+  }
+
+  if (!lockfile) {
+    return {
+      content: [{
+        type: 'text',
+        text: `Error: No ${LOCKFILE_FILENAME} in ${lockManager.projectDir}. Install skills with scope "project" to create one.`,
+      }],
+      isError: true,
+    };
+  }
+
+  const installPath = lockManager.skillsPath;
+  const maxRisk = await configManager.getMaxInstallRisk();
+  const keepVersions = await configManager.getKeepVersions();
+  const results: SyncResult[] = [];
+
+  if (!args.dry_run) {
+    await fs.mkdir(installPath, { recursive: true });
+  }
+
+  for (const [name, entry] of Object.entries(lockfile.skills)) {
+    if (!SKILL_NAME_PATTERN.test(name)) {
+      results.push({ name, action: 'failed', reason: 'not a valid skill name' });
+      continue;
+    }
+
+    const entryError = validateLockEntry(entry);
+    if (entryError) {
+      results.push({ name, action: 'failed', reason: `invalid lockfile entry: ${entryError}` });
+      continue;
+    }
+
+    if (!await marketplaceManager.getProvider(entry.marketplace)) {
+      results.push({ name, action: 'failed', commit: entry.commit, reason: `${entry.marketplace} is not a supported marketplace` });
+      continue;
+    }
+
+    const skillDir = path.join(installPath, name);
+    const installed = await pathExists(skillDir);
+    const source = installed ? await new SkillSourceManager().getSource(skillDir) : null;
+
+    if (source && source.commitHash === entry.commit
+      && source.marketplaceUrl === entry.marketplace && source.skillPath === entry.path) {
+      results.push({ name, action: 'unchanged', commit: entry.commit });
+      continue;
+    }
+
+    const conflict = installed && !args.force ? await findConflict(skillDir) : null;
+    if (conflict) {
+      results.push({ name, action: 'conflict', commit: entry.commit, reason: conflict });
+      continue;
+    }
+
+    const action = installed ? 'replaced' : 'installed';
+    if (args.dry_run) {
+      results.push({ name, action, commit: entry.commit });
+      continue;
+    }
+
+    if (await marketplaceManager.isOffline(entry.marketplace)) {
+      results.push({ name, action: 'failed', commit: entry.commit, reason: `${entry.marketplace} can't be reached while offline` });
+      continue;
+    }
+
+    try {
+      logger.info('Syncing skill from lockfile', { name, commit: entry.commit, replace: installed });
+      await syncSkill(marketplaceManager, installPath, name, entry, { maxRisk, keepVersions });
+      results.push({ name, action, commit: entry.commit });
+    } catch (err) {
+      const reason = err instanceof SecurityPolicyError
+        ? `blocked by the security review (${err.message})`
+        : err instanceof Error ? err.message : String(err);
+      logger.error('Failed to sync skill', { name, error: reason });
+      results.push({ name, action: 'failed', commit: entry.commit, reason });
+    }
+  }
+
+  // Skills in the project that the lockfile doesn't list
+  const entries = await fs.readdir(installPath, { withFileTypes: true }).catch(() => []);
+  for (const entry of entries) {
+    if (!entry.isDirectory() || entry.name.startsWith('.') || Object.hasOwn(lockfile.skills, entry.name)) {
+      continue;
+    }
+
+    if (!args.prune || args.dry_run) {
+      results.push({ name: entry.name, action: args.prune ? 'pruned' : 'extra' });
+      continue;
+    }
+
+    const trashDir = getTrashPath(installPath);
+    await fs.mkdir(trashDir, { recursive: true });
+    await fs.rename(path.join(installPath, entry.name), path.join(trashDir, `${entry.name}-${Date.now()}`));
+    results.push({ name: entry.name, action: 'pruned' });
+  }
+
+  const lines = [
+    `${args.dry_run ? '🔍 Dry run: nothing was changed.\n\n' : ''}Synced ${installPath} with ${lockManager.lockfilePath}`,
+  ];
+  for (const [action, heading] of SECTIONS) {
+    const matching = results.filter(r => r.action === action);
+    if (matching.length === 0) {
+      continue;
+    }
+    lines.push('', heading);
+    for (const r of matching) {
+      const commit = r.commit ? ` @ ${r.commit.substring(0, 7)}` : '';
+      lines.push(`  - ${r.name}${commit}${r.reason ? `: ${r.reason}` : ''}`);
+    }
+  }
+
+  const count = (action: SyncResult['action']): number => results.filter(r => r.action === action).length;
+  const failed = count('failed') + count('conflict');
+
+  return {
+    content: [{ type: 'text', text: lines.join('\n') }],
+    structuredContent: {
+      lockfile: lockManager.lockfilePath,
+      installPath,
+      dryRun: args.dry_run,
+      results,
+      summary: {
+        installed: count('installed'),
+        replaced: count('replaced'),
+        unchanged: count('unchanged'),
+        conflicts: count('conflict'),
+        failed: count('failed'),
+        extra: count('extra'),
+        pruned: count('pruned'),
+      },
+    },
+    ...(failed > 0 ? { isError: true } : {}),
+  };
+}
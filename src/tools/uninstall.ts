@@ -0,0 +1,152 @@
+import { z } from 'zod';
+import fs from 'fs/promises';
+import { constants as fsConstants } from 'fs';
+import path from 'path';
+import { SkillDiscoveryManager } from '../managers/skill-discovery.js';
+import { SkillDataManager } from '../managers/skill-data.js';
+import { unlockSkill } from '../managers/skill-lockfile.js';
+import { getTrashPath } from '../utils/paths.js';
+import logger from '../utils/logger.js';
+import { ToolResult } from '../types/index.js';
+
+/** Input schema for skills_uninstall */
+export const UninstallInputSchema = z.object({
+  skill_name: z
+    .string()
+    .min(1)
+    .describe('Name of the installed skill to remove'),
+}).strict();
+
+export type UninstallInput = z.infer<typeof UninstallInputSchema>;
+
+/**
+ * Check if a directory can be written to by the current user
+ */
+async function isWritable(dirPath: string): Promise<boolean> {
+  try {
+    await fs.access(dirPath, fsConstants.W_OK);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Handler for skills_uninstall tool
+ * Moves an installed skill to the trash of its search path.
+ * The skill's data directory is never touched.
+ */
+export async function handleUninstall(
+  discoveryManager: SkillDiscoveryManager,
+  args: UninstallInput
+): Promise<ToolResult> {
+  const skills = await discoveryManager.discoverAllSkills();
+  const skill = skills.find(s => s.metadata.name === args.skill_name);
+
+  if (!skill) {
+    return {
+      content: [{
+        type: 'text',
+        text: `Error: Skill "${args.skill_name}" not found. Run skills_list_installed to see available skills.`,
+      }],
+      isError: true,
+    };
+  }
+
+  // Resolve the search path that contains this skill
+  const searchPaths = await discoveryManager.getSearchPaths();
+  const parentDir = path.dirname(skill.location);
+  const searchRoot = searchPaths.find(p => path.resolve(p) === parentDir);
+
+  if (!searchRoot) {
+    return {
+      content: [{
+        type: 'text',
+        text: `Error: Skill "${args.skill_name}" at ${skill.location} is not inside a known skill search path. Refusing to remove it.`,
+      }],
+      isError: true,
+    };
+  }
+
+  if (await discoveryManager.isReadOnlyPath(searchRoot) || !(await isWritable(searchRoot))) {
+    return {
+      content: [{
+        type: 'text',
+        text: `Error: Skill "${args.skill_name}" is installed in ${searchRoot}, which is read-only for this server. Remove it manually if needed.`,
+      }],
+      isError: true,
+    };
+  }
+
+  const trashDir = getTrashPath(searchRoot);
+  const trashLocation = path.join(trashDir, `${path.basename(skill.location)}-${Date.now()}`);
+
+  try {
+    await fs.mkdir(trashDir, { recursive: true });
+    await fs.rename(skill.location, trashLocation);
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : String(err);
+    logger.error('Failed to uninstall skill', { name: args.skill_name, error: errorMessage });
+
+    return {
+      content: [{
+        type: 'text',
+        text: `Error uninstalling skill "${args.skill_name}": ${errorMessage}`,
+      }],
+      isError: true,
+    };
+  }
+
+  logger.info('Skill uninstalled', { name: args.skill_name, trash: trashLocation });
+
+  // Skills that declared this one as a dependency
+  const dependents = skills
+    .filter(s => s.metadata.dependencies?.some(d => d.name === skill.metadata.name))
+    .map(s => s.metadata.name);
+
+  const lockfile = await unlockSkill(skill.location, skill.metadata.name);
+  const data = await new SkillDataManager().getInfo(skill.metadata.name);
+  const dataDirectory = data.path;
+  const hasData = data.exists;
+
+  const output = {
+    success: true,
+    skill: {
+      name: skill.metadata.name,
+      location: skill.location,
+      wasTracked: Boolean(skill.source),
+    },
+    trashLocation,
+    dependents,
+    ...(lockfile ? { lockfile } : {}),
+    dataDirectory: {
+      path: dataDirectory,
+      exists: hasData,
+      preserved: true,
+    },
+  };
+
+  const lines = [
+    `Uninstalled "${skill.metadata.name}" from ${skill.location}`,
+    '',
+    `The skill was moved to ${trashLocation}.`,
+    `To restore it, move that directory back to ${skill.location}.`,
+  ];
+
+  if (lockfile) {
+    lines.push('', `Removed it from ${lockfile}.`);
+  }
+
+  if (hasData) {
+    lines.push('', `Skill data at ${dataDirectory} was left untouched. Use skills_data to export or purge it.`);
+  }
+
+  if (dependents.length > 0) {
+    lines.push('', `⚠️ Still needed by: ${dependents.join(', ')}. They may not work until "${skill.metadata.name}" is reinstalled.`);
+  }
+
+  return {
+    content: [{ type: 'text', text: lines.join('\n') }],
+    structuredContent: output,
+  };
+}
@@ -1,15 +1,30 @@
 import { z } from 'zod';
-import { exec } from 'child_process';
-import { promisify } from 'util';
 import fs from 'fs/promises';
+import os from 'os';
 import path from 'path';
 import { SkillDiscoveryManager } from '../managers/skill-discovery.js';
-import { MarketplaceManager, parseGitHubUrl } from '../managers/marketplace.js';
+import { MarketplaceManager } from '../managers/marketplace.js';
 import { SkillSourceManager } from '../managers/skill-source.js';
+import { SkillVersionManager } from '../managers/skill-versions.js';
+import { ConfigManager } from '../managers/config.js';
+import { SkillEnvironmentManager } from '../managers/skill-environment.js';
+import { relockSkill } from '../managers/skill-lockfile.js';
+import { diffSkillDirectories } from '../utils/skill-diff.js';
+import { applyLocalChanges } from '../utils/skill-merge.js';
+import { enforceRiskPolicy, scanSkill } from '../utils/security-scan.js';
 import logger from '../utils/logger.js';
-import { ToolResult, InstalledSkill } from '../types/index.js';
-
-const execAsync = promisify(exec);
+import {
+  ToolResult,
+  InstalledSkill,
+  SkillCommit,
+  SkillFileDiff,
+  SkillSource,
+  LocalChanges,
+  LocalChangeResolution,
+  LocalChangeStrategy,
+  SkillUpdateStatus,
+  RiskLevel,
+} from '../types/index.js';
 
 /** Input schema for skills_update */
 export const UpdateInputSchema = z.object({
@@ -17,6 +32,27 @@ export const UpdateInputSchema = z.object({
     .string()
     .optional()
     .describe('Name of specific skill to update (omit to update all skills with updates)'),
+  ref: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Move the pin of skill_name to this commit SHA, tag or branch (requires skill_name)'),
+  unpin: z
+    .boolean()
+    .default(false)
+    .describe('Remove the pin of skill_name and update it to the latest version (requires skill_name)'),
+  dry_run: z
+    .boolean()
+    .default(false)
+    .describe('Preview commits and file changes for each update without changing anything on disk'),
+  local_changes: z
+    .enum(['refuse', 'keep_local', 'merge', 'overwrite'])
+    .default('refuse')
+    .describe('What to do with skills edited since install: refuse (default), keep_local, merge, or overwrite'),
+  update_policy: z
+    .enum(['patch', 'minor', 'major', 'any'])
+    .optional()
+    .describe('Set which new versions of skill_name count as updates: patch, minor, major or any (requires skill_name)'),
 }).strict();
 
 export type UpdateInput = z.infer<typeof UpdateInputSchema>;
@@ -25,11 +61,71 @@ interface UpdateResult {
   name: string;
   previousCommit: string;
   newCommit: string;
+  pin?: string;
+  /** Saved version to pass to skills_rollback (absent when no versions are kept) */
+  previousVersion?: string;
+  /** How local changes were carried over (absent if there were none) */
+  localChanges?: LocalChangeResolution;
+  /** Installed and new semantic versions (when the update policy compared them) */
+  versions?: { from: string; to: string };
+  /** Project lockfile that now records the new revision */
+  lockfile?: string;
+  /** Whether skills_setup was re-run because the skill's manifests changed */
+  environment?: { status: 'reprovisioned' | 'failed'; error?: string };
+}
+
+/**
+ * A skill left alone because of local changes
+ */
+interface ConflictResult {
+  name: string;
+  /** Files changed since install */
+  localChanges: LocalChanges;
+  /** Files that blocked the update */
+  conflicts: string[];
 }
 
 interface SkipResult {
   name: string;
   reason: string;
+  pin?: string;
+  /** Why the update policy held the skill back */
+  detail?: string;
+}
+
+/**
+ * What an update would change, reported by dry runs
+ */
+interface UpdatePreview {
+  name: string;
+  currentCommit: string;
+  newCommit: string;
+  pin?: string;
+  /** Commits touching the skill since the installed revision (null without commit history) */
+  commits: SkillCommit[] | null;
+  /** Why commits could not be listed */
+  commitsError?: string;
+  diff: SkillFileDiff;
+  /** Files changed since install (absent if there are none or no manifest was recorded) */
+  localChanges?: LocalChanges;
+}
+
+/**
+ * Options for updateSkill
+ */
+interface UpdateOptions {
+  /** Previous versions to keep for skills_rollback */
+  keepVersions: number;
+  /** New pin (commit SHA, tag or branch) */
+  ref?: string;
+  /** Drop the pin and follow the marketplace again */
+  unpin?: boolean;
+  /** Only report what would change */
+  dryRun?: boolean;
+  /** What to do with files edited since install */
+  localChanges: LocalChangeStrategy;
+  /** Highest risk level the security review lets through */
+  maxRisk: RiskLevel;
 }
 
 interface FailResult {
@@ -37,91 +133,325 @@ interface FailResult {
   error: string;
 }
 
+/** Error returned by updateSkill when the skill is already current */
+const UP_TO_DATE = 'Already up to date';
+
+/** Error returned by updateSkill when its marketplace can't be reached */
+const OFFLINE_SKIP = 'Offline';
+
+/** Error returned by updateSkill when the skill is pinned and no pin change was requested */
+const PINNED = 'Pinned';
+
+/** Error returned by updateSkill when the update policy rejects the new version */
+const HELD_BACK = 'Held back by update policy';
+
+/** Error returned by updateSkill when local changes block the update */
+const LOCAL_CHANGES = 'Local changes';
+
+/**
+ * All files in a set of local changes
+ */
+function listChangedFiles(changes: LocalChanges): string[] {
+  return [...changes.modified, ...changes.added, ...changes.removed].sort();
+}
+
+/**
+ * Download the version a skill was installed at, as the base of a three-way merge
+ *
+ * @returns Directory holding it, or null if the marketplace has no history to fetch it from
+ */
+async function downloadInstalledVersion(
+  source: SkillSource,
+  marketplaceManager: MarketplaceManager,
+  workDir: string
+): Promise<string | null> {
+  if (source.revisionType === 'content') {
+    return null;
+  }
+
+  const baseDir = path.join(workDir, 'base');
+  try {
+    await marketplaceManager.downloadSkill(source.marketplaceUrl, source.skillPath, baseDir, source.commitHash);
+    return baseDir;
+  } catch (err) {
+    logger.warn('Failed to download installed version for merge', {
+      skillPath: source.skillPath,
+      error: err instanceof Error ? err.message : String(err),
+    });
+    return null;
+  }
+}
+
+/**
+ * Download the new version of a skill outside its search path and compare it
+ * with the installed one. The installed skill is not touched.
+ */
+async function previewUpdate(
+  skill: InstalledSkill & { source: NonNullable<InstalledSkill['source']> },
+  marketplaceManager: MarketplaceManager,
+  ref?: string,
+  localChanges?: LocalChanges
+): Promise<UpdatePreview> {
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'skills-mcp-preview-'));
+
+  try {
+    const newDir = path.join(workDir, 'skill');
+    const { revision: newCommit } = await marketplaceManager.downloadSkill(
+      skill.source.marketplaceUrl,
+      skill.source.skillPath,
+      newDir,
+      ref
+    );
+
+    let commits: SkillCommit[] | null = null;
+    let commitsError: string | undefined;
+    try {
+      commits = await marketplaceManager.getCommitsSince(skill.source, ref);
+    } catch (err) {
+      commitsError = err instanceof Error ? err.message : String(err);
+    }
+
+    return {
+      name: skill.metadata.name,
+      currentCommit: skill.source.commitHash,
+      newCommit,
+      ...(ref ? { pin: ref } : {}),
+      commits,
+      ...(commitsError ? { commitsError } : {}),
+      diff: await diffSkillDirectories(skill.location, newDir),
+      ...(localChanges ? { localChanges } : {}),
+    };
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Format a dry-run preview as text lines
+ */
+function formatPreview(preview: UpdatePreview): string[] {
+  const pinNote = preview.pin ? ` (pinned to ${preview.pin})` : '';
+  const lines = [`## ${preview.name}: ${preview.currentCommit.substring(0, 7)} → ${preview.newCommit.substring(0, 7)}${pinNote}`];
+
+  if (preview.commits && preview.commits.length > 0) {
+    lines.push('Commits:');
+    for (const c of preview.commits) {
+      const byline = [c.author, c.date?.substring(0, 10)].filter(Boolean).join(', ');
+      lines.push(`  - ${c.hash.substring(0, 7)} ${c.subject}${byline ? ` (${byline})` : ''}`);
+    }
+  } else if (preview.commitsError) {
+    lines.push(`Commits: unavailable (${preview.commitsError})`);
+  }
+
+  const { added, modified, removed, frontmatter } = preview.diff;
+  if (added.length + modified.length + removed.length === 0) {
+    lines.push('Files: no content changes');
+  } else {
+    lines.push('Files:');
+    lines.push(...added.map(f => `  + ${f}`));
+    lines.push(...modified.map(f => `  ~ ${f}`));
+    lines.push(...removed.map(f => `  - ${f}`));
+  }
+
+  if (frontmatter.length > 0) {
+    lines.push('SKILL.md frontmatter:');
+    for (const change of frontmatter) {
+      const before = change.before === undefined ? '(unset)' : JSON.stringify(change.before);
+      const after = change.after === undefined ? '(unset)' : JSON.stringify(change.after);
+      lines.push(`  ${change.field}: ${before} → ${after}`);
+    }
+  }
+
+  if (preview.localChanges) {
+    lines.push(`Local changes: ${listChangedFiles(preview.localChanges).join(', ')}`);
+  }
+
+  return lines;
+}
+
 /**
  * Update a single skill from its marketplace source
+ * Pinned skills are only touched when a pin change is requested.
+ * The replaced directory is kept in the version store, up to keepVersions versions.
+ * Files edited since install are handled according to options.localChanges.
+ * In a dry run, a preview is returned instead and nothing on disk changes.
  */
 async function updateSkill(
   skill: InstalledSkill,
-  marketplaceManager: MarketplaceManager
-): Promise<{ success: boolean; result?: UpdateResult; error?: string }> {
+  marketplaceManager: MarketplaceManager,
+  options: UpdateOptions
+): Promise<{
+  success: boolean;
+  result?: UpdateResult;
+  preview?: UpdatePreview;
+  conflict?: ConflictResult;
+  error?: string;
+  detail?: string;
+}> {
   if (!skill.source) {
     return { success: false, error: 'No source tracking information' };
   }
 
-  // Check for updates
-  const updateStatus = await marketplaceManager.checkForUpdates(skill.source);
+  const pinChange = { ref: options.ref, unpin: options.unpin };
+  const movePin = pinChange.ref !== undefined || pinChange.unpin === true;
+  if (skill.source.pin && !movePin) {
+    return { success: false, error: PINNED };
+  }
 
-  if (!updateStatus.hasUpdate) {
-    return { success: false, error: 'Already up to date' };
+  if (await marketplaceManager.isOffline(skill.source.marketplaceUrl)) {
+    return { success: false, error: OFFLINE_SKIP };
   }
 
-  // Parse marketplace URL
-  const parsed = parseGitHubUrl(skill.source.marketplaceUrl);
-  if (!parsed) {
-    return { success: false, error: 'Invalid marketplace URL' };
+  // Check for updates (moving a pin always downloads)
+  const updateStatus: SkillUpdateStatus | null = movePin
+    ? null
+    : await marketplaceManager.checkForUpdates(skill.source, skill.metadata.version);
+
+  if (updateStatus?.heldBack) {
+    return { success: false, error: HELD_BACK, detail: updateStatus.heldBack };
   }
 
-  const { owner, repo, branch, path: basePath } = parsed;
-  const skillPath = basePath ? `${basePath}/${skill.source.skillPath}` : skill.source.skillPath;
-  const repoUrl = `https://github.com/${owner}/${repo}.git`;
+  if (updateStatus && !updateStatus.hasUpdate) {
+    // The check itself may have found the network down
+    const offline = updateStatus.error !== undefined && await marketplaceManager.isOffline(skill.source.marketplaceUrl);
+    return { success: false, error: offline ? OFFLINE_SKIP : UP_TO_DATE };
+  }
+
+  // Skills installed before manifests were recorded can't be checked
+  const sourceManager = new SkillSourceManager();
+  const found = await sourceManager.getLocalChanges(skill.location, skill.source);
+  const localChanges = found && listChangedFiles(found).length > 0 ? found : undefined;
+
+  if (options.dryRun) {
+    try {
+      const source = skill.source;
+      return {
+        success: true,
+        preview: await previewUpdate({ ...skill, source }, marketplaceManager, pinChange.ref, localChanges),
+      };
+    } catch (err) {
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      logger.error('Failed to preview skill update', { name: skill.metadata.name, error: errorMessage });
+      return { success: false, error: errorMessage };
+    }
+  }
+
+  if (localChanges && options.localChanges === 'refuse') {
+    return {
+      success: false,
+      error: LOCAL_CHANGES,
+      conflict: { name: skill.metadata.name, localChanges, conflicts: listChangedFiles(localChanges) },
+    };
+  }
 
   // Create temp directory for update
   const parentDir = path.dirname(skill.location);
   const tempDir = path.join(parentDir, `.temp-update-${Date.now()}`);
-  const backupDir = path.join(parentDir, `.backup-${skill.metadata.name}-${Date.now()}`);
+  const versionManager = new SkillVersionManager();
 
   try {
     logger.info('Updating skill', {
       name: skill.metadata.name,
       from: skill.source.commitHash.substring(0, 7),
-      to: updateStatus.remoteCommit?.substring(0, 7),
+      to: updateStatus?.remoteCommit?.substring(0, 7) ?? pinChange.ref ?? 'latest',
     });
 
-    // Clone new version
-    await execAsync(`git clone --filter=blob:none --no-checkout --depth 1 --sparse "${repoUrl}" "${tempDir}"`);
-    await execAsync(`git -C "${tempDir}" sparse-checkout init --cone`);
-    await execAsync(`git -C "${tempDir}" sparse-checkout set "${skillPath}"`);
-    await execAsync(`git -C "${tempDir}" checkout ${branch}`);
+    // Download new version
+    const { revision: newCommit, revisionType, branch } = await marketplaceManager.downloadSkill(
+      skill.source.marketplaceUrl,
+      skill.source.skillPath,
+      tempDir,
+      pinChange.ref
+    );
+
+    // Manifest and digest of the new version as published, before local changes are carried over
+    const files = await sourceManager.createManifest(tempDir);
+    const digest = await sourceManager.createDigest(tempDir);
+    const integrity = await marketplaceManager.verifyDownload(
+      { ...skill.source, commitHash: newCommit, revisionType },
+      digest
+    );
+
+    // New versions get the same review as installs
+    enforceRiskPolicy(await scanSkill(tempDir), options.maxRisk);
+
+    let resolution: LocalChangeResolution | undefined;
+    if (localChanges && options.localChanges !== 'overwrite') {
+      const strategy = options.localChanges === 'merge' ? 'merge' : 'keep_local';
+      const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'skills-mcp-merge-'));
+      try {
+        const baseDir = strategy === 'merge'
+          ? await downloadInstalledVersion(skill.source, marketplaceManager, workDir)
+          : null;
+        resolution = await applyLocalChanges(
+          skill.location,
+          tempDir,
+          localChanges,
+          skill.source.files ?? {},
+          strategy,
+          baseDir
+        );
+      } finally {
+        await fs.rm(workDir, { recursive: true, force: true });
+      }
 
-    // Get new commit hash
-    const { stdout: newCommitHash } = await execAsync(`git -C "${tempDir}" rev-parse HEAD`);
-    const cleanNewCommit = newCommitHash.trim();
+      if (resolution.conflicts.length > 0) {
+        await fs.rm(tempDir, { recursive: true, force: true });
+        return {
+          success: false,
+          error: LOCAL_CHANGES,
+          conflict: { name: skill.metadata.name, localChanges, conflicts: resolution.conflicts },
+        };
+      }
+    }
 
-    // Backup current skill
-    await fs.rename(skill.location, backupDir);
+    // Keep the current version for skills_rollback
+    const previous = await versionManager.saveCurrent(skill.location);
 
     try {
       // Move new version to skill location
-      const sourceDir = path.join(tempDir, skillPath);
-      await fs.rename(sourceDir, skill.location);
+      await fs.rename(tempDir, skill.location);
 
       // Update source tracking
-      const sourceManager = new SkillSourceManager();
       const newSource = sourceManager.createSource(
         skill.source.marketplaceUrl,
         skill.source.skillPath,
-        cleanNewCommit,
-        branch
+        newCommit,
+        branch,
+        revisionType,
+        pinChange.ref
       );
-      await sourceManager.saveSource(skill.location, newSource);
-
-      // Clean up
-      await fs.rm(tempDir, { recursive: true, force: true });
-      await fs.rm(backupDir, { recursive: true, force: true });
+      const { updatePolicy } = skill.source;
+      await sourceManager.saveSource(skill.location, {
+        ...newSource,
+        files,
+        digest,
+        ...(integrity.status === 'verified' ? { verifiedBy: integrity.signed ? 'signature' : 'checksum' } : {}),
+        ...(updatePolicy ? { updatePolicy } : {}),
+      });
+
+      // Drop versions beyond the configured limit
+      const pruned = await versionManager.prune(skill.location, options.keepVersions);
 
       return {
         success: true,
         result: {
           name: skill.metadata.name,
           previousCommit: skill.source.commitHash,
-          newCommit: cleanNewCommit,
+          newCommit,
+          ...(pinChange.ref ? { pin: pinChange.ref } : {}),
+          ...(pruned.includes(previous.id) ? {} : { previousVersion: previous.id }),
+          ...(resolution ? { localChanges: resolution } : {}),
+          ...(updateStatus?.localVersion && updateStatus.remoteVersion
+            ? { versions: { from: updateStatus.localVersion, to: updateStatus.remoteVersion } }
+            : {}),
         },
       };
     } catch (err) {
-      // Restore backup on failure
+      // Restore the previous version on failure
       try {
         await fs.rm(skill.location, { recursive: true, force: true });
-        await fs.rename(backupDir, skill.location);
+        await fs.rename(previous.path, skill.location);
       } catch {
         // Backup restore failed
       }
@@ -141,6 +471,29 @@ async function updateSkill(
   }
 }
 
+/**
+ * Re-run skills_setup for an updated skill whose requirements.txt, pyproject.toml
+ * or package.json changed (skills that were never set up are left alone)
+ */
+async function reprovisionEnvironment(
+  result: UpdateResult,
+  location: string,
+  environmentManager: SkillEnvironmentManager
+): Promise<UpdateResult> {
+  if (!await environmentManager.isOutdated(result.name, location)) {
+    return result;
+  }
+
+  try {
+    await environmentManager.setup(result.name, location);
+    return { ...result, environment: { status: 'reprovisioned' } };
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : String(err);
+    logger.error('Failed to set up skill environment after update', { name: result.name, error: errorMessage });
+    return { ...result, environment: { status: 'failed', error: errorMessage.split('\n')[0] } };
+  }
+}
+
 /**
  * Handler for skills_update tool
  * Updates installed skills from their marketplace sources
@@ -148,8 +501,40 @@ async function updateSkill(
 export async function handleUpdate(
   discoveryManager: SkillDiscoveryManager,
   marketplaceManager: MarketplaceManager,
-  args: UpdateInput
+  configManager: ConfigManager,
+  args: UpdateInput,
+  environmentManager: SkillEnvironmentManager = new SkillEnvironmentManager()
 ): Promise<ToolResult> {
+  if ((args.ref || args.unpin) && !args.skill_name) {
+    return {
+      content: [{
+        type: 'text',
+        text: 'Error: ref and unpin change the pin of one skill. Pass skill_name as well.',
+      }],
+      isError: true,
+    };
+  }
+
+  if (args.update_policy && !args.skill_name) {
+    return {
+      content: [{
+        type: 'text',
+        text: 'Error: update_policy is set per skill. Pass skill_name as well.',
+      }],
+      isError: true,
+    };
+  }
+
+  if (args.ref && args.unpin) {
+    return {
+      content: [{
+        type: 'text',
+        text: 'Error: Pass either ref to move the pin or unpin to remove it, not both.',
+      }],
+      isError: true,
+    };
+  }
+
   // Discover all installed skills
   const installedSkills = await discoveryManager.discoverAllSkills();
 
@@ -166,6 +551,13 @@ export async function handleUpdate(
         isError: true,
       };
     }
+    if (args.update_policy && skill.source) {
+      // A dry run checks against the new policy without saving it
+      skill.source = { ...skill.source, updatePolicy: args.update_policy };
+      if (!args.dry_run) {
+        await new SkillSourceManager().saveSource(skill.location, skill.source);
+      }
+    }
     skillsToCheck = [skill];
   } else {
     skillsToCheck = installedSkills;
@@ -189,15 +581,45 @@ export async function handleUpdate(
 
   // Check for updates and perform updates
   const updated: UpdateResult[] = [];
+  const previews: UpdatePreview[] = [];
   const skipped: SkipResult[] = [];
+  const conflicts: ConflictResult[] = [];
   const failed: FailResult[] = [];
+  const keepVersions = await configManager.getKeepVersions();
+  const maxRisk = await configManager.getMaxInstallRisk();
 
   for (const skill of trackableSkills) {
-    const { success, result, error } = await updateSkill(skill, marketplaceManager);
+    const searchPath = path.dirname(skill.location);
+    if (!args.dry_run && await discoveryManager.isReadOnlyPath(searchPath)) {
+      failed.push({ name: skill.metadata.name, error: `Installed in ${searchPath}, which is read-only for this server` });
+      continue;
+    }
+
+    const { success, result, preview, conflict, error, detail } = await updateSkill(skill, marketplaceManager, {
+      keepVersions,
+      ref: args.ref,
+      unpin: args.unpin,
+      dryRun: args.dry_run,
+      localChanges: args.local_changes,
+      maxRisk,
+    });
 
     if (success && result) {
-      updated.push(result);
-    } else if (error === 'Already up to date') {
+      const lockfile = await relockSkill(skill.location, result.name);
+      updated.push(await reprovisionEnvironment(
+        lockfile ? { ...result, lockfile } : result,
+        skill.location,
+        environmentManager
+      ));
+    } else if (success && preview) {
+      previews.push(preview);
+    } else if (conflict) {
+      conflicts.push(conflict);
+    } else if (error === PINNED) {
+      skipped.push({ name: skill.metadata.name, reason: error, pin: skill.source?.pin });
+    } else if (error === HELD_BACK) {
+      skipped.push({ name: skill.metadata.name, reason: error, detail });
+    } else if (error === UP_TO_DATE || error === OFFLINE_SKIP) {
       skipped.push({ name: skill.metadata.name, reason: error });
     } else {
       failed.push({ name: skill.metadata.name, error: error || 'Unknown error' });
@@ -207,22 +629,92 @@ export async function handleUpdate(
   // Build response
   const lines: string[] = [];
 
+  if (args.dry_run) {
+    lines.push('🔍 Dry run: nothing was changed.', '');
+    for (const preview of previews) {
+      lines.push(...formatPreview(preview), '');
+    }
+  }
+
   if (updated.length > 0) {
     lines.push('✅ Updated:');
     for (const u of updated) {
-      lines.push(`  - ${u.name}: ${u.previousCommit.substring(0, 7)} → ${u.newCommit.substring(0, 7)}`);
+      const pinNote = u.pin ? ` (pinned to ${u.pin})` : '';
+      const change = u.versions
+        ? `${u.versions.from} → ${u.versions.to}`
+        : `${u.previousCommit.substring(0, 7)} → ${u.newCommit.substring(0, 7)}`;
+      lines.push(`  - ${u.name}: ${change}${pinNote}`);
+      if (u.localChanges?.kept.length) {
+        lines.push(`    Kept local: ${u.localChanges.kept.join(', ')}`);
+      }
+      if (u.localChanges?.merged.length) {
+        lines.push(`    Merged: ${u.localChanges.merged.join(', ')}`);
+      }
+      if (u.lockfile) {
+        lines.push(`    Updated ${u.lockfile}`);
+      }
+      if (u.environment?.status === 'reprovisioned') {
+        lines.push('    Dependencies changed: environment set up again');
+      } else if (u.environment) {
+        lines.push(`    Dependencies changed, but setting up the environment failed (run skills_setup): ${u.environment.error}`);
+      }
+    }
+    if (updated.some(u => u.previousVersion)) {
+      lines.push('', 'Previous versions were kept. Use skills_rollback to restore one.');
     }
     lines.push('');
   }
 
-  if (skipped.length > 0) {
+  const upToDate = skipped.filter(s => s.reason === UP_TO_DATE);
+  if (upToDate.length > 0) {
     lines.push('⏭️ Already up to date:');
-    for (const s of skipped) {
+    for (const s of upToDate) {
       lines.push(`  - ${s.name}`);
     }
     lines.push('');
   }
 
+  const pinned = skipped.filter(s => s.reason === PINNED);
+  if (pinned.length > 0) {
+    lines.push('📌 Pinned (pass ref to move the pin, or unpin to follow the marketplace again):');
+    for (const s of pinned) {
+      lines.push(`  - ${s.name} @ ${s.pin}`);
+    }
+    lines.push('');
+  }
+
+  const heldBack = skipped.filter(s => s.reason === HELD_BACK);
+  if (heldBack.length > 0) {
+    lines.push('⏸️ Held back by update policy (pass update_policy to change it):');
+    for (const s of heldBack) {
+      lines.push(`  - ${s.name}: ${s.detail}`);
+    }
+    lines.push('');
+  }
+
+  const offlineSkipped = skipped.filter(s => s.reason === OFFLINE_SKIP);
+  if (offlineSkipped.length > 0) {
+    lines.push('📴 Not checked (offline):');
+    for (const s of offlineSkipped) {
+      lines.push(`  - ${s.name}`);
+    }
+    lines.push('');
+  }
+
+  if (conflicts.length > 0) {
+    lines.push('✋ Not updated (local changes):');
+    for (const c of conflicts) {
+      lines.push(`  - ${c.name}: ${c.conflicts.join(', ')}`);
+    }
+    lines.push(
+      '',
+      args.local_changes === 'merge'
+        ? 'These files changed both locally and upstream and could not be merged. Resolve them by hand, or pass local_changes: keep_local or overwrite.'
+        : 'Pass local_changes: keep_local to keep your edits, merge to combine them with upstream edits, or overwrite to discard them.'
+    );
+    lines.push('');
+  }
+
   if (failed.length > 0) {
     lines.push('❌ Failed:');
     for (const f of failed) {
@@ -231,13 +723,15 @@ export async function handleUpdate(
     lines.push('');
   }
 
-  if (updated.length === 0 && skipped.length > 0 && failed.length === 0) {
+  if (updated.length === 0 && previews.length === 0 && upToDate.length > 0 && pinned.length === 0 && heldBack.length === 0 && offlineSkipped.length === 0 && conflicts.length === 0 && failed.length === 0) {
     lines.unshift('All skills are up to date.\n');
   }
 
   const summary = {
+    ...(args.dry_run ? { wouldUpdate: previews.length } : {}),
     updated: updated.length,
     skipped: skipped.length,
+    conflicts: conflicts.length,
     failed: failed.length,
   };
 
@@ -247,8 +741,11 @@ export async function handleUpdate(
       text: lines.join('\n').trim(),
     }],
     structuredContent: {
+      status: offlineSkipped.length > 0 ? 'offline' : 'online',
+      ...(args.dry_run ? { dryRun: true, previews } : {}),
       updated,
       skipped,
+      conflicts,
       failed,
       summary,
     },
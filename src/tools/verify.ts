@@ -0,0 +1,177 @@
+import { z } from 'zod';
+import { SkillDiscoveryManager } from '../managers/skill-discovery.js';
+import { SkillSourceManager } from '../managers/skill-source.js';
+import { MarketplaceManager } from '../managers/marketplace.js';
+import logger from '../utils/logger.js';
+import { InstalledSkill, IntegrityCheck, LocalChanges, ToolResult } from '../types/index.js';
+
+/** Input schema for skills_verify */
+export const VerifyInputSchema = z.object({
+  skill_name: z
+    .string()
+    .min(1)
+    .optional()
+    .describe('Name of the installed skill to verify (omit to verify all skills)'),
+  remote: z
+    .boolean()
+    .default(false)
+    .describe('Also compare the installed digest with the checksum the marketplace publishes'),
+}).strict();
+
+export type VerifyInput = z.infer<typeof VerifyInputSchema>;
+
+/**
+ * Verification result for one skill
+ * - ok: content matches the digest recorded at install
+ * - modified: content changed since install
+ * - unverifiable: no digest was recorded (untracked, or installed before digests)
+ */
+interface SkillVerification {
+  name: string;
+  location: string;
+  status: 'ok' | 'modified' | 'unverifiable';
+  reason?: string;
+  changes?: LocalChanges;
+  verifiedBy?: 'checksum' | 'signature';
+  published?: IntegrityCheck;
+}
+
+/**
+ * Re-hash an installed skill and compare it with its recorded digest
+ */
+async function verifySkill(
+  skill: InstalledSkill,
+  marketplaceManager: MarketplaceManager,
+  remote: boolean
+): Promise<SkillVerification> {
+  const base = { name: skill.metadata.name, location: skill.location };
+
+  if (!skill.source) {
+    return { ...base, status: 'unverifiable', reason: 'Not installed from a marketplace' };
+  }
+
+  if (!skill.source.digest) {
+    return { ...base, status: 'unverifiable', reason: 'Installed before content digests were recorded' };
+  }
+
+  const sourceManager = new SkillSourceManager();
+  const digest = await sourceManager.createDigest(skill.location);
+  const verification: SkillVerification = { ...base, status: 'ok' };
+
+  if (digest !== skill.source.digest) {
+    verification.status = 'modified';
+    // The manifest shows which files changed
+    const changes = await sourceManager.getLocalChanges(skill.location, skill.source);
+    if (changes) {
+      verification.changes = changes;
+    }
+  }
+
+  if (skill.source.verifiedBy) {
+    verification.verifiedBy = skill.source.verifiedBy;
+  }
+
+  if (remote) {
+    try {
+      verification.published = await marketplaceManager.verifyIntegrity(skill.source, skill.source.digest);
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      verification.published = { status: 'unverified', signed: false, reason };
+    }
+  }
+
+  return verification;
+}
+
+/**
+ * Format one verification result as text
+ */
+function formatVerification(result: SkillVerification): string[] {
+  const lines: string[] = [];
+
+  switch (result.status) {
+    case 'ok':
+      lines.push(`✅ ${result.name}: unchanged since install${result.verifiedBy ? ` (verified by ${result.verifiedBy} at install)` : ''}`);
+      break;
+    case 'modified':
+      lines.push(`⚠️ ${result.name}: modified since install`);
+      if (result.changes) {
+        for (const file of result.changes.modified) lines.push(`   ~ ${file}`);
+        for (const file of result.changes.added) lines.push(`   + ${file}`);
+        for (const file of result.changes.removed) lines.push(`   - ${file}`);
+      }
+      break;
+    default:
+      lines.push(`❔ ${result.name}: ${result.reason}`);
+  }
+
+  if (result.published) {
+    const signed = result.published.signed ? 'signed ' : '';
+    switch (result.published.status) {
+      case 'verified':
+        lines.push(`   Matches the ${signed}marketplace checksum`);
+        break;
+      case 'mismatch':
+        lines.push(`   ❌ Does not match the ${signed}marketplace checksum`);
+        break;
+      default:
+        lines.push(`   Not checked against the marketplace: ${result.published.reason}`);
+    }
+  }
+
+  return lines;
+}
+
+/**
+ * Handler for skills_verify tool
+ * Re-hashes installed skills and reports any that changed since they were installed
+ */
+export async function handleVerify(
+  discoveryManager: SkillDiscoveryManager,
+  marketplaceManager: MarketplaceManager,
+  args: VerifyInput
+): Promise<ToolResult> {
+  const allSkills = await discoveryManager.discoverAllSkills();
+  const skills = args.skill_name
+    ? allSkills.filter(s => s.metadata.name === args.skill_name)
+    : allSkills.filter(s => s.isValid);
+
+  if (args.skill_name && skills.length === 0) {
+    return {
+      content: [{
+        type: 'text',
+        text: `Error: Skill "${args.skill_name}" not found. Run skills_list_installed to see available skills.`,
+      }],
+      isError: true,
+    };
+  }
+
+  const results: SkillVerification[] = [];
+  for (const skill of skills) {
+    results.push(await verifySkill(skill, marketplaceManager, args.remote));
+  }
+
+  const summary = {
+    checked: results.length,
+    ok: results.filter(r => r.status === 'ok').length,
+    modified: results.filter(r => r.status === 'modified').length,
+    unverifiable: results.filter(r => r.status === 'unverifiable').length,
+    ...(args.remote ? { mismatched: results.filter(r => r.published?.status === 'mismatch').length } : {}),
+  };
+
+  if (summary.modified > 0 || (summary.mismatched ?? 0) > 0) {
+    logger.warn('Skill integrity check found changes', summary);
+  }
+
+  const lines = results.flatMap(formatVerification);
+  lines.push('');
+  lines.push(`Checked ${summary.checked} skill(s): ${summary.ok} unchanged, ${summary.modified} modified, ${summary.unverifiable} unverifiable`);
+  if (summary.modified > 0) {
+    lines.push('Modified skills may have been edited locally or tampered with. Review the changes, or reinstall the skill to restore it.');
+  }
+
+  return {
+    content: [{ type: 'text', text: lines.join('\n') }],
+    structuredContent: { results, summary },
+  };
+}
@@ -15,6 +15,47 @@ export interface SkillMetadata {
   metadata?: Record<string, unknown>;
   /** Optional: Space-delimited list of pre-approved tools */
   allowedTools?: string;
+  /** Optional: Other skills this skill builds on */
+  dependencies?: SkillDependency[];
+  /** Optional: Semantic version, from version or metadata.version */
+  version?: string;
+}
+
+/**
+ * A skill another skill depends on, declared in frontmatter
+ */
+export interface SkillDependency {
+  /** Name of the required skill */
+  name: string;
+  /** Required version, compared with the dependency's version (optional) */
+  version?: string;
+  /** Marketplace to install it from (optional, defaults to the configured marketplaces) */
+  marketplace?: string;
+}
+
+/**
+ * Problem found while resolving dependencies
+ * - cycle: skills depend on each other
+ * - conflict: requirements disagree with each other or with what is installed
+ * - missing: no marketplace has the skill
+ */
+export interface DependencyIssue {
+  type: 'cycle' | 'conflict' | 'missing';
+  /** Dependency the problem is about */
+  skill: string;
+  message: string;
+}
+
+/**
+ * Skills to install so that a skill's dependencies are met
+ */
+export interface DependencyPlan {
+  /** Skills to install, each after its own dependencies (the requested skill is not included) */
+  install: MarketplaceSkill[];
+  /** Dependencies that are already installed */
+  satisfied: string[];
+  /** Problems that prevent installing */
+  issues: DependencyIssue[];
 }
 
 /**
@@ -37,12 +78,187 @@ export interface SkillSource {
   skillPath: string;
   /** ISO timestamp when the skill was installed */
   installedAt: string;
-  /** Git commit hash at time of installation */
+  /** Git commit hash at time of installation (content hash for local marketplaces) */
   commitHash: string;
+  /** What commitHash holds (optional, defaults to commit) */
+  revisionType?: RevisionType;
   /** Git branch (optional, defaults to main) */
   branch?: string;
+  /** Commit SHA, tag or branch the skill is pinned to (skipped by skills_update) */
+  pin?: string;
+  /** SHA-256 of each file as installed, keyed by relative path (used to detect local edits) */
+  files?: Record<string, string>;
+  /** Which new versions count as updates (optional, defaults to any) */
+  updatePolicy?: UpdatePolicy;
+  /** SHA-256 content digest of the skill as downloaded (same algorithm as index checksums) */
+  digest?: string;
+  /** How the download was checked against the marketplace (absent if it publishes no checksum) */
+  verifiedBy?: 'checksum' | 'signature';
+}
+
+/**
+ * Result of comparing downloaded content with the checksum a marketplace publishes
+ * - verified: the content digest matches the published checksum
+ * - mismatch: it does not
+ * - unverified: there is no checksum for this revision to compare with
+ */
+export interface IntegrityCheck {
+  status: 'verified' | 'mismatch' | 'unverified';
+  /** Whether the checksum comes from a signature-verified index */
+  signed: boolean;
+  /** Why the content could not be verified or did not match */
+  reason?: string;
+}
+
+/**
+ * Risk found by the static pre-install review of a skill, from lowest to highest
+ */
+export type RiskLevel = 'none' | 'low' | 'medium' | 'high';
+
+/**
+ * What a security finding is about
+ * - executable: a script or binary the skill ships
+ * - shell: code that runs shell commands or evaluates code
+ * - network: code that makes network requests
+ * - credentials: references to credential files or secrets
+ * - allowed-tools: tools the skill pre-approves in its frontmatter
+ * - dependencies: package manifests that install third-party code
+ */
+export type SecurityFindingCategory =
+  | 'executable'
+  | 'shell'
+  | 'network'
+  | 'credentials'
+  | 'allowed-tools'
+  | 'dependencies';
+
+/**
+ * One thing the security review noticed
+ */
+export interface SecurityFinding {
+  category: SecurityFindingCategory;
+  severity: Exclude<RiskLevel, 'none'>;
+  /** File relative to the skill directory */
+  file: string;
+  /** First line the pattern matched on (1-based, absent for whole-file findings) */
+  line?: number;
+  message: string;
+  /** How many lines of the file matched */
+  occurrences?: number;
+}
+
+/**
+ * Static review of a skill's files, made before it is installed
+ */
+export interface SecurityReport {
+  /** Highest severity among the findings */
+  riskLevel: RiskLevel;
+  /** Scripts and binaries the skill ships */
+  executables: string[];
+  /** Tools pre-approved by allowed-tools in SKILL.md */
+  allowedTools: string[];
+  findings: SecurityFinding[];
+}
+
+/**
+ * A skill's data directory (~/Documents/{skill-name}/) as reported by skills_get_info and skills_data
+ */
+export interface SkillDataInfo {
+  path: string;
+  exists: boolean;
+  /** Total size of the files in the directory (bytes) */
+  sizeBytes: number;
+  fileCount: number;
+  /** Parsed state.json (absent when the skill keeps none) */
+  state?: unknown;
+  /** Why state.json could not be parsed */
+  stateError?: string;
 }
 
+/**
+ * Runtime environment skills_setup provisioned for a skill in its data directory
+ */
+export interface SkillEnvironmentState {
+  /** ISO timestamp of the last successful setup */
+  setupAt: string;
+  /** SHA-256 of each manifest used, keyed by path relative to the skill directory */
+  manifests: Record<string, string>;
+  /** Python virtual environment */
+  python?: {
+    venv: string;
+    interpreter: string;
+  };
+  /** Node.js dependencies */
+  node?: {
+    nodeModules: string;
+  };
+}
+
+/**
+ * Which changes skills_update and update checks pick up
+ * - patch: newer patch versions only (1.2.3 → 1.2.4)
+ * - minor: newer minor and patch versions (1.2.3 → 1.3.0)
+ * - major: any newer version, including breaking ones (1.2.3 → 2.0.0)
+ * - any: any new commit, versioned or not
+ * Policies other than any need both versions to declare a semantic version;
+ * otherwise they fall back to comparing commits.
+ */
+export type UpdatePolicy = 'patch' | 'minor' | 'major' | 'any';
+
+/**
+ * Files of an installed skill that differ from its install manifest
+ */
+export interface LocalChanges {
+  /** Files edited since install */
+  modified: string[];
+  /** Files created since install */
+  added: string[];
+  /** Files deleted since install */
+  removed: string[];
+}
+
+/**
+ * How skills_update treats a skill with local changes
+ * - refuse: leave the skill alone and report the changed files
+ * - keep_local: apply the update but keep every locally changed file as it is
+ * - merge: three-way merge local and upstream edits; nothing is applied if any file conflicts
+ * - overwrite: replace local changes with the new version (still kept for skills_rollback)
+ */
+export type LocalChangeStrategy = 'refuse' | 'keep_local' | 'merge' | 'overwrite';
+
+/**
+ * Result of carrying local changes over to a new version of a skill
+ */
+export interface LocalChangeResolution {
+  /** Local files kept as they were */
+  kept: string[];
+  /** Files where local and upstream edits were merged */
+  merged: string[];
+  /** Files changed both locally and upstream that could not be merged */
+  conflicts: string[];
+}
+
+/**
+ * A previous version of a skill saved by skills_update or skills_rollback
+ */
+export interface SkillVersion {
+  /** Version identifier (save time and short revision) */
+  id: string;
+  /** Absolute path of the saved skill directory */
+  path: string;
+  /** ISO timestamp when the version was replaced */
+  savedAt: string;
+  /** Source tracking of the saved version (null if it had none) */
+  source: SkillSource | null;
+}
+
+/**
+ * Kind of revision recorded for an installed skill
+ * - commit: git commit hash
+ * - content: SHA-256 of the skill directory contents
+ */
+export type RevisionType = 'commit' | 'content';
+
 /**
  * Update status for a skill
  */
@@ -53,6 +269,12 @@ export interface SkillUpdateStatus {
   localCommit?: string;
   /** Latest remote commit hash */
   remoteCommit?: string;
+  /** Installed version (only checked under patch, minor and major policies) */
+  localVersion?: string;
+  /** Latest remote version (only checked under patch, minor and major policies) */
+  remoteVersion?: string;
+  /** Why a newer version is not offered as an update */
+  heldBack?: string;
   /** Error message if update check failed */
   error?: string;
 }
@@ -87,10 +309,57 @@ export interface MarketplaceSkill {
   metadata: SkillMetadata;
   /** Source marketplace URL */
   marketplaceUrl: string;
+  /** Skill directory within the marketplace (defaults to the skill name) */
+  skillPath?: string;
+  /** Revision published in the marketplace index (if any) */
+  revision?: string;
+  /** Content checksum published in the marketplace index (if any) */
+  checksum?: string;
+  /** Whether the index listing this skill had a valid signature */
+  signed?: boolean;
   /** Command to install this skill */
   installCommand: string;
 }
 
+/**
+ * Skill listed in a marketplace index file
+ */
+export interface MarketplaceIndexEntry {
+  /** Skill directory relative to the marketplace root */
+  path: string;
+  /** SKILL.md frontmatter */
+  metadata: SkillMetadata;
+  /** Last git commit touching the skill directory (absent outside git) */
+  revision?: string;
+  /** Hex-encoded SHA-256 of the skill directory contents */
+  checksum: string;
+}
+
+/**
+ * skills-index.json published at the root of a marketplace
+ */
+export interface MarketplaceIndex {
+  /** Index format version */
+  formatVersion: 1;
+  /** ISO timestamp when the index was generated */
+  generatedAt: string;
+  /** Every skill in the marketplace */
+  skills: MarketplaceIndexEntry[];
+}
+
+/**
+ * Argument a skill accepts when invoked as an MCP prompt
+ * Declared in frontmatter under metadata.arguments
+ */
+export interface SkillPromptArgument {
+  /** Argument name (letters, numbers, underscores, hyphens) */
+  name: string;
+  /** Human-readable description shown by clients */
+  description?: string;
+  /** Whether the argument must be provided */
+  required: boolean;
+}
+
 /**
  * Marketplace configuration
  */
@@ -98,6 +367,258 @@ export interface MarketplaceConfig {
   version: string;
   /** List of marketplace URLs */
   marketplaces: string[];
+  /** Explicit provider per marketplace URL (auto-detected when absent) */
+  providers?: Record<string, MarketplaceProviderType>;
+  /** GitHub authentication for private marketplaces and higher rate limits */
+  github?: GitHubAuthConfig;
+  /** How long cached marketplace listings are used without revalidation (minutes, default 60) */
+  cacheTtlMinutes?: number;
+  /** Force offline mode (true) or never enter it (false); auto-detected when absent */
+  offline?: boolean;
+  /** Previous versions kept per skill for skills_rollback (default 3) */
+  keepVersions?: number;
+  /** OpenSSH allowed_signers file per marketplace URL; those marketplaces must publish a signed index */
+  signers?: Record<string, string>;
+  /** Highest risk level the pre-install security review lets through (default high, i.e. nothing is blocked) */
+  maxInstallRisk?: RiskLevel;
+  /** Extra environment variables passed from the server to skills_run_script (PATH, HOME and locale always are) */
+  scriptEnv?: string[];
+  /** Skill search paths in priority order (the built-in list is used when absent) */
+  searchPaths?: SearchPathConfig[];
+  /** Directory skills_install installs into (default ~/skills) */
+  installPath?: string;
+}
+
+/**
+ * A skill recorded in a project's skills.lock.json
+ */
+export interface SkillLockEntry {
+  /** Marketplace URL or local directory */
+  marketplace: string;
+  /** Skill directory within the marketplace */
+  path: string;
+  /** Git commit installed (content hash for local marketplaces) */
+  commit: string;
+  /** What commit holds (optional, defaults to commit) */
+  revisionType?: RevisionType;
+  branch?: string;
+  /** Commit SHA, tag or branch the skill is pinned to */
+  pin?: string;
+  updatePolicy?: UpdatePolicy;
+  /** SHA-256 content digest; skills_sync rejects downloads that don't match */
+  digest?: string;
+}
+
+/**
+ * A project's skills.lock.json, committed so every checkout gets the same skills
+ */
+export interface SkillLockfile {
+  lockfileVersion: number;
+  /** Locked skills by name */
+  skills: Record<string, SkillLockEntry>;
+}
+
+/**
+ * A skill search path as stored in config.json
+ */
+export interface SearchPathConfig {
+  /** Directory; ~ is expanded and relative paths resolve against the working directory */
+  path: string;
+  /** Skills here are never installed, updated, rolled back or uninstalled by the server */
+  readOnly?: boolean;
+}
+
+/**
+ * A skill search path resolved for use
+ */
+export interface SearchPath {
+  /** Absolute directory */
+  path: string;
+  readOnly: boolean;
+}
+
+/**
+ * GitHub authentication settings
+ * GITHUB_TOKEN / GH_TOKEN take precedence over both fields.
+ */
+export interface GitHubAuthConfig {
+  /** Personal access token */
+  token?: string;
+  /** Shell command that prints a token (defaults to `gh auth token` when unset) */
+  tokenCommand?: string;
+}
+
+/**
+ * HTTP-style validators used to revalidate cached marketplace data
+ * Git-based providers store the remote commit in etag.
+ */
+export interface CacheValidator {
+  etag?: string;
+  lastModified?: string;
+}
+
+/**
+ * Result of asking a provider whether a marketplace changed
+ */
+export interface RevalidationResult {
+  /** False when the cached data is still current */
+  changed: boolean;
+  /** Validator describing the current state (when changed) */
+  validator?: CacheValidator;
+}
+
+/**
+ * Whether marketplace tools reached the network or answered from the cache
+ */
+export type ConnectivityStatus = 'online' | 'offline';
+
+/**
+ * Skills read from one marketplace
+ */
+export interface MarketplaceFetchResult {
+  /** Skills found (cached skills when stale or offline) */
+  skills: MarketplaceSkill[];
+  /** Why the marketplace could not be read */
+  error?: string;
+  /** True when an older cached listing was served because of the error */
+  stale?: boolean;
+  /** True when the network was unavailable and the cache was used instead */
+  offline?: boolean;
+}
+
+/**
+ * A marketplace that could not be read
+ */
+export interface MarketplaceFetchError {
+  /** Marketplace URL */
+  url: string;
+  /** Human-readable reason */
+  error: string;
+  /** True when an older cached listing was served instead */
+  stale?: boolean;
+}
+
+/**
+ * Supported marketplace provider types
+ */
+export type MarketplaceProviderType = 'github' | 'git' | 'local';
+
+/**
+ * A skill directory found in a marketplace
+ */
+export interface RemoteSkillEntry {
+  /** Skill directory within the marketplace */
+  skillPath: string;
+  /** Raw SKILL.md content */
+  content: string;
+}
+
+/**
+ * Result of downloading a skill from a marketplace
+ */
+export interface SkillDownloadResult {
+  /** Revision (commit hash or content hash) of the downloaded skill */
+  revision: string;
+  /** What revision holds (defaults to commit) */
+  revisionType?: RevisionType;
+  /** Branch or ref the skill was downloaded from */
+  branch?: string;
+}
+
+/**
+ * A commit touching a skill directory
+ */
+export interface SkillCommit {
+  /** Full commit hash */
+  hash: string;
+  /** First line of the commit message */
+  subject: string;
+  /** Author name (if known) */
+  author?: string;
+  /** ISO commit date (if known) */
+  date?: string;
+}
+
+/**
+ * A SKILL.md frontmatter field that differs between two versions
+ */
+export interface FrontmatterChange {
+  field: string;
+  /** Previous value (absent if the field was added) */
+  before?: unknown;
+  /** New value (absent if the field was removed) */
+  after?: unknown;
+}
+
+/**
+ * File-level differences between two versions of a skill directory
+ */
+export interface SkillFileDiff {
+  added: string[];
+  modified: string[];
+  removed: string[];
+  frontmatter: FrontmatterChange[];
+}
+
+/**
+ * Backend that knows how to read skills from one kind of marketplace
+ */
+export interface MarketplaceProvider {
+  /** Provider identifier used in configuration */
+  readonly type: MarketplaceProviderType;
+  /** Whether this provider recognizes the URL without explicit configuration */
+  matches(marketplaceUrl: string): boolean;
+  /** List every skill directory with its SKILL.md content (throws if the marketplace cannot be read) */
+  listSkills(marketplaceUrl: string): Promise<RemoteSkillEntry[]>;
+  /** Fetch a file relative to the marketplace root (null if missing) */
+  fetchFile(marketplaceUrl: string, filePath: string): Promise<string | null>;
+  /** Get the latest revision touching a skill directory (null if unknown, throws if access is denied) */
+  getLatestRevision(marketplaceUrl: string, skillPath: string): Promise<string | null>;
+  /** Download a skill directory to destDir, which must not exist yet, optionally at a commit SHA, tag or branch */
+  downloadSkill(marketplaceUrl: string, skillPath: string, destDir: string, ref?: string): Promise<SkillDownloadResult>;
+  /**
+   * Check whether the marketplace changed since the validator was recorded (optional)
+   * Called without a validator to capture the current one.
+   */
+  revalidate?(marketplaceUrl: string, validator?: CacheValidator): Promise<RevalidationResult>;
+  /**
+   * List commits touching a skill after sinceRevision, newest first (optional)
+   * Reads up to ref (commit SHA, tag or branch) when given, otherwise the marketplace branch.
+   */
+  listCommits?(marketplaceUrl: string, skillPath: string, sinceRevision: string, ref?: string): Promise<SkillCommit[]>;
+}
+
+/**
+ * Archive formats for packed skill bundles
+ */
+export type BundleFormat = 'tgz' | 'zip';
+
+/**
+ * File recorded in a skill bundle manifest
+ */
+export interface BundleFileEntry {
+  /** POSIX-style path relative to the skill directory */
+  path: string;
+  /** Size in bytes */
+  size: number;
+  /** Hex-encoded SHA-256 of the file contents */
+  sha256: string;
+}
+
+/**
+ * MANIFEST.json stored at the root of a packed skill bundle
+ */
+export interface BundleManifest {
+  /** Bundle format version */
+  formatVersion: 1;
+  /** Skill name from SKILL.md */
+  name: string;
+  /** Skill description from SKILL.md */
+  description: string;
+  /** ISO timestamp when the bundle was created */
+  createdAt: string;
+  /** Every file in the bundle except the manifest itself */
+  files: BundleFileEntry[];
 }
 
 /**
@@ -0,0 +1,408 @@
+import { execFile } from 'child_process';
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { promisify } from 'util';
+import {
+  BundleFileEntry,
+  BundleFormat,
+  BundleManifest,
+  SkillMetadata,
+} from '../types/index.js';
+import { resolveInside } from './paths.js';
+import { parseSkillFrontmatter } from './yaml-parser.js';
+
+/**
+ * Packed skill bundles (.skill.tgz or .zip)
+ *
+ * A bundle contains a single top-level directory named after the skill,
+ * holding SKILL.md, its scripts/references/assets and a MANIFEST.json
+ * listing every file with its SHA-256. Archives are built and read with
+ * the system tar and zip/unzip tools.
+ */
+
+const execFileAsync = promisify(execFile);
+
+/** Manifest filename at the root of a bundle */
+export const BUNDLE_MANIFEST_FILENAME = 'MANIFEST.json';
+
+/** Maximum size of a bundle downloaded over HTTP (bytes) */
+const MAX_DOWNLOAD_BYTES = 50 * 1024 * 1024;
+
+/** Directories that are never packed */
+const IGNORED_DIRECTORIES = new Set(['node_modules', '__pycache__', 'venv', '.venv']);
+
+/** Archive entries added by macOS that are not part of the skill */
+const IGNORED_ARCHIVE_ROOTS = new Set(['__MACOSX']);
+
+/**
+ * A bundle extracted and validated in a working directory
+ */
+export interface ExtractedBundle {
+  /** Directory holding SKILL.md */
+  skillDir: string;
+  /** Parsed SKILL.md frontmatter */
+  metadata: SkillMetadata;
+  /** Parsed manifest (null for bundles built without one) */
+  manifest: BundleManifest | null;
+}
+
+/**
+ * Detect the bundle format from a file name or URL path
+ *
+ * @param filePath - Archive path or URL
+ * @returns Bundle format or null if the extension is not recognized
+ */
+export function detectBundleFormat(filePath: string): BundleFormat | null {
+  let name = filePath;
+  if (/^https?:\/\//i.test(filePath)) {
+    try {
+      name = new URL(filePath).pathname;
+    } catch {
+      return null;
+    }
+  }
+
+  const lower = name.toLowerCase();
+  if (lower.endsWith('.zip')) {
+    return 'zip';
+  }
+  if (lower.endsWith('.tgz') || lower.endsWith('.tar.gz')) {
+    return 'tgz';
+  }
+  return null;
+}
+
+/**
+ * Check whether a string is an HTTP(S) URL
+ */
+export function isHttpUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value);
+}
+
+/**
+ * Compute the hex SHA-256 of a file
+ */
+async function hashFile(filePath: string): Promise<string> {
+  return createHash('sha256').update(await fs.readFile(filePath)).digest('hex');
+}
+
+/**
+ * Collect packable files as sorted POSIX-style relative paths
+ * Hidden files (including .skill-source.json), dependency folders and any previous manifest are skipped.
+ */
+async function listBundleFiles(skillDir: string, relativeDir = ''): Promise<string[]> {
+  const entries = await fs.readdir(path.join(skillDir, relativeDir), { withFileTypes: true });
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    if (entry.name.startsWith('.') || IGNORED_DIRECTORIES.has(entry.name)) {
+      continue;
+    }
+
+    const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...await listBundleFiles(skillDir, relativePath));
+    } else if (entry.isFile() && relativePath !== BUNDLE_MANIFEST_FILENAME) {
+      files.push(relativePath);
+    }
+  }
+
+  return files.sort();
+}
+
+/**
+ * Pack a skill directory into a bundle
+ *
+ * @param skillDir - Skill directory containing SKILL.md
+ * @param outputPath - Archive to create
+ * @param format - Archive format (detected from outputPath when omitted)
+ * @returns The manifest written into the bundle
+ * @throws Error if SKILL.md is invalid or the archive tool fails
+ */
+export async function packSkill(
+  skillDir: string,
+  outputPath: string,
+  format?: BundleFormat
+): Promise<BundleManifest> {
+  const bundleFormat = format ?? detectBundleFormat(outputPath) ?? 'tgz';
+  const skillMd = await fs.readFile(path.join(skillDir, 'SKILL.md'), 'utf-8');
+  const parseResult = parseSkillFrontmatter(skillMd);
+  if (!parseResult.success || !parseResult.data) {
+    throw new Error(`Invalid SKILL.md: ${parseResult.error}`);
+  }
+
+  const { name, description } = parseResult.data;
+  const stagingRoot = await fs.mkdtemp(path.join(os.tmpdir(), 'skills-mcp-pack-'));
+  const stagingDir = path.join(stagingRoot, name);
+
+  try {
+    const files: BundleFileEntry[] = [];
+    for (const relativePath of await listBundleFiles(skillDir)) {
+      const source = path.join(skillDir, relativePath);
+      const target = path.join(stagingDir, relativePath);
+      await fs.mkdir(path.dirname(target), { recursive: true });
+      await fs.copyFile(source, target);
+
+      const stats = await fs.stat(target);
+      files.push({ path: relativePath, size: stats.size, sha256: await hashFile(target) });
+    }
+
+    const manifest: BundleManifest = {
+      formatVersion: 1,
+      name,
+      description,
+      createdAt: new Date().toISOString(),
+      files,
+    };
+    await fs.writeFile(
+      path.join(stagingDir, BUNDLE_MANIFEST_FILENAME),
+      JSON.stringify(manifest, null, 2),
+      'utf-8'
+    );
+
+    const archivePath = path.resolve(outputPath);
+    await fs.mkdir(path.dirname(archivePath), { recursive: true });
+    await fs.rm(archivePath, { force: true });
+
+    if (bundleFormat === 'zip') {
+      await execFileAsync('zip', ['-q', '-r', '-X', archivePath, name], { cwd: stagingRoot });
+    } else {
+      await execFileAsync('tar', ['-czf', archivePath, '-C', stagingRoot, name]);
+    }
+
+    return manifest;
+  } finally {
+    await fs.rm(stagingRoot, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Check that a path from a bundle is relative and doesn't climb out of its directory
+ */
+function isSafeEntryName(name: string): boolean {
+  const normalized = name.replace(/\\/g, '/');
+  return !normalized.startsWith('/') && !/^[a-zA-Z]:/.test(normalized) && !normalized.split('/').includes('..');
+}
+
+/**
+ * Reject archive entries that are absolute or climb out of the extraction directory
+ */
+function assertSafeEntryNames(names: string[]): void {
+  for (const name of names) {
+    if (!isSafeEntryName(name)) {
+      throw new Error(`Unsafe path in archive: ${name}`);
+    }
+  }
+}
+
+/**
+ * List archive entries, rejecting links and anything other than files and directories
+ */
+async function listArchiveEntries(archivePath: string, format: BundleFormat): Promise<string[]> {
+  if (format === 'zip') {
+    const { stdout: names } = await execFileAsync('unzip', ['-Z1', archivePath]);
+    const { stdout: details } = await execFileAsync('unzip', ['-Z', archivePath]);
+    if (details.split('\n').some(line => line.startsWith('l'))) {
+      throw new Error('Archive contains symbolic links, which are not allowed in skill bundles');
+    }
+    return names.split('\n').filter(Boolean);
+  }
+
+  const { stdout: names } = await execFileAsync('tar', ['-tzf', archivePath]);
+  const { stdout: details } = await execFileAsync('tar', ['-tvzf', archivePath]);
+  if (details.split('\n').some(line => line.length > 0 && line[0] !== '-' && line[0] !== 'd')) {
+    throw new Error('Archive contains links or special files, which are not allowed in skill bundles');
+  }
+  return names.split('\n').filter(Boolean);
+}
+
+/**
+ * Find the directory holding SKILL.md: the archive root or its single top-level directory
+ */
+async function findSkillRoot(extractDir: string): Promise<string> {
+  try {
+    await fs.access(path.join(extractDir, 'SKILL.md'));
+    return extractDir;
+  } catch {
+    // Look one level down
+  }
+
+  const entries = (await fs.readdir(extractDir, { withFileTypes: true }))
+    .filter(e => !IGNORED_ARCHIVE_ROOTS.has(e.name));
+
+  if (entries.length === 1 && entries[0].isDirectory()) {
+    const candidate = path.join(extractDir, entries[0].name);
+    try {
+      await fs.access(path.join(candidate, 'SKILL.md'));
+      return candidate;
+    } catch {
+      // Fall through
+    }
+  }
+
+  throw new Error('Archive does not contain a SKILL.md at its root or in a single top-level directory');
+}
+
+/**
+ * Check every file listed in the manifest against its recorded hash
+ */
+async function verifyManifest(skillDir: string, manifest: BundleManifest, metadata: SkillMetadata): Promise<void> {
+  if (manifest.name !== metadata.name) {
+    throw new Error(`Manifest name "${manifest.name}" does not match SKILL.md name "${metadata.name}"`);
+  }
+
+  for (const file of manifest.files ?? []) {
+    const filePath = typeof file.path === 'string' && isSafeEntryName(file.path) ? resolveInside(skillDir, file.path) : null;
+    if (!filePath) {
+      throw new Error(`Unsafe path in manifest: ${file.path}`);
+    }
+
+    let actual: string;
+    try {
+      actual = await hashFile(filePath);
+    } catch {
+      throw new Error(`File listed in manifest is missing: ${file.path}`);
+    }
+    if (actual !== file.sha256) {
+      throw new Error(`Checksum mismatch for ${file.path}`);
+    }
+  }
+}
+
+/**
+ * Extract a bundle into a working directory and validate it
+ *
+ * Entry names are checked before extraction, SKILL.md must parse, and
+ * the manifest (when present) must match the extracted files.
+ *
+ * @param archivePath - Local archive path
+ * @param workDir - Empty directory to extract into
+ * @returns The validated skill directory and its metadata
+ * @throws Error if the archive is unsafe or invalid
+ */
+export async function extractSkillBundle(archivePath: string, workDir: string): Promise<ExtractedBundle> {
+  const format = detectBundleFormat(archivePath);
+  if (!format) {
+    throw new Error(`Unsupported archive format: ${archivePath}. Expected .skill.tgz, .tgz, .tar.gz or .zip`);
+  }
+
+  assertSafeEntryNames(await listArchiveEntries(archivePath, format));
+
+  if (format === 'zip') {
+    await execFileAsync('unzip', ['-q', archivePath, '-d', workDir]);
+  } else {
+    await execFileAsync('tar', ['-xzf', archivePath, '-C', workDir, '--no-same-owner', '--no-same-permissions']);
+  }
+
+  const skillDir = await findSkillRoot(workDir);
+  const parseResult = parseSkillFrontmatter(await fs.readFile(path.join(skillDir, 'SKILL.md'), 'utf-8'));
+  if (!parseResult.success || !parseResult.data) {
+    throw new Error(`Invalid SKILL.md in bundle: ${parseResult.error}`);
+  }
+
+  let manifest: BundleManifest | null = null;
+  try {
+    manifest = JSON.parse(await fs.readFile(path.join(skillDir, BUNDLE_MANIFEST_FILENAME), 'utf-8')) as BundleManifest;
+  } catch (err) {
+    if ((err as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw new Error(`Invalid ${BUNDLE_MANIFEST_FILENAME} in bundle`);
+    }
+  }
+
+  if (manifest) {
+    await verifyManifest(skillDir, manifest, parseResult.data);
+  }
+
+  return { skillDir, metadata: parseResult.data, manifest };
+}
+
+/**
+ * Download a bundle over HTTP(S)
+ * The size limit is enforced while streaming, since content-length is optional.
+ *
+ * @param url - Bundle URL
+ * @param destPath - File to write
+ * @param maxBytes - Largest accepted bundle (defaults to 50 MB)
+ * @throws Error on HTTP errors or if the bundle exceeds the size limit (the partial file is removed)
+ */
+export async function downloadBundle(url: string, destPath: string, maxBytes = MAX_DOWNLOAD_BYTES): Promise<void> {
+  const controller = new AbortController();
+  const response = await fetch(url, { headers: { 'User-Agent': 'skills-mcp-local' }, signal: controller.signal });
+  if (!response.ok) {
+    throw new Error(`Download failed with HTTP ${response.status}`);
+  }
+
+  const declaredSize = Number(response.headers.get('content-length') ?? 0);
+  if (declaredSize > maxBytes || !response.body) {
+    controller.abort();
+    throw new Error(response.body ? `Bundle is larger than ${maxBytes} bytes` : 'Download returned no content');
+  }
+
+  const reader = response.body.getReader();
+  const file = await fs.open(destPath, 'w');
+  let size = 0;
+
+  try {
+    for (let chunk = await reader.read(); !chunk.done; chunk = await reader.read()) {
+      size += chunk.value.length;
+      if (size > maxBytes) {
+        controller.abort();
+        throw new Error(`Bundle is larger than ${maxBytes} bytes`);
+      }
+      await file.write(chunk.value);
+    }
+  } catch (err) {
+    await file.close();
+    await fs.rm(destPath, { force: true });
+    throw err;
+  }
+
+  await file.close();
+}
+
+/**
+ * Install a bundle from a local path or HTTP(S) URL into an install directory
+ *
+ * @param archive - Local archive path or HTTP(S) URL
+ * @param installPath - Directory that receives the skill (e.g. ~/skills)
+ * @param beforeInstall - Reviews the extracted bundle; throwing cancels the install before anything lands in installPath (optional)
+ * @returns Installed location and the bundle's metadata
+ * @throws Error if the bundle is invalid, the review fails or the skill already exists
+ */
+export async function installSkillBundle(
+  archive: string,
+  installPath: string,
+  beforeInstall?: (bundle: ExtractedBundle) => Promise<void>
+): Promise<ExtractedBundle & { location: string }> {
+  await fs.mkdir(installPath, { recursive: true });
+  const workDir = await fs.mkdtemp(path.join(installPath, '.temp-bundle-'));
+
+  try {
+    let archivePath = archive;
+    if (isHttpUrl(archive)) {
+      const format = detectBundleFormat(archive) ?? 'tgz';
+      archivePath = path.join(workDir, format === 'zip' ? 'bundle.zip' : 'bundle.tgz');
+      await downloadBundle(archive, archivePath);
+    }
+
+    const extractDir = path.join(workDir, 'extract');
+    await fs.mkdir(extractDir);
+    const bundle = await extractSkillBundle(archivePath, extractDir);
+
+    const location = path.join(installPath, bundle.metadata.name);
+    const exists = await fs.access(location).then(() => true, () => false);
+    if (exists) {
+      throw new Error(`Skill "${bundle.metadata.name}" already exists at ${location}. Run skills_uninstall first if you want to reinstall.`);
+    }
+
+    await beforeInstall?.(bundle);
+
+    await fs.rename(bundle.skillDir, location);
+
+    return { ...bundle, skillDir: location, location };
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+}
@@ -0,0 +1,58 @@
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+/**
+ * Thin wrapper around the git CLI
+ * Arguments are passed without a shell so URLs and paths are never interpreted.
+ */
+
+const execFileAsync = promisify(execFile);
+
+/** Maximum stdout size accepted from git (bytes) */
+const MAX_BUFFER = 16 * 1024 * 1024;
+
+/**
+ * Options for running git
+ */
+export interface GitOptions {
+  /** Working directory (equivalent to git -C) */
+  cwd?: string;
+  /** Extra environment variables */
+  env?: Record<string, string>;
+}
+
+/**
+ * Run a git command and return its trimmed stdout
+ *
+ * @param args - Arguments passed to git
+ * @param options - Working directory and extra environment
+ * @returns Trimmed stdout
+ * @throws Error if git exits with a non-zero status
+ */
+export async function runGit(args: string[], options: GitOptions = {}): Promise<string> {
+  const { stdout } = await execFileAsync('git', args, {
+    cwd: options.cwd,
+    env: {
+      ...process.env,
+      // Never block on interactive credential prompts
+      GIT_TERMINAL_PROMPT: '0',
+      ...options.env,
+    },
+    maxBuffer: MAX_BUFFER,
+  });
+
+  return stdout.trim();
+}
+
+/**
+ * Check that a user-supplied ref (branch, tag or commit SHA) is safe to pass to git
+ * Rejects refs git could read as an option or that git forbids in ref names.
+ *
+ * @param ref - Ref to check
+ * @throws Error if the ref is not a valid git ref
+ */
+export function assertValidRef(ref: string): void {
+  if (!ref || ref.startsWith('-') || ref.endsWith('/') || ref.endsWith('.lock') || /[\s~^:?*[\\]|\.\.|@\{/.test(ref)) {
+    throw new Error(`Invalid git ref "${ref}"`);
+  }
+}
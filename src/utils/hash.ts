@@ -0,0 +1,85 @@
+import { createHash } from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+/**
+ * Content hashing for skill directories
+ */
+
+/** Entries never included in a directory hash */
+const DEFAULT_IGNORED = ['.git'];
+
+/**
+ * Collect files below a directory as sorted POSIX-style relative paths
+ */
+export async function listFiles(rootDir: string, ignored: string[], relativeDir = ''): Promise<string[]> {
+  const entries = await fs.readdir(path.join(rootDir, relativeDir), { withFileTypes: true });
+  const files: string[] = [];
+
+  for (const entry of entries) {
+    if (ignored.includes(entry.name)) {
+      continue;
+    }
+
+    const relativePath = relativeDir ? `${relativeDir}/${entry.name}` : entry.name;
+    if (entry.isDirectory()) {
+      files.push(...await listFiles(rootDir, ignored, relativePath));
+    } else {
+      files.push(relativePath);
+    }
+  }
+
+  return files.sort();
+}
+
+/**
+ * Read a file's content for hashing, using the link target for symlinks
+ */
+async function readForHash(fullPath: string): Promise<Buffer> {
+  const stats = await fs.lstat(fullPath);
+  return stats.isSymbolicLink()
+    ? Buffer.from(`symlink:${await fs.readlink(fullPath)}`)
+    : fs.readFile(fullPath);
+}
+
+/**
+ * Hash every file below a directory individually
+ *
+ * @param dirPath - Directory to hash
+ * @param ignored - Entry names to skip at any depth
+ * @returns Map of POSIX-style relative path to hex SHA-256 digest
+ */
+export async function hashFiles(dirPath: string, ignored: string[] = DEFAULT_IGNORED): Promise<Map<string, string>> {
+  const hashes = new Map<string, string>();
+
+  for (const relativePath of await listFiles(dirPath, ignored)) {
+    const content = await readForHash(path.join(dirPath, relativePath));
+    hashes.set(relativePath, createHash('sha256').update(content).digest('hex'));
+  }
+
+  return hashes;
+}
+
+/**
+ * Compute a SHA-256 hash over a directory's file paths and contents
+ * Symlinks are hashed by their target, so the hash never follows links outside the directory.
+ *
+ * @param dirPath - Directory to hash
+ * @param ignored - Entry names to skip at any depth
+ * @returns Hex-encoded SHA-256 digest
+ */
+export async function hashDirectory(dirPath: string, ignored: string[] = DEFAULT_IGNORED): Promise<string> {
+  const hash = createHash('sha256');
+
+  for (const relativePath of await listFiles(dirPath, ignored)) {
+    const content = await readForHash(path.join(dirPath, relativePath));
+
+    hash.update(relativePath);
+    hash.update('\0');
+    hash.update(String(content.length));
+    hash.update('\0');
+    hash.update(content);
+  }
+
+  return hash.digest('hex');
+}
@@ -0,0 +1,139 @@
+import { z } from 'zod';
+import fs from 'fs/promises';
+import path from 'path';
+import { MarketplaceIndex, MarketplaceIndexEntry } from '../types/index.js';
+import { hashDirectory } from './hash.js';
+import { runGit } from './git.js';
+import { isRelativeSkillPath } from './paths.js';
+import { parseSkillFrontmatter, validateSkillName } from './yaml-parser.js';
+import logger from './logger.js';
+
+/**
+ * Static marketplace index (skills-index.json)
+ *
+ * A marketplace can publish one JSON file at its root listing every skill,
+ * so discovery takes a single request instead of one per skill directory.
+ */
+
+/** Index filename at the root of a marketplace */
+export const MARKETPLACE_INDEX_FILENAME = 'skills-index.json';
+
+/** SSH signature of the index, required for marketplaces with configured signers */
+export const MARKETPLACE_INDEX_SIGNATURE_FILENAME = 'skills-index.json.sig';
+
+/** Skill paths must stay inside the marketplace */
+const SafeSkillPathSchema = z
+  .string()
+  .min(1)
+  .refine(isRelativeSkillPath, 'path must be relative to the marketplace');
+
+/** Skill names become directory names on install, so they follow the SKILL.md rules */
+const SkillNameSchema = z.string().superRefine((name, ctx) => {
+  const error = validateSkillName(name);
+  if (error) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: error });
+  }
+});
+
+/** Dependencies in an index are stored normalized, as written by buildMarketplaceIndex */
+const SkillDependencySchema = z.object({
+  name: SkillNameSchema,
+  version: z.string().min(1).optional(),
+  marketplace: z.string().min(1).optional(),
+});
+
+const MarketplaceIndexSchema = z.object({
+  formatVersion: z.literal(1),
+  generatedAt: z.string(),
+  skills: z.array(z.object({
+    path: SafeSkillPathSchema,
+    metadata: z.object({
+      name: SkillNameSchema,
+      description: z.string(),
+      dependencies: z.array(SkillDependencySchema).optional(),
+    }).passthrough(),
+    revision: z.string().optional(),
+    checksum: z.string(),
+  })),
+});
+
+/**
+ * Parse and validate a marketplace index
+ *
+ * @param content - Raw skills-index.json content
+ * @returns The index, or null if the content is not a valid index
+ */
+export function parseMarketplaceIndex(content: string): MarketplaceIndex | null {
+  let data: unknown;
+  try {
+    data = JSON.parse(content);
+  } catch {
+    return null;
+  }
+
+  const result = MarketplaceIndexSchema.safeParse(data);
+  if (!result.success) {
+    logger.warn('Ignoring invalid marketplace index', { error: result.error.issues[0]?.message });
+    return null;
+  }
+
+  return result.data as MarketplaceIndex;
+}
+
+/**
+ * Get the last commit touching a directory, if it is inside a git checkout
+ */
+async function getDirectoryRevision(dirPath: string): Promise<string | undefined> {
+  try {
+    const revision = await runGit(['log', '-1', '--format=%H', '--', '.'], { cwd: dirPath });
+    return revision || undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Build an index for a local marketplace checkout
+ * Every subdirectory with a valid SKILL.md is listed; invalid skills are skipped with a warning.
+ *
+ * @param marketplaceDir - Directory whose subdirectories are skills
+ * @returns The generated index
+ */
+export async function buildMarketplaceIndex(marketplaceDir: string): Promise<MarketplaceIndex> {
+  const entries = await fs.readdir(marketplaceDir, { withFileTypes: true });
+  const skills: MarketplaceIndexEntry[] = [];
+
+  for (const entry of entries.sort((a, b) => a.name.localeCompare(b.name))) {
+    if (!entry.isDirectory() || entry.name.startsWith('.')) {
+      continue;
+    }
+
+    const skillDir = path.join(marketplaceDir, entry.name);
+    let content: string;
+    try {
+      content = await fs.readFile(path.join(skillDir, 'SKILL.md'), 'utf-8');
+    } catch {
+      continue;
+    }
+
+    const parseResult = parseSkillFrontmatter(content);
+    if (!parseResult.success || !parseResult.data) {
+      logger.warn('Skipping invalid skill in index', { path: entry.name, error: parseResult.error });
+      continue;
+    }
+
+    const revision = await getDirectoryRevision(skillDir);
+    skills.push({
+      path: entry.name,
+      metadata: parseResult.data,
+      ...(revision ? { revision } : {}),
+      checksum: await hashDirectory(skillDir),
+    });
+  }
+
+  return {
+    formatVersion: 1,
+    generatedAt: new Date().toISOString(),
+    skills,
+  };
+}
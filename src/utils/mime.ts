@@ -0,0 +1,75 @@
+import path from 'path';
+
+/**
+ * MIME type lookup for files shipped inside skills
+ */
+
+const MIME_TYPES: Record<string, string> = {
+  '.md': 'text/markdown',
+  '.markdown': 'text/markdown',
+  '.txt': 'text/plain',
+  '.py': 'text/x-python',
+  '.sh': 'text/x-shellscript',
+  '.bash': 'text/x-shellscript',
+  '.js': 'text/javascript',
+  '.mjs': 'text/javascript',
+  '.cjs': 'text/javascript',
+  '.ts': 'text/x-typescript',
+  '.json': 'application/json',
+  '.yaml': 'application/yaml',
+  '.yml': 'application/yaml',
+  '.toml': 'application/toml',
+  '.xml': 'application/xml',
+  '.html': 'text/html',
+  '.htm': 'text/html',
+  '.css': 'text/css',
+  '.csv': 'text/csv',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.pdf': 'application/pdf',
+  '.zip': 'application/zip',
+  '.gz': 'application/gzip',
+  '.tgz': 'application/gzip',
+};
+
+/** File names without a meaningful extension that are still text */
+const TEXT_FILENAMES = new Set(['LICENSE', 'Makefile', 'Dockerfile', '.gitkeep']);
+
+/** MIME types outside text/* that are safe to return as text */
+const TEXT_APPLICATION_TYPES = new Set([
+  'application/json',
+  'application/yaml',
+  'application/toml',
+  'application/xml',
+  'image/svg+xml',
+]);
+
+/**
+ * Get the MIME type for a file path
+ *
+ * @param filePath - File name or path
+ * @returns MIME type, defaulting to application/octet-stream
+ */
+export function getMimeType(filePath: string): string {
+  const base = path.basename(filePath);
+  if (TEXT_FILENAMES.has(base)) {
+    return 'text/plain';
+  }
+
+  const ext = path.extname(base).toLowerCase();
+  return MIME_TYPES[ext] ?? 'application/octet-stream';
+}
+
+/**
+ * Check whether a MIME type represents text content
+ *
+ * @param mimeType - MIME type to check
+ * @returns True if the content should be returned as text rather than base64
+ */
+export function isTextMimeType(mimeType: string): boolean {
+  return mimeType.startsWith('text/') || TEXT_APPLICATION_TYPES.has(mimeType);
+}
@@ -0,0 +1,86 @@
+import dns from 'dns/promises';
+
+/**
+ * Network reachability helpers for offline detection
+ */
+
+/** Error codes Node reports when the network (not the server) is the problem */
+const NETWORK_ERROR_CODES = new Set([
+  'ENOTFOUND',
+  'EAI_AGAIN',
+  'ECONNREFUSED',
+  'ECONNRESET',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'ETIMEDOUT',
+  'UND_ERR_CONNECT_TIMEOUT',
+]);
+
+/** Messages git prints when it cannot reach a remote */
+const GIT_NETWORK_ERROR_PATTERN =
+  /Could not resolve host|Could not resolve hostname|Temporary failure in name resolution|Failed to connect|Network is unreachable|Connection timed out|Connection refused/i;
+
+/** Time limit for a single DNS lookup (ms) */
+const LOOKUP_TIMEOUT_MS = 3000;
+
+/**
+ * Whether an error means the machine could not reach the network
+ * Covers fetch failures (error code on err.cause) and git CLI output.
+ *
+ * @param err - Error thrown by fetch, dns or runGit
+ */
+export function isNetworkError(err: unknown): boolean {
+  if (!(err instanceof Error)) {
+    return false;
+  }
+
+  const code = (err as NodeJS.ErrnoException).code
+    ?? ((err as Error & { cause?: NodeJS.ErrnoException }).cause)?.code;
+  if (code && NETWORK_ERROR_CODES.has(code)) {
+    return true;
+  }
+
+  return GIT_NETWORK_ERROR_PATTERN.test(err.message);
+}
+
+/**
+ * Get the host a remote marketplace URL points at
+ * Handles URLs (https://, git+ssh://) and scp-style remotes (git@host:org/repo).
+ *
+ * @returns Hostname, or null for local paths and unparseable URLs
+ */
+export function getMarketplaceHost(marketplaceUrl: string): string | null {
+  const scpMatch = /^[^@/\s]+@([^:/\s]+):/.exec(marketplaceUrl);
+  if (scpMatch) {
+    return scpMatch[1];
+  }
+
+  try {
+    const { protocol, hostname } = new URL(marketplaceUrl);
+    return protocol === 'file:' || !hostname ? null : hostname;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Check whether a hostname resolves
+ *
+ * @param host - Hostname to look up
+ * @returns False if DNS lookup fails or times out
+ */
+export async function canResolveHost(host: string): Promise<boolean> {
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<false>((resolve) => {
+    timer = setTimeout(() => resolve(false), LOOKUP_TIMEOUT_MS);
+  });
+
+  try {
+    return await Promise.race([
+      dns.lookup(host).then(() => true, () => false),
+      timeout,
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -1,5 +1,6 @@
 import os from 'os';
 import path from 'path';
+import { SearchPathConfig } from '../types/index.js';
 
 /**
  * Path utilities for skill discovery
@@ -20,6 +21,22 @@ const SKILL_SEARCH_PATHS = [
   '/usr/local/share/skills',     // System-wide
 ];
 
+/**
+ * Search paths managed by the system that the server must never modify
+ */
+const READ_ONLY_SEARCH_PATHS = [
+  '/usr/local/share/skills',
+];
+
+/** Project-scoped skills directory, relative to the project root */
+const PROJECT_SKILLS_DIR = path.join('.claude', 'skills');
+
+/** Name of the directory (inside a search path) holding uninstalled skills */
+const TRASH_DIRNAME = '.trash';
+
+/** Name of the directory (inside a search path) holding previous skill versions */
+const VERSIONS_DIRNAME = '.versions';
+
 /**
  * Expand ~ to home directory and resolve relative paths
  *
@@ -59,6 +76,16 @@ export function getSkillSearchPaths(): string[] {
   return SKILL_SEARCH_PATHS.map(expandPath);
 }
 
+/**
+ * Get the built-in search paths as config entries, with system paths marked read-only
+ * Used until search paths are configured in config.json
+ *
+ * @returns Unexpanded search paths in priority order
+ */
+export function getDefaultSearchPathConfig(): SearchPathConfig[] {
+  return SKILL_SEARCH_PATHS.map(p => (READ_ONLY_SEARCH_PATHS.includes(p) ? { path: p, readOnly: true } : { path: p }));
+}
+
 /**
  * Get the configuration file path
  *
@@ -68,6 +95,15 @@ export function getConfigPath(): string {
   return path.join(HOME_DIR, '.config', 'skills-mcp', 'config.json');
 }
 
+/**
+ * Get the directory for cached marketplace data
+ *
+ * @returns Absolute path to the cache directory
+ */
+export function getCacheDir(): string {
+  return path.join(HOME_DIR, '.config', 'skills-mcp', 'cache');
+}
+
 /**
  * Get the default installation path for skills
  *
@@ -76,3 +112,101 @@ export function getConfigPath(): string {
 export function getDefaultInstallPath(): string {
   return path.join(HOME_DIR, 'skills');
 }
+
+/**
+ * Get the directory holding a project's skills
+ *
+ * @param projectDir - Project root (relative paths resolve against the working directory)
+ * @returns Absolute path to <project>/.claude/skills
+ */
+export function getProjectSkillsPath(projectDir: string): string {
+  return path.join(path.resolve(projectDir), PROJECT_SKILLS_DIR);
+}
+
+/**
+ * Find the project a skill was installed into
+ *
+ * @param skillLocation - Absolute path of the installed skill
+ * @returns Project root if the skill lives in <project>/.claude/skills, otherwise null
+ */
+export function getProjectForSkill(skillLocation: string): string | null {
+  const skillsDir = path.dirname(path.resolve(skillLocation));
+  const projectDir = path.dirname(path.dirname(skillsDir));
+  return getProjectSkillsPath(projectDir) === skillsDir ? projectDir : null;
+}
+
+/**
+ * Check whether a search path is reserved for system-wide skills
+ *
+ * @param searchPath - Absolute search path
+ * @returns True if skills in this path must not be modified
+ */
+export function isReadOnlySearchPath(searchPath: string): boolean {
+  const resolved = path.resolve(searchPath);
+  return READ_ONLY_SEARCH_PATHS.map(expandPath).includes(resolved);
+}
+
+/**
+ * Get the trash directory for skills removed from a search path
+ * Kept inside the search path so removal is a same-filesystem rename
+ *
+ * @param searchPath - Absolute search path the skill was removed from
+ * @returns Absolute path to the trash directory
+ */
+export function getTrashPath(searchPath: string): string {
+  return path.join(searchPath, TRASH_DIRNAME);
+}
+
+/**
+ * Get the directory holding previous versions of a skill
+ * Kept inside the skill's search path so saving and restoring are same-filesystem renames
+ *
+ * @param skillLocation - Absolute path of the installed skill
+ * @returns Absolute path to the skill's versions directory
+ */
+export function getVersionsPath(skillLocation: string): string {
+  return path.join(path.dirname(skillLocation), VERSIONS_DIRNAME, path.basename(skillLocation));
+}
+
+/**
+ * Get the data directory for a skill's user-generated outputs
+ * Follows the ~/Documents/{skill-name}/ convention
+ *
+ * @param skillName - Name of the skill
+ * @returns Absolute path to the skill's data directory
+ */
+export function getSkillDataPath(skillName: string): string {
+  return path.join(HOME_DIR, 'Documents', skillName);
+}
+
+/**
+ * Check that a skill path from a marketplace index or lockfile stays inside its marketplace
+ * Absolute paths and '..' segments are rejected.
+ */
+export function isRelativeSkillPath(skillPath: string): boolean {
+  return skillPath.length > 0 && !skillPath.startsWith('/') && !path.isAbsolute(skillPath)
+    && !skillPath.split(/[\\/]/).includes('..');
+}
+
+/**
+ * Resolve a relative path inside a base directory
+ * Rejects absolute paths and any path that escapes the base via '..'
+ *
+ * @param basePath - Absolute directory the result must stay inside
+ * @param relativePath - Untrusted relative path
+ * @returns Absolute resolved path, or null if it escapes the base directory
+ */
+export function resolveInside(basePath: string, relativePath: string): string | null {
+  if (!relativePath || path.isAbsolute(relativePath) || relativePath.includes('\0')) {
+    return null;
+  }
+
+  const base = path.resolve(basePath);
+  const resolved = path.resolve(base, relativePath);
+
+  if (resolved !== base && !resolved.startsWith(base + path.sep)) {
+    return null;
+  }
+
+  return resolved;
+}
@@ -0,0 +1,261 @@
+import { execFile, spawn } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+/**
+ * Runs skill scripts with a timeout, a filtered environment and capped output,
+ * optionally inside a bubblewrap (bwrap) sandbox
+ *
+ * The sandbox mounts the filesystem read-only, hides credential files in the
+ * home directory, gives the script a private /tmp and only lets it write to
+ * its working directory. It keeps network access.
+ */
+
+/** Environment variables every script receives from the server's environment */
+export const DEFAULT_SCRIPT_ENV = ['PATH', 'HOME', 'USER', 'LANG', 'LC_ALL', 'LC_CTYPE', 'TZ', 'TMPDIR', 'TERM'];
+
+/** Interpreters for scripts that aren't executable themselves, by extension */
+const INTERPRETERS: Record<string, string> = {
+  '.py': 'python3',
+  '.sh': 'sh',
+  '.bash': 'bash',
+  '.js': 'node',
+  '.mjs': 'node',
+  '.cjs': 'node',
+  '.rb': 'ruby',
+  '.pl': 'perl',
+};
+
+/** Credential directories and files (relative to the home directory) hidden inside the sandbox */
+const HIDDEN_HOME_PATHS = [
+  '.ssh', '.aws', '.gnupg', '.kube', '.docker', '.config/gh', '.config/gcloud', '.config/skills-mcp',
+  '.netrc', '.git-credentials', '.npmrc', '.pypirc',
+];
+
+/** Grace period between SIGTERM and SIGKILL when a script times out (ms) */
+const KILL_GRACE_MS = 2000;
+
+/**
+ * Options for running a script
+ */
+export interface ScriptRunOptions {
+  /** Working directory */
+  cwd: string;
+  /** Complete environment (nothing is inherited) */
+  env: Record<string, string>;
+  /** Time limit before the script is killed (ms) */
+  timeoutMs: number;
+  /** Maximum bytes kept from each of stdout and stderr */
+  maxOutputBytes: number;
+}
+
+/**
+ * Outcome of running a script
+ */
+export interface ScriptRunResult {
+  /** Exit code, or null if the script was killed by a signal */
+  exitCode: number | null;
+  signal: string | null;
+  timedOut: boolean;
+  durationMs: number;
+  stdout: string;
+  stderr: string;
+  /** Which streams were cut off at maxOutputBytes */
+  truncated: { stdout: boolean; stderr: boolean };
+}
+
+/**
+ * Paths the sandbox needs to know about
+ */
+export interface SandboxPaths {
+  /** Skill directory (mounted read-only) */
+  skillDir: string;
+  /** Working directory (mounted writable) */
+  cwd: string;
+  /** Existing credential paths to hide */
+  hidden: Array<{ path: string; isDirectory: boolean }>;
+}
+
+/**
+ * Work out the command that runs a script
+ *
+ * @param scriptPath - Absolute script path
+ * @param isExecutable - Whether the file has an execute bit
+ * @returns Command and leading arguments, or null if the script type is unknown
+ */
+export function getScriptCommand(scriptPath: string, isExecutable: boolean): string[] | null {
+  const interpreter = INTERPRETERS[path.extname(scriptPath).toLowerCase()];
+  if (interpreter) {
+    return [interpreter, scriptPath];
+  }
+  return isExecutable ? [scriptPath] : null;
+}
+
+/**
+ * Build a script's environment from an allowlist of server variables plus explicit values
+ *
+ * @param allowlist - Names of variables copied from the server's environment
+ * @param overrides - Values set for the script (take precedence)
+ */
+export function buildScriptEnv(allowlist: string[], overrides: Record<string, string> = {}): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const name of allowlist) {
+    const value = process.env[name];
+    if (value !== undefined) {
+      env[name] = value;
+    }
+  }
+  return { ...env, ...overrides };
+}
+
+/**
+ * Find the credential paths in the home directory that exist and must be hidden
+ */
+export async function findHiddenPaths(homeDir: string = os.homedir()): Promise<SandboxPaths['hidden']> {
+  const hidden: SandboxPaths['hidden'] = [];
+  for (const relativePath of HIDDEN_HOME_PATHS) {
+    const fullPath = path.join(homeDir, relativePath);
+    try {
+      const stats = await fs.stat(fullPath);
+      hidden.push({ path: fullPath, isDirectory: stats.isDirectory() });
+    } catch {
+      // Not present
+    }
+  }
+  return hidden;
+}
+
+/**
+ * Wrap a command in a bubblewrap sandbox
+ *
+ * @param command - Command and arguments to run
+ * @param paths - Skill directory, working directory and paths to hide
+ * @returns bwrap arguments (without the bwrap executable itself)
+ */
+export function buildBubblewrapArgs(command: string[], paths: SandboxPaths): string[] {
+  const args = [
+    '--ro-bind', '/', '/',
+    '--dev', '/dev',
+    '--proc', '/proc',
+    '--tmpfs', '/tmp',
+  ];
+
+  for (const hidden of paths.hidden) {
+    args.push(...(hidden.isDirectory ? ['--tmpfs', hidden.path] : ['--ro-bind', '/dev/null', hidden.path]));
+  }
+
+  args.push('--ro-bind', paths.skillDir, paths.skillDir);
+  if (paths.cwd !== paths.skillDir) {
+    args.push('--bind', paths.cwd, paths.cwd);
+  }
+
+  args.push(
+    '--unshare-all',
+    '--share-net',
+    '--die-with-parent',
+    '--new-session',
+    '--chdir', paths.cwd,
+    '--',
+    ...command
+  );
+  return args;
+}
+
+let bubblewrapAvailable: Promise<boolean> | null = null;
+
+/**
+ * Check once whether bubblewrap is installed and can create a sandbox
+ */
+export function isBubblewrapAvailable(): Promise<boolean> {
+  bubblewrapAvailable ??= new Promise(resolve => {
+    execFile('bwrap', ['--ro-bind', '/', '/', '--unshare-all', '--', 'true'], { timeout: 5000 }, err => resolve(!err));
+  });
+  return bubblewrapAvailable;
+}
+
+/**
+ * Collects a stream's output up to a byte limit
+ */
+function createCollector(maxBytes: number): { push: (chunk: Buffer) => void; text: () => string; truncated: () => boolean } {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  let truncated = false;
+
+  return {
+    push(chunk: Buffer): void {
+      if (size >= maxBytes) {
+        truncated = true;
+        return;
+      }
+      const kept = chunk.subarray(0, maxBytes - size);
+      truncated ||= kept.length < chunk.length;
+      chunks.push(kept);
+      size += kept.length;
+    },
+    text: () => Buffer.concat(chunks).toString('utf-8'),
+    truncated: () => truncated,
+  };
+}
+
+/**
+ * Run a command without a shell, killing it and its children on timeout
+ *
+ * @param command - Executable and arguments
+ * @param options - Working directory, environment, timeout and output cap
+ * @returns Exit status and captured output
+ * @throws Error if the command can't be started
+ */
+export function runScript(command: string[], options: ScriptRunOptions): Promise<ScriptRunResult> {
+  const startedAt = Date.now();
+  const stdout = createCollector(options.maxOutputBytes);
+  const stderr = createCollector(options.maxOutputBytes);
+
+  return new Promise((resolve, reject) => {
+    // Its own process group, so the whole tree can be killed
+    const child = spawn(command[0], command.slice(1), {
+      cwd: options.cwd,
+      env: options.env,
+      stdio: ['ignore', 'pipe', 'pipe'],
+      detached: true,
+    });
+
+    let timedOut = false;
+    const killGroup = (signal: NodeJS.Signals): void => {
+      try {
+        if (child.pid) process.kill(-child.pid, signal);
+      } catch {
+        // Already exited
+      }
+    };
+
+    let killTimer: NodeJS.Timeout | undefined;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      killGroup('SIGTERM');
+      killTimer = setTimeout(() => killGroup('SIGKILL'), KILL_GRACE_MS);
+    }, options.timeoutMs);
+
+    child.stdout.on('data', stdout.push);
+    child.stderr.on('data', stderr.push);
+
+    child.on('error', err => {
+      clearTimeout(timer);
+      reject(err);
+    });
+
+    child.on('close', (exitCode, signal) => {
+      clearTimeout(timer);
+      clearTimeout(killTimer);
+      resolve({
+        exitCode,
+        signal,
+        timedOut,
+        durationMs: Date.now() - startedAt,
+        stdout: stdout.text(),
+        stderr: stderr.text(),
+        truncated: { stdout: stdout.truncated(), stderr: stderr.truncated() },
+      });
+    });
+  });
+}
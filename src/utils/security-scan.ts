@@ -0,0 +1,330 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { RiskLevel, SecurityFinding, SecurityFindingCategory, SecurityReport } from '../types/index.js';
+import { listFiles } from './hash.js';
+import { parseSkillFrontmatter } from './yaml-parser.js';
+
+/**
+ * Static security review of a skill's files before it is installed
+ *
+ * Nothing is executed: files are matched against patterns for shell
+ * invocations, network calls and credential access, and the skill's
+ * executables, package manifests and allowed-tools are listed. The review
+ * points a person at what to read; it can't prove a skill is safe.
+ */
+
+/** Risk levels from lowest to highest */
+export const RISK_LEVELS: readonly RiskLevel[] = ['none', 'low', 'medium', 'high'];
+
+/** Entries that are local bookkeeping rather than skill content */
+const IGNORED_ENTRIES = ['.git', '.skill-source.json'];
+
+/** Files larger than this are listed but not read (bytes) */
+const MAX_SCAN_BYTES = 1024 * 1024;
+
+/** Extensions of scripts an agent can run */
+const SCRIPT_EXTENSIONS = new Set([
+  '.py', '.sh', '.bash', '.zsh', '.fish', '.js', '.mjs', '.cjs', '.ts',
+  '.rb', '.pl', '.php', '.ps1', '.bat', '.cmd',
+]);
+
+/** Extensions of compiled binaries */
+const BINARY_EXTENSIONS = new Set(['.exe', '.dll', '.so', '.dylib', '.bin']);
+
+/** Package manifests that pull in third-party code when installed */
+const DEPENDENCY_MANIFESTS = new Set([
+  'requirements.txt', 'pyproject.toml', 'setup.py', 'Pipfile',
+  'package.json', 'Gemfile', 'go.mod', 'Cargo.toml',
+]);
+
+/** npm lifecycle scripts that run during npm install */
+const NPM_INSTALL_SCRIPTS = ['preinstall', 'install', 'postinstall', 'prepare'];
+
+/**
+ * A pattern the review looks for in file contents
+ */
+interface ScanRule {
+  category: SecurityFindingCategory;
+  severity: SecurityFinding['severity'];
+  pattern: RegExp;
+  message: string;
+}
+
+const CONTENT_RULES: ScanRule[] = [
+  {
+    category: 'shell',
+    severity: 'high',
+    pattern: /\b(curl|wget)\b[^\n]*\|\s*(sudo\s+)?(ba|z)?sh\b/,
+    message: 'Downloads a script and pipes it into a shell',
+  },
+  {
+    category: 'shell',
+    severity: 'medium',
+    pattern: /\bsubprocess\.(run|call|Popen|check_call|check_output)\b|\bos\.(system|popen|exec[lv]p?e?)\s*\(/,
+    message: 'Runs shell commands (Python)',
+  },
+  {
+    category: 'shell',
+    severity: 'medium',
+    pattern: /\bchild_process\b|\b(execSync|spawnSync|execFileSync)\s*\(/,
+    message: 'Runs shell commands (Node.js)',
+  },
+  {
+    category: 'shell',
+    severity: 'medium',
+    pattern: /\b(ba|z)?sh\s+-c\b/,
+    message: 'Runs an inline shell command',
+  },
+  {
+    category: 'shell',
+    severity: 'medium',
+    pattern: /(^|[^.\w])(eval|exec)\s*\(/,
+    message: 'Evaluates dynamically built code',
+  },
+  {
+    category: 'network',
+    severity: 'medium',
+    pattern: /\b(requests|httpx)\.(get|post|put|patch|delete|head|request|Session|Client|AsyncClient)\b|\baiohttp\b|\burllib\.request\b|\burlopen\s*\(|\bhttp\.client\b/,
+    message: 'Makes HTTP requests (Python)',
+  },
+  {
+    category: 'network',
+    severity: 'medium',
+    pattern: /\bfetch\s*\(|\baxios\b|\brequire\(\s*['"](node:)?https?['"]\s*\)|\bfrom\s+['"](node:)?https?['"]/,
+    message: 'Makes HTTP requests (JavaScript)',
+  },
+  {
+    category: 'network',
+    severity: 'medium',
+    pattern: /\bsocket\.socket\s*\(|\bnet\.(connect|createConnection)\s*\(|\bnew\s+WebSocket\s*\(/,
+    message: 'Opens network sockets',
+  },
+  {
+    category: 'network',
+    severity: 'medium',
+    pattern: /\b(curl|wget|scp)\s+\S/,
+    message: 'Calls a network command-line tool',
+  },
+  {
+    category: 'credentials',
+    severity: 'high',
+    pattern: /\.ssh\/|\bid_(rsa|ed25519|ecdsa|dsa)\b/,
+    message: 'Accesses SSH keys',
+  },
+  {
+    category: 'credentials',
+    severity: 'high',
+    pattern: /\.aws\/credentials|\.netrc\b|\.git-credentials\b|\.npmrc\b|\.pypirc\b|\.docker\/config\.json|\.kube\/config|\.config\/gh\/hosts\.yml|\.gnupg\//,
+    message: 'Accesses credential files',
+  },
+  {
+    category: 'credentials',
+    severity: 'high',
+    pattern: /\bsecurity\s+find-(generic|internet)-password\b|\bkeyring\.get_password\b|\bsecret-tool\s+lookup\b/,
+    message: 'Reads passwords from the system keychain',
+  },
+  {
+    category: 'credentials',
+    severity: 'medium',
+    pattern: /\b[A-Z][A-Z0-9_]*(TOKEN|SECRET|PASSWORD|API_KEY|ACCESS_KEY)[A-Z0-9_]*\b/,
+    message: 'Uses secrets from environment variables',
+  },
+];
+
+/**
+ * Error raised when a skill's review exceeds the configured maximum risk
+ */
+export class SecurityPolicyError extends Error {
+  constructor(
+    public readonly report: SecurityReport,
+    public readonly maxRisk: RiskLevel
+  ) {
+    super(`Security review rated the skill ${report.riskLevel} risk, above the allowed maximum of ${maxRisk} (maxInstallRisk)`);
+    this.name = 'SecurityPolicyError';
+  }
+}
+
+/**
+ * Whether a risk level is above the allowed maximum
+ */
+export function exceedsRisk(level: RiskLevel, maxRisk: RiskLevel): boolean {
+  return RISK_LEVELS.indexOf(level) > RISK_LEVELS.indexOf(maxRisk);
+}
+
+/**
+ * Throw if a review exceeds the allowed maximum risk
+ *
+ * @throws SecurityPolicyError carrying the report
+ */
+export function enforceRiskPolicy(report: SecurityReport, maxRisk: RiskLevel): void {
+  if (exceedsRisk(report.riskLevel, maxRisk)) {
+    throw new SecurityPolicyError(report, maxRisk);
+  }
+}
+
+/**
+ * Match content rules line by line, one finding per rule and file
+ */
+function scanContent(file: string, content: string): SecurityFinding[] {
+  const lines = content.split('\n');
+  const findings: SecurityFinding[] = [];
+
+  for (const rule of CONTENT_RULES) {
+    let first: number | undefined;
+    let occurrences = 0;
+    lines.forEach((line, i) => {
+      if (rule.pattern.test(line)) {
+        first ??= i + 1;
+        occurrences++;
+      }
+    });
+
+    if (first !== undefined) {
+      findings.push({ category: rule.category, severity: rule.severity, file, line: first, message: rule.message, occurrences });
+    }
+  }
+
+  return findings;
+}
+
+/**
+ * Review a package manifest for install-time code and non-registry sources
+ */
+function scanManifest(file: string, content: string): SecurityFinding[] {
+  const name = path.posix.basename(file);
+  const findings: SecurityFinding[] = [
+    { category: 'dependencies', severity: 'low', file, message: `Declares third-party packages (${name})` },
+  ];
+
+  if (name === 'package.json') {
+    try {
+      const scripts = (JSON.parse(content) as { scripts?: Record<string, unknown> }).scripts ?? {};
+      const hooks = NPM_INSTALL_SCRIPTS.filter(hook => hook in scripts);
+      if (hooks.length > 0) {
+        findings.push({ category: 'dependencies', severity: 'high', file, message: `Runs scripts during npm install: ${hooks.join(', ')}` });
+      }
+    } catch {
+      // Unparseable package.json is still listed above
+    }
+  }
+
+  if (name === 'requirements.txt' && /^\s*(-i|--index-url|--extra-index-url|-f|--find-links)\b|git\+|https?:\/\//m.test(content)) {
+    findings.push({ category: 'dependencies', severity: 'medium', file, message: 'Installs packages from outside PyPI' });
+  }
+
+  return findings;
+}
+
+/**
+ * Review the tools SKILL.md pre-approves with allowed-tools
+ */
+function scanAllowedTools(tools: string[]): SecurityFinding[] {
+  if (tools.length === 0) {
+    return [];
+  }
+
+  const shell = tools.filter(tool => /^Bash\b/.test(tool));
+  return shell.length > 0
+    ? [{ category: 'allowed-tools', severity: 'medium', file: 'SKILL.md', message: `Pre-approves shell commands: ${shell.join(' ')}` }]
+    : [{ category: 'allowed-tools', severity: 'low', file: 'SKILL.md', message: `Pre-approves tools: ${tools.join(' ')}` }];
+}
+
+/**
+ * Read a file for scanning
+ *
+ * @returns Text content, or null for binary files and files too large to scan
+ */
+async function readText(fullPath: string, size: number): Promise<string | null> {
+  if (size > MAX_SCAN_BYTES) {
+    return null;
+  }
+
+  const content = await fs.readFile(fullPath);
+  return content.subarray(0, 8000).includes(0) ? null : content.toString('utf-8');
+}
+
+/**
+ * Review a skill directory without running anything in it
+ *
+ * @param skillDir - Skill directory (downloaded, not yet installed)
+ * @returns Executables, allowed tools and findings with the overall risk level
+ */
+export async function scanSkill(skillDir: string): Promise<SecurityReport> {
+  const executables: string[] = [];
+  const findings: SecurityFinding[] = [];
+  let allowedTools: string[] = [];
+
+  for (const file of await listFiles(skillDir, IGNORED_ENTRIES)) {
+    const fullPath = path.join(skillDir, file);
+    const stats = await fs.lstat(fullPath);
+    if (!stats.isFile()) {
+      continue;
+    }
+
+    const content = await readText(fullPath, stats.size);
+    const extension = path.posix.extname(file).toLowerCase();
+    const isBinary = content === null && stats.size <= MAX_SCAN_BYTES;
+    const isExecutable = (stats.mode & 0o111) !== 0 || content?.startsWith('#!') === true;
+
+    if (BINARY_EXTENSIONS.has(extension) || (isBinary && isExecutable)) {
+      executables.push(file);
+      findings.push({ category: 'executable', severity: 'medium', file, message: 'Ships a compiled binary' });
+    } else if (SCRIPT_EXTENSIONS.has(extension) || isExecutable) {
+      executables.push(file);
+      findings.push({ category: 'executable', severity: 'low', file, message: 'Ships a script' });
+    }
+
+    if (content === null) {
+      continue;
+    }
+
+    if (DEPENDENCY_MANIFESTS.has(path.posix.basename(file))) {
+      findings.push(...scanManifest(file, content));
+    }
+
+    if (file === 'SKILL.md') {
+      const parsed = parseSkillFrontmatter(content);
+      allowedTools = parsed.data?.allowedTools?.split(/\s+/).filter(Boolean) ?? [];
+      findings.push(...scanAllowedTools(allowedTools));
+    }
+
+    findings.push(...scanContent(file, content));
+  }
+
+  const riskLevel = findings.reduce<RiskLevel>(
+    (level, finding) => (exceedsRisk(finding.severity, level) ? finding.severity : level),
+    'none'
+  );
+
+  return { riskLevel, executables, allowedTools, findings };
+}
+
+/**
+ * Format a security report as text for tool output
+ *
+ * @param report - Review of a skill
+ * @param limit - Maximum number of findings to list (most severe first)
+ */
+export function formatSecurityReport(report: SecurityReport, limit = 10): string {
+  const lines = [`Security review: ${report.riskLevel} risk`];
+
+  if (report.executables.length > 0) {
+    lines.push(`- Executables: ${report.executables.join(', ')}`);
+  }
+  if (report.allowedTools.length > 0) {
+    lines.push(`- Allowed tools: ${report.allowedTools.join(' ')}`);
+  }
+
+  const notable = report.findings
+    .filter(f => f.category !== 'executable')
+    .sort((a, b) => RISK_LEVELS.indexOf(b.severity) - RISK_LEVELS.indexOf(a.severity));
+  for (const finding of notable.slice(0, limit)) {
+    const location = finding.line ? `${finding.file}:${finding.line}` : finding.file;
+    lines.push(`- [${finding.severity}] ${finding.message} (${location})`);
+  }
+  if (notable.length > limit) {
+    lines.push(`- ...and ${notable.length - limit} more (see security in the JSON output)`);
+  }
+
+  return lines.join('\n');
+}
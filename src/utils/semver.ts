@@ -0,0 +1,126 @@
+import { UpdatePolicy } from '../types/index.js';
+
+/**
+ * Minimal semantic versioning (semver.org) for skill versions
+ */
+
+const SEMVER_PATTERN =
+  /^v?(0|[1-9]\d*)\.(0|[1-9]\d*)\.(0|[1-9]\d*)(?:-([0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*))?(?:\+[0-9A-Za-z-]+(?:\.[0-9A-Za-z-]+)*)?$/;
+
+/**
+ * Parsed semantic version
+ */
+export interface SemVer {
+  major: number;
+  minor: number;
+  patch: number;
+  /** Pre-release identifiers (empty for releases) */
+  prerelease: string[];
+}
+
+/**
+ * Size of the change between two versions
+ */
+export type VersionChange = 'major' | 'minor' | 'patch';
+
+/**
+ * Parse a semantic version such as 1.2.3, v1.2.3 or 1.2.3-beta.1
+ * Build metadata (+...) is accepted and ignored.
+ *
+ * @returns Parsed version, or null if the string is not a semantic version
+ */
+export function parseSemver(version: string): SemVer | null {
+  const match = SEMVER_PATTERN.exec(version.trim());
+  if (!match) {
+    return null;
+  }
+
+  return {
+    major: Number(match[1]),
+    minor: Number(match[2]),
+    patch: Number(match[3]),
+    prerelease: match[4] ? match[4].split('.') : [],
+  };
+}
+
+/**
+ * Format a version without prefix or build metadata
+ */
+export function formatSemver(version: SemVer): string {
+  const core = `${version.major}.${version.minor}.${version.patch}`;
+  return version.prerelease.length > 0 ? `${core}-${version.prerelease.join('.')}` : core;
+}
+
+/**
+ * Compare pre-release identifiers by semver precedence
+ */
+function comparePrerelease(a: string[], b: string[]): number {
+  // A release is newer than any of its pre-releases
+  if (a.length === 0 || b.length === 0) {
+    return b.length - a.length;
+  }
+
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    const aNumeric = /^\d+$/.test(a[i]);
+    const bNumeric = /^\d+$/.test(b[i]);
+
+    if (aNumeric && bNumeric) {
+      const diff = Number(a[i]) - Number(b[i]);
+      if (diff !== 0) return diff;
+    } else if (aNumeric !== bNumeric) {
+      // Numeric identifiers sort before alphanumeric ones
+      return aNumeric ? -1 : 1;
+    } else if (a[i] !== b[i]) {
+      return a[i] < b[i] ? -1 : 1;
+    }
+  }
+
+  return a.length - b.length;
+}
+
+/**
+ * Compare two versions by precedence
+ *
+ * @returns Negative if a < b, zero if equal, positive if a > b
+ */
+export function compareSemver(a: SemVer, b: SemVer): number {
+  return a.major - b.major
+    || a.minor - b.minor
+    || a.patch - b.patch
+    || comparePrerelease(a.prerelease, b.prerelease);
+}
+
+/**
+ * Classify the change from one version to a newer one
+ * Pre-release changes within the same major.minor.patch count as patch changes.
+ *
+ * @returns Size of the change, or null if `to` is not newer than `from`
+ */
+export function getVersionChange(from: SemVer, to: SemVer): VersionChange | null {
+  if (compareSemver(to, from) <= 0) {
+    return null;
+  }
+
+  if (to.major !== from.major) {
+    return 'major';
+  }
+
+  return to.minor !== from.minor ? 'minor' : 'patch';
+}
+
+/**
+ * Whether an update policy accepts a version change
+ * - patch: only patch changes
+ * - minor: patch and minor changes
+ * - major and any: every newer version
+ */
+export function isChangeAllowed(policy: UpdatePolicy, change: VersionChange): boolean {
+  switch (policy) {
+    case 'patch':
+      return change === 'patch';
+    case 'minor':
+      return change !== 'major';
+    default:
+      return true;
+  }
+}
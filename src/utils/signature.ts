@@ -0,0 +1,92 @@
+import { execFile } from 'child_process';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+
+/**
+ * OpenSSH signature verification (ssh-keygen -Y) for marketplace indexes
+ *
+ * Publishers sign skills-index.json with:
+ *   ssh-keygen -Y sign -f ~/.ssh/id_ed25519 -n skills-index skills-index.json
+ * and publish the resulting skills-index.json.sig next to it.
+ */
+
+/** Signature namespace for marketplace indexes */
+export const INDEX_SIGNATURE_NAMESPACE = 'skills-index';
+
+/** Time limit for a single ssh-keygen run (ms) */
+const SSH_KEYGEN_TIMEOUT_MS = 10_000;
+
+/**
+ * Result of verifying a signature
+ */
+export interface SignatureVerification {
+  valid: boolean;
+  /** Principal from allowed_signers whose key made the signature */
+  principal?: string;
+  /** Why verification failed */
+  error?: string;
+}
+
+/**
+ * Run ssh-keygen, optionally feeding data on stdin
+ *
+ * @returns stdout
+ * @throws Error with ssh-keygen's stderr if it exits non-zero
+ */
+function runSshKeygen(args: string[], input?: string): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = execFile('ssh-keygen', args, { timeout: SSH_KEYGEN_TIMEOUT_MS }, (err, stdout, stderr) => {
+      if (err) {
+        reject(new Error(stderr.trim() || err.message));
+      } else {
+        resolve(stdout);
+      }
+    });
+    // ssh-keygen may exit without reading stdin (find-principals, early errors)
+    child.stdin?.on('error', () => undefined);
+    child.stdin?.end(input);
+  });
+}
+
+/**
+ * Verify an SSH signature against an allowed_signers file
+ *
+ * @param data - Signed content
+ * @param signature - Armored signature (-----BEGIN SSH SIGNATURE-----)
+ * @param allowedSignersPath - OpenSSH allowed_signers file listing trusted keys
+ * @param namespace - Namespace the signature must have been made for
+ */
+export async function verifySshSignature(
+  data: string,
+  signature: string,
+  allowedSignersPath: string,
+  namespace: string
+): Promise<SignatureVerification> {
+  const workDir = await fs.mkdtemp(path.join(os.tmpdir(), 'skills-mcp-sig-'));
+  const signaturePath = path.join(workDir, 'data.sig');
+
+  try {
+    await fs.writeFile(signaturePath, signature);
+
+    let principal: string;
+    try {
+      const principals = await runSshKeygen(['-Y', 'find-principals', '-f', allowedSignersPath, '-s', signaturePath]);
+      principal = principals.split('\n')[0].trim();
+    } catch {
+      return { valid: false, error: 'Signature was not made by a key in the allowed signers file' };
+    }
+
+    try {
+      await runSshKeygen(
+        ['-Y', 'verify', '-f', allowedSignersPath, '-I', principal, '-n', namespace, '-s', signaturePath],
+        data
+      );
+      return { valid: true, principal };
+    } catch (err) {
+      return { valid: false, principal, error: err instanceof Error ? err.message : String(err) };
+    }
+  } finally {
+    await fs.rm(workDir, { recursive: true, force: true });
+  }
+}
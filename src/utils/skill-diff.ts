@@ -0,0 +1,92 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { FrontmatterChange, SkillFileDiff } from '../types/index.js';
+import { hashFiles } from './hash.js';
+import { parseSkillFrontmatter } from './yaml-parser.js';
+
+/**
+ * File-level comparison of two versions of a skill directory
+ */
+
+/** Entries that are local bookkeeping rather than skill content */
+const IGNORED_ENTRIES = ['.git', '.skill-source.json'];
+
+/**
+ * Read SKILL.md frontmatter as a plain object ({} if missing or invalid)
+ */
+async function readFrontmatter(skillDir: string): Promise<Record<string, unknown>> {
+  try {
+    const content = await fs.readFile(path.join(skillDir, 'SKILL.md'), 'utf-8');
+    const result = parseSkillFrontmatter(content);
+    return result.success && result.data ? { ...result.data } : {};
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Compare SKILL.md frontmatter field by field
+ *
+ * @param before - Frontmatter of the installed version
+ * @param after - Frontmatter of the new version
+ * @returns Changed fields in alphabetical order
+ */
+export function diffFrontmatter(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>
+): FrontmatterChange[] {
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])].sort();
+  const changes: FrontmatterChange[] = [];
+
+  for (const field of fields) {
+    if (JSON.stringify(before[field]) === JSON.stringify(after[field])) {
+      continue;
+    }
+
+    changes.push({
+      field,
+      ...(field in before ? { before: before[field] } : {}),
+      ...(field in after ? { after: after[field] } : {}),
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Compare an installed skill with a new version of it
+ * Source tracking files are ignored, so only skill content is compared.
+ *
+ * @param currentDir - Installed skill directory
+ * @param newDir - Directory holding the new version
+ * @returns Added, modified and removed files plus frontmatter changes
+ */
+export async function diffSkillDirectories(currentDir: string, newDir: string): Promise<SkillFileDiff> {
+  const [current, next] = await Promise.all([
+    hashFiles(currentDir, IGNORED_ENTRIES),
+    hashFiles(newDir, IGNORED_ENTRIES),
+  ]);
+
+  const diff: SkillFileDiff = { added: [], modified: [], removed: [], frontmatter: [] };
+
+  for (const [file, hash] of next) {
+    const currentHash = current.get(file);
+    if (currentHash === undefined) {
+      diff.added.push(file);
+    } else if (currentHash !== hash) {
+      diff.modified.push(file);
+    }
+  }
+
+  for (const file of current.keys()) {
+    if (!next.has(file)) {
+      diff.removed.push(file);
+    }
+  }
+
+  if (diff.modified.includes('SKILL.md')) {
+    diff.frontmatter = diffFrontmatter(await readFrontmatter(currentDir), await readFrontmatter(newDir));
+  }
+
+  return diff;
+}
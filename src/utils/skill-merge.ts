@@ -0,0 +1,103 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { LocalChangeResolution, LocalChanges } from '../types/index.js';
+import { hashFiles } from './hash.js';
+import { runGit } from './git.js';
+
+/**
+ * Carries local edits of an installed skill over to a new version of it
+ */
+
+/**
+ * Copy a file or symlink from the installed skill into the new version
+ */
+async function copyLocalFile(localDir: string, newDir: string, file: string): Promise<void> {
+  const target = path.join(newDir, file);
+  await fs.mkdir(path.dirname(target), { recursive: true });
+  await fs.rm(target, { force: true });
+  await fs.cp(path.join(localDir, file), target, { verbatimSymlinks: true });
+}
+
+/**
+ * Three-way merge one file with git merge-file
+ * The merged content replaces the file in newDir only if there are no conflicts.
+ *
+ * @returns False if the edits conflict or the file can't be merged (e.g. binary)
+ */
+async function mergeFile(localDir: string, newDir: string, baseDir: string, file: string): Promise<boolean> {
+  const basePath = path.join(baseDir, file);
+  const upstreamPath = path.join(newDir, file);
+  const mergedPath = `${upstreamPath}.merge-${process.pid}`;
+
+  try {
+    await fs.access(basePath);
+    await fs.copyFile(path.join(localDir, file), mergedPath);
+    // Exits non-zero on conflicts
+    await runGit(['merge-file', '-q', mergedPath, basePath, upstreamPath]);
+    await fs.rename(mergedPath, upstreamPath);
+    return true;
+  } catch {
+    return false;
+  } finally {
+    await fs.rm(mergedPath, { force: true });
+  }
+}
+
+/**
+ * Apply local changes to a freshly downloaded version of a skill
+ *
+ * Files changed only locally are carried over as they are. Files changed on
+ * both sides are kept local with keep_local, or three-way merged with merge
+ * (using baseDir, the version originally installed). Whatever can't be merged
+ * is reported as a conflict; the caller decides whether to apply the result.
+ *
+ * @param localDir - Installed skill directory (read only)
+ * @param newDir - New version, modified in place
+ * @param changes - Local changes found against the install manifest
+ * @param manifest - Install manifest (relative path to SHA-256)
+ * @param strategy - keep_local or merge
+ * @param baseDir - Originally installed version, or null if unavailable
+ */
+export async function applyLocalChanges(
+  localDir: string,
+  newDir: string,
+  changes: LocalChanges,
+  manifest: Record<string, string>,
+  strategy: 'keep_local' | 'merge',
+  baseDir: string | null
+): Promise<LocalChangeResolution> {
+  const upstream = await hashFiles(newDir, ['.git']);
+  const local = await hashFiles(localDir, ['.git']);
+  const resolution: LocalChangeResolution = { kept: [], merged: [], conflicts: [] };
+
+  for (const file of [...changes.modified, ...changes.added, ...changes.removed].sort()) {
+    const upstreamHash = upstream.get(file);
+    const localHash = local.get(file);
+
+    // Both sides ended up the same
+    if (upstreamHash === localHash) {
+      continue;
+    }
+
+    // Upstream left the file as installed, so the local change simply wins
+    const upstreamUnchanged = upstreamHash === manifest[file];
+    if (!upstreamUnchanged && strategy === 'merge') {
+      if (localHash !== undefined && upstreamHash !== undefined && baseDir
+        && await mergeFile(localDir, newDir, baseDir, file)) {
+        resolution.merged.push(file);
+      } else {
+        resolution.conflicts.push(file);
+      }
+      continue;
+    }
+
+    if (localHash === undefined) {
+      await fs.rm(path.join(newDir, file), { force: true });
+    } else {
+      await copyLocalFile(localDir, newDir, file);
+    }
+    resolution.kept.push(file);
+  }
+
+  return resolution;
+}
@@ -1,5 +1,7 @@
 import YAML from 'yaml';
-import { SkillMetadata, ParseResult } from '../types/index.js';
+import { SkillMetadata, SkillDependency, ParseResult } from '../types/index.js';
+import { formatSemver, parseSemver } from './semver.js';
+import logger from './logger.js';
 
 /**
  * Alias for SkillMetadata for backward compatibility
@@ -7,7 +9,7 @@ import { SkillMetadata, ParseResult } from '../types/index.js';
 export type SkillFrontmatter = SkillMetadata;
 
 /** Regex pattern for valid skill names */
-const NAME_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
+export const SKILL_NAME_PATTERN = /^[a-z0-9]+(-[a-z0-9]+)*$/;
 
 /** Maximum lengths per spec */
 const MAX_NAME_LENGTH = 64;
@@ -16,8 +18,10 @@ const MAX_COMPATIBILITY_LENGTH = 500;
 
 /**
  * Validates skill name according to agentskills.io specification
+ *
+ * @returns Error message, or null if the name is valid
  */
-function validateName(name: unknown): string | null {
+export function validateSkillName(name: unknown): string | null {
   if (typeof name !== 'string' || name.length === 0) {
     return 'name is required and must be a non-empty string';
   }
@@ -38,7 +42,7 @@ function validateName(name: unknown): string | null {
     return 'name must not contain consecutive hyphens';
   }
 
-  if (!NAME_PATTERN.test(name)) {
+  if (!SKILL_NAME_PATTERN.test(name)) {
     return 'name must contain only lowercase letters, numbers, and hyphens';
   }
 
@@ -79,6 +83,90 @@ function validateCompatibility(compatibility: unknown): string | null {
   return null;
 }
 
+/**
+ * Get the semantic version from version, or from metadata.version if that is one
+ * Versions that don't parse are ignored rather than invalidating the skill, since
+ * many skills carry free-form versions such as 1.0 that predate semver support.
+ */
+function getVersion(data: Record<string, unknown>): string | undefined {
+  const metadata = data.metadata as Record<string, unknown> | undefined;
+
+  for (const candidate of [data.version, metadata?.version]) {
+    const parsed = typeof candidate === 'string' ? parseSemver(candidate) : null;
+    if (parsed) {
+      return formatSemver(parsed);
+    }
+  }
+
+  if (data.version !== undefined) {
+    logger.debug('Ignoring version that is not a semantic version', { name: data.name, version: data.version });
+  }
+  return undefined;
+}
+
+/**
+ * Validates dependencies field if present
+ * Each entry is a skill name, or an object with name and optional version and marketplace.
+ */
+function validateDependencies(dependencies: unknown, skillName: string): string | null {
+  if (dependencies === undefined) {
+    return null;
+  }
+
+  if (!Array.isArray(dependencies)) {
+    return 'dependencies must be a list';
+  }
+
+  const seen = new Set<string>();
+  for (const [i, entry] of dependencies.entries()) {
+    const isObject = typeof entry === 'object' && entry !== null && !Array.isArray(entry);
+    if (typeof entry !== 'string' && !isObject) {
+      return `dependencies[${i}] must be a skill name or an object with a name`;
+    }
+
+    const fields: Record<string, unknown> = isObject ? entry : { name: entry };
+    const nameError = validateSkillName(fields.name);
+    if (nameError) {
+      return `dependencies[${i}]: ${nameError}`;
+    }
+
+    for (const field of ['version', 'marketplace']) {
+      if (fields[field] !== undefined && (typeof fields[field] !== 'string' || fields[field] === '')) {
+        return `dependencies[${i}].${field} must be a non-empty string`;
+      }
+    }
+
+    const name = fields.name as string;
+    if (name === skillName) {
+      return 'a skill cannot depend on itself';
+    }
+    if (seen.has(name)) {
+      return `dependencies lists "${name}" more than once`;
+    }
+    seen.add(name);
+  }
+
+  return null;
+}
+
+/**
+ * Convert validated dependencies to SkillDependency objects
+ */
+function normalizeDependencies(dependencies: unknown[]): SkillDependency[] {
+  return dependencies.map((entry) => {
+    if (typeof entry === 'string') {
+      return { name: entry };
+    }
+
+    const fields = entry as Record<string, string>;
+    return {
+      name: fields.name,
+      ...(fields.version ? { version: fields.version } : {}),
+      ...(fields.marketplace ? { marketplace: fields.marketplace } : {}),
+    };
+  });
+}
+
 /**
  * Extract frontmatter section from content
  * Returns [yamlContent, bodyContent] or null if no frontmatter found
@@ -151,7 +239,7 @@ export function parseSkillFrontmatter(content: string): ParseResult<SkillFrontma
   const data = parsed as Record<string, unknown>;
 
   // Validate required fields
-  const nameError = validateName(data.name);
+  const nameError = validateSkillName(data.name);
   if (nameError) {
     return { success: false, error: nameError };
   }
@@ -167,6 +255,11 @@ export function parseSkillFrontmatter(content: string): ParseResult<SkillFrontma
     return { success: false, error: compatError };
   }
 
+  const depsError = validateDependencies(data.dependencies, data.name as string);
+  if (depsError) {
+    return { success: false, error: depsError };
+  }
+
   // Build result
   const result: SkillFrontmatter = {
     name: data.name as string,
@@ -190,6 +283,15 @@ export function parseSkillFrontmatter(content: string): ParseResult<SkillFrontma
     result.allowedTools = data['allowed-tools'];
   }
 
+  if (Array.isArray(data.dependencies) && data.dependencies.length > 0) {
+    result.dependencies = normalizeDependencies(data.dependencies);
+  }
+
+  const version = getVersion(data);
+  if (version) {
+    result.version = version;
+  }
+
   return {
     success: true,
     data: result,
@@ -0,0 +1,323 @@
+/**
+ * Tests for packed skill bundles and install-from-archive
+ */
+
+import fs from 'fs/promises';
+import http from 'http';
+import { AddressInfo } from 'net';
+import path from 'path';
+import os from 'os';
+import { gzipSync } from 'zlib';
+import {
+  BUNDLE_MANIFEST_FILENAME,
+  detectBundleFormat,
+  downloadBundle,
+  extractSkillBundle,
+  installSkillBundle,
+  packSkill,
+} from '../../src/utils/bundle.js';
+import { SkillDiscoveryManager } from '../../src/managers/skill-discovery.js';
+import { handlePack } from '../../src/tools/pack.js';
+import { installFromArchive } from '../../src/tools/install.js';
+import { runCli } from '../../src/cli.js';
+
+const SKILL_MD = `---
+name: bundled-skill
+description: A skill distributed as a file
+---
+
+# Bundled Skill
+`;
+
+/**
+ * Build a gzipped tar archive in memory
+ * Lets tests create entries that the tar CLI would refuse to write.
+ */
+function makeTarGz(entries: Array<{ name: string; content?: string; type?: '0' | '2'; linkname?: string }>): Buffer {
+  const blocks: Buffer[] = [];
+
+  for (const entry of entries) {
+    const content = Buffer.from(entry.content ?? '');
+    const header = Buffer.alloc(512);
+    header.write(entry.name, 0, 100);
+    header.write('0000644\0', 100);
+    header.write('0000000\0', 108);
+    header.write('0000000\0', 116);
+    header.write(content.length.toString(8).padStart(11, '0') + '\0', 124);
+    header.write('00000000000\0', 136);
+    header.write('        ', 148);
+    header.write(entry.type ?? '0', 156);
+    header.write(entry.linkname ?? '', 157, 100);
+    header.write('ustar\0', 257);
+    header.write('00', 263);
+
+    const checksum = header.reduce((sum, byte) => sum + byte, 0);
+    header.write(checksum.toString(8).padStart(6, '0') + '\0 ', 148);
+
+    blocks.push(header, content, Buffer.alloc((512 - (content.length % 512)) % 512));
+  }
+
+  blocks.push(Buffer.alloc(1024));
+  return gzipSync(Buffer.concat(blocks));
+}
+
+describe('skill bundles', () => {
+  const TEST_ROOT = path.join(os.tmpdir(), 'skills-mcp-bundle-' + Date.now());
+  const SKILL_DIR = path.join(TEST_ROOT, 'source', 'bundled-skill');
+  const INSTALL_DIR = path.join(TEST_ROOT, 'installed');
+  const WORK_DIR = path.join(TEST_ROOT, 'work');
+
+  beforeEach(async () => {
+    await fs.mkdir(path.join(SKILL_DIR, 'scripts'), { recursive: true });
+    await fs.mkdir(path.join(SKILL_DIR, 'node_modules', 'dep'), { recursive: true });
+    await fs.mkdir(WORK_DIR, { recursive: true });
+    await fs.writeFile(path.join(SKILL_DIR, 'SKILL.md'), SKILL_MD);
+    await fs.writeFile(path.join(SKILL_DIR, 'scripts', 'run.py'), 'print("hello")\n');
+    await fs.writeFile(path.join(SKILL_DIR, 'node_modules', 'dep', 'index.js'), '');
+    await fs.writeFile(path.join(SKILL_DIR, '.skill-source.json'), '{}');
+  });
+
+  afterEach(async () => {
+    await fs.rm(TEST_ROOT, { recursive: true, force: true });
+  });
+
+  describe('detectBundleFormat', () => {
+    it('should detect formats from paths and URLs', () => {
+      expect(detectBundleFormat('/tmp/pdf.skill.tgz')).toBe('tgz');
+      expect(detectBundleFormat('/tmp/pdf.tar.gz')).toBe('tgz');
+      expect(detectBundleFormat('https://example.com/pdf.zip?token=1')).toBe('zip');
+      expect(detectBundleFormat('/tmp/pdf.rar')).toBeNull();
+    });
+  });
+
+  describe.each(['tgz', 'zip'] as const)('%s round trip', (format) => {
+    const archiveName = format === 'zip' ? 'bundled-skill.zip' : 'bundled-skill.skill.tgz';
+
+    it('should pack skill files with a manifest', async () => {
+      const manifest = await packSkill(SKILL_DIR, path.join(TEST_ROOT, archiveName), format);
+
+      expect(manifest.name).toBe('bundled-skill');
+      expect(manifest.files.map(f => f.path)).toEqual(['SKILL.md', 'scripts/run.py']);
+      expect(manifest.files[0].sha256).toMatch(/^[0-9a-f]{64}$/);
+    });
+
+    it('should extract and validate the bundle', async () => {
+      const archivePath = path.join(TEST_ROOT, archiveName);
+      await packSkill(SKILL_DIR, archivePath, format);
+
+      const bundle = await extractSkillBundle(archivePath, WORK_DIR);
+
+      expect(bundle.metadata.name).toBe('bundled-skill');
+      expect(bundle.manifest?.files).toHaveLength(2);
+      await expect(fs.access(path.join(bundle.skillDir, 'scripts', 'run.py'))).resolves.toBeUndefined();
+      await expect(fs.access(path.join(bundle.skillDir, BUNDLE_MANIFEST_FILENAME))).resolves.toBeUndefined();
+      await expect(fs.access(path.join(bundle.skillDir, '.skill-source.json'))).rejects.toThrow();
+    });
+  });
+
+  describe('extractSkillBundle', () => {
+    it('should reject entries that escape the extraction directory', async () => {
+      const archivePath = path.join(TEST_ROOT, 'evil.tgz');
+      await fs.writeFile(archivePath, makeTarGz([
+        { name: 'bundled-skill/SKILL.md', content: SKILL_MD },
+        { name: '../escaped.txt', content: 'pwned' },
+      ]));
+
+      await expect(extractSkillBundle(archivePath, WORK_DIR)).rejects.toThrow('Unsafe path');
+      await expect(fs.access(path.join(TEST_ROOT, 'escaped.txt'))).rejects.toThrow();
+    });
+
+    it('should reject symbolic links', async () => {
+      const archivePath = path.join(TEST_ROOT, 'link.tgz');
+      await fs.writeFile(archivePath, makeTarGz([
+        { name: 'bundled-skill/SKILL.md', content: SKILL_MD },
+        { name: 'bundled-skill/secrets', type: '2', linkname: '/etc' },
+      ]));
+
+      await expect(extractSkillBundle(archivePath, WORK_DIR)).rejects.toThrow('links');
+    });
+
+    it('should reject bundles without a valid SKILL.md', async () => {
+      const archivePath = path.join(TEST_ROOT, 'invalid.tgz');
+      await fs.writeFile(archivePath, makeTarGz([
+        { name: 'bundled-skill/SKILL.md', content: '# No frontmatter' },
+      ]));
+
+      await expect(extractSkillBundle(archivePath, WORK_DIR)).rejects.toThrow('Invalid SKILL.md');
+    });
+
+    it('should accept bundles without a manifest', async () => {
+      const archivePath = path.join(TEST_ROOT, 'plain.tgz');
+      await fs.writeFile(archivePath, makeTarGz([{ name: 'SKILL.md', content: SKILL_MD }]));
+
+      const bundle = await extractSkillBundle(archivePath, WORK_DIR);
+
+      expect(bundle.skillDir).toBe(WORK_DIR);
+      expect(bundle.manifest).toBeNull();
+    });
+
+    it('should reject files that do not match the manifest', async () => {
+      const manifest = {
+        formatVersion: 1,
+        name: 'bundled-skill',
+        description: 'A skill distributed as a file',
+        createdAt: new Date().toISOString(),
+        files: [{ path: 'SKILL.md', size: 1, sha256: '0'.repeat(64) }],
+      };
+      const archivePath = path.join(TEST_ROOT, 'tampered.tgz');
+      await fs.writeFile(archivePath, makeTarGz([
+        { name: 'bundled-skill/SKILL.md', content: SKILL_MD },
+        { name: `bundled-skill/${BUNDLE_MANIFEST_FILENAME}`, content: JSON.stringify(manifest) },
+      ]));
+
+      await expect(extractSkillBundle(archivePath, WORK_DIR)).rejects.toThrow('Checksum mismatch');
+    });
+
+    it('should reject manifest paths outside the skill directory', async () => {
+      const manifest = {
+        formatVersion: 1,
+        name: 'bundled-skill',
+        description: 'A skill distributed as a file',
+        createdAt: new Date().toISOString(),
+        files: [{ path: '../outside.txt', size: 0, sha256: '0'.repeat(64) }],
+      };
+      const archivePath = path.join(TEST_ROOT, 'escaping-manifest.tgz');
+      await fs.writeFile(archivePath, makeTarGz([
+        { name: 'bundled-skill/SKILL.md', content: SKILL_MD },
+        { name: `bundled-skill/${BUNDLE_MANIFEST_FILENAME}`, content: JSON.stringify(manifest) },
+      ]));
+
+      await expect(extractSkillBundle(archivePath, WORK_DIR)).rejects.toThrow('Unsafe path in manifest');
+    });
+  });
+
+  describe('installSkillBundle', () => {
+    it('should install into the install directory under the skill name', async () => {
+      const archivePath = path.join(TEST_ROOT, 'bundled-skill.skill.tgz');
+      await packSkill(SKILL_DIR, archivePath);
+
+      const result = await installSkillBundle(archivePath, INSTALL_DIR);
+
+      expect(result.location).toBe(path.join(INSTALL_DIR, 'bundled-skill'));
+      await expect(fs.access(path.join(result.location, 'SKILL.md'))).resolves.toBeUndefined();
+      expect(await fs.readdir(INSTALL_DIR)).toEqual(['bundled-skill']);
+    });
+
+    it('should refuse to overwrite an installed skill', async () => {
+      const archivePath = path.join(TEST_ROOT, 'bundled-skill.skill.tgz');
+      await packSkill(SKILL_DIR, archivePath);
+      await installSkillBundle(archivePath, INSTALL_DIR);
+
+      await expect(installSkillBundle(archivePath, INSTALL_DIR)).rejects.toThrow('already exists');
+      expect(await fs.readdir(INSTALL_DIR)).toEqual(['bundled-skill']);
+    });
+
+    it('should review the bundle before moving it into the install directory', async () => {
+      const archivePath = path.join(TEST_ROOT, 'bundled-skill.skill.tgz');
+      await packSkill(SKILL_DIR, archivePath);
+      let reviewed: string[] = [];
+
+      await expect(installSkillBundle(archivePath, INSTALL_DIR, async ({ metadata }) => {
+        reviewed = (await fs.readdir(INSTALL_DIR)).filter(entry => !entry.startsWith('.'));
+        throw new Error(`Refusing ${metadata.name}`);
+      })).rejects.toThrow('Refusing bundled-skill');
+
+      expect(reviewed).toEqual([]);
+      expect(await fs.readdir(INSTALL_DIR)).toEqual([]);
+    });
+  });
+
+  describe('installFromArchive', () => {
+    it('should reject a bundle containing a different skill', async () => {
+      const archivePath = path.join(TEST_ROOT, 'bundled-skill.skill.tgz');
+      await packSkill(SKILL_DIR, archivePath);
+
+      const result = await installFromArchive(archivePath, INSTALL_DIR, 'other-skill');
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('not "other-skill"');
+      expect(await fs.readdir(INSTALL_DIR)).toEqual([]);
+    });
+  });
+
+  describe('downloadBundle', () => {
+    let server: http.Server;
+    let baseUrl: string;
+
+    beforeAll(async () => {
+      // Chunked responses carry no content-length
+      server = http.createServer((req, res) => {
+        res.writeHead(200, { 'Content-Type': 'application/gzip' });
+        for (let i = 0; i < 4; i++) {
+          res.write(Buffer.alloc(1024, i));
+        }
+        res.end();
+      });
+      await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+      baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    });
+
+    afterAll(async () => {
+      await new Promise(resolve => server.close(resolve));
+    });
+
+    it('should enforce the size limit without a content-length', async () => {
+      const destPath = path.join(WORK_DIR, 'bundle.tgz');
+
+      await expect(downloadBundle(`${baseUrl}/bundle.tgz`, destPath, 2048)).rejects.toThrow('larger than 2048 bytes');
+      expect(await fs.access(destPath).then(() => true, () => false)).toBe(false);
+    });
+
+    it('should write bundles within the limit', async () => {
+      const destPath = path.join(WORK_DIR, 'bundle.tgz');
+
+      await downloadBundle(`${baseUrl}/bundle.tgz`, destPath, 4096);
+
+      expect((await fs.stat(destPath)).size).toBe(4096);
+    });
+  });
+
+  describe('handlePack', () => {
+    it('should pack an installed skill by name', async () => {
+      const manager = new SkillDiscoveryManager();
+      manager.getSearchPaths = async () => [path.dirname(SKILL_DIR)];
+      const outputPath = path.join(TEST_ROOT, 'out', 'bundled-skill.zip');
+
+      const result = await handlePack(manager, { skill_name: 'bundled-skill', output_path: outputPath, format: 'zip' });
+
+      expect(result.isError).toBeUndefined();
+      expect(result.structuredContent!.outputPath).toBe(outputPath);
+      await expect(fs.access(outputPath)).resolves.toBeUndefined();
+    });
+
+    it('should return an error for an unknown skill', async () => {
+      const manager = new SkillDiscoveryManager();
+      manager.getSearchPaths = async () => [path.dirname(SKILL_DIR)];
+
+      const result = await handlePack(manager, { skill_name: 'missing-skill', format: 'tgz' });
+
+      expect(result.isError).toBe(true);
+    });
+  });
+
+  describe('runCli', () => {
+    it('should not handle server invocations', async () => {
+      expect(await runCli([])).toBeNull();
+      expect(await runCli(['--transport', 'http'])).toBeNull();
+    });
+
+    it('should pack a skill directory', async () => {
+      const outputPath = path.join(TEST_ROOT, 'cli.skill.tgz');
+      const originalWrite = process.stdout.write;
+      process.stdout.write = (() => true) as typeof process.stdout.write;
+
+      try {
+        expect(await runCli(['pack', SKILL_DIR, '--output', outputPath])).toBe(0);
+      } finally {
+        process.stdout.write = originalWrite;
+      }
+
+      await expect(fs.access(outputPath)).resolves.toBeUndefined();
+    });
+  });
+});
@@ -95,6 +95,146 @@ describe('ConfigManager', () => {
     });
   });
 
+  describe('marketplace providers', () => {
+    it('should return undefined when no provider is configured', async () => {
+      await manager.addMarketplace('https://git.example.com/team/skills.git');
+
+      expect(await manager.getMarketplaceProvider('https://git.example.com/team/skills.git')).toBeUndefined();
+    });
+
+    it('should store an explicit provider with the marketplace', async () => {
+      await manager.addMarketplace('https://git.example.com/team/skills', 'git');
+
+      expect(await manager.getMarketplaceProvider('https://git.example.com/team/skills')).toBe('git');
+    });
+
+    it('should update the provider of an existing marketplace', async () => {
+      await manager.addMarketplace('https://git.example.com/team/skills');
+      await manager.addMarketplace('https://git.example.com/team/skills', 'git');
+
+      const marketplaces = await manager.getMarketplaces();
+      expect(marketplaces.filter(m => m === 'https://git.example.com/team/skills')).toHaveLength(1);
+      expect(await manager.getMarketplaceProvider('https://git.example.com/team/skills')).toBe('git');
+    });
+
+    it('should drop the provider when the marketplace is removed', async () => {
+      await manager.addMarketplace('https://git.example.com/team/skills', 'git');
+      await manager.removeMarketplace('https://git.example.com/team/skills');
+
+      expect(await manager.getMarketplaceProvider('https://git.example.com/team/skills')).toBeUndefined();
+    });
+  });
+
+  describe('marketplace signers', () => {
+    const url = 'https://github.com/team/skills';
+
+    it('should expand the allowed signers path of a marketplace', async () => {
+      await fs.writeFile(TEST_CONFIG_PATH, JSON.stringify({
+        version: '1.0',
+        marketplaces: [url],
+        signers: { [url]: '~/.config/skills-mcp/allowed_signers' },
+      }));
+
+      expect(await manager.getAllowedSigners(url))
+        .toBe(path.join(os.homedir(), '.config', 'skills-mcp', 'allowed_signers'));
+      expect(await manager.getAllowedSigners('https://github.com/other/skills')).toBeUndefined();
+    });
+
+    it('should drop the signers when the marketplace is removed', async () => {
+      await fs.writeFile(TEST_CONFIG_PATH, JSON.stringify({
+        version: '1.0',
+        marketplaces: [DEFAULT_MARKETPLACE, url],
+        signers: { [url]: '/etc/skills/allowed_signers' },
+      }));
+      await manager.removeMarketplace(url);
+
+      expect(await manager.getAllowedSigners(url)).toBeUndefined();
+    });
+  });
+
+  describe('getMaxInstallRisk', () => {
+    it('should not block anything by default', async () => {
+      expect(await manager.getMaxInstallRisk()).toBe('high');
+    });
+
+    it('should ignore unknown risk levels', async () => {
+      await fs.writeFile(TEST_CONFIG_PATH, JSON.stringify({ version: '1.0', marketplaces: [], maxInstallRisk: 'severe' }));
+
+      expect(await manager.getMaxInstallRisk()).toBe('high');
+    });
+
+    it('should return the configured risk level', async () => {
+      await fs.writeFile(TEST_CONFIG_PATH, JSON.stringify({ version: '1.0', marketplaces: [], maxInstallRisk: 'low' }));
+
+      expect(await manager.getMaxInstallRisk()).toBe('low');
+    });
+  });
+
+  describe('getScriptEnvAllowlist', () => {
+    it('should add configured variables to the defaults', async () => {
+      await fs.writeFile(TEST_CONFIG_PATH, JSON.stringify({ version: '1.0', marketplaces: [], scriptEnv: ['OPENAI_API_KEY', 'PATH', 42] }));
+
+      const allowlist = await manager.getScriptEnvAllowlist();
+
+      expect(allowlist).toEqual(expect.arrayContaining(['PATH', 'HOME', 'OPENAI_API_KEY']));
+      expect(allowlist.filter(name => name === 'PATH')).toHaveLength(1);
+    });
+  });
+
+  describe('search paths', () => {
+    const homeDir = os.homedir();
+
+    it('should default to the built-in search paths and ~/skills', async () => {
+      const searchPaths = await manager.getSearchPaths();
+
+      expect(searchPaths[0]).toEqual({ path: path.join(homeDir, 'skills'), readOnly: false });
+      expect(searchPaths[searchPaths.length - 1]).toEqual({ path: '/usr/local/share/skills', readOnly: true });
+      expect(await manager.getInstallPath()).toBe(path.join(homeDir, 'skills'));
+    });
+
+    it('should add, reorder and remove search paths', async () => {
+      await manager.addSearchPath('/opt/team-skills', { readOnly: true });
+      await manager.moveSearchPath('/opt/team-skills', 0);
+      await manager.removeSearchPath('~/Documents/skills');
+
+      const searchPaths = await manager.getSearchPaths();
+      expect(searchPaths[0]).toEqual({ path: '/opt/team-skills', readOnly: true });
+      expect(searchPaths.map(p => p.path)).not.toContain(path.join(homeDir, 'Documents', 'skills'));
+
+      const config = JSON.parse(await fs.readFile(TEST_CONFIG_PATH, 'utf-8'));
+      expect(config.searchPaths[0]).toEqual({ path: '/opt/team-skills', readOnly: true });
+    });
+
+    it('should add the install path to the search paths', async () => {
+      await manager.setInstallPath('/opt/my-skills');
+
+      expect(await manager.getInstallPath()).toBe('/opt/my-skills');
+      expect((await manager.getSearchPaths())[0]).toEqual({ path: '/opt/my-skills', readOnly: false });
+    });
+
+    it('should keep the install path writable and searched', async () => {
+      await expect(manager.removeSearchPath('~/skills')).rejects.toThrow('install path');
+      await expect(manager.addSearchPath('~/skills', { readOnly: true })).rejects.toThrow('install path');
+      await expect(manager.setInstallPath('/usr/local/share/skills')).rejects.toThrow('read-only');
+    });
+
+    it('should ignore invalid entries and reset to defaults', async () => {
+      await fs.writeFile(TEST_CONFIG_PATH, JSON.stringify({
+        version: '1.0',
+        marketplaces: [],
+        searchPaths: [{ path: '/a' }, 'oops', { path: '/a', readOnly: true }, { path: '/usr/local/share/skills' }],
+      }));
+
+      expect(await manager.getSearchPaths()).toEqual([
+        { path: '/a', readOnly: false },
+        { path: '/usr/local/share/skills', readOnly: true },
+      ]);
+
+      await manager.resetSearchPaths();
+      expect((await manager.getSearchPaths())[0].path).toBe(path.join(homeDir, 'skills'));
+    });
+  });
+
   describe('resetMarketplaces', () => {
     it('should reset to only the default marketplace', async () => {
       await manager.addMarketplace('https://extra1.com/skills');
@@ -0,0 +1,131 @@
+/**
+ * Tests for resolving skill dependencies
+ */
+
+import { DependencyResolver } from '../../src/managers/dependency-resolver.js';
+import { MarketplaceManager } from '../../src/managers/marketplace.js';
+import type { InstalledSkill, MarketplaceSkill, SkillDependency } from '../../src/types/index.js';
+
+const MARKETPLACE = 'https://github.com/test/skills';
+
+/** Build a marketplace skill with the given dependencies */
+function marketplaceSkill(
+  name: string,
+  dependencies: SkillDependency[] = [],
+  options: { version?: string; marketplaceUrl?: string } = {}
+): MarketplaceSkill {
+  return {
+    metadata: {
+      name,
+      description: `${name} skill`,
+      ...(options.version ? { version: options.version } : {}),
+      ...(dependencies.length ? { dependencies } : {}),
+    },
+    marketplaceUrl: options.marketplaceUrl ?? MARKETPLACE,
+    installCommand: `skills_install ${name}`,
+  };
+}
+
+/** Build an installed skill */
+function installedSkill(name: string, version?: string): InstalledSkill {
+  return {
+    metadata: { name, description: `${name} skill`, ...(version ? { version } : {}) },
+    location: `/home/user/skills/${name}`,
+    hasScripts: false,
+    hasReferences: false,
+    hasAssets: false,
+    isValid: true,
+  };
+}
+
+describe('DependencyResolver', () => {
+  let marketplaceManager: MarketplaceManager;
+  let resolver: DependencyResolver;
+
+  beforeEach(() => {
+    marketplaceManager = new MarketplaceManager();
+    marketplaceManager.fetchMarketplace = async () => ({ skills: [] });
+    resolver = new DependencyResolver(marketplaceManager);
+  });
+
+  it('should order dependencies before the skills that need them', async () => {
+    const root = marketplaceSkill('report', [{ name: 'charts' }, { name: 'pdf-helper' }]);
+    const available = [
+      root,
+      marketplaceSkill('charts', [{ name: 'pdf-helper' }]),
+      marketplaceSkill('pdf-helper'),
+    ];
+
+    const plan = await resolver.resolve(root, available, []);
+
+    expect(plan.issues).toEqual([]);
+    expect(plan.install.map(s => s.metadata.name)).toEqual(['pdf-helper', 'charts']);
+  });
+
+  it('should skip dependencies that are already installed', async () => {
+    const root = marketplaceSkill('report', [{ name: 'pdf-helper', version: '1.0.0' }]);
+
+    const plan = await resolver.resolve(root, [root, marketplaceSkill('pdf-helper')], [installedSkill('pdf-helper', '1.0.0')]);
+
+    expect(plan.install).toEqual([]);
+    expect(plan.satisfied).toEqual(['pdf-helper']);
+  });
+
+  it('should detect cycles', async () => {
+    const root = marketplaceSkill('report', [{ name: 'charts' }]);
+    const available = [root, marketplaceSkill('charts', [{ name: 'report' }])];
+
+    const plan = await resolver.resolve(root, available, []);
+
+    expect(plan.issues).toEqual([{ type: 'cycle', skill: 'report', message: 'Dependency cycle: report → charts → report' }]);
+  });
+
+  it('should report conflicting version requirements', async () => {
+    const root = marketplaceSkill('report', [{ name: 'charts' }, { name: 'pdf-helper', version: '1.0.0' }]);
+    const available = [
+      root,
+      marketplaceSkill('charts', [{ name: 'pdf-helper', version: '2.0.0' }]),
+      marketplaceSkill('pdf-helper', [], { version: '2.0.0' }),
+    ];
+
+    const plan = await resolver.resolve(root, available, []);
+
+    expect(plan.issues.map(i => i.type)).toEqual(['conflict']);
+    expect(plan.issues[0].message).toBe('charts needs pdf-helper@2.0.0 but report needs pdf-helper@1.0.0');
+  });
+
+  it('should report conflicts with installed versions', async () => {
+    const root = marketplaceSkill('report', [{ name: 'pdf-helper', version: '2.0.0' }]);
+
+    const plan = await resolver.resolve(root, [root], [installedSkill('pdf-helper', '1.0.0')]);
+
+    expect(plan.issues).toEqual([{
+      type: 'conflict',
+      skill: 'pdf-helper',
+      message: 'report needs pdf-helper@2.0.0 but version 1.0.0 is installed',
+    }]);
+  });
+
+  it('should report missing dependencies', async () => {
+    const root = marketplaceSkill('report', [{ name: 'pdf-helper' }]);
+
+    const plan = await resolver.resolve(root, [root], []);
+
+    expect(plan.issues.map(i => i.type)).toEqual(['missing']);
+  });
+
+  it('should look up dependencies in their declared marketplace', async () => {
+    const other = 'https://github.com/other/skills';
+    const root = marketplaceSkill('report', [{ name: 'pdf-helper', marketplace: other }]);
+    const fetched: string[] = [];
+    marketplaceManager.fetchMarketplace = async (url: string) => {
+      fetched.push(url);
+      return { skills: [marketplaceSkill('pdf-helper', [], { marketplaceUrl: other })] };
+    };
+
+    const plan = await resolver.resolve(root, [root, marketplaceSkill('pdf-helper')], []);
+
+    expect(fetched).toEqual([other]);
+    expect(plan.install.map(s => s.marketplaceUrl)).toEqual([other]);
+  });
+});
@@ -0,0 +1,237 @@
+/**
+ * Tests for the generic git marketplace provider
+ * Uses a local repository over file:// so no network is needed
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { GitRemoteProvider, parseGitRemoteUrl } from '../../src/providers/git-remote.js';
+import { runGit } from '../../src/utils/git.js';
+import { MarketplaceManager } from '../../src/managers/marketplace.js';
+import { MarketplaceCache } from '../../src/managers/marketplace-cache.js';
+import { ConfigManager } from '../../src/managers/config.js';
+
+const GIT_IDENTITY = ['-c', 'user.name=Test', '-c', 'user.email=test@example.com'];
+
+/** Create a skill directory with a SKILL.md inside a repository */
+async function writeSkill(repoDir: string, name: string, body = ''): Promise<void> {
+  const dir = path.join(repoDir, 'skills', name);
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(
+    path.join(dir, 'SKILL.md'),
+    `---\nname: ${name}\ndescription: The ${name} skill\n---\n\n# ${name}\n${body}`
+  );
+}
+
+/** Commit all changes and return the new commit hash */
+async function commitAll(repoDir: string, message: string): Promise<string> {
+  await runGit(['add', '-A'], { cwd: repoDir });
+  await runGit([...GIT_IDENTITY, 'commit', '-q', '-m', message], { cwd: repoDir });
+  return runGit(['rev-parse', 'HEAD'], { cwd: repoDir });
+}
+
+describe('parseGitRemoteUrl', () => {
+  it('should parse clone URLs with ref and path fragment', () => {
+    expect(parseGitRemoteUrl('https://git.example.com/team/skills.git#main:skills')).toEqual({
+      repoUrl: 'https://git.example.com/team/skills.git',
+      ref: 'main',
+      path: 'skills',
+    });
+  });
+
+  it('should parse clone URLs without fragment', () => {
+    expect(parseGitRemoteUrl('https://git.example.com/team/skills.git')).toEqual({
+      repoUrl: 'https://git.example.com/team/skills.git',
+      path: '',
+    });
+  });
+
+  it('should strip the git+ prefix', () => {
+    const parts = parseGitRemoteUrl('git+ssh://git@git.example.com/team/skills#v1.0:path/to/skills');
+
+    expect(parts).toEqual({
+      repoUrl: 'ssh://git@git.example.com/team/skills',
+      ref: 'v1.0',
+      path: 'path/to/skills',
+    });
+  });
+
+  it('should parse GitLab tree URLs', () => {
+    expect(parseGitRemoteUrl('https://gitlab.com/group/sub/repo/-/tree/main/skills')).toEqual({
+      repoUrl: 'https://gitlab.com/group/sub/repo.git',
+      ref: 'main',
+      path: 'skills',
+    });
+  });
+
+  it('should parse Gitea and Bitbucket tree URLs', () => {
+    expect(parseGitRemoteUrl('https://gitea.example.com/org/repo/src/branch/dev/skills')).toEqual({
+      repoUrl: 'https://gitea.example.com/org/repo.git',
+      ref: 'dev',
+      path: 'skills',
+    });
+    expect(parseGitRemoteUrl('https://bitbucket.org/org/repo/src/main/skills')).toEqual({
+      repoUrl: 'https://bitbucket.org/org/repo.git',
+      ref: 'main',
+      path: 'skills',
+    });
+  });
+
+  it('should not match GitHub tree URLs or plain web pages', () => {
+    expect(parseGitRemoteUrl('https://github.com/anthropics/skills/tree/main/skills')).toBeNull();
+    expect(parseGitRemoteUrl('https://example.com/skills')).toBeNull();
+    expect(parseGitRemoteUrl('not a url')).toBeNull();
+  });
+});
+
+describe('GitRemoteProvider', () => {
+  const TEST_ROOT = path.join(os.tmpdir(), 'skills-mcp-git-provider-' + Date.now());
+  const REPO_DIR = path.join(TEST_ROOT, 'repo');
+  const MARKETPLACE_URL = `file://${REPO_DIR}/.git#main:skills`;
+  const provider = new GitRemoteProvider();
+  let alphaCommit: string;
+  let betaCommit: string;
+
+  beforeAll(async () => {
+    await fs.mkdir(REPO_DIR, { recursive: true });
+    await runGit(['init', '-q', '-b', 'main'], { cwd: REPO_DIR });
+    await writeSkill(REPO_DIR, 'alpha-skill');
+    await fs.mkdir(path.join(REPO_DIR, 'skills', 'alpha-skill', 'scripts'));
+    await fs.writeFile(path.join(REPO_DIR, 'skills', 'alpha-skill', 'scripts', 'run.py'), 'print("hi")\n');
+    alphaCommit = await commitAll(REPO_DIR, 'Add alpha');
+    await writeSkill(REPO_DIR, 'beta-skill');
+    await fs.mkdir(path.join(REPO_DIR, 'skills', 'not-a-skill'));
+    await fs.writeFile(path.join(REPO_DIR, 'skills', 'not-a-skill', 'README.md'), 'nothing');
+    betaCommit = await commitAll(REPO_DIR, 'Add beta');
+  });
+
+  afterAll(async () => {
+    await fs.rm(TEST_ROOT, { recursive: true, force: true });
+  });
+
+  it('should match explicit git URLs', () => {
+    expect(provider.matches(MARKETPLACE_URL)).toBe(true);
+  });
+
+  it('should list skill directories that contain SKILL.md', async () => {
+    const skills = await provider.listSkills(MARKETPLACE_URL);
+
+    expect(skills.map(s => s.skillPath).sort()).toEqual(['alpha-skill', 'beta-skill']);
+    expect(skills[0].content).toContain('name: ');
+  });
+
+  it('should fail instead of listing nothing when the repository cannot be cloned', async () => {
+    const missingUrl = `file://${TEST_ROOT}/missing/.git#main:skills`;
+    const manager = new MarketplaceManager(
+      new ConfigManager(path.join(TEST_ROOT, 'config.json')),
+      new MarketplaceCache(path.join(TEST_ROOT, 'cache'))
+    );
+
+    await expect(provider.listSkills(missingUrl)).rejects.toThrow();
+
+    const result = await manager.fetchMarketplace(missingUrl);
+    expect(result.error).toBeDefined();
+    expect(await new MarketplaceCache(path.join(TEST_ROOT, 'cache')).get(missingUrl)).toBeNull();
+  });
+
+  it('should fetch a single file relative to the marketplace root', async () => {
+    const content = await provider.fetchFile(MARKETPLACE_URL, 'beta-skill/SKILL.md');
+
+    expect(content).toContain('name: beta-skill');
+    expect(await provider.fetchFile(MARKETPLACE_URL, 'missing.json')).toBeNull();
+  });
+
+  it('should return the last commit touching a skill path', async () => {
+    expect(await provider.getLatestRevision(MARKETPLACE_URL, 'alpha-skill')).toBe(alphaCommit);
+    expect(await provider.getLatestRevision(MARKETPLACE_URL, 'beta-skill')).toBe(betaCommit);
+  });
+
+  it('should download only the skill directory', async () => {
+    const destDir = path.join(TEST_ROOT, 'installed', 'alpha-skill');
+    await fs.mkdir(path.dirname(destDir), { recursive: true });
+
+    const result = await provider.downloadSkill(MARKETPLACE_URL, 'alpha-skill', destDir);
+
+    expect(result).toEqual({ revision: alphaCommit, branch: 'main' });
+    await expect(fs.access(path.join(destDir, 'SKILL.md'))).resolves.toBeUndefined();
+    await expect(fs.access(path.join(destDir, 'scripts', 'run.py'))).resolves.toBeUndefined();
+
+    // No temporary clone left behind
+    const leftovers = await fs.readdir(path.dirname(destDir));
+    expect(leftovers).toEqual(['alpha-skill']);
+  });
+
+  it('should revalidate against the remote branch commit', async () => {
+    const first = await provider.revalidate(MARKETPLACE_URL);
+
+    expect(first).toEqual({ changed: true, validator: { etag: betaCommit } });
+    expect(await provider.revalidate(MARKETPLACE_URL, first.validator)).toEqual({
+      changed: false,
+      validator: { etag: betaCommit },
+    });
+  });
+
+  it('should download a skill at a pinned tag or commit', async () => {
+    await runGit(['tag', 'v1', alphaCommit], { cwd: REPO_DIR });
+    const tagDir = path.join(TEST_ROOT, 'pinned', 'tag', 'alpha-skill');
+    const commitDir = path.join(TEST_ROOT, 'pinned', 'commit', 'alpha-skill');
+    await fs.mkdir(path.dirname(tagDir), { recursive: true });
+    await fs.mkdir(path.dirname(commitDir), { recursive: true });
+
+    expect(await provider.downloadSkill(MARKETPLACE_URL, 'alpha-skill', tagDir, 'v1')).toEqual({
+      revision: alphaCommit,
+      branch: 'v1',
+    });
+    expect(await provider.downloadSkill(MARKETPLACE_URL, 'alpha-skill', commitDir, alphaCommit)).toEqual({
+      revision: alphaCommit,
+      branch: alphaCommit,
+    });
+    await expect(fs.access(path.join(tagDir, 'SKILL.md'))).resolves.toBeUndefined();
+  });
+
+  it('should not download a skill missing at the pinned ref', async () => {
+    const destDir = path.join(TEST_ROOT, 'pinned', 'beta-skill');
+
+    await expect(provider.downloadSkill(MARKETPLACE_URL, 'beta-skill', destDir, alphaCommit)).rejects.toThrow();
+    await expect(provider.downloadSkill(MARKETPLACE_URL, 'beta-skill', destDir, '--upload-pack=x')).rejects.toThrow('Invalid git ref');
+  });
+
+  it('should list commits touching a skill since a revision', async () => {
+    const skillFile = path.join(REPO_DIR, 'skills', 'alpha-skill', 'SKILL.md');
+    await fs.appendFile(skillFile, '\nMore instructions.\n');
+    const fixCommit = await commitAll(REPO_DIR, 'Improve alpha');
+
+    const commits = await provider.listCommits(MARKETPLACE_URL, 'alpha-skill', alphaCommit);
+
+    expect(commits.map(c => c.hash)).toEqual([fixCommit]);
+    expect(commits[0]).toMatchObject({ subject: 'Improve alpha', author: 'Test' });
+    expect(await provider.listCommits(MARKETPLACE_URL, 'beta-skill', betaCommit)).toEqual([]);
+    expect(await provider.listCommits(MARKETPLACE_URL, 'alpha-skill', alphaCommit, alphaCommit)).toEqual([]);
+  });
+
+  it('should fail to download a missing skill', async () => {
+    const destDir = path.join(TEST_ROOT, 'installed', 'missing-skill');
+
+    await expect(provider.downloadSkill(MARKETPLACE_URL, 'missing-skill', destDir)).rejects.toThrow();
+  });
+
+  it('should reuse one clone per marketplace and fetch it only when the remote moved', async () => {
+    const cacheDir = path.join(TEST_ROOT, 'clones');
+    const cachingProvider = new GitRemoteProvider(cacheDir);
+
+    await cachingProvider.listSkills(MARKETPLACE_URL);
+    await cachingProvider.fetchFile(MARKETPLACE_URL, 'beta-skill/SKILL.md');
+    const revision = await cachingProvider.getLatestRevision(MARKETPLACE_URL, 'beta-skill');
+
+    expect(revision).toBe(betaCommit);
+    expect(await fs.readdir(cacheDir)).toHaveLength(1);
+
+    await writeSkill(REPO_DIR, 'beta-skill', 'Updated.\n');
+    const updateCommit = await commitAll(REPO_DIR, 'Update beta');
+
+    expect(await cachingProvider.fetchFile(MARKETPLACE_URL, 'beta-skill/SKILL.md')).toContain('Updated.');
+    expect(await cachingProvider.getLatestRevision(MARKETPLACE_URL, 'beta-skill')).toBe(updateCommit);
+    expect(await fs.readdir(cacheDir)).toHaveLength(1);
+  });
+});
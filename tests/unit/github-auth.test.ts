@@ -0,0 +1,209 @@
+/**
+ * Tests for GitHub authentication and error reporting
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { ConfigManager } from '../../src/managers/config.js';
+import { MarketplaceManager } from '../../src/managers/marketplace.js';
+import { GitHubTokenResolver, getGitAuthEnv } from '../../src/providers/github-auth.js';
+import { GitHubApiError, GitHubProvider, toGitHubApiError } from '../../src/providers/github.js';
+
+const MARKETPLACE_URL = 'https://github.com/acme/private-skills/tree/main/skills';
+
+/** Resolver that always returns a fixed token */
+function fixedToken(token: string | null): GitHubTokenResolver {
+  const resolver = new GitHubTokenResolver(undefined, {});
+  resolver.getToken = async () => token;
+  return resolver;
+}
+
+describe('GitHubTokenResolver', () => {
+  const TEST_DIR = path.join(os.tmpdir(), 'skills-mcp-github-auth-' + Date.now());
+  const CONFIG_PATH = path.join(TEST_DIR, 'config.json');
+
+  beforeEach(async () => {
+    await fs.mkdir(TEST_DIR, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  /** Write a config file with GitHub auth settings */
+  async function writeConfig(github: Record<string, string>): Promise<ConfigManager> {
+    await fs.writeFile(CONFIG_PATH, JSON.stringify({ version: '1.0', marketplaces: [], github }));
+    return new ConfigManager(CONFIG_PATH);
+  }
+
+  it('should prefer GITHUB_TOKEN over the config file', async () => {
+    const config = await writeConfig({ token: 'config-token' });
+    const resolver = new GitHubTokenResolver(config, { GITHUB_TOKEN: 'env-token', GH_TOKEN: 'gh-token' });
+
+    expect(await resolver.getToken()).toBe('env-token');
+  });
+
+  it('should accept GH_TOKEN', async () => {
+    const resolver = new GitHubTokenResolver(undefined, { GH_TOKEN: 'gh-token' });
+
+    expect(await resolver.getToken()).toBe('gh-token');
+  });
+
+  it('should read the token from the config file', async () => {
+    const config = await writeConfig({ token: 'config-token', tokenCommand: 'echo command-token' });
+    const resolver = new GitHubTokenResolver(config, {});
+
+    expect(await resolver.getToken()).toBe('config-token');
+  });
+
+  it('should run the configured token command', async () => {
+    const config = await writeConfig({ tokenCommand: 'echo command-token' });
+    const resolver = new GitHubTokenResolver(config, {});
+
+    expect(await resolver.getToken()).toBe('command-token');
+  });
+
+  it('should fall back to anonymous access when the command fails', async () => {
+    const config = await writeConfig({ tokenCommand: 'exit 1' });
+    const resolver = new GitHubTokenResolver(config, {});
+
+    expect(await resolver.getToken()).toBeNull();
+  });
+});
+
+describe('getGitAuthEnv', () => {
+  it('should pass the token as an extra header without touching the URL', () => {
+    const env = getGitAuthEnv('secret', {});
+
+    expect(env.GIT_CONFIG_COUNT).toBe('1');
+    expect(env.GIT_CONFIG_KEY_0).toBe('http.https://github.com/.extraheader');
+    expect(env.GIT_CONFIG_VALUE_0).toBe(
+      `Authorization: Basic ${Buffer.from('x-access-token:secret').toString('base64')}`
+    );
+  });
+
+  it('should add the header after GIT_CONFIG entries already in the environment', () => {
+    const env = getGitAuthEnv('secret', {
+      GIT_CONFIG_COUNT: '2',
+      GIT_CONFIG_KEY_0: 'core.askPass',
+      GIT_CONFIG_VALUE_0: '',
+      GIT_CONFIG_KEY_1: 'http.proxy',
+      GIT_CONFIG_VALUE_1: 'http://proxy:3128',
+    });
+
+    expect(env).toEqual({
+      GIT_CONFIG_COUNT: '3',
+      GIT_CONFIG_KEY_2: 'http.https://github.com/.extraheader',
+      GIT_CONFIG_VALUE_2: `Authorization: Basic ${Buffer.from('x-access-token:secret').toString('base64')}`,
+    });
+  });
+
+  it('should add nothing without a token', () => {
+    expect(getGitAuthEnv(null)).toEqual({});
+  });
+});
+
+describe('toGitHubApiError', () => {
+  it('should classify rate limiting', () => {
+    const response = new Response('', {
+      status: 403,
+      headers: { 'x-ratelimit-remaining': '0', 'x-ratelimit-reset': '1700000000' },
+    });
+
+    const error = toGitHubApiError(response, 'acme/repo', false);
+
+    expect(error.kind).toBe('rate_limited');
+    expect(error.message).toContain('2023-11-14T22:13:20.000Z');
+    expect(error.message).toContain('GITHUB_TOKEN');
+  });
+
+  it('should classify 401, 403 and 404', () => {
+    expect(toGitHubApiError(new Response('', { status: 401 }), 'acme/repo', true).kind).toBe('unauthorized');
+    expect(toGitHubApiError(new Response('', { status: 403 }), 'acme/repo', true).kind).toBe('forbidden');
+    expect(toGitHubApiError(new Response('', { status: 404 }), 'acme/repo', false).kind).toBe('not_found');
+    expect(toGitHubApiError(new Response('', { status: 500 }), 'acme/repo', false).kind).toBe('http_error');
+  });
+
+  it('should hint at private repositories on anonymous 404s', () => {
+    const error = toGitHubApiError(new Response('', { status: 404 }), 'acme/repo', false);
+
+    expect(error.message).toContain('Private repositories need a token');
+  });
+});
+
+describe('GitHubProvider with authentication', () => {
+  const originalFetch = globalThis.fetch;
+  let requests: Array<{ url: string; headers: Record<string, string> }>;
+
+  /** Replace fetch with a handler that records requests */
+  function mockFetch(handler: (url: string) => Response): void {
+    globalThis.fetch = (async (input: string | URL | Request, init?: RequestInit) => {
+      const url = String(input);
+      requests.push({ url, headers: (init?.headers ?? {}) as Record<string, string> });
+      return handler(url);
+    }) as typeof fetch;
+  }
+
+  beforeEach(() => {
+    requests = [];
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  it('should send the token to the API and raw content hosts', async () => {
+    mockFetch((url) => url.startsWith('https://api.github.com')
+      ? Response.json([{ name: 'team-skill', type: 'dir' }])
+      : new Response('---\nname: team-skill\ndescription: Private\n---\n'));
+
+    const skills = await new GitHubProvider(fixedToken('secret')).listSkills(MARKETPLACE_URL);
+
+    expect(skills).toHaveLength(1);
+    expect(requests).toHaveLength(2);
+    for (const request of requests) {
+      expect(request.headers.Authorization).toBe('Bearer secret');
+    }
+  });
+
+  it('should not send an Authorization header without a token', async () => {
+    mockFetch(() => Response.json([]));
+
+    await new GitHubProvider(fixedToken(null)).listSkills(MARKETPLACE_URL);
+
+    expect(requests[0].headers.Authorization).toBeUndefined();
+  });
+
+  it('should throw a classified error instead of returning an empty list', async () => {
+    mockFetch(() => new Response('', { status: 404 }));
+
+    await expect(new GitHubProvider(fixedToken(null)).listSkills(MARKETPLACE_URL))
+      .rejects.toBeInstanceOf(GitHubApiError);
+  });
+
+  it('should report marketplace errors through MarketplaceManager', async () => {
+    mockFetch(() => new Response('', { status: 401 }));
+
+    const result = await new MarketplaceManager().fetchMarketplace(
+      'https://github.com/acme/unauthorized-skills/tree/main/skills'
+    );
+
+    expect(result.skills).toEqual([]);
+    expect(result.error).toContain('401');
+  });
+
+  it('should explain failed update checks', async () => {
+    mockFetch(() => new Response('', { status: 403, headers: { 'x-ratelimit-remaining': '0' } }));
+
+    const status = await new MarketplaceManager().checkForUpdates({
+      marketplaceUrl: MARKETPLACE_URL,
+      skillPath: 'team-skill',
+      installedAt: new Date().toISOString(),
+      commitHash: 'abc123',
+    });
+
+    expect(status.hasUpdate).toBe(false);
+    expect(status.error).toContain('rate limit');
+  });
+});
@@ -0,0 +1,208 @@
+/**
+ * Tests for the Streamable HTTP transport, run against localhost
+ */
+
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { startHttpServer, HttpServerHandle } from '../../src/server/http.js';
+import { createServer, ServerContext } from '../../src/server/index.js';
+import { ConfigManager } from '../../src/managers/config.js';
+import { SkillDiscoveryManager } from '../../src/managers/skill-discovery.js';
+import { MarketplaceManager } from '../../src/managers/marketplace.js';
+
+const TOKEN = 'test-token';
+
+/** Minimal server standing in for createServer() */
+async function createTestServer(): Promise<McpServer> {
+  const server = new McpServer({ name: 'test-server', version: '0.0.0' });
+  server.registerTool('ping', { description: 'Ping' }, async () => ({
+    content: [{ type: 'text', text: 'pong' }],
+  }));
+  return server;
+}
+
+describe('Streamable HTTP server', () => {
+  let handle: HttpServerHandle;
+
+  beforeEach(async () => {
+    handle = await startHttpServer({ host: '127.0.0.1', port: 0, authToken: TOKEN }, createTestServer);
+  });
+
+  afterEach(async () => {
+    await handle.close();
+  });
+
+  it('should answer the health endpoint without auth', async () => {
+    const response = await fetch(`${handle.url}/health`);
+
+    expect(response.status).toBe(200);
+    expect(await response.json()).toEqual({ status: 'ok', sessions: 0 });
+  });
+
+  it('should reject MCP requests without a bearer token', async () => {
+    const response = await fetch(`${handle.url}/mcp`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{}',
+    });
+
+    expect(response.status).toBe(401);
+  });
+
+  it('should reject requests without a session that are not initialize requests', async () => {
+    const response = await fetch(`${handle.url}/mcp`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: 'application/json, text/event-stream',
+        Authorization: `Bearer ${TOKEN}`,
+      },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'tools/list' }),
+    });
+
+    expect(response.status).toBe(400);
+  });
+
+  it('should serve MCP sessions to an authenticated client', async () => {
+    const client = new Client({ name: 'test-client', version: '0.0.0' });
+    const transport = new StreamableHTTPClientTransport(new URL(`${handle.url}/mcp`), {
+      requestInit: { headers: { Authorization: `Bearer ${TOKEN}` } },
+    });
+
+    await client.connect(transport);
+    const { tools } = await client.listTools();
+    expect(tools.map(t => t.name)).toEqual(['ping']);
+
+    const health = await (await fetch(`${handle.url}/health`)).json();
+    expect(health.sessions).toBe(1);
+
+    await transport.terminateSession();
+    await client.close();
+  });
+
+  describe('session cleanup', () => {
+    let cleanupHandle: HttpServerHandle;
+    let closedServers: number;
+
+    /** Test server that counts how often a session's server is closed */
+    async function createTrackedServer(): Promise<McpServer> {
+      const server = await createTestServer();
+      server.server.onclose = () => {
+        closedServers++;
+      };
+      return server;
+    }
+
+    /** Connect an authenticated client to the cleanup server */
+    async function connectClient(): Promise<Client> {
+      const client = new Client({ name: 'test-client', version: '0.0.0' });
+      await client.connect(new StreamableHTTPClientTransport(new URL(`${cleanupHandle.url}/mcp`), {
+        requestInit: { headers: { Authorization: `Bearer ${TOKEN}` } },
+      }));
+      return client;
+    }
+
+    beforeEach(async () => {
+      closedServers = 0;
+      cleanupHandle = await startHttpServer(
+        { host: '127.0.0.1', port: 0, authToken: TOKEN, sessionIdleTimeoutMs: 100 },
+        createTrackedServer
+      );
+    });
+
+    afterEach(async () => {
+      await cleanupHandle.close();
+    });
+
+    it('should close the server of an initialize request that fails', async () => {
+      const response = await fetch(`${cleanupHandle.url}/mcp`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${TOKEN}` },
+        body: JSON.stringify({
+          jsonrpc: '2.0',
+          id: 1,
+          method: 'initialize',
+          params: { protocolVersion: '2025-03-26', capabilities: {}, clientInfo: { name: 'test', version: '0.0.0' } },
+        }),
+      });
+
+      expect(response.status).toBe(406);
+      expect(closedServers).toBe(1);
+    });
+
+    it('should expire idle sessions and close their servers', async () => {
+      const client = await connectClient();
+      expect((await (await fetch(`${cleanupHandle.url}/health`)).json()).sessions).toBe(1);
+
+      await new Promise(resolve => setTimeout(resolve, 350));
+
+      expect((await (await fetch(`${cleanupHandle.url}/health`)).json()).sessions).toBe(0);
+      expect(closedServers).toBe(1);
+      await client.close();
+    });
+  });
+
+  describe('shared server context', () => {
+    const TEST_DIR = path.join(os.tmpdir(), 'skills-mcp-http-context-' + Date.now());
+    let contextHandle: HttpServerHandle;
+    let context: ServerContext;
+    let discoveries: number;
+
+    /** Connect an authenticated client to the context server */
+    async function connectClient(): Promise<{ client: Client; transport: StreamableHTTPClientTransport }> {
+      const client = new Client({ name: 'test-client', version: '0.0.0' });
+      const transport = new StreamableHTTPClientTransport(new URL(`${contextHandle.url}/mcp`), {
+        requestInit: { headers: { Authorization: `Bearer ${TOKEN}` } },
+      });
+      await client.connect(transport);
+      return { client, transport };
+    }
+
+    beforeEach(async () => {
+      await fs.mkdir(TEST_DIR, { recursive: true });
+      const configManager = new ConfigManager(path.join(TEST_DIR, 'config.json'));
+      const discoveryManager = new SkillDiscoveryManager(configManager);
+      discoveryManager.getSearchPaths = async () => [TEST_DIR];
+      discoveries = 0;
+      const discoverAllSkills = discoveryManager.discoverAllSkills.bind(discoveryManager);
+      discoveryManager.discoverAllSkills = async () => {
+        discoveries++;
+        return discoverAllSkills();
+      };
+
+      context = {
+        configManager,
+        discoveryManager,
+        marketplaceManager: new MarketplaceManager(configManager),
+        skills: [],
+        servers: new Set(),
+        watcher: null,
+      };
+      contextHandle = await startHttpServer({ host: '127.0.0.1', port: 0, authToken: TOKEN }, async () => createServer(context));
+    });
+
+    afterEach(async () => {
+      await contextHandle.close();
+      await fs.rm(TEST_DIR, { recursive: true, force: true });
+    });
+
+    it('should create only a server per session and track it until the session ends', async () => {
+      const first = await connectClient();
+      const second = await connectClient();
+
+      expect(context.servers.size).toBe(2);
+      expect((await second.client.listTools()).tools.map(t => t.name)).toContain('skills_list_installed');
+      expect(discoveries).toBe(0);
+
+      await first.transport.terminateSession();
+      await first.client.close();
+
+      expect(context.servers.size).toBe(1);
+      await second.client.close();
+    });
+  });
+});
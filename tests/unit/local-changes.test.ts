@@ -0,0 +1,173 @@
+/**
+ * Tests for detecting and carrying over local changes during skills_update
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { SkillDiscoveryManager } from '../../src/managers/skill-discovery.js';
+import { SkillSourceManager } from '../../src/managers/skill-source.js';
+import { MarketplaceManager } from '../../src/managers/marketplace.js';
+import { MarketplaceCache } from '../../src/managers/marketplace-cache.js';
+import { ConfigManager } from '../../src/managers/config.js';
+import { applyLocalChanges } from '../../src/utils/skill-merge.js';
+import { handleUpdate, UpdateInput } from '../../src/tools/update.js';
+
+const SKILL_MD = '---\nname: edited-skill\ndescription: A skill users edit\n---\n\n';
+
+/** Write files relative to a directory */
+async function writeFiles(dir: string, files: Record<string, string>): Promise<void> {
+  for (const [file, content] of Object.entries(files)) {
+    await fs.mkdir(path.dirname(path.join(dir, file)), { recursive: true });
+    await fs.writeFile(path.join(dir, file), content);
+  }
+}
+
+describe('local changes', () => {
+  const TEST_ROOT = path.join(os.tmpdir(), 'skills-mcp-local-changes-' + Date.now());
+  const sourceManager = new SkillSourceManager();
+
+  afterAll(async () => {
+    await fs.rm(TEST_ROOT, { recursive: true, force: true });
+  });
+
+  describe('applyLocalChanges', () => {
+    const BASE_DIR = path.join(TEST_ROOT, 'merge', 'base');
+    const LOCAL_DIR = path.join(TEST_ROOT, 'merge', 'local');
+    const NEW_DIR = path.join(TEST_ROOT, 'merge', 'new');
+    const base = {
+      'SKILL.md': `${SKILL_MD}Line one\nLine two\nLine three\n`,
+      'notes.md': 'notes\n',
+      'config.json': '{"a": 1}\n',
+    };
+
+    beforeEach(async () => {
+      await fs.rm(path.join(TEST_ROOT, 'merge'), { recursive: true, force: true });
+      await writeFiles(BASE_DIR, base);
+    });
+
+    /** Run applyLocalChanges for the local and new directories */
+    async function apply(strategy: 'keep_local' | 'merge') {
+      const manifest = await sourceManager.createManifest(BASE_DIR);
+      const source = { ...sourceManager.createSource('test', 'edited-skill', 'abc123'), files: manifest };
+      const changes = (await sourceManager.getLocalChanges(LOCAL_DIR, source))!;
+      return applyLocalChanges(LOCAL_DIR, NEW_DIR, changes, manifest, strategy, BASE_DIR);
+    }
+
+    it('should merge edits to different parts of a file', async () => {
+      await writeFiles(LOCAL_DIR, { ...base, 'SKILL.md': `${SKILL_MD}Line one (local)\nLine two\nLine three\n` });
+      await writeFiles(NEW_DIR, { ...base, 'SKILL.md': `${SKILL_MD}Line one\nLine two\nLine three (upstream)\n` });
+
+      expect(await apply('merge')).toEqual({ kept: [], merged: ['SKILL.md'], conflicts: [] });
+      expect(await fs.readFile(path.join(NEW_DIR, 'SKILL.md'), 'utf-8'))
+        .toBe(`${SKILL_MD}Line one (local)\nLine two\nLine three (upstream)\n`);
+    });
+
+    it('should report conflicting edits without touching the file', async () => {
+      await writeFiles(LOCAL_DIR, { ...base, 'config.json': '{"a": 2}\n' });
+      await writeFiles(NEW_DIR, { ...base, 'config.json': '{"a": 3}\n' });
+
+      expect(await apply('merge')).toEqual({ kept: [], merged: [], conflicts: ['config.json'] });
+      expect(await fs.readFile(path.join(NEW_DIR, 'config.json'), 'utf-8')).toBe('{"a": 3}\n');
+    });
+
+    it('should carry over files changed only locally', async () => {
+      await writeFiles(LOCAL_DIR, { 'SKILL.md': base['SKILL.md'], 'config.json': '{"a": 2}\n', 'mine.md': 'mine\n' });
+      await writeFiles(NEW_DIR, { ...base, 'SKILL.md': `${SKILL_MD}Rewritten\n` });
+
+      expect(await apply('merge')).toEqual({ kept: ['config.json', 'mine.md', 'notes.md'], merged: [], conflicts: [] });
+      await expect(fs.access(path.join(NEW_DIR, 'notes.md'))).rejects.toThrow();
+      expect(await fs.readFile(path.join(NEW_DIR, 'mine.md'), 'utf-8')).toBe('mine\n');
+      expect(await fs.readFile(path.join(NEW_DIR, 'SKILL.md'), 'utf-8')).toBe(`${SKILL_MD}Rewritten\n`);
+    });
+
+    it('should keep local files over upstream edits with keep_local', async () => {
+      await writeFiles(LOCAL_DIR, { ...base, 'config.json': '{"a": 2}\n' });
+      await writeFiles(NEW_DIR, { ...base, 'config.json': '{"a": 3}\n' });
+
+      expect(await apply('keep_local')).toEqual({ kept: ['config.json'], merged: [], conflicts: [] });
+      expect(await fs.readFile(path.join(NEW_DIR, 'config.json'), 'utf-8')).toBe('{"a": 2}\n');
+    });
+  });
+
+  describe('skills_update', () => {
+    const MARKETPLACE_DIR = path.join(TEST_ROOT, 'update', 'marketplace');
+    const SKILLS_DIR = path.join(TEST_ROOT, 'update', 'skills');
+    const SKILL_DIR = path.join(SKILLS_DIR, 'edited-skill');
+    const CONFIG_PATH = path.join(TEST_ROOT, 'update', 'config.json');
+
+    /** Run skills_update for the skill */
+    async function runUpdate(options: Partial<UpdateInput> = {}): Promise<Record<string, unknown>> {
+      const discoveryManager = new SkillDiscoveryManager();
+      discoveryManager.getSearchPaths = async () => [SKILLS_DIR];
+      const configManager = new ConfigManager(CONFIG_PATH);
+      const marketplaceManager = new MarketplaceManager(configManager, new MarketplaceCache(path.join(TEST_ROOT, 'cache')));
+      const result = await handleUpdate(discoveryManager, marketplaceManager, configManager, {
+        skill_name: 'edited-skill',
+        unpin: false,
+        dry_run: false,
+        local_changes: 'refuse',
+        ...options,
+      });
+      return result.structuredContent!;
+    }
+
+    /** Read a file of the installed skill */
+    async function readInstalled(file: string): Promise<string> {
+      return fs.readFile(path.join(SKILL_DIR, file), 'utf-8');
+    }
+
+    beforeEach(async () => {
+      await fs.rm(path.join(TEST_ROOT, 'update'), { recursive: true, force: true });
+      await fs.mkdir(path.dirname(CONFIG_PATH), { recursive: true });
+      await fs.writeFile(CONFIG_PATH, JSON.stringify({ version: '1.0', marketplaces: [MARKETPLACE_DIR] }));
+
+      // Install v1 with a manifest, edit it locally, then publish v2
+      await writeFiles(SKILL_DIR, { 'SKILL.md': `${SKILL_MD}v1\n`, 'notes.md': 'notes\n' });
+      await sourceManager.saveSource(SKILL_DIR, {
+        ...sourceManager.createSource(MARKETPLACE_DIR, 'edited-skill', 'stale-hash', undefined, 'content'),
+        files: await sourceManager.createManifest(SKILL_DIR),
+      });
+      await fs.writeFile(path.join(SKILL_DIR, 'notes.md'), 'my notes\n');
+      await writeFiles(path.join(MARKETPLACE_DIR, 'edited-skill'), { 'SKILL.md': `${SKILL_MD}v2\n`, 'notes.md': 'notes\n' });
+    });
+
+    it('should refuse to update a skill with local changes by default', async () => {
+      const output = await runUpdate();
+
+      expect(output.updated).toEqual([]);
+      expect(output.conflicts).toEqual([{
+        name: 'edited-skill',
+        localChanges: { modified: ['notes.md'], added: [], removed: [] },
+        conflicts: ['notes.md'],
+      }]);
+      expect(await readInstalled('SKILL.md')).toBe(`${SKILL_MD}v1\n`);
+    });
+
+    it('should report local changes in a dry run', async () => {
+      const output = await runUpdate({ dry_run: true });
+
+      const [preview] = output.previews as Array<{ localChanges?: unknown }>;
+      expect(preview.localChanges).toEqual({ modified: ['notes.md'], added: [], removed: [] });
+    });
+
+    it('should keep local edits and record the upstream manifest', async () => {
+      const output = await runUpdate({ local_changes: 'keep_local' });
+
+      const [result] = output.updated as Array<{ localChanges?: unknown }>;
+      expect(result.localChanges).toEqual({ kept: ['notes.md'], merged: [], conflicts: [] });
+      expect(await readInstalled('SKILL.md')).toBe(`${SKILL_MD}v2\n`);
+      expect(await readInstalled('notes.md')).toBe('my notes\n');
+
+      // The kept edit is still reported as a local change next time
+      const source = (await sourceManager.getSource(SKILL_DIR))!;
+      expect(await sourceManager.getLocalChanges(SKILL_DIR, source)).toEqual({ modified: ['notes.md'], added: [], removed: [] });
+    });
+
+    it('should discard local edits with overwrite', async () => {
+      await runUpdate({ local_changes: 'overwrite' });
+
+      expect(await readInstalled('notes.md')).toBe('notes\n');
+    });
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Tests for local directory marketplaces
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { LocalProvider, resolveLocalMarketplacePath } from '../../src/providers/local.js';
+import { detectProvider } from '../../src/providers/index.js';
+import { MarketplaceManager } from '../../src/managers/marketplace.js';
+import { hashDirectory } from '../../src/utils/hash.js';
+
+describe('resolveLocalMarketplacePath', () => {
+  it('should resolve absolute paths', () => {
+    expect(resolveLocalMarketplacePath('/srv/skills')).toBe('/srv/skills');
+    expect(resolveLocalMarketplacePath('/srv/skills/')).toBe('/srv/skills');
+  });
+
+  it('should resolve file URLs', () => {
+    expect(resolveLocalMarketplacePath('file:///srv/skills')).toBe('/srv/skills');
+  });
+
+  it('should expand the home directory', () => {
+    expect(resolveLocalMarketplacePath('~/skills')).toBe(path.join(os.homedir(), 'skills'));
+  });
+
+  it('should leave git remotes and web URLs to other providers', () => {
+    expect(resolveLocalMarketplacePath('file:///srv/repo.git')).toBeNull();
+    expect(resolveLocalMarketplacePath('file:///srv/repo#main:skills')).toBeNull();
+    expect(resolveLocalMarketplacePath('https://github.com/anthropics/skills/tree/main/skills')).toBeNull();
+    expect(resolveLocalMarketplacePath('relative/skills')).toBeNull();
+  });
+
+  it('should be detected as the local provider', () => {
+    expect(detectProvider('file:///srv/skills')?.type).toBe('local');
+    expect(detectProvider('/srv/skills')?.type).toBe('local');
+    expect(detectProvider('file:///srv/repo.git')?.type).toBe('git');
+  });
+});
+
+describe('LocalProvider', () => {
+  const TEST_ROOT = path.join(os.tmpdir(), 'skills-mcp-local-provider-' + Date.now());
+  const MARKETPLACE_DIR = path.join(TEST_ROOT, 'marketplace');
+  const INSTALL_DIR = path.join(TEST_ROOT, 'installed');
+  const provider = new LocalProvider();
+
+  /** Create a skill directory inside the marketplace */
+  async function writeSkill(name: string, body = ''): Promise<void> {
+    const dir = path.join(MARKETPLACE_DIR, name);
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(
+      path.join(dir, 'SKILL.md'),
+      `---\nname: ${name}\ndescription: The ${name} skill\n---\n\n# ${name}\n${body}`
+    );
+  }
+
+  beforeEach(async () => {
+    await fs.mkdir(MARKETPLACE_DIR, { recursive: true });
+    await fs.mkdir(INSTALL_DIR, { recursive: true });
+    await writeSkill('alpha-skill');
+    await writeSkill('beta-skill');
+    await fs.mkdir(path.join(MARKETPLACE_DIR, 'not-a-skill'));
+    await fs.mkdir(path.join(MARKETPLACE_DIR, 'alpha-skill', '.git'));
+    await fs.writeFile(path.join(MARKETPLACE_DIR, 'alpha-skill', '.git', 'HEAD'), 'ref: main');
+  });
+
+  afterEach(async () => {
+    await fs.rm(TEST_ROOT, { recursive: true, force: true });
+  });
+
+  it('should list skill directories that contain SKILL.md', async () => {
+    const skills = await provider.listSkills(`file://${MARKETPLACE_DIR}`);
+
+    expect(skills.map(s => s.skillPath).sort()).toEqual(['alpha-skill', 'beta-skill']);
+  });
+
+  it('should return an empty list for a missing directory', async () => {
+    expect(await provider.listSkills(path.join(TEST_ROOT, 'missing'))).toEqual([]);
+  });
+
+  it('should fetch files inside the marketplace only', async () => {
+    expect(await provider.fetchFile(MARKETPLACE_DIR, 'beta-skill/SKILL.md')).toContain('name: beta-skill');
+    expect(await provider.fetchFile(MARKETPLACE_DIR, '../outside.txt')).toBeNull();
+  });
+
+  it('should change the revision when skill contents change', async () => {
+    const before = await provider.getLatestRevision(MARKETPLACE_DIR, 'alpha-skill');
+    await writeSkill('alpha-skill', 'Updated instructions');
+    const after = await provider.getLatestRevision(MARKETPLACE_DIR, 'alpha-skill');
+
+    expect(before).toMatch(/^[0-9a-f]{64}$/);
+    expect(after).not.toBe(before);
+  });
+
+  it('should copy the skill and record a content hash', async () => {
+    const destDir = path.join(INSTALL_DIR, 'alpha-skill');
+
+    const result = await provider.downloadSkill(MARKETPLACE_DIR, 'alpha-skill', destDir);
+
+    expect(result.revisionType).toBe('content');
+    expect(result.revision).toBe(await hashDirectory(destDir));
+    await expect(fs.access(path.join(destDir, 'SKILL.md'))).resolves.toBeUndefined();
+    await expect(fs.access(path.join(destDir, '.git'))).rejects.toThrow();
+  });
+
+  it('should refuse to download a directory without SKILL.md', async () => {
+    await expect(
+      provider.downloadSkill(MARKETPLACE_DIR, 'not-a-skill', path.join(INSTALL_DIR, 'not-a-skill'))
+    ).rejects.toThrow();
+  });
+
+  it('should let checkForUpdates detect local changes', async () => {
+    const manager = new MarketplaceManager();
+    const { revision } = await manager.downloadSkill(
+      MARKETPLACE_DIR,
+      'beta-skill',
+      path.join(INSTALL_DIR, 'beta-skill')
+    );
+    const source = {
+      marketplaceUrl: MARKETPLACE_DIR,
+      skillPath: 'beta-skill',
+      installedAt: new Date().toISOString(),
+      commitHash: revision,
+      revisionType: 'content' as const,
+    };
+
+    expect((await manager.checkForUpdates(source)).hasUpdate).toBe(false);
+
+    await writeSkill('beta-skill', 'New step');
+
+    expect((await manager.checkForUpdates(source)).hasUpdate).toBe(true);
+  });
+});
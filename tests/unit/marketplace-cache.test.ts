@@ -0,0 +1,254 @@
+/**
+ * Tests for the on-disk marketplace cache and revalidation
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { MarketplaceCache } from '../../src/managers/marketplace-cache.js';
+import { MarketplaceManager } from '../../src/managers/marketplace.js';
+import { ConfigManager } from '../../src/managers/config.js';
+import { GitHubProvider } from '../../src/providers/github.js';
+import { GitHubTokenResolver } from '../../src/providers/github-auth.js';
+import {
+  CacheValidator,
+  MarketplaceProvider,
+  RemoteSkillEntry,
+  RevalidationResult,
+} from '../../src/types/index.js';
+
+const MARKETPLACE_URL = 'https://git.example.com/team/skills.git#main:skills';
+
+/**
+ * In-memory provider that counts calls and can simulate changes or outages
+ */
+class FakeProvider implements MarketplaceProvider {
+  readonly type = 'git' as const;
+  listCalls = 0;
+  revalidateCalls: Array<CacheValidator | undefined> = [];
+  revision = 'commit-1';
+  offline = false;
+  entries: RemoteSkillEntry[] = [
+    { skillPath: 'alpha-skill', content: '---\nname: alpha-skill\ndescription: Alpha\n---\n' },
+  ];
+
+  matches(): boolean {
+    return true;
+  }
+
+  async listSkills(): Promise<RemoteSkillEntry[]> {
+    this.listCalls++;
+    return this.entries;
+  }
+
+  async fetchFile(): Promise<string | null> {
+    return null;
+  }
+
+  async getLatestRevision(): Promise<string | null> {
+    return this.revision;
+  }
+
+  async downloadSkill(): Promise<{ revision: string }> {
+    throw new Error('not implemented');
+  }
+
+  async revalidate(_url: string, validator?: CacheValidator): Promise<RevalidationResult> {
+    this.revalidateCalls.push(validator);
+    if (this.offline) {
+      throw new Error('getaddrinfo ENOTFOUND git.example.com');
+    }
+    return { changed: validator?.etag !== this.revision, validator: { etag: this.revision } };
+  }
+}
+
+describe('MarketplaceCache', () => {
+  const CACHE_DIR = path.join(os.tmpdir(), 'skills-mcp-cache-' + Date.now());
+  let cache: MarketplaceCache;
+
+  beforeEach(() => {
+    cache = new MarketplaceCache(CACHE_DIR);
+  });
+
+  afterEach(async () => {
+    await fs.rm(CACHE_DIR, { recursive: true, force: true });
+  });
+
+  it('should round-trip entries', async () => {
+    const entry = {
+      url: MARKETPLACE_URL,
+      skills: [{ metadata: { name: 'a', description: 'b' }, marketplaceUrl: MARKETPLACE_URL, installCommand: 'skills_install a' }],
+      fetchedAt: 1234,
+      validator: { etag: '"abc"' },
+    };
+
+    await cache.set(entry);
+
+    expect(await cache.get(MARKETPLACE_URL)).toEqual(entry);
+  });
+
+  it('should return null for missing or corrupt entries', async () => {
+    expect(await cache.get(MARKETPLACE_URL)).toBeNull();
+
+    await cache.set({ url: MARKETPLACE_URL, skills: [], fetchedAt: 1 });
+    const [file] = await fs.readdir(CACHE_DIR);
+    await fs.writeFile(path.join(CACHE_DIR, file), '{ not json');
+
+    expect(await cache.get(MARKETPLACE_URL)).toBeNull();
+  });
+
+  it('should remove all entries on clear', async () => {
+    await cache.set({ url: MARKETPLACE_URL, skills: [], fetchedAt: 1 });
+    await cache.clear();
+
+    expect(await cache.get(MARKETPLACE_URL)).toBeNull();
+  });
+});
+
+describe('MarketplaceManager caching', () => {
+  const TEST_DIR = path.join(os.tmpdir(), 'skills-mcp-cache-manager-' + Date.now());
+  const CACHE_DIR = path.join(TEST_DIR, 'cache');
+  const CONFIG_PATH = path.join(TEST_DIR, 'config.json');
+  let provider: FakeProvider;
+  let cache: MarketplaceCache;
+
+  /** Create a manager that uses the fake provider and a temp cache */
+  async function createManager(cacheTtlMinutes = 60): Promise<MarketplaceManager> {
+    await fs.writeFile(CONFIG_PATH, JSON.stringify({ version: '1.0', marketplaces: [MARKETPLACE_URL], cacheTtlMinutes }));
+    const manager = new MarketplaceManager(new ConfigManager(CONFIG_PATH), cache);
+    manager.getProvider = async () => provider;
+    return manager;
+  }
+
+  /** Age the cached entry so it is past its TTL */
+  async function expireCache(): Promise<void> {
+    const entry = await cache.get(MARKETPLACE_URL);
+    await cache.set({ ...entry!, fetchedAt: 0 });
+  }
+
+  beforeEach(async () => {
+    await fs.mkdir(TEST_DIR, { recursive: true });
+    provider = new FakeProvider();
+    cache = new MarketplaceCache(CACHE_DIR);
+  });
+
+  afterEach(async () => {
+    await fs.rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should persist listings across manager instances', async () => {
+    await (await createManager()).fetchMarketplace(MARKETPLACE_URL);
+    const result = await (await createManager()).fetchMarketplace(MARKETPLACE_URL);
+
+    expect(result.skills.map(s => s.metadata.name)).toEqual(['alpha-skill']);
+    expect(provider.listCalls).toBe(1);
+    expect(provider.revalidateCalls).toHaveLength(1);
+  });
+
+  it('should revalidate expired entries without re-reading unchanged marketplaces', async () => {
+    const manager = await createManager();
+    await manager.fetchMarketplace(MARKETPLACE_URL);
+    await expireCache();
+
+    const result = await manager.fetchMarketplace(MARKETPLACE_URL);
+
+    expect(result.skills).toHaveLength(1);
+    expect(provider.revalidateCalls[1]).toEqual({ etag: 'commit-1' });
+    expect(provider.listCalls).toBe(1);
+    expect((await cache.get(MARKETPLACE_URL))!.fetchedAt).toBeGreaterThan(0);
+  });
+
+  it('should re-read a marketplace that changed', async () => {
+    const manager = await createManager();
+    await manager.fetchMarketplace(MARKETPLACE_URL);
+    await expireCache();
+    provider.revision = 'commit-2';
+    provider.entries = [...provider.entries, { skillPath: 'beta-skill', content: '---\nname: beta-skill\ndescription: Beta\n---\n' }];
+
+    const result = await manager.fetchMarketplace(MARKETPLACE_URL);
+
+    expect(result.skills).toHaveLength(2);
+    expect(provider.listCalls).toBe(2);
+    expect((await cache.get(MARKETPLACE_URL))!.validator).toEqual({ etag: 'commit-2' });
+  });
+
+  it('should honor the configured TTL', async () => {
+    const manager = await createManager(0);
+    await manager.fetchMarketplace(MARKETPLACE_URL);
+    await manager.fetchMarketplace(MARKETPLACE_URL);
+
+    expect(provider.revalidateCalls).toHaveLength(2);
+  });
+
+  it('should serve stale data with an error when offline', async () => {
+    const manager = await createManager();
+    await manager.fetchMarketplace(MARKETPLACE_URL);
+    await expireCache();
+    provider.offline = true;
+
+    const result = await manager.fetchMarketplace(MARKETPLACE_URL);
+
+    expect(result.skills).toHaveLength(1);
+    expect(result.stale).toBe(true);
+    expect(result.error).toContain('ENOTFOUND');
+
+    const all = await manager.fetchAllMarketplaces([MARKETPLACE_URL]);
+    expect(all.errors).toEqual([{ url: MARKETPLACE_URL, error: result.error, stale: true }]);
+  });
+
+  it('should report an error when offline without a cache', async () => {
+    provider.offline = true;
+
+    const result = await (await createManager()).fetchMarketplace(MARKETPLACE_URL);
+
+    expect(result.skills).toEqual([]);
+    expect(result.stale).toBeUndefined();
+    expect(result.error).toContain('ENOTFOUND');
+  });
+});
+
+describe('GitHubProvider.revalidate', () => {
+  const originalFetch = globalThis.fetch;
+  const GITHUB_URL = 'https://github.com/acme/skills/tree/main/skills';
+  let provider: GitHubProvider;
+  let lastHeaders: Record<string, string>;
+
+  beforeEach(() => {
+    const resolver = new GitHubTokenResolver(undefined, {});
+    resolver.getToken = async () => null;
+    provider = new GitHubProvider(resolver);
+  });
+
+  afterEach(() => {
+    globalThis.fetch = originalFetch;
+  });
+
+  /** Replace fetch with a fixed response */
+  function mockFetch(response: Response): void {
+    globalThis.fetch = (async (_input: string | URL | Request, init?: RequestInit) => {
+      lastHeaders = (init?.headers ?? {}) as Record<string, string>;
+      return response;
+    }) as typeof fetch;
+  }
+
+  it('should capture ETag and Last-Modified', async () => {
+    mockFetch(new Response('[]', { headers: { etag: '"v1"', 'last-modified': 'Mon, 01 Jan 2024 00:00:00 GMT' } }));
+
+    const result = await provider.revalidate(GITHUB_URL);
+
+    expect(result).toEqual({
+      changed: true,
+      validator: { etag: '"v1"', lastModified: 'Mon, 01 Jan 2024 00:00:00 GMT' },
+    });
+  });
+
+  it('should send conditional headers and treat 304 as unchanged', async () => {
+    mockFetch(new Response(null, { status: 304 }));
+
+    const result = await provider.revalidate(GITHUB_URL, { etag: '"v1"', lastModified: 'Mon, 01 Jan 2024 00:00:00 GMT' });
+
+    expect(result.changed).toBe(false);
+    expect(lastHeaders['If-None-Match']).toBe('"v1"');
+    expect(lastHeaders['If-Modified-Since']).toBe('Mon, 01 Jan 2024 00:00:00 GMT');
+  });
+});
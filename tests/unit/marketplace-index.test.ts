@@ -0,0 +1,166 @@
+/**
+ * Tests for static marketplace index files (skills-index.json)
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import {
+  buildMarketplaceIndex,
+  MARKETPLACE_INDEX_FILENAME,
+  parseMarketplaceIndex,
+} from '../../src/utils/marketplace-index.js';
+import { MarketplaceManager } from '../../src/managers/marketplace.js';
+import { installMarketplaceSkill } from '../../src/tools/install.js';
+import { hashDirectory } from '../../src/utils/hash.js';
+import { runCli } from '../../src/cli.js';
+
+describe('marketplace index', () => {
+  const TEST_ROOT = path.join(os.tmpdir(), 'skills-mcp-index-' + Date.now());
+  const MARKETPLACE_DIR = path.join(TEST_ROOT, 'marketplace');
+
+  /** Create a skill directory inside the marketplace */
+  async function writeSkill(name: string, frontmatter?: string): Promise<void> {
+    const dir = path.join(MARKETPLACE_DIR, name);
+    await fs.mkdir(dir, { recursive: true });
+    await fs.writeFile(
+      path.join(dir, 'SKILL.md'),
+      frontmatter ?? `---\nname: ${name}\ndescription: The ${name} skill\n---\n\n# ${name}\n`
+    );
+  }
+
+  beforeEach(async () => {
+    await writeSkill('alpha-skill');
+    await writeSkill('beta-skill');
+    await writeSkill('broken-skill', '# Missing frontmatter');
+  });
+
+  afterEach(async () => {
+    await fs.rm(TEST_ROOT, { recursive: true, force: true });
+  });
+
+  describe('buildMarketplaceIndex', () => {
+    it('should list every valid skill with a checksum', async () => {
+      const index = await buildMarketplaceIndex(MARKETPLACE_DIR);
+
+      expect(index.formatVersion).toBe(1);
+      expect(index.skills.map(s => s.path)).toEqual(['alpha-skill', 'beta-skill']);
+      expect(index.skills[0].metadata.description).toBe('The alpha-skill skill');
+      expect(index.skills[0].checksum).toBe(await hashDirectory(path.join(MARKETPLACE_DIR, 'alpha-skill')));
+    });
+  });
+
+  describe('parseMarketplaceIndex', () => {
+    it('should round-trip a generated index', async () => {
+      const index = await buildMarketplaceIndex(MARKETPLACE_DIR);
+
+      expect(parseMarketplaceIndex(JSON.stringify(index))).toEqual(index);
+    });
+
+    it('should reject malformed content', () => {
+      expect(parseMarketplaceIndex('not json')).toBeNull();
+      expect(parseMarketplaceIndex('{"formatVersion": 2, "skills": []}')).toBeNull();
+    });
+
+    it('should reject skill paths outside the marketplace', () => {
+      const index = {
+        formatVersion: 1,
+        generatedAt: new Date().toISOString(),
+        skills: [{ path: '../etc', metadata: { name: 'evil', description: 'x' }, checksum: 'abc' }],
+      };
+
+      expect(parseMarketplaceIndex(JSON.stringify(index))).toBeNull();
+    });
+
+    it('should reject skill and dependency names that are not valid skill names', () => {
+      const index = (metadata: object) => JSON.stringify({
+        formatVersion: 1,
+        generatedAt: new Date().toISOString(),
+        skills: [{ path: 'escaped', metadata: { description: 'x', ...metadata }, checksum: 'abc' }],
+      });
+
+      expect(parseMarketplaceIndex(index({ name: '../../escaped' }))).toBeNull();
+      expect(parseMarketplaceIndex(index({ name: 'escaped', dependencies: [{ name: '../other' }] }))).toBeNull();
+      expect(parseMarketplaceIndex(index({ name: 'escaped' }))).not.toBeNull();
+    });
+  });
+
+  describe('MarketplaceManager', () => {
+    it('should prefer the index over crawling skill directories', async () => {
+      const index = {
+        formatVersion: 1,
+        generatedAt: new Date().toISOString(),
+        skills: [{
+          path: 'indexed-only',
+          metadata: { name: 'indexed-only', description: 'Only listed in the index' },
+          revision: 'abc123',
+          checksum: 'def456',
+        }],
+      };
+      await fs.writeFile(path.join(MARKETPLACE_DIR, MARKETPLACE_INDEX_FILENAME), JSON.stringify(index));
+
+      const skills = await new MarketplaceManager().fetchSkillsFromMarketplace(MARKETPLACE_DIR);
+
+      expect(skills).toHaveLength(1);
+      expect(skills[0]).toMatchObject({
+        metadata: { name: 'indexed-only' },
+        skillPath: 'indexed-only',
+        revision: 'abc123',
+        checksum: 'def456',
+      });
+    });
+
+    it('should fall back to crawling when the index is invalid', async () => {
+      await fs.writeFile(path.join(MARKETPLACE_DIR, MARKETPLACE_INDEX_FILENAME), '{ broken');
+
+      const skills = await new MarketplaceManager().fetchSkillsFromMarketplace(MARKETPLACE_DIR);
+
+      expect(skills.map(s => s.metadata.name).sort()).toEqual(['alpha-skill', 'beta-skill']);
+    });
+  });
+
+  describe('installing from an index', () => {
+    const INSTALL_DIR = path.join(TEST_ROOT, 'install', 'skills');
+
+    it('should not install a skill whose index name escapes the install path', async () => {
+      await writeSkill('escaped');
+      const index = {
+        formatVersion: 1,
+        generatedAt: new Date().toISOString(),
+        skills: [{
+          path: 'escaped',
+          metadata: { name: '../../escaped', description: 'Escapes the install path' },
+          checksum: await hashDirectory(path.join(MARKETPLACE_DIR, 'escaped')),
+        }],
+      };
+      await fs.writeFile(path.join(MARKETPLACE_DIR, MARKETPLACE_INDEX_FILENAME), JSON.stringify(index));
+
+      const skills = await new MarketplaceManager().fetchSkillsFromMarketplace(MARKETPLACE_DIR);
+      expect(skills.map(s => s.metadata.name)).not.toContain('../../escaped');
+
+      await expect(installMarketplaceSkill(
+        new MarketplaceManager(),
+        { metadata: { name: '../../escaped' }, marketplaceUrl: MARKETPLACE_DIR, skillPath: 'escaped' },
+        INSTALL_DIR,
+        { maxRisk: 'high' }
+      )).rejects.toThrow('not a valid skill name');
+      expect(await fs.access(path.join(TEST_ROOT, 'escaped')).then(() => true, () => false)).toBe(false);
+    });
+  });
+
+  describe('index CLI command', () => {
+    it('should write skills-index.json into the marketplace', async () => {
+      const originalWrite = process.stdout.write;
+      process.stdout.write = (() => true) as typeof process.stdout.write;
+
+      try {
+        expect(await runCli(['index', MARKETPLACE_DIR])).toBe(0);
+      } finally {
+        process.stdout.write = originalWrite;
+      }
+
+      const content = await fs.readFile(path.join(MARKETPLACE_DIR, MARKETPLACE_INDEX_FILENAME), 'utf-8');
+      expect(parseMarketplaceIndex(content)?.skills).toHaveLength(2);
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { MarketplaceManager, parseGitHubUrl } from '../../src/managers/marketplace.js';
-import { MarketplaceSkill, SkillSource, SkillUpdateStatus } from '../../src/types/index.js';
+import { MarketplaceProvider, MarketplaceSkill, SkillSource, SkillUpdateStatus, UpdatePolicy } from '../../src/types/index.js';
 
 describe('MarketplaceManager', () => {
   let manager: MarketplaceManager;
@@ -223,5 +223,50 @@ describe('MarketplaceManager', () => {
       expect(result.hasUpdate).toBe(false);
       expect(result.error).toBeDefined();
     });
+
+    describe('with an update policy', () => {
+      /** Manager whose marketplace publishes a new commit with the given SKILL.md version */
+      function managerPublishing(version: string | null): MarketplaceManager {
+        const manager = new MarketplaceManager();
+        manager.getLatestCommit = async () => 'def456';
+        manager.getProvider = async () => ({
+          fetchFile: async () => `---\nname: test-skill\ndescription: Test\n${version ? `version: "${version}"\n` : ''}---\n`,
+        }) as unknown as MarketplaceProvider;
+        return manager;
+      }
+
+      const source = (updatePolicy: UpdatePolicy): SkillSource => ({
+        marketplaceUrl: 'https://github.com/test/repo/tree/main/skills',
+        skillPath: 'test-skill',
+        installedAt: '2025-01-09T12:00:00.000Z',
+        commitHash: 'abc123',
+        updatePolicy,
+      });
+
+      it('should offer versions the policy allows', async () => {
+        const result = await managerPublishing('1.3.0').checkForUpdates(source('minor'), '1.2.0');
+
+        expect(result).toMatchObject({ hasUpdate: true, localVersion: '1.2.0', remoteVersion: '1.3.0' });
+      });
+
+      it('should hold back versions beyond the policy', async () => {
+        const result = await managerPublishing('2.0.0').checkForUpdates(source('minor'), '1.2.0');
+
+        expect(result.hasUpdate).toBe(false);
+        expect(result.heldBack).toBe('2.0.0 is a major update, but the update policy only allows minor updates');
+      });
+
+      it('should ignore new commits without a newer version', async () => {
+        const result = await managerPublishing('1.2.0').checkForUpdates(source('major'), '1.2.0');
+
+        expect(result.hasUpdate).toBe(false);
+        expect(result.heldBack).toBeUndefined();
+      });
+
+      it('should fall back to commits when versions are missing', async () => {
+        expect((await managerPublishing(null).checkForUpdates(source('patch'), '1.2.0')).hasUpdate).toBe(true);
+        expect((await managerPublishing('1.3.0').checkForUpdates(source('patch'))).hasUpdate).toBe(true);
+      });
+    });
   });
 });
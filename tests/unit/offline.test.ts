@@ -0,0 +1,214 @@
+/**
+ * Tests for offline mode
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { MarketplaceCache } from '../../src/managers/marketplace-cache.js';
+import { MarketplaceManager, OFFLINE_ERROR } from '../../src/managers/marketplace.js';
+import { ConfigManager } from '../../src/managers/config.js';
+import { handleDiscover } from '../../src/tools/discover.js';
+import { getMarketplaceHost, isNetworkError } from '../../src/utils/network.js';
+import {
+  MarketplaceProvider,
+  RemoteSkillEntry,
+  RevalidationResult,
+} from '../../src/types/index.js';
+
+const MARKETPLACE_URL = 'https://git.example.com/team/skills.git#main:skills';
+
+/**
+ * Provider that fails like an unplugged network cable, or succeeds when online
+ */
+class FlakyProvider implements MarketplaceProvider {
+  readonly type = 'git' as const;
+  calls = 0;
+  online = true;
+
+  matches(): boolean {
+    return true;
+  }
+
+  private contact(): void {
+    this.calls++;
+    if (!this.online) {
+      throw new Error('Command failed: git ls-remote\nfatal: unable to access: Could not resolve host: git.example.com');
+    }
+  }
+
+  async listSkills(): Promise<RemoteSkillEntry[]> {
+    this.contact();
+    return [{ skillPath: 'alpha-skill', content: '---\nname: alpha-skill\ndescription: Alpha\n---\n' }];
+  }
+
+  async fetchFile(): Promise<string | null> {
+    this.contact();
+    return null;
+  }
+
+  async getLatestRevision(): Promise<string | null> {
+    this.contact();
+    return 'commit-1';
+  }
+
+  async downloadSkill(): Promise<{ revision: string }> {
+    this.contact();
+    return { revision: 'commit-1' };
+  }
+
+  async revalidate(): Promise<RevalidationResult> {
+    this.contact();
+    return { changed: true, validator: { etag: 'commit-1' } };
+  }
+}
+
+describe('isNetworkError', () => {
+  it('should detect Node network error codes', () => {
+    const err = Object.assign(new Error('getaddrinfo ENOTFOUND github.com'), { code: 'ENOTFOUND' });
+    expect(isNetworkError(err)).toBe(true);
+  });
+
+  it('should detect fetch failures by their cause', () => {
+    const cause = Object.assign(new Error('connect ECONNREFUSED'), { code: 'ECONNREFUSED' });
+    expect(isNetworkError(new TypeError('fetch failed', { cause }))).toBe(true);
+  });
+
+  it('should detect git connection failures', () => {
+    expect(isNetworkError(new Error('fatal: unable to access: Could not resolve host: gitlab.com'))).toBe(true);
+  });
+
+  it('should not treat server or auth errors as offline', () => {
+    expect(isNetworkError(new Error('GitHub API error 401: Bad credentials'))).toBe(false);
+    expect(isNetworkError('ENOTFOUND')).toBe(false);
+  });
+});
+
+describe('getMarketplaceHost', () => {
+  it('should extract hosts from remote URLs', () => {
+    expect(getMarketplaceHost('https://github.com/org/repo/tree/main/skills')).toBe('github.com');
+    expect(getMarketplaceHost('git+ssh://git@git.example.com/team/skills#main:skills')).toBe('git.example.com');
+    expect(getMarketplaceHost('git@git.example.com:team/skills.git')).toBe('git.example.com');
+  });
+
+  it('should return null for local marketplaces', () => {
+    expect(getMarketplaceHost('/srv/skills')).toBeNull();
+    expect(getMarketplaceHost('~/skills')).toBeNull();
+    expect(getMarketplaceHost('file:///srv/skills')).toBeNull();
+  });
+});
+
+describe('MarketplaceManager offline mode', () => {
+  const TEST_DIR = path.join(os.tmpdir(), 'skills-mcp-offline-' + Date.now());
+  const CONFIG_PATH = path.join(TEST_DIR, 'config.json');
+  const LOCAL_MARKETPLACE = path.join(TEST_DIR, 'local-skills');
+  let provider: FlakyProvider;
+  let cache: MarketplaceCache;
+
+  /** Create a manager whose remote marketplace uses the flaky provider */
+  async function createManager(offline?: boolean): Promise<MarketplaceManager> {
+    await fs.writeFile(CONFIG_PATH, JSON.stringify({
+      version: '1.0',
+      marketplaces: [MARKETPLACE_URL],
+      ...(offline !== undefined ? { offline } : {}),
+    }));
+    const manager = new MarketplaceManager(new ConfigManager(CONFIG_PATH), cache);
+    const getProvider = manager.getProvider.bind(manager);
+    manager.getProvider = async (url: string) => (url === MARKETPLACE_URL ? provider : getProvider(url));
+    return manager;
+  }
+
+  beforeEach(async () => {
+    await fs.mkdir(path.join(LOCAL_MARKETPLACE, 'local-skill'), { recursive: true });
+    await fs.writeFile(
+      path.join(LOCAL_MARKETPLACE, 'local-skill', 'SKILL.md'),
+      '---\nname: local-skill\ndescription: Local\n---\n'
+    );
+    provider = new FlakyProvider();
+    cache = new MarketplaceCache(path.join(TEST_DIR, 'cache'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(TEST_DIR, { recursive: true, force: true });
+  });
+
+  it('should answer from the cache without contacting marketplaces when configured offline', async () => {
+    await (await createManager()).fetchMarketplace(MARKETPLACE_URL);
+    const calls = provider.calls;
+
+    const manager = await createManager(true);
+    const result = await manager.fetchAllMarketplaces([MARKETPLACE_URL]);
+
+    expect(provider.calls).toBe(calls);
+    expect(result.status).toBe('offline');
+    expect(result.skills.map(s => s.metadata.name)).toEqual(['alpha-skill']);
+    expect(result.errors).toEqual([]);
+  });
+
+  it('should report marketplaces without a cached listing', async () => {
+    const result = await (await createManager(true)).fetchAllMarketplaces([MARKETPLACE_URL]);
+
+    expect(result.skills).toEqual([]);
+    expect(result.errors[0].error).toContain(OFFLINE_ERROR);
+    expect(provider.calls).toBe(0);
+  });
+
+  it('should still read local marketplaces', async () => {
+    const manager = await createManager(true);
+    const result = await manager.fetchAllMarketplaces([LOCAL_MARKETPLACE]);
+
+    expect(result.status).toBe('online');
+    expect(result.skills.map(s => s.metadata.name)).toEqual(['local-skill']);
+    expect(await manager.isOffline(LOCAL_MARKETPLACE)).toBe(false);
+  });
+
+  it('should enter offline mode after a network failure', async () => {
+    const manager = await createManager();
+    provider.online = false;
+
+    const first = await manager.fetchMarketplace(MARKETPLACE_URL);
+    const callsAfterFailure = provider.calls;
+    const second = await manager.fetchMarketplace(MARKETPLACE_URL);
+
+    expect(first.offline).toBe(true);
+    expect(second.offline).toBe(true);
+    expect(provider.calls).toBe(callsAfterFailure);
+    expect(await manager.isOffline()).toBe(true);
+  });
+
+  it('should skip update checks while offline', async () => {
+    const manager = await createManager(true);
+
+    const status = await manager.checkForUpdates({
+      marketplaceUrl: MARKETPLACE_URL,
+      skillPath: 'alpha-skill',
+      commitHash: 'commit-0',
+      installedAt: new Date().toISOString(),
+    });
+
+    expect(status.hasUpdate).toBe(false);
+    expect(status.error).toBe(OFFLINE_ERROR);
+    expect(provider.calls).toBe(0);
+  });
+
+  it('should not probe the network when offline mode is configured', async () => {
+    expect(await (await createManager(false)).detectOffline([MARKETPLACE_URL])).toBe(false);
+    expect(await (await createManager(true)).detectOffline([MARKETPLACE_URL])).toBe(true);
+  });
+
+  it('should treat local-only marketplace lists as online', async () => {
+    expect(await (await createManager()).detectOffline([LOCAL_MARKETPLACE])).toBe(false);
+  });
+
+  it('should return an offline status from skills_discover', async () => {
+    await (await createManager()).fetchMarketplace(MARKETPLACE_URL);
+    const configManager = new ConfigManager(CONFIG_PATH);
+    const manager = await createManager(true);
+
+    const result = await handleDiscover(manager, configManager, {});
+
+    expect(result.structuredContent?.status).toBe('offline');
+    expect(result.structuredContent?.total).toBe(1);
+    expect(result.content[0].text).toContain('Offline');
+  });
+});
@@ -1,6 +1,15 @@
 import os from 'os';
 import path from 'path';
-import { getSkillSearchPaths, expandPath, getConfigPath, getDefaultInstallPath } from '../../src/utils/paths.js';
+import {
+  getSkillSearchPaths,
+  expandPath,
+  getConfigPath,
+  getDefaultInstallPath,
+  isReadOnlySearchPath,
+  getTrashPath,
+  getSkillDataPath,
+  resolveInside,
+} from '../../src/utils/paths.js';
 
 describe('Path Utilities', () => {
   const homeDir = os.homedir();
@@ -69,4 +78,39 @@ describe('Path Utilities', () => {
       expect(installPath).toBe(path.join(homeDir, 'skills'));
     });
   });
+
+  describe('isReadOnlySearchPath', () => {
+    it('should treat the system-wide path as read-only', () => {
+      expect(isReadOnlySearchPath('/usr/local/share/skills')).toBe(true);
+    });
+
+    it('should treat user paths as writable', () => {
+      expect(isReadOnlySearchPath(path.join(homeDir, 'skills'))).toBe(false);
+    });
+  });
+
+  describe('getTrashPath', () => {
+    it('should return a .trash directory inside the search path', () => {
+      expect(getTrashPath('/tmp/skills')).toBe(path.join('/tmp/skills', '.trash'));
+    });
+  });
+
+  describe('getSkillDataPath', () => {
+    it('should return ~/Documents/{skill-name}', () => {
+      expect(getSkillDataPath('pdf-helper')).toBe(path.join(homeDir, 'Documents', 'pdf-helper'));
+    });
+  });
+
+  describe('resolveInside', () => {
+    it('should resolve paths inside the base directory', () => {
+      expect(resolveInside('/tmp/skill', 'references/a.md')).toBe(path.join('/tmp/skill', 'references', 'a.md'));
+    });
+
+    it('should reject traversal and absolute paths', () => {
+      expect(resolveInside('/tmp/skill', '../other/a.md')).toBeNull();
+      expect(resolveInside('/tmp/skill', 'scripts/../../a.md')).toBeNull();
+      expect(resolveInside('/tmp/skill', '/etc/passwd')).toBeNull();
+      expect(resolveInside('/tmp/skill', '')).toBeNull();
+    });
+  });
 });
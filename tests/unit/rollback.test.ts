@@ -0,0 +1,213 @@
+/**
+ * Tests for skill version retention and skills_rollback
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { SkillDiscoveryManager } from '../../src/managers/skill-discovery.js';
+import { SkillSourceManager } from '../../src/managers/skill-source.js';
+import { SkillVersionManager } from '../../src/managers/skill-versions.js';
+import { MarketplaceManager } from '../../src/managers/marketplace.js';
+import { MarketplaceCache } from '../../src/managers/marketplace-cache.js';
+import { ConfigManager } from '../../src/managers/config.js';
+import { handleRollback, RollbackInputSchema } from '../../src/tools/rollback.js';
+import { handleUpdate } from '../../src/tools/update.js';
+
+/** Write a SKILL.md whose body identifies the version */
+async function writeSkill(dir: string, body: string): Promise<void> {
+  await fs.mkdir(dir, { recursive: true });
+  await fs.writeFile(
+    path.join(dir, 'SKILL.md'),
+    `---\nname: versioned-skill\ndescription: A skill with history\n---\n\n${body}\n`
+  );
+}
+
+/** Read the body written by writeSkill */
+async function readBody(dir: string): Promise<string> {
+  const content = await fs.readFile(path.join(dir, 'SKILL.md'), 'utf-8');
+  return content.split('---\n\n')[1].trim();
+}
+
+describe('skill versions', () => {
+  const TEST_ROOT = path.join(os.tmpdir(), 'skills-mcp-rollback-' + Date.now());
+  const SKILLS_DIR = path.join(TEST_ROOT, 'skills');
+  const SKILL_DIR = path.join(SKILLS_DIR, 'versioned-skill');
+  const sourceManager = new SkillSourceManager();
+  let versionManager: SkillVersionManager;
+  let discoveryManager: SkillDiscoveryManager;
+
+  /** Install a version of the skill with a source record */
+  async function installVersion(body: string, commit: string): Promise<void> {
+    await writeSkill(SKILL_DIR, body);
+    await sourceManager.saveSource(SKILL_DIR, sourceManager.createSource('/srv/skills', 'versioned-skill', commit));
+  }
+
+  beforeEach(async () => {
+    await fs.mkdir(SKILLS_DIR, { recursive: true });
+    versionManager = new SkillVersionManager();
+    discoveryManager = new SkillDiscoveryManager();
+    discoveryManager.getSearchPaths = async () => [SKILLS_DIR];
+  });
+
+  afterEach(async () => {
+    await fs.rm(TEST_ROOT, { recursive: true, force: true });
+  });
+
+  describe('SkillVersionManager', () => {
+    it('should save the current directory as a version', async () => {
+      await installVersion('v1', 'aaaaaaa1111');
+
+      const saved = await versionManager.saveCurrent(SKILL_DIR);
+
+      expect(saved.id).toMatch(/^\d+-aaaaaaa$/);
+      expect(saved.path).toBe(path.join(SKILLS_DIR, '.versions', 'versioned-skill', saved.id));
+      expect(saved.source?.commitHash).toBe('aaaaaaa1111');
+      await expect(fs.access(SKILL_DIR)).rejects.toThrow();
+      expect(await readBody(saved.path)).toBe('v1');
+    });
+
+    it('should list versions newest first and prune old ones', async () => {
+      for (const [body, commit] of [['v1', 'aaaaaaa'], ['v2', 'bbbbbbb'], ['v3', 'ccccccc']]) {
+        await installVersion(body, commit);
+        await versionManager.saveCurrent(SKILL_DIR);
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+
+      const versions = await versionManager.listVersions(SKILL_DIR);
+      expect(versions.map(v => v.source?.commitHash)).toEqual(['ccccccc', 'bbbbbbb', 'aaaaaaa']);
+
+      const removed = await versionManager.prune(SKILL_DIR, 1);
+      expect(removed).toEqual([versions[1].id, versions[2].id]);
+      expect((await versionManager.listVersions(SKILL_DIR)).map(v => v.id)).toEqual([versions[0].id]);
+
+      await versionManager.prune(SKILL_DIR, 0);
+      await expect(fs.access(path.join(SKILLS_DIR, '.versions', 'versioned-skill'))).rejects.toThrow();
+    });
+
+    it('should restore a version and keep the one it replaced', async () => {
+      await installVersion('v1', 'aaaaaaa');
+      const v1 = await versionManager.saveCurrent(SKILL_DIR);
+      await installVersion('v2', 'bbbbbbb');
+
+      const { restored, replaced } = await versionManager.restoreVersion(SKILL_DIR, v1.id);
+
+      expect(restored.id).toBe(v1.id);
+      expect(await readBody(SKILL_DIR)).toBe('v1');
+      expect(replaced.source?.commitHash).toBe('bbbbbbb');
+      expect((await versionManager.listVersions(SKILL_DIR)).map(v => v.id)).toEqual([replaced.id]);
+    });
+
+    it('should reject unknown versions without touching the skill', async () => {
+      await installVersion('v1', 'aaaaaaa');
+
+      await expect(versionManager.restoreVersion(SKILL_DIR, '1-missing')).rejects.toThrow('not found');
+      expect(await readBody(SKILL_DIR)).toBe('v1');
+    });
+  });
+
+  describe('handleRollback', () => {
+    it('should require a skill name', () => {
+      expect(RollbackInputSchema.safeParse({}).success).toBe(false);
+      expect(RollbackInputSchema.safeParse({ skill_name: 'versioned-skill' }).success).toBe(true);
+    });
+
+    it('should list saved versions when no version is given', async () => {
+      await installVersion('v1', 'aaaaaaa');
+      const v1 = await versionManager.saveCurrent(SKILL_DIR);
+      await installVersion('v2', 'bbbbbbb');
+
+      const result = await handleRollback(discoveryManager, { skill_name: 'versioned-skill' });
+
+      expect(result.isError).toBeUndefined();
+      expect(result.structuredContent?.current).toEqual({ commitHash: 'bbbbbbb' });
+      expect(result.structuredContent?.versions).toEqual([
+        { id: v1.id, savedAt: v1.savedAt, commitHash: 'aaaaaaa' },
+      ]);
+      expect(result.content[0].text).toContain(v1.id);
+    });
+
+    it('should restore the requested version', async () => {
+      await installVersion('v1', 'aaaaaaa');
+      const v1 = await versionManager.saveCurrent(SKILL_DIR);
+      await installVersion('v2', 'bbbbbbb');
+
+      const result = await handleRollback(discoveryManager, { skill_name: 'versioned-skill', version: v1.id });
+
+      expect(result.isError).toBeUndefined();
+      expect(await readBody(SKILL_DIR)).toBe('v1');
+      expect((await sourceManager.getSource(SKILL_DIR))?.commitHash).toBe('aaaaaaa');
+    });
+
+    it('should report unknown versions', async () => {
+      await installVersion('v1', 'aaaaaaa');
+
+      const result = await handleRollback(discoveryManager, { skill_name: 'versioned-skill', version: '1-nope' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('not found');
+    });
+  });
+
+  describe('skills_update retention', () => {
+    const MARKETPLACE_DIR = path.join(TEST_ROOT, 'marketplace');
+    const CONFIG_PATH = path.join(TEST_ROOT, 'config.json');
+
+    /** Publish a new version of the skill to the local marketplace */
+    async function publish(body: string): Promise<void> {
+      await writeSkill(path.join(MARKETPLACE_DIR, 'versioned-skill'), body);
+    }
+
+    /** Run skills_update for the skill */
+    async function runUpdate(dryRun = false): Promise<Record<string, unknown>> {
+      const configManager = new ConfigManager(CONFIG_PATH);
+      const marketplaceManager = new MarketplaceManager(configManager, new MarketplaceCache(path.join(TEST_ROOT, 'cache')));
+      const result = await handleUpdate(discoveryManager, marketplaceManager, configManager, {
+        skill_name: 'versioned-skill',
+        unpin: false,
+        dry_run: dryRun,
+        local_changes: 'refuse',
+      });
+      return result.structuredContent!;
+    }
+
+    beforeEach(async () => {
+      await fs.writeFile(CONFIG_PATH, JSON.stringify({ version: '1.0', marketplaces: [MARKETPLACE_DIR], keepVersions: 2 }));
+      await publish('v1');
+      await writeSkill(SKILL_DIR, 'v1');
+      await sourceManager.saveSource(
+        SKILL_DIR,
+        sourceManager.createSource(MARKETPLACE_DIR, 'versioned-skill', 'stale-hash', undefined, 'content')
+      );
+    });
+
+    it('should keep the replaced version and prune beyond keepVersions', async () => {
+      for (const body of ['v2', 'v3', 'v4']) {
+        await publish(body);
+        const output = await runUpdate();
+        expect((output.updated as Array<{ previousVersion?: string }>)[0].previousVersion).toBeDefined();
+        await new Promise(resolve => setTimeout(resolve, 5));
+      }
+
+      expect(await readBody(SKILL_DIR)).toBe('v4');
+      const versions = await versionManager.listVersions(SKILL_DIR);
+      expect(await Promise.all(versions.map(v => readBody(v.path)))).toEqual(['v3', 'v2']);
+    });
+
+    it('should preview an update without touching the skill', async () => {
+      await publish('v2');
+      await fs.writeFile(path.join(MARKETPLACE_DIR, 'versioned-skill', 'notes.md'), 'new file\n');
+
+      const output = await runUpdate(true);
+
+      expect(output.dryRun).toBe(true);
+      expect(output.updated).toEqual([]);
+      const [preview] = output.previews as Array<{ commits: unknown; diff: { added: string[]; modified: string[] } }>;
+      expect(preview.commits).toBeNull();
+      expect(preview.diff.added).toEqual(['notes.md']);
+      expect(preview.diff.modified).toEqual(['SKILL.md']);
+      expect(await readBody(SKILL_DIR)).toBe('v1');
+      expect(await versionManager.listVersions(SKILL_DIR)).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Tests for running skill scripts with skills_run_script
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { SkillDiscoveryManager } from '../../src/managers/skill-discovery.js';
+import { ConfigManager } from '../../src/managers/config.js';
+import { SkillDataManager } from '../../src/managers/skill-data.js';
+import { SkillEnvironmentManager } from '../../src/managers/skill-environment.js';
+import { handleRunScript, RunScriptInput } from '../../src/tools/run-script.js';
+import { buildBubblewrapArgs, buildScriptEnv, getScriptCommand } from '../../src/utils/script-runner.js';
+
+describe('skills_run_script', () => {
+  const TEST_ROOT = path.join(os.tmpdir(), 'skills-mcp-run-' + Date.now());
+  const SKILLS_DIR = path.join(TEST_ROOT, 'skills');
+  const SKILL_DIR = path.join(SKILLS_DIR, 'script-skill');
+  const CONFIG_PATH = path.join(TEST_ROOT, 'config.json');
+
+  /** Run a script of the test skill in the skill directory */
+  async function run(options: Partial<RunScriptInput> & { script: string }) {
+    const discoveryManager = new SkillDiscoveryManager();
+    discoveryManager.getSearchPaths = async () => [SKILLS_DIR];
+    return handleRunScript(discoveryManager, new ConfigManager(CONFIG_PATH), {
+      skill_name: 'script-skill',
+      args: [],
+      cwd: 'skill',
+      timeout_seconds: 10,
+      max_output_bytes: 64 * 1024,
+      sandbox: 'none',
+      ...options,
+    });
+  }
+
+  beforeAll(async () => {
+    await fs.mkdir(path.join(SKILL_DIR, 'scripts'), { recursive: true });
+    await fs.writeFile(
+      path.join(SKILL_DIR, 'SKILL.md'),
+      '---\nname: script-skill\ndescription: A skill with scripts\n---\n\n# Scripts\n'
+    );
+    await fs.writeFile(path.join(SKILL_DIR, 'scripts', 'greet.sh'), 'echo "hello $1"\necho "cwd $(pwd)"\necho oops >&2\nexit 3\n');
+    await fs.writeFile(path.join(SKILL_DIR, 'scripts', 'env.js'), 'console.log(JSON.stringify(process.env));\n');
+    await fs.writeFile(path.join(SKILL_DIR, 'scripts', 'sleep.sh'), 'sleep 30\n');
+    await fs.writeFile(path.join(SKILL_DIR, 'scripts', 'loud.sh'), 'head -c 5000 /dev/zero | tr "\\0" "x"\n');
+    await fs.writeFile(path.join(TEST_ROOT, 'outside.sh'), 'echo outside\n');
+    await fs.symlink(path.join(TEST_ROOT, 'outside.sh'), path.join(SKILL_DIR, 'scripts', 'escape.sh'));
+    await fs.writeFile(CONFIG_PATH, JSON.stringify({ version: '1.0', marketplaces: [], scriptEnv: ['SKILLS_TEST_ALLOWED'] }));
+  });
+
+  afterAll(async () => {
+    await fs.rm(TEST_ROOT, { recursive: true, force: true });
+  });
+
+  it('should return stdout, stderr and the exit code', async () => {
+    const result = await run({ script: 'greet.sh', args: ['world'] });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({
+      script: 'scripts/greet.sh',
+      sandbox: 'none',
+      exitCode: 3,
+      timedOut: false,
+      stdout: `hello world\ncwd ${await fs.realpath(SKILL_DIR)}\n`,
+      stderr: 'oops\n',
+    });
+  });
+
+  it('should only pass allowlisted and explicit environment variables', async () => {
+    process.env.SKILLS_TEST_ALLOWED = 'yes';
+    process.env.SKILLS_TEST_SECRET = 'hidden';
+
+    try {
+      const result = await run({ script: 'scripts/env.js', env: { EXTRA: 'value' } });
+
+      const env = JSON.parse(result.structuredContent!.stdout as string) as Record<string, string>;
+      expect(env.SKILLS_TEST_ALLOWED).toBe('yes');
+      expect(env.EXTRA).toBe('value');
+      expect(env.SKILLS_TEST_SECRET).toBeUndefined();
+    } finally {
+      delete process.env.SKILLS_TEST_ALLOWED;
+      delete process.env.SKILLS_TEST_SECRET;
+    }
+  });
+
+  it('should kill scripts that run past the timeout', async () => {
+    const result = await run({ script: 'sleep.sh', timeout_seconds: 1 });
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({ timedOut: true, exitCode: null });
+  });
+
+  it('should cap the captured output', async () => {
+    const result = await run({ script: 'loud.sh', max_output_bytes: 1024 });
+
+    expect((result.structuredContent!.stdout as string)).toHaveLength(1024);
+    expect(result.structuredContent!.truncated).toEqual({ stdout: true, stderr: false });
+  });
+
+  it('should refuse scripts outside the skill directory', async () => {
+    expect((await run({ script: '../outside.sh' })).isError).toBe(true);
+    expect((await run({ script: 'scripts/escape.sh' })).isError).toBe(true);
+  });
+
+  it('should refuse a data directory that holds a skill search path', async () => {
+    const dataPath = (name: string) => path.join(TEST_ROOT, 'Documents', name);
+    const nestedPath = path.join(dataPath('script-skill'), 'skills');
+    const discoveryManager = new SkillDiscoveryManager();
+    discoveryManager.getSearchPaths = async () => [SKILLS_DIR, nestedPath];
+
+    const result = await handleRunScript(discoveryManager, new ConfigManager(CONFIG_PATH), {
+      skill_name: 'script-skill',
+      script: 'greet.sh',
+      args: [],
+      cwd: 'data',
+      timeout_seconds: 10,
+      max_output_bytes: 64 * 1024,
+      sandbox: 'none',
+    }, new SkillEnvironmentManager(dataPath), new SkillDataManager(dataPath));
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain(nestedPath);
+    expect(await fs.access(dataPath('script-skill')).then(() => true, () => false)).toBe(false);
+  });
+
+  describe('script-runner', () => {
+    it('should pick an interpreter from the extension', () => {
+      expect(getScriptCommand('/s/run.py', false)).toEqual(['python3', '/s/run.py']);
+      expect(getScriptCommand('/s/tool', true)).toEqual(['/s/tool']);
+      expect(getScriptCommand('/s/notes.txt', false)).toBeNull();
+    });
+
+    it('should let explicit values override inherited ones', () => {
+      expect(buildScriptEnv(['PATH'], { PATH: '/custom' })).toEqual({ PATH: '/custom' });
+    });
+
+    it('should mount the working directory writable and hide credentials', () => {
+      const args = buildBubblewrapArgs(['python3', 'run.py'], {
+        skillDir: '/home/me/skills/pdf',
+        cwd: '/home/me/Documents/pdf',
+        hidden: [{ path: '/home/me/.ssh', isDirectory: true }, { path: '/home/me/.netrc', isDirectory: false }],
+      });
+
+      expect(args.join(' ')).toBe([
+        '--ro-bind / / --dev /dev --proc /proc --tmpfs /tmp',
+        '--tmpfs /home/me/.ssh --ro-bind /dev/null /home/me/.netrc',
+        '--ro-bind /home/me/skills/pdf /home/me/skills/pdf --bind /home/me/Documents/pdf /home/me/Documents/pdf',
+        '--unshare-all --share-net --die-with-parent --new-session --chdir /home/me/Documents/pdf -- python3 run.py',
+      ].join(' '));
+    });
+  });
+});
@@ -0,0 +1,60 @@
+/**
+ * Tests for semantic version parsing and comparison
+ */
+
+import {
+  compareSemver,
+  formatSemver,
+  getVersionChange,
+  isChangeAllowed,
+  parseSemver,
+} from '../../src/utils/semver.js';
+
+/** Parse a version that is known to be valid */
+const v = (version: string) => parseSemver(version)!;
+
+describe('semver', () => {
+  describe('parseSemver', () => {
+    it('should parse releases, pre-releases and a v prefix', () => {
+      expect(parseSemver('1.2.3')).toEqual({ major: 1, minor: 2, patch: 3, prerelease: [] });
+      expect(parseSemver('v0.1.0-beta.2+build.5')).toEqual({ major: 0, minor: 1, patch: 0, prerelease: ['beta', '2'] });
+    });
+
+    it('should reject anything else', () => {
+      for (const version of ['1.2', '1.2.3.4', '01.2.3', 'latest', '']) {
+        expect(parseSemver(version)).toBeNull();
+      }
+    });
+  });
+
+  it('should format versions without prefix or build metadata', () => {
+    expect(formatSemver(v('v1.2.3-rc.1+abc'))).toBe('1.2.3-rc.1');
+  });
+
+  it('should order versions by semver precedence', () => {
+    const ordered = ['1.0.0-alpha', '1.0.0-alpha.1', '1.0.0-beta', '1.0.0-beta.2', '1.0.0-beta.11', '1.0.0', '1.0.1', '1.10.0', '2.0.0'];
+
+    for (let i = 1; i < ordered.length; i++) {
+      expect(compareSemver(v(ordered[i - 1]), v(ordered[i]))).toBeLessThan(0);
+    }
+    expect(compareSemver(v('v1.0.0'), v('1.0.0+build'))).toBe(0);
+  });
+
+  it('should classify version changes', () => {
+    expect(getVersionChange(v('1.2.3'), v('1.2.4'))).toBe('patch');
+    expect(getVersionChange(v('1.2.3'), v('1.3.0'))).toBe('minor');
+    expect(getVersionChange(v('1.2.3'), v('2.0.0'))).toBe('major');
+    expect(getVersionChange(v('1.2.3-beta'), v('1.2.3'))).toBe('patch');
+    expect(getVersionChange(v('1.2.3'), v('1.2.3'))).toBeNull();
+    expect(getVersionChange(v('1.2.3'), v('1.2.2'))).toBeNull();
+  });
+
+  it('should apply update policies', () => {
+    expect(isChangeAllowed('patch', 'patch')).toBe(true);
+    expect(isChangeAllowed('patch', 'minor')).toBe(false);
+    expect(isChangeAllowed('minor', 'minor')).toBe(true);
+    expect(isChangeAllowed('minor', 'major')).toBe(false);
+    expect(isChangeAllowed('major', 'major')).toBe(true);
+    expect(isChangeAllowed('any', 'major')).toBe(true);
+  });
+});
@@ -0,0 +1,41 @@
+import { parseServerOptions, DEFAULT_HTTP_HOST, DEFAULT_HTTP_PORT } from '../../src/server/options.js';
+
+describe('parseServerOptions', () => {
+  it('should default to stdio on loopback', () => {
+    const options = parseServerOptions([], {});
+
+    expect(options).toEqual({ transport: 'stdio', host: DEFAULT_HTTP_HOST, port: DEFAULT_HTTP_PORT });
+  });
+
+  it('should read CLI flags in both forms', () => {
+    const options = parseServerOptions(['--transport', 'http', '--port=8080', '--host', '0.0.0.0'], {});
+
+    expect(options.transport).toBe('http');
+    expect(options.port).toBe(8080);
+    expect(options.host).toBe('0.0.0.0');
+  });
+
+  it('should read environment variables', () => {
+    const options = parseServerOptions([], {
+      SKILLS_MCP_TRANSPORT: 'HTTP',
+      SKILLS_MCP_PORT: '4000',
+      SKILLS_MCP_AUTH_TOKEN: 'secret',
+    });
+
+    expect(options.transport).toBe('http');
+    expect(options.port).toBe(4000);
+    expect(options.authToken).toBe('secret');
+  });
+
+  it('should prefer CLI flags over environment variables', () => {
+    const options = parseServerOptions(['--transport', 'stdio'], { SKILLS_MCP_TRANSPORT: 'http' });
+
+    expect(options.transport).toBe('stdio');
+  });
+
+  it('should reject invalid values', () => {
+    expect(() => parseServerOptions(['--transport', 'sse'], {})).toThrow();
+    expect(() => parseServerOptions(['--port', 'abc'], {})).toThrow();
+    expect(() => parseServerOptions([], { SKILLS_MCP_PORT: '70000' })).toThrow();
+  });
+});
@@ -0,0 +1,156 @@
+/**
+ * Tests for managing skill data directories with skills_data
+ */
+
+import { execFile } from 'child_process';
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { promisify } from 'util';
+import { SkillDiscoveryManager } from '../../src/managers/skill-discovery.js';
+import { formatSize, SkillDataManager } from '../../src/managers/skill-data.js';
+import { ENVIRONMENT_STATE_FILENAME } from '../../src/managers/skill-environment.js';
+import { DataInput, handleData } from '../../src/tools/data.js';
+
+const execFileAsync = promisify(execFile);
+
+describe('SkillDataManager', () => {
+  const TEST_ROOT = path.join(os.tmpdir(), 'skills-mcp-data-' + Date.now());
+  const SKILLS_DIR = path.join(TEST_ROOT, 'skills');
+  const DATA_ROOT = path.join(TEST_ROOT, 'Documents');
+  const DATA_DIR = path.join(DATA_ROOT, 'data-skill');
+
+  const dataManager = new SkillDataManager(name => path.join(DATA_ROOT, name));
+  const discoveryManager = new SkillDiscoveryManager();
+  discoveryManager.getSearchPaths = async () => [SKILLS_DIR];
+
+  /** Run skills_data against the test data directory */
+  function run(options: Partial<DataInput> & Pick<DataInput, 'action'>) {
+    return handleData(discoveryManager, { skill_name: 'data-skill', confirm: false, ...options }, dataManager);
+  }
+
+  beforeEach(async () => {
+    await fs.mkdir(path.join(SKILLS_DIR, 'data-skill'), { recursive: true });
+    await fs.writeFile(
+      path.join(SKILLS_DIR, 'data-skill', 'SKILL.md'),
+      '---\nname: data-skill\ndescription: A skill with data\n---\n\n# Data\n'
+    );
+    await fs.mkdir(path.join(DATA_DIR, 'outputs'), { recursive: true });
+    await fs.writeFile(path.join(DATA_DIR, 'state.json'), JSON.stringify({ step: 2 }));
+    await fs.writeFile(path.join(DATA_DIR, 'outputs', 'draft.md'), '# Draft\n');
+  });
+
+  afterEach(async () => {
+    await fs.rm(TEST_ROOT, { recursive: true, force: true });
+  });
+
+  it('should report size, file count and state.json', async () => {
+    const info = await dataManager.getInfo('data-skill');
+
+    expect(info).toEqual({
+      path: DATA_DIR,
+      exists: true,
+      sizeBytes: '{"step":2}'.length + '# Draft\n'.length,
+      fileCount: 2,
+      state: { step: 2 },
+    });
+  });
+
+  it('should report unparseable state.json and missing directories', async () => {
+    await fs.writeFile(path.join(DATA_DIR, 'state.json'), '{ broken');
+
+    expect((await dataManager.getInfo('data-skill')).stateError).toBeDefined();
+    expect(await dataManager.getInfo('other-skill')).toEqual({
+      path: path.join(DATA_ROOT, 'other-skill'),
+      exists: false,
+      sizeBytes: 0,
+      fileCount: 0,
+    });
+  });
+
+  it('should export the data without skills_setup environments', async () => {
+    await fs.mkdir(path.join(DATA_DIR, 'venv', 'bin'), { recursive: true });
+    await fs.writeFile(path.join(DATA_DIR, 'venv', 'bin', 'python'), '');
+    await fs.writeFile(path.join(DATA_DIR, ENVIRONMENT_STATE_FILENAME), JSON.stringify({
+      setupAt: '2026-01-01T00:00:00.000Z',
+      manifests: {},
+      python: { venv: path.join(DATA_DIR, 'venv'), interpreter: path.join(DATA_DIR, 'venv', 'bin', 'python') },
+    }));
+    const archive = path.join(TEST_ROOT, 'export', 'data.tgz');
+
+    const result = await run({ action: 'export', output_path: archive });
+
+    expect(result.isError).toBeUndefined();
+    const { stdout } = await execFileAsync('tar', ['-tzf', archive]);
+    const entries = stdout.split('\n').filter(e => e && !e.endsWith('/')).sort();
+    expect(entries).toEqual(['data-skill/outputs/draft.md', 'data-skill/state.json']);
+  });
+
+  it('should refuse to export into the data directory', async () => {
+    const result = await run({ action: 'export', output_path: path.join(DATA_DIR, 'backup.tgz') });
+
+    expect(result.isError).toBe(true);
+  });
+
+  it('should only purge with confirm and keep the skill installed', async () => {
+    const refused = await run({ action: 'purge' });
+    expect(refused.isError).toBe(true);
+    expect((await dataManager.getInfo('data-skill')).exists).toBe(true);
+
+    const purged = await run({ action: 'purge', confirm: true });
+
+    expect(purged.structuredContent).toMatchObject({ installed: true, purged: true });
+    expect((await dataManager.getInfo('data-skill')).exists).toBe(false);
+    expect(await fs.access(path.join(SKILLS_DIR, 'data-skill', 'SKILL.md')).then(() => true)).toBe(true);
+  });
+
+  it('should manage data of skills that are no longer installed', async () => {
+    await fs.rm(path.join(SKILLS_DIR, 'data-skill'), { recursive: true });
+
+    const result = await run({ action: 'info' });
+
+    expect(result.structuredContent).toMatchObject({ installed: false, data: { exists: true } });
+  });
+
+  it('should only purge data of uninstalled skills that is marked or in the trash', async () => {
+    const documentsDir = path.join(DATA_ROOT, 'taxes');
+    await fs.mkdir(documentsDir, { recursive: true });
+    await fs.writeFile(path.join(documentsDir, 'return.pdf'), 'private');
+
+    const refused = await run({ action: 'purge', skill_name: 'taxes', confirm: true });
+
+    expect(refused.isError).toBe(true);
+    expect(refused.structuredContent).toMatchObject({ installed: false, purged: false });
+    expect(await fs.readFile(path.join(documentsDir, 'return.pdf'), 'utf-8')).toBe('private');
+
+    await fs.mkdir(path.join(SKILLS_DIR, '.trash', `taxes-${Date.now()}`), { recursive: true });
+    const trashed = await run({ action: 'purge', skill_name: 'taxes', confirm: true });
+    expect(trashed.structuredContent).toMatchObject({ installed: false, purged: true });
+
+    await fs.rm(path.join(SKILLS_DIR, 'data-skill'), { recursive: true });
+    const marked = await run({ action: 'purge', confirm: true });
+    expect(marked.structuredContent).toMatchObject({ installed: false, purged: true });
+  });
+
+  it('should refuse data directories that hold a skill search path', async () => {
+    const skillsPath = path.join(DATA_ROOT, 'skills');
+    await fs.mkdir(path.join(skillsPath, 'other-skill'), { recursive: true });
+    discoveryManager.getSearchPaths = async () => [SKILLS_DIR, skillsPath];
+
+    try {
+      const result = await run({ action: 'purge', skill_name: 'skills', confirm: true });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain(skillsPath);
+      expect(await fs.access(path.join(skillsPath, 'other-skill')).then(() => true)).toBe(true);
+    } finally {
+      discoveryManager.getSearchPaths = async () => [SKILLS_DIR];
+    }
+  });
+
+  it('should format sizes', () => {
+    expect(formatSize(512)).toBe('512 B');
+    expect(formatSize(2048)).toBe('2.0 KB');
+    expect(formatSize(5 * 1024 * 1024)).toBe('5.0 MB');
+  });
+});
@@ -0,0 +1,79 @@
+/**
+ * Tests for comparing two versions of a skill directory
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { diffFrontmatter, diffSkillDirectories } from '../../src/utils/skill-diff.js';
+
+/** Write files relative to a directory */
+async function writeFiles(dir: string, files: Record<string, string>): Promise<void> {
+  for (const [file, content] of Object.entries(files)) {
+    await fs.mkdir(path.dirname(path.join(dir, file)), { recursive: true });
+    await fs.writeFile(path.join(dir, file), content);
+  }
+}
+
+describe('diffFrontmatter', () => {
+  it('should report added, changed and removed fields', () => {
+    const changes = diffFrontmatter(
+      { name: 'pdf', description: 'Old', license: 'MIT' },
+      { name: 'pdf', description: 'New', 'allowed-tools': ['Bash'] }
+    );
+
+    expect(changes).toEqual([
+      { field: 'allowed-tools', after: ['Bash'] },
+      { field: 'description', before: 'Old', after: 'New' },
+      { field: 'license', before: 'MIT' },
+    ]);
+  });
+});
+
+describe('diffSkillDirectories', () => {
+  const TEST_ROOT = path.join(os.tmpdir(), 'skills-mcp-skill-diff-' + Date.now());
+  const CURRENT_DIR = path.join(TEST_ROOT, 'current');
+  const NEW_DIR = path.join(TEST_ROOT, 'new');
+
+  beforeEach(async () => {
+    await fs.rm(TEST_ROOT, { recursive: true, force: true });
+  });
+
+  afterAll(async () => {
+    await fs.rm(TEST_ROOT, { recursive: true, force: true });
+  });
+
+  it('should list file changes and frontmatter changes', async () => {
+    await writeFiles(CURRENT_DIR, {
+      'SKILL.md': '---\nname: pdf\ndescription: Old\n---\n\nBody\n',
+      'scripts/old.py': 'print("old")\n',
+      'reference.md': 'same\n',
+      '.skill-source.json': '{}',
+    });
+    await writeFiles(NEW_DIR, {
+      'SKILL.md': '---\nname: pdf\ndescription: New\n---\n\nBody\n',
+      'scripts/new.py': 'print("new")\n',
+      'reference.md': 'same\n',
+    });
+
+    expect(await diffSkillDirectories(CURRENT_DIR, NEW_DIR)).toEqual({
+      added: ['scripts/new.py'],
+      modified: ['SKILL.md'],
+      removed: ['scripts/old.py'],
+      frontmatter: [{ field: 'description', before: 'Old', after: 'New' }],
+    });
+  });
+
+  it('should report no changes for identical content', async () => {
+    const files = { 'SKILL.md': '---\nname: pdf\ndescription: Same\n---\n' };
+    await writeFiles(CURRENT_DIR, files);
+    await writeFiles(NEW_DIR, files);
+
+    expect(await diffSkillDirectories(CURRENT_DIR, NEW_DIR)).toEqual({
+      added: [],
+      modified: [],
+      removed: [],
+      frontmatter: [],
+    });
+  });
+});
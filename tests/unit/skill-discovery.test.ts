@@ -1,5 +1,8 @@
+import fs from 'fs/promises';
+import os from 'os';
 import path from 'path';
 import { SkillDiscoveryManager } from '../../src/managers/skill-discovery.js';
+import { ConfigManager } from '../../src/managers/config.js';
 import { InstalledSkill, SkillSource, SkillUpdateStatus } from '../../src/types/index.js';
 
 // Use fixtures directory for testing
@@ -104,6 +107,29 @@ describe('SkillDiscoveryManager', () => {
         expect(skill.location.startsWith(FIXTURES_DIR)).toBe(true);
       }
     });
+
+    it('should use the configured search paths and read-only flags', async () => {
+      const configDir = path.join(os.tmpdir(), 'skills-mcp-discovery-' + Date.now());
+      const configPath = path.join(configDir, 'config.json');
+      await fs.mkdir(configDir, { recursive: true });
+      await fs.writeFile(configPath, JSON.stringify({
+        version: '1.0',
+        marketplaces: [],
+        searchPaths: [{ path: FIXTURES_DIR, readOnly: true }, { path: configDir }],
+      }));
+
+      try {
+        const configured = new SkillDiscoveryManager(new ConfigManager(configPath));
+
+        expect(await configured.getSearchPaths()).toEqual([FIXTURES_DIR, configDir]);
+        expect((await configured.discoverAllSkills()).some(s => s.metadata.name === 'valid-skill')).toBe(true);
+        expect(await configured.isReadOnlyPath(FIXTURES_DIR)).toBe(true);
+        expect(await configured.isReadOnlyPath(configDir)).toBe(false);
+        expect(await configured.isReadOnlyPath('/usr/local/share/skills')).toBe(true);
+      } finally {
+        await fs.rm(configDir, { recursive: true, force: true });
+      }
+    });
   });
 
   describe('generateToolDescription', () => {
@@ -0,0 +1,149 @@
+/**
+ * Tests for provisioning skill environments with skills_setup
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { SkillDiscoveryManager } from '../../src/managers/skill-discovery.js';
+import { ConfigManager } from '../../src/managers/config.js';
+import {
+  ENVIRONMENT_STATE_FILENAME,
+  getEnvironmentVariables,
+  SkillEnvironmentManager,
+} from '../../src/managers/skill-environment.js';
+import { SkillDataManager } from '../../src/managers/skill-data.js';
+import { handleSetup } from '../../src/tools/setup.js';
+import { handleRunScript } from '../../src/tools/run-script.js';
+
+describe('SkillEnvironmentManager', () => {
+  const TEST_ROOT = path.join(os.tmpdir(), 'skills-mcp-env-' + Date.now());
+  const SKILLS_DIR = path.join(TEST_ROOT, 'skills');
+  const DATA_ROOT = path.join(TEST_ROOT, 'data');
+
+  const environmentManager = new SkillEnvironmentManager(name => path.join(DATA_ROOT, name));
+  const dataManager = new SkillDataManager(name => path.join(DATA_ROOT, name));
+  const discoveryManager = new SkillDiscoveryManager();
+  discoveryManager.getSearchPaths = async () => [SKILLS_DIR];
+
+  /** Create a skill with the given extra files */
+  async function createSkill(name: string, files: Record<string, string>): Promise<string> {
+    const skillDir = path.join(SKILLS_DIR, name);
+    await fs.mkdir(path.join(skillDir, 'scripts'), { recursive: true });
+    await fs.writeFile(path.join(skillDir, 'SKILL.md'), `---\nname: ${name}\ndescription: Test skill\n---\n\n# ${name}\n`);
+    for (const [file, content] of Object.entries(files)) {
+      await fs.writeFile(path.join(skillDir, file), content);
+    }
+    return skillDir;
+  }
+
+  /** Run skills_setup against the test data directory */
+  function setup(skillName: string, force = false) {
+    return handleSetup(discoveryManager, { skill_name: skillName, force, allow_install_scripts: false }, environmentManager, dataManager);
+  }
+
+  afterAll(async () => {
+    await fs.rm(TEST_ROOT, { recursive: true, force: true });
+  });
+
+  it('should report skills without manifests', async () => {
+    await createSkill('plain-skill', {});
+
+    const result = await setup('plain-skill');
+
+    expect(result.isError).toBeUndefined();
+    expect(result.structuredContent).toMatchObject({ status: 'nothing_to_setup', manifests: [] });
+    expect(await environmentManager.getState('plain-skill')).toBeNull();
+  });
+
+  it('should create a venv for requirements.txt and use it for scripts', async () => {
+    const skillDir = await createSkill('py-skill', {
+      'requirements.txt': '# no packages\n',
+      'scripts/where.py': 'import os, sys\nprint(sys.prefix)\nprint(os.environ["VIRTUAL_ENV"])\n',
+    });
+
+    const result = await setup('py-skill');
+
+    expect(result.isError).toBeUndefined();
+    expect(result.structuredContent).toMatchObject({ status: 'created', manifests: ['requirements.txt'] });
+
+    const state = await environmentManager.getState('py-skill');
+    const venv = path.join(DATA_ROOT, 'py-skill', 'venv');
+    expect(state?.python).toEqual({ venv, interpreter: path.join(venv, 'bin', 'python') });
+    expect(await environmentManager.isOutdated('py-skill', skillDir)).toBe(false);
+
+    const run = await handleRunScript(discoveryManager, new ConfigManager(path.join(TEST_ROOT, 'config.json')), {
+      skill_name: 'py-skill',
+      script: 'where.py',
+      args: [],
+      cwd: 'skill',
+      timeout_seconds: 30,
+      max_output_bytes: 64 * 1024,
+      sandbox: 'none',
+    }, environmentManager);
+
+    expect(run.structuredContent?.stdout).toBe(`${venv}\n${venv}\n`);
+  }, 120000);
+
+  it('should install package.json dependencies and skip up-to-date environments', async () => {
+    const skillDir = await createSkill('node-skill', {
+      'package.json': JSON.stringify({ name: 'node-skill', version: '1.0.0', private: true }),
+    });
+
+    expect((await setup('node-skill')).structuredContent).toMatchObject({ status: 'created' });
+    const state = await environmentManager.getState('node-skill');
+    expect(state?.node?.nodeModules).toBe(path.join(DATA_ROOT, 'node-skill', 'node', 'node_modules'));
+    expect(Object.keys(state?.manifests ?? {})).toEqual(['package.json']);
+
+    expect((await setup('node-skill')).structuredContent).toMatchObject({ status: 'up_to_date' });
+    expect((await setup('node-skill', true)).structuredContent).toMatchObject({ status: 'updated' });
+
+    await fs.writeFile(path.join(skillDir, 'package.json'), JSON.stringify({ name: 'node-skill', version: '1.1.0', private: true }));
+    expect(await environmentManager.isOutdated('node-skill', skillDir)).toBe(true);
+  }, 120000);
+
+  it('should report failed setups with the command output', async () => {
+    await createSkill('broken-skill', { 'package.json': '{ not json' });
+
+    const result = await setup('broken-skill');
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({ status: 'failed' });
+    expect(await fs.access(path.join(DATA_ROOT, 'broken-skill', ENVIRONMENT_STATE_FILENAME)).then(() => true, () => false)).toBe(false);
+  }, 120000);
+
+  it('should refuse data directories that hold a skill search path', async () => {
+    await createSkill('nested-skill', { 'requirements.txt': '' });
+    const nestedPath = path.join(DATA_ROOT, 'nested-skill', 'skills');
+    discoveryManager.getSearchPaths = async () => [SKILLS_DIR, nestedPath];
+
+    try {
+      const result = await setup('nested-skill');
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain(nestedPath);
+      expect(await environmentManager.getState('nested-skill')).toBeNull();
+    } finally {
+      discoveryManager.getSearchPaths = async () => [SKILLS_DIR];
+    }
+  });
+
+  it('should treat skills that were never set up as current', async () => {
+    const skillDir = await createSkill('fresh-skill', { 'requirements.txt': 'requests\n' });
+
+    expect(await environmentManager.isOutdated('fresh-skill', skillDir)).toBe(false);
+  });
+
+  it('should build the variables that activate an environment', () => {
+    expect(getEnvironmentVariables({
+      setupAt: '2026-01-01T00:00:00.000Z',
+      manifests: {},
+      python: { venv: '/data/venv', interpreter: '/data/venv/bin/python' },
+      node: { nodeModules: '/data/node/node_modules' },
+    }, '/usr/bin')).toEqual({
+      VIRTUAL_ENV: '/data/venv',
+      PATH: `/data/venv/bin${path.delimiter}/usr/bin`,
+      NODE_PATH: '/data/node/node_modules',
+    });
+  });
+});
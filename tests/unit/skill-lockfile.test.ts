@@ -0,0 +1,223 @@
+/**
+ * Tests for project-scoped installs, skills.lock.json and skills_sync
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { MarketplaceManager } from '../../src/managers/marketplace.js';
+import { MarketplaceCache } from '../../src/managers/marketplace-cache.js';
+import { ConfigManager } from '../../src/managers/config.js';
+import { SkillDiscoveryManager } from '../../src/managers/skill-discovery.js';
+import { LOCKFILE_FILENAME, SkillLockfileManager } from '../../src/managers/skill-lockfile.js';
+import { handleInstall, InstallInputSchema } from '../../src/tools/install.js';
+import { handleSync, SyncInputSchema } from '../../src/tools/sync.js';
+import { handleUninstall } from '../../src/tools/uninstall.js';
+import { getProjectForSkill } from '../../src/utils/paths.js';
+
+/** SKILL.md for a test skill */
+function skillMd(name: string, body = `# ${name}\n`): string {
+  return `---\nname: ${name}\ndescription: A project skill\n---\n\n${body}`;
+}
+
+describe('project skills', () => {
+  const TEST_ROOT = path.join(os.tmpdir(), 'skills-mcp-lockfile-' + Date.now());
+  const MARKETPLACE_DIR = path.join(TEST_ROOT, 'marketplace');
+  const PROJECT_DIR = path.join(TEST_ROOT, 'project');
+  const SKILLS_DIR = path.join(PROJECT_DIR, '.claude', 'skills');
+  const CONFIG_PATH = path.join(TEST_ROOT, 'config.json');
+
+  const configManager = new ConfigManager(CONFIG_PATH);
+  const discoveryManager = new SkillDiscoveryManager();
+  discoveryManager.getSearchPaths = async () => [SKILLS_DIR];
+  const lockManager = new SkillLockfileManager(PROJECT_DIR);
+
+  /** Marketplace manager with a fresh cache, as on another machine */
+  function marketplaceManager(): MarketplaceManager {
+    return new MarketplaceManager(configManager, new MarketplaceCache(path.join(TEST_ROOT, 'cache', String(Math.random()))));
+  }
+
+  /** Install a marketplace skill into the test project */
+  function install(skillName: string) {
+    return handleInstall(
+      discoveryManager,
+      marketplaceManager(),
+      configManager,
+      InstallInputSchema.parse({ skill_name: skillName, scope: 'project', project_dir: PROJECT_DIR })
+    );
+  }
+
+  /** Run skills_sync against the test project */
+  function sync(options: Record<string, unknown> = {}) {
+    return handleSync(marketplaceManager(), configManager, SyncInputSchema.parse({ project_dir: PROJECT_DIR, ...options }));
+  }
+
+  beforeEach(async () => {
+    for (const name of ['alpha', 'beta']) {
+      await fs.mkdir(path.join(MARKETPLACE_DIR, name), { recursive: true });
+      await fs.writeFile(path.join(MARKETPLACE_DIR, name, 'SKILL.md'), skillMd(name));
+    }
+    await fs.mkdir(PROJECT_DIR, { recursive: true });
+    await fs.writeFile(CONFIG_PATH, JSON.stringify({ version: '1.0', marketplaces: [MARKETPLACE_DIR] }));
+  });
+
+  afterEach(async () => {
+    await fs.rm(TEST_ROOT, { recursive: true, force: true });
+  });
+
+  it('should install into the project and record the skill in the lockfile', async () => {
+    const result = await install('alpha');
+
+    expect(result.isError).toBeUndefined();
+    expect(result.structuredContent).toMatchObject({ scope: 'project', lockfile: path.join(PROJECT_DIR, LOCKFILE_FILENAME) });
+    expect(await fs.readFile(path.join(SKILLS_DIR, 'alpha', 'SKILL.md'), 'utf-8')).toBe(skillMd('alpha'));
+
+    const lockfile = await lockManager.read();
+    expect(Object.keys(lockfile?.skills ?? {})).toEqual(['alpha']);
+    expect(lockfile?.skills.alpha).toMatchObject({ marketplace: MARKETPLACE_DIR, path: 'alpha', revisionType: 'content' });
+    expect(lockfile?.skills.alpha.commit).toBeTruthy();
+  });
+
+  it('should install and lock dependencies that are only installed for the user', async () => {
+    const userSkillsDir = path.join(TEST_ROOT, 'user-skills');
+    await fs.mkdir(path.join(userSkillsDir, 'alpha'), { recursive: true });
+    await fs.writeFile(path.join(userSkillsDir, 'alpha', 'SKILL.md'), skillMd('alpha'));
+    await fs.mkdir(path.join(MARKETPLACE_DIR, 'gamma'), { recursive: true });
+    await fs.writeFile(
+      path.join(MARKETPLACE_DIR, 'gamma', 'SKILL.md'),
+      '---\nname: gamma\ndescription: A project skill\ndependencies:\n  - alpha\n---\n\n# gamma\n'
+    );
+    discoveryManager.getSearchPaths = async () => [SKILLS_DIR, userSkillsDir];
+
+    try {
+      const result = await install('gamma');
+
+      expect(result.isError).toBeUndefined();
+      expect(result.structuredContent).toMatchObject({ dependencies: { installed: ['alpha'], satisfied: [] } });
+      expect(await fs.readFile(path.join(SKILLS_DIR, 'alpha', 'SKILL.md'), 'utf-8')).toBe(skillMd('alpha'));
+      expect(Object.keys((await lockManager.read())?.skills ?? {}).sort()).toEqual(['alpha', 'gamma']);
+    } finally {
+      discoveryManager.getSearchPaths = async () => [SKILLS_DIR];
+    }
+  });
+
+  it('should remove the installed skill when recording it fails', async () => {
+    await fs.writeFile(lockManager.lockfilePath, '{ broken');
+
+    const result = await install('alpha');
+
+    expect(result.isError).toBe(true);
+    expect(await fs.access(path.join(SKILLS_DIR, 'alpha')).then(() => true, () => false)).toBe(false);
+  });
+
+  it('should install exactly what the lockfile lists on a fresh checkout', async () => {
+    await install('alpha');
+    await install('beta');
+    await fs.rm(SKILLS_DIR, { recursive: true });
+
+    const result = await sync();
+
+    expect(result.isError).toBeUndefined();
+    expect(result.structuredContent).toMatchObject({ summary: { installed: 2, failed: 0 } });
+    expect(await fs.readFile(path.join(SKILLS_DIR, 'beta', 'SKILL.md'), 'utf-8')).toBe(skillMd('beta'));
+
+    const again = await sync();
+    expect(again.structuredContent).toMatchObject({ summary: { installed: 0, unchanged: 2 } });
+  });
+
+  it('should refuse content that no longer matches the lockfile', async () => {
+    await install('alpha');
+    await fs.rm(SKILLS_DIR, { recursive: true });
+    await fs.writeFile(path.join(MARKETPLACE_DIR, 'alpha', 'SKILL.md'), skillMd('alpha', '# Changed upstream\n'));
+
+    const result = await sync();
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({ summary: { installed: 0, failed: 1 } });
+    expect(result.content[0].text).toContain('not the locked');
+    expect(await fs.access(path.join(SKILLS_DIR, 'alpha')).then(() => true, () => false)).toBe(false);
+  });
+
+  it('should refuse lockfile entries whose path leaves the marketplace', async () => {
+    await fs.mkdir(path.join(TEST_ROOT, 'outside'), { recursive: true });
+    await fs.writeFile(path.join(TEST_ROOT, 'outside', 'SKILL.md'), skillMd('outside'));
+    const entry = { marketplace: MARKETPLACE_DIR, commit: 'abc123', revisionType: 'content' };
+    await fs.writeFile(lockManager.lockfilePath, JSON.stringify({
+      lockfileVersion: 1,
+      skills: {
+        'dot-dot': { ...entry, path: '../outside' },
+        absolute: { ...entry, path: path.join(TEST_ROOT, 'outside') },
+      },
+    }));
+
+    const result = await sync();
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({ summary: { installed: 0, failed: 2 } });
+    expect(result.content[0].text).toContain('path must be relative to the marketplace');
+    expect(await fs.readdir(SKILLS_DIR)).toEqual([]);
+  });
+
+  it('should keep locally edited skills unless forced', async () => {
+    await install('alpha');
+    const lockfile = await lockManager.read();
+    lockfile!.skills.alpha.commit = 'outdated';
+    await fs.writeFile(lockManager.lockfilePath, JSON.stringify(lockfile));
+    await fs.writeFile(path.join(SKILLS_DIR, 'alpha', 'notes.md'), 'mine\n');
+
+    const result = await sync();
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toMatchObject({ summary: { conflicts: 1 } });
+    expect(await fs.readFile(path.join(SKILLS_DIR, 'alpha', 'notes.md'), 'utf-8')).toBe('mine\n');
+  });
+
+  it('should report skills missing from the lockfile and prune them on request', async () => {
+    await install('alpha');
+    await fs.mkdir(path.join(SKILLS_DIR, 'stray'), { recursive: true });
+    await fs.writeFile(path.join(SKILLS_DIR, 'stray', 'SKILL.md'), skillMd('stray'));
+
+    const dryRun = await sync({ prune: true, dry_run: true });
+    expect(dryRun.structuredContent).toMatchObject({ summary: { pruned: 1 } });
+    expect(await fs.access(path.join(SKILLS_DIR, 'stray')).then(() => true, () => false)).toBe(true);
+
+    const reported = await sync();
+    expect(reported.structuredContent).toMatchObject({ summary: { extra: 1 } });
+
+    await sync({ prune: true });
+    expect(await fs.access(path.join(SKILLS_DIR, 'stray')).then(() => true, () => false)).toBe(false);
+    expect(await fs.access(path.join(SKILLS_DIR, 'alpha')).then(() => true, () => false)).toBe(true);
+  });
+
+  it('should treat skills named like object properties as missing from the lockfile', async () => {
+    await install('alpha');
+    await fs.mkdir(path.join(SKILLS_DIR, 'constructor'), { recursive: true });
+
+    const reported = await sync();
+
+    expect(reported.structuredContent).toMatchObject({ summary: { extra: 1 } });
+    expect(await lockManager.unlock('constructor')).toBe(false);
+  });
+
+  it('should remove uninstalled skills from the lockfile', async () => {
+    await install('alpha');
+    await install('beta');
+
+    const result = await handleUninstall(discoveryManager, { skill_name: 'alpha' });
+
+    expect(result.isError).toBeUndefined();
+    expect(Object.keys((await lockManager.read())?.skills ?? {})).toEqual(['beta']);
+  });
+
+  it('should report a missing lockfile', async () => {
+    const result = await sync();
+
+    expect(result.isError).toBe(true);
+    expect(result.content[0].text).toContain(LOCKFILE_FILENAME);
+  });
+
+  it('should find the project of a project-scoped skill', () => {
+    expect(getProjectForSkill(path.join(SKILLS_DIR, 'alpha'))).toBe(PROJECT_DIR);
+    expect(getProjectForSkill(path.join(TEST_ROOT, 'skills', 'alpha'))).toBeNull();
+  });
+});
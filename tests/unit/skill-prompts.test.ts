@@ -0,0 +1,106 @@
+/**
+ * Tests for skill prompts (one MCP prompt per installed skill)
+ */
+
+import path from 'path';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import {
+  getSkillPromptArguments,
+  handleGetSkillPrompt,
+  registerSkillPrompts,
+} from '../../src/prompts/skill-prompts.js';
+import { InstalledSkill } from '../../src/types/index.js';
+
+const FIXTURES_DIR = path.join(process.cwd(), 'tests', 'fixtures', 'skills');
+
+function fixtureSkill(name: string, metadata?: Record<string, unknown>, isValid = true): InstalledSkill {
+  return {
+    metadata: { name, description: `The ${name} fixture`, ...(metadata ? { metadata } : {}) },
+    location: path.join(FIXTURES_DIR, name),
+    hasScripts: false,
+    hasReferences: false,
+    hasAssets: false,
+    isValid,
+  };
+}
+
+describe('skill prompts', () => {
+  describe('getSkillPromptArguments', () => {
+    it('should return empty array when no arguments are declared', () => {
+      expect(getSkillPromptArguments({ name: 'a', description: 'b' })).toEqual([]);
+    });
+
+    it('should accept string and object argument declarations', () => {
+      const args = getSkillPromptArguments({
+        name: 'a',
+        description: 'b',
+        metadata: {
+          arguments: [
+            'topic',
+            { name: 'tone', description: 'Writing tone', required: true },
+          ],
+        },
+      });
+
+      expect(args).toEqual([
+        { name: 'topic', required: false },
+        { name: 'tone', description: 'Writing tone', required: true },
+      ]);
+    });
+
+    it('should skip invalid and duplicate argument names', () => {
+      const args = getSkillPromptArguments({
+        name: 'a',
+        description: 'b',
+        metadata: { arguments: ['ok', 'has space', { description: 'no name' }, 'ok'] },
+      });
+
+      expect(args.map(a => a.name)).toEqual(['ok']);
+    });
+  });
+
+  describe('handleGetSkillPrompt', () => {
+    it('should build a user message from the SKILL.md body', async () => {
+      const result = await handleGetSkillPrompt(fixtureSkill('valid-skill'), {});
+
+      expect(result.messages).toHaveLength(1);
+      expect(result.messages[0].role).toBe('user');
+      const content = result.messages[0].content as { type: string; text: string };
+      expect(content.text).toContain('# Valid Skill');
+      expect(content.text).not.toContain('description: A valid test skill');
+    });
+  });
+
+  describe('registerSkillPrompts', () => {
+    it('should register one prompt per valid skill with declared arguments', async () => {
+      const server = new McpServer({ name: 'test', version: '0.0.0' });
+      const prompts = registerSkillPrompts(server, [
+        fixtureSkill('valid-skill', { arguments: [{ name: 'topic', required: true }] }),
+        fixtureSkill('invalid-skill', undefined, false),
+      ]);
+
+      expect(Array.from(prompts.keys())).toEqual(['valid-skill']);
+
+      const client = new Client({ name: 'test-client', version: '0.0.0' });
+      const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+      await server.connect(serverTransport);
+      await client.connect(clientTransport);
+
+      const { prompts: listed } = await client.listPrompts();
+      expect(listed).toHaveLength(1);
+      expect(listed[0].name).toBe('valid-skill');
+      expect(listed[0].arguments).toEqual([
+        expect.objectContaining({ name: 'topic', required: true }),
+      ]);
+
+      const result = await client.getPrompt({ name: 'valid-skill', arguments: { topic: 'testing' } });
+      const content = result.messages[0].content as { type: string; text: string };
+      expect(content.text).toContain('- topic: testing');
+
+      await client.close();
+      await server.close();
+    });
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Tests for skill file resources (skill://{name}/{+path})
+ */
+
+import path from 'path';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { SkillDiscoveryManager } from '../../src/managers/skill-discovery.js';
+import {
+  buildSkillResourceUri,
+  handleListSkillResources,
+  handleReadSkillResource,
+  completeSkillNames,
+} from '../../src/resources/skill-files.js';
+
+const FIXTURES_DIR = path.join(process.cwd(), 'tests', 'fixtures', 'skills');
+
+describe('skill file resources', () => {
+  let manager: SkillDiscoveryManager;
+
+  beforeEach(() => {
+    manager = new SkillDiscoveryManager();
+    manager.getSearchPaths = async () => [FIXTURES_DIR];
+  });
+
+  describe('buildSkillResourceUri', () => {
+    it('should encode each path segment', () => {
+      expect(buildSkillResourceUri('my-skill', 'references/my file.md'))
+        .toBe('skill://my-skill/references/my%20file.md');
+    });
+  });
+
+  describe('handleListSkillResources', () => {
+    it('should list SKILL.md and nested files with MIME types', async () => {
+      const { resources } = await handleListSkillResources(manager);
+
+      const skillMd = resources.find(r => r.uri === 'skill://skill-with-references/SKILL.md');
+      expect(skillMd).toBeDefined();
+      expect(skillMd!.mimeType).toBe('text/markdown');
+
+      const reference = resources.find(r => r.uri === 'skill://skill-with-references/references/REFERENCE.md');
+      expect(reference).toBeDefined();
+
+      const script = resources.find(r => r.uri === 'skill://skill-with-scripts/scripts/example.py');
+      expect(script!.mimeType).toBe('text/x-python');
+    });
+
+    it('should skip hidden files', async () => {
+      const { resources } = await handleListSkillResources(manager);
+
+      expect(resources.some(r => r.uri.includes('.gitkeep'))).toBe(false);
+    });
+
+    it('should not list files of invalid skills', async () => {
+      const { resources } = await handleListSkillResources(manager);
+
+      expect(resources.some(r => r.uri.startsWith('skill://invalid-skill/'))).toBe(false);
+    });
+  });
+
+  describe('handleReadSkillResource', () => {
+    it('should read a reference file as text', async () => {
+      const uri = new URL('skill://skill-with-references/references/REFERENCE.md');
+      const result = await handleReadSkillResource(manager, uri, 'skill-with-references', 'references/REFERENCE.md');
+
+      expect(result.contents).toHaveLength(1);
+      expect(result.contents[0].mimeType).toBe('text/markdown');
+      expect(typeof result.contents[0].text).toBe('string');
+    });
+
+    it('should reject path traversal outside the skill directory', async () => {
+      const uri = new URL('skill://valid-skill/x');
+
+      await expect(
+        handleReadSkillResource(manager, uri, 'valid-skill', '../skill-with-scripts/SKILL.md')
+      ).rejects.toThrow(McpError);
+      await expect(
+        handleReadSkillResource(manager, uri, 'valid-skill', '%2e%2e/skill-with-scripts/SKILL.md')
+      ).rejects.toThrow(McpError);
+    });
+
+    it('should reject unknown skills and missing files', async () => {
+      const uri = new URL('skill://missing/SKILL.md');
+
+      await expect(handleReadSkillResource(manager, uri, 'missing', 'SKILL.md')).rejects.toThrow(McpError);
+      await expect(handleReadSkillResource(manager, uri, 'valid-skill', 'nope.md')).rejects.toThrow(McpError);
+    });
+  });
+
+  describe('completeSkillNames', () => {
+    it('should complete skill names by prefix', async () => {
+      const names = await completeSkillNames(manager, 'skill-with-');
+
+      expect(names).toContain('skill-with-scripts');
+      expect(names).not.toContain('valid-skill');
+    });
+  });
+});
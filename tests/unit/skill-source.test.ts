@@ -69,6 +69,27 @@ describe('SkillSourceManager', () => {
 
       expect(source.branch).toBeUndefined();
     });
+
+    it('should include revision type when provided', () => {
+      const source = manager.createSource('/srv/skills', 'pdf-helper', 'e3b0c442', undefined, 'content');
+
+      expect(source.revisionType).toBe('content');
+      expect(source.branch).toBeUndefined();
+    });
+
+    it('should record a pin when provided', () => {
+      const source = manager.createSource(
+        'https://github.com/anthropics/skills/tree/main/skills',
+        'pdf-helper',
+        'abc123',
+        'v1.2.0',
+        undefined,
+        'v1.2.0'
+      );
+
+      expect(source.pin).toBe('v1.2.0');
+      expect(manager.createSource('/srv/skills', 'pdf-helper', 'abc123').pin).toBeUndefined();
+    });
   });
 
   describe('saveSource and getSource', () => {
@@ -157,4 +178,47 @@ describe('SkillSourceManager', () => {
       expect(result).toBe(false);
     });
   });
+
+  describe('createManifest and getLocalChanges', () => {
+    it('should hash every file except the source tracking file', async () => {
+      const skillPath = path.join(TEST_DIR, 'manifest-skill');
+      await fs.promises.mkdir(path.join(skillPath, 'scripts'), { recursive: true });
+      await fs.promises.writeFile(path.join(skillPath, 'SKILL.md'), 'content');
+      await fs.promises.writeFile(path.join(skillPath, 'scripts', 'run.sh'), 'echo hi');
+      await fs.promises.writeFile(path.join(skillPath, '.skill-source.json'), '{}');
+
+      const manifest = await manager.createManifest(skillPath);
+
+      expect(Object.keys(manifest)).toEqual(['SKILL.md', 'scripts/run.sh']);
+    });
+
+    it('should report files modified, added and removed since install', async () => {
+      const skillPath = path.join(TEST_DIR, 'edited-skill');
+      await fs.promises.mkdir(skillPath, { recursive: true });
+      await fs.promises.writeFile(path.join(skillPath, 'SKILL.md'), 'original');
+      await fs.promises.writeFile(path.join(skillPath, 'notes.md'), 'notes');
+      const source = {
+        ...manager.createSource('https://github.com/test/repo', 'edited-skill', 'abc123'),
+        files: await manager.createManifest(skillPath),
+      };
+
+      expect(await manager.getLocalChanges(skillPath, source)).toEqual({ modified: [], added: [], removed: [] });
+
+      await fs.promises.writeFile(path.join(skillPath, 'SKILL.md'), 'edited');
+      await fs.promises.rm(path.join(skillPath, 'notes.md'));
+      await fs.promises.writeFile(path.join(skillPath, 'extra.md'), 'extra');
+
+      expect(await manager.getLocalChanges(skillPath, source)).toEqual({
+        modified: ['SKILL.md'],
+        added: ['extra.md'],
+        removed: ['notes.md'],
+      });
+    });
+
+    it('should return null for sources without a manifest', async () => {
+      const source = manager.createSource('https://github.com/test/repo', 'old-skill', 'abc123');
+
+      expect(await manager.getLocalChanges(TEST_DIR, source)).toBeNull();
+    });
+  });
 });
@@ -0,0 +1,106 @@
+/**
+ * Tests for the skill search path watcher
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { SkillWatcher } from '../../src/managers/skill-watcher.js';
+
+const SKILL_MD = `---
+name: watched-skill
+description: A skill created while watching
+---
+`;
+
+/** Wait for a condition to become true, polling every 20ms */
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const start = Date.now();
+  while (!condition()) {
+    if (Date.now() - start > timeoutMs) {
+      throw new Error('Timed out waiting for condition');
+    }
+    await new Promise(resolve => setTimeout(resolve, 20));
+  }
+}
+
+describe('SkillWatcher', () => {
+  const TEST_ROOT = path.join(os.tmpdir(), 'skills-mcp-watch-' + Date.now());
+  const SEARCH_PATH = path.join(TEST_ROOT, 'skills');
+  let watcher: SkillWatcher | null = null;
+
+  beforeEach(async () => {
+    await fs.mkdir(TEST_ROOT, { recursive: true });
+  });
+
+  afterEach(async () => {
+    watcher?.stop();
+    watcher = null;
+    try {
+      await fs.rm(TEST_ROOT, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  it('should call onChange once for a burst of changes', async () => {
+    await fs.mkdir(SEARCH_PATH, { recursive: true });
+    let calls = 0;
+    watcher = new SkillWatcher(async () => [SEARCH_PATH], async () => { calls++; }, 50);
+    await watcher.start();
+
+    await fs.mkdir(path.join(SEARCH_PATH, 'watched-skill'));
+    await fs.writeFile(path.join(SEARCH_PATH, 'watched-skill', 'SKILL.md'), SKILL_MD);
+
+    await waitFor(() => calls > 0);
+    await new Promise(resolve => setTimeout(resolve, 150));
+    expect(calls).toBe(1);
+  });
+
+  it('should detect edits inside an existing skill directory', async () => {
+    await fs.mkdir(path.join(SEARCH_PATH, 'watched-skill'), { recursive: true });
+    await fs.writeFile(path.join(SEARCH_PATH, 'watched-skill', 'SKILL.md'), SKILL_MD);
+    let calls = 0;
+    watcher = new SkillWatcher(async () => [SEARCH_PATH], async () => { calls++; }, 50);
+    await watcher.start();
+
+    await fs.writeFile(path.join(SEARCH_PATH, 'watched-skill', 'SKILL.md'), SKILL_MD + '\n# Edited\n');
+
+    await waitFor(() => calls > 0);
+  });
+
+  it('should detect a search path that is created after start', async () => {
+    let calls = 0;
+    watcher = new SkillWatcher(async () => [SEARCH_PATH], async () => { calls++; }, 50);
+    await watcher.start();
+
+    await fs.mkdir(SEARCH_PATH);
+
+    await waitFor(() => calls > 0);
+  });
+
+  it('should ignore hidden entries', async () => {
+    await fs.mkdir(SEARCH_PATH, { recursive: true });
+    let calls = 0;
+    watcher = new SkillWatcher(async () => [SEARCH_PATH], async () => { calls++; }, 50);
+    await watcher.start();
+
+    await fs.mkdir(path.join(SEARCH_PATH, '.trash'));
+
+    await new Promise(resolve => setTimeout(resolve, 200));
+    expect(calls).toBe(0);
+  });
+
+  it('should not call onChange after stop', async () => {
+    await fs.mkdir(SEARCH_PATH, { recursive: true });
+    let calls = 0;
+    watcher = new SkillWatcher(async () => [SEARCH_PATH], async () => { calls++; }, 50);
+    await watcher.start();
+    watcher.stop();
+
+    await fs.mkdir(path.join(SEARCH_PATH, 'late-skill'));
+
+    await new Promise(resolve => setTimeout(resolve, 200));
+    expect(calls).toBe(0);
+  });
+});
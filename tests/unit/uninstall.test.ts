@@ -0,0 +1,118 @@
+/**
+ * Tests for skills_uninstall tool
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import os from 'os';
+import { SkillDiscoveryManager } from '../../src/managers/skill-discovery.js';
+import { handleUninstall, UninstallInputSchema } from '../../src/tools/uninstall.js';
+
+const SKILL_MD = `---
+name: removable-skill
+description: A skill that will be uninstalled
+---
+
+# Removable Skill
+`;
+
+describe('skills_uninstall tool', () => {
+  const TEST_ROOT = path.join(os.tmpdir(), 'skills-mcp-uninstall-' + Date.now());
+  let manager: SkillDiscoveryManager;
+
+  beforeEach(async () => {
+    await fs.mkdir(path.join(TEST_ROOT, 'removable-skill'), { recursive: true });
+    await fs.writeFile(path.join(TEST_ROOT, 'removable-skill', 'SKILL.md'), SKILL_MD);
+
+    manager = new SkillDiscoveryManager();
+    manager.getSearchPaths = async () => [TEST_ROOT];
+  });
+
+  afterEach(async () => {
+    try {
+      await fs.rm(TEST_ROOT, { recursive: true, force: true });
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  describe('UninstallInputSchema', () => {
+    it('should require a skill name', () => {
+      expect(UninstallInputSchema.safeParse({}).success).toBe(false);
+      expect(UninstallInputSchema.safeParse({ skill_name: 'pdf-helper' }).success).toBe(true);
+    });
+  });
+
+  describe('handleUninstall', () => {
+    it('should move the skill into the trash directory', async () => {
+      const result = await handleUninstall(manager, { skill_name: 'removable-skill' });
+
+      expect(result.isError).toBeUndefined();
+      const trashLocation = result.structuredContent!.trashLocation as string;
+      expect(trashLocation.startsWith(path.join(TEST_ROOT, '.trash'))).toBe(true);
+
+      await expect(fs.access(path.join(TEST_ROOT, 'removable-skill'))).rejects.toThrow();
+      await expect(fs.access(path.join(trashLocation, 'SKILL.md'))).resolves.toBeUndefined();
+    });
+
+    it('should no longer discover the skill after removal', async () => {
+      await handleUninstall(manager, { skill_name: 'removable-skill' });
+
+      const skills = await manager.discoverAllSkills();
+      expect(skills.find(s => s.metadata.name === 'removable-skill')).toBeUndefined();
+    });
+
+    it('should warn about skills that depend on the removed skill', async () => {
+      await fs.mkdir(path.join(TEST_ROOT, 'report-skill'), { recursive: true });
+      await fs.writeFile(
+        path.join(TEST_ROOT, 'report-skill', 'SKILL.md'),
+        '---\nname: report-skill\ndescription: Builds reports\ndependencies:\n  - removable-skill\n---\n'
+      );
+
+      const result = await handleUninstall(manager, { skill_name: 'removable-skill' });
+
+      expect(result.structuredContent!.dependents).toEqual(['report-skill']);
+      expect(result.content[0].text).toContain('Still needed by: report-skill');
+    });
+
+    it('should return error when skill is not installed', async () => {
+      const result = await handleUninstall(manager, { skill_name: 'missing-skill' });
+
+      expect(result.isError).toBe(true);
+    });
+
+    it('should refuse to remove skills outside the search paths', async () => {
+      manager.getSearchPaths = async () => [path.join(TEST_ROOT, 'other')];
+      manager.discoverAllSkills = async () => [{
+        metadata: { name: 'removable-skill', description: 'Elsewhere' },
+        location: path.join(TEST_ROOT, 'removable-skill'),
+        hasScripts: false,
+        hasReferences: false,
+        hasAssets: false,
+        isValid: true,
+      }];
+
+      const result = await handleUninstall(manager, { skill_name: 'removable-skill' });
+
+      expect(result.isError).toBe(true);
+      await expect(fs.access(path.join(TEST_ROOT, 'removable-skill'))).resolves.toBeUndefined();
+    });
+
+    it('should refuse to remove skills from read-only search paths', async () => {
+      manager.getSearchPaths = async () => ['/usr/local/share/skills'];
+      manager.discoverAllSkills = async () => [{
+        metadata: { name: 'system-skill', description: 'System-wide skill' },
+        location: '/usr/local/share/skills/system-skill',
+        hasScripts: false,
+        hasReferences: false,
+        hasAssets: false,
+        isValid: true,
+      }];
+
+      const result = await handleUninstall(manager, { skill_name: 'system-skill' });
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('read-only');
+    });
+  });
+});
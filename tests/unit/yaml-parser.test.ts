@@ -231,6 +231,61 @@ Body content.
       expect(result.data!.description).toContain('spans multiple lines');
     });
 
+    it('should normalize dependencies given as names or objects', () => {
+      const content = `---
+name: report-skill
+description: Builds reports
+dependencies:
+  - pdf-helper
+  - name: chart-maker
+    version: "2.0.0"
+    marketplace: https://github.com/acme/skills
+---
+`;
+      const result = parseSkillFrontmatter(content);
+
+      expect(result.success).toBe(true);
+      expect(result.data!.dependencies).toEqual([
+        { name: 'pdf-helper' },
+        { name: 'chart-maker', version: '2.0.0', marketplace: 'https://github.com/acme/skills' },
+      ]);
+    });
+
+    it('should reject invalid dependencies', () => {
+      const parse = (dependencies: string) => parseSkillFrontmatter(
+        `---\nname: report-skill\ndescription: Builds reports\ndependencies: ${dependencies}\n---\n`
+      );
+
+      expect(parse('pdf-helper').error).toBe('dependencies must be a list');
+      expect(parse('[Bad_Name]').error).toContain('dependencies[0]: name must contain only');
+      expect(parse('[{name: pdf-helper, version: 2}]').error).toBe('dependencies[0].version must be a non-empty string');
+      expect(parse('[pdf-helper, pdf-helper]').error).toBe('dependencies lists "pdf-helper" more than once');
+      expect(parse('[report-skill]').error).toBe('a skill cannot depend on itself');
+    });
+
+    it('should read a semantic version from version or metadata.version', () => {
+      const parse = (fields: string) => parseSkillFrontmatter(
+        `---\nname: versioned-skill\ndescription: Has a version\n${fields}\n---\n`
+      );
+
+      expect(parse('version: "v1.2.0"').data!.version).toBe('1.2.0');
+      expect(parse('metadata:\n  version: "0.3.1-beta.2"').data!.version).toBe('0.3.1-beta.2');
+      expect(parse('metadata:\n  version: "draft"').data!.version).toBeUndefined();
+    });
+
+    it('should keep skills whose version is not a semantic version', () => {
+      const parse = (fields: string) => parseSkillFrontmatter(
+        `---\nname: versioned-skill\ndescription: Has a version\n${fields}\n---\n`
+      );
+
+      for (const fields of ['version: 1.0', 'version: "1.0"', 'version: draft']) {
+        const result = parse(fields);
+        expect(result.success).toBe(true);
+        expect(result.data!.version).toBeUndefined();
+      }
+      expect(parse('version: 1.0\nmetadata:\n  version: "2.1.0"').data!.version).toBe('2.1.0');
+    });
+
     it('should handle invalid YAML syntax gracefully', () => {
       const content = `---
 name: test-skill